@@ -0,0 +1,36 @@
+-- Письма и вложения (исходная схема сервиса)
+
+CREATE TABLE IF NOT EXISTS "emails" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "from" text NOT NULL,
+  "display_name" text NOT NULL,
+  "to" text[] NOT NULL,
+  cc text[] NOT NULL DEFAULT '{}',
+  bcc text[] NOT NULL DEFAULT '{}',
+  subject text NOT NULL,
+  body text NOT NULL,
+  html text,
+  status text NOT NULL,
+  error text,
+  "sent_at" timestamptz,
+  "created_at" timestamptz NOT NULL DEFAULT NOW(),
+  "updated_at" timestamptz NOT NULL DEFAULT NOW(),
+  "deleted_at" timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS "emails_status_idx" ON "emails" (status);
+CREATE INDEX IF NOT EXISTS "emails_created_at_idx" ON "emails" ("created_at");
+
+CREATE TABLE IF NOT EXISTS "attachments" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "email_id" uuid NOT NULL REFERENCES "emails" (id),
+  filename text NOT NULL,
+  "original_name" text NOT NULL,
+  mimetype text NOT NULL,
+  size integer NOT NULL,
+  path text NOT NULL,
+  url text,
+  "created_at" timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "attachments_email_id_idx" ON "attachments" ("email_id");
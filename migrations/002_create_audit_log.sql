@@ -0,0 +1,14 @@
+-- Журнал действий с письмами (удаление, восстановление, отмена отправки)
+
+CREATE TABLE IF NOT EXISTS "audit_log" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  action text NOT NULL,
+  "entity_type" text NOT NULL,
+  "entity_id" text NOT NULL,
+  actor text NOT NULL,
+  ip text,
+  details jsonb,
+  "created_at" timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "audit_log_entity_idx" ON "audit_log" ("entity_type", "entity_id");
@@ -0,0 +1,23 @@
+-- Шаблоны писем и их версии
+
+CREATE TABLE IF NOT EXISTS "email_templates" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  "active_version" integer,
+  "created_at" timestamptz NOT NULL DEFAULT NOW(),
+  "updated_at" timestamptz NOT NULL DEFAULT NOW(),
+  "deleted_at" timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS "email_template_versions" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "template_id" uuid NOT NULL REFERENCES "email_templates" (id),
+  version integer NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  html text,
+  variables jsonb NOT NULL DEFAULT '[]',
+  "created_at" timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE ("template_id", version)
+);
@@ -0,0 +1,28 @@
+-- Шаблон и тег письма, история попыток, результат отправки, отчеты о недоставке,
+-- список подавления и отложенная отправка
+
+ALTER TABLE "emails"
+  ADD COLUMN IF NOT EXISTS "template_id" uuid,
+  ADD COLUMN IF NOT EXISTS "template_version" integer,
+  ADD COLUMN IF NOT EXISTS tag text,
+  ADD COLUMN IF NOT EXISTS provider text,
+  ADD COLUMN IF NOT EXISTS "message_id" text,
+  ADD COLUMN IF NOT EXISTS attempts jsonb NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS "next_attempt_at" timestamptz,
+  ADD COLUMN IF NOT EXISTS "accepted_recipients" text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS "rejected_recipients" text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS "smtp_response" text,
+  ADD COLUMN IF NOT EXISTS "send_duration_ms" integer,
+  ADD COLUMN IF NOT EXISTS "diagnostic_code" text,
+  ADD COLUMN IF NOT EXISTS "suppressed_recipients" text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS "scheduled_at" timestamptz,
+  ADD COLUMN IF NOT EXISTS timezone text;
+
+-- выборка писем для воркера отправки и диспетчера отложенной отправки
+CREATE INDEX IF NOT EXISTS "emails_delivery_idx" ON "emails" (status, "next_attempt_at")
+  WHERE "deleted_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "emails_scheduled_at_idx" ON "emails" ("scheduled_at")
+  WHERE status = 'SCHEDULED';
+
+-- поиск письма по Message-ID из отчета о недоставке
+CREATE INDEX IF NOT EXISTS "emails_message_id_idx" ON "emails" (BTRIM("message_id", '<>'));
@@ -0,0 +1,13 @@
+-- Список подавления: адреса и домены, на которые письма не отправляются
+
+CREATE TABLE IF NOT EXISTS "suppressions" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  type text NOT NULL CHECK (type IN ('address', 'domain')),
+  value text NOT NULL,
+  reason text NOT NULL,
+  source text NOT NULL,
+  "expires_at" timestamptz,
+  "created_at" timestamptz NOT NULL DEFAULT NOW(),
+  "updated_at" timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (type, value)
+);
@@ -0,0 +1,12 @@
+-- Ответы на запросы с Idempotency-Key
+
+CREATE TABLE IF NOT EXISTS "idempotency_keys" (
+  key text PRIMARY KEY,
+  "request_hash" text NOT NULL,
+  "response_status" integer,
+  "response_body" jsonb,
+  "created_at" timestamptz NOT NULL DEFAULT NOW(),
+  "expires_at" timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idempotency_keys_expires_at_idx" ON "idempotency_keys" ("expires_at");
@@ -0,0 +1,18 @@
+-- Аренда писем воркерами отправки
+
+CREATE TABLE IF NOT EXISTS "email_deliveries" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "email_id" uuid NOT NULL REFERENCES "emails" (id),
+  attempt integer NOT NULL,
+  state text NOT NULL,
+  "worker_id" text NOT NULL,
+  "lease_expires_at" timestamptz NOT NULL,
+  "created_at" timestamptz NOT NULL DEFAULT NOW(),
+  "updated_at" timestamptz NOT NULL DEFAULT NOW()
+);
+
+-- у письма не больше одной действующей аренды
+CREATE UNIQUE INDEX IF NOT EXISTS "email_deliveries_active_idx" ON "email_deliveries" ("email_id")
+  WHERE state IN ('CLAIMED', 'SENDING');
+
+CREATE INDEX IF NOT EXISTS "email_deliveries_lease_idx" ON "email_deliveries" (state, "lease_expires_at");
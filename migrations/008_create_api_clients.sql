@@ -0,0 +1,28 @@
+-- Клиенты API, их ключи (хранится только SHA-256) и клиент, отправивший письмо
+
+CREATE TABLE IF NOT EXISTS "api_clients" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  scopes text[] NOT NULL DEFAULT '{}',
+  "allowed_senders" text[] NOT NULL DEFAULT '{}',
+  "disabled_at" timestamptz,
+  "created_at" timestamptz NOT NULL DEFAULT NOW(),
+  "updated_at" timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS "api_keys" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "client_id" uuid NOT NULL REFERENCES "api_clients" (id),
+  prefix text NOT NULL,
+  "key_hash" text NOT NULL UNIQUE,
+  "expires_at" timestamptz,
+  "revoked_at" timestamptz,
+  "last_used_at" timestamptz,
+  "created_at" timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "api_keys_client_id_idx" ON "api_keys" ("client_id");
+
+ALTER TABLE "emails" ADD COLUMN IF NOT EXISTS "api_client_id" uuid REFERENCES "api_clients" (id);
+
+CREATE INDEX IF NOT EXISTS "emails_api_client_id_idx" ON "emails" ("api_client_id");
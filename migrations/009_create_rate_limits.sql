@@ -0,0 +1,15 @@
+-- Счетчики лимитов скорости (фиксированные окна) и лимиты клиентов API
+
+CREATE TABLE IF NOT EXISTS "rate_limit_counters" (
+  key text NOT NULL,
+  "window_start" timestamptz NOT NULL,
+  count integer NOT NULL,
+  "expires_at" timestamptz NOT NULL,
+  PRIMARY KEY (key, "window_start")
+);
+
+CREATE INDEX IF NOT EXISTS "rate_limit_counters_expires_at_idx" ON "rate_limit_counters" ("expires_at");
+
+-- NULL - лимит по умолчанию из конфигурации, 0 - без ограничения
+ALTER TABLE "api_clients" ADD COLUMN IF NOT EXISTS "requests_per_minute" integer;
+ALTER TABLE "api_clients" ADD COLUMN IF NOT EXISTS "recipients_per_hour" integer;
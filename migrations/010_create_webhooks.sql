@@ -0,0 +1,33 @@
+-- Подписки клиентов API на события писем и журнал доставок
+
+CREATE TABLE IF NOT EXISTS "webhooks" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "client_id" uuid NOT NULL REFERENCES "api_clients" (id),
+  url text NOT NULL,
+  events text[] NOT NULL,
+  secret text NOT NULL,
+  "disabled_at" timestamptz,
+  "created_at" timestamptz NOT NULL DEFAULT NOW(),
+  "updated_at" timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "webhooks_client_id_idx" ON "webhooks" ("client_id");
+
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "webhook_id" uuid NOT NULL REFERENCES "webhooks" (id) ON DELETE CASCADE,
+  "event_id" uuid NOT NULL,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL,
+  "attempt_count" integer NOT NULL DEFAULT 0,
+  attempts jsonb NOT NULL DEFAULT '[]',
+  "next_attempt_at" timestamptz,
+  "delivered_at" timestamptz,
+  "created_at" timestamptz NOT NULL DEFAULT NOW(),
+  "updated_at" timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_webhook_id_idx" ON "webhook_deliveries" ("webhook_id", "created_at" DESC);
+
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_due_idx" ON "webhook_deliveries" ("next_attempt_at") WHERE status = 'PENDING';
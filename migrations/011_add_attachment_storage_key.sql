@@ -0,0 +1,10 @@
+-- Вложения хранятся по ключу объекта в хранилище (локальный диск или S3) вместо абсолютного пути
+
+ALTER TABLE "attachments" ADD COLUMN IF NOT EXISTS "storage_key" text;
+
+-- файлы в UPLOAD_DIR назывались "<uuid>.<ext>", имя файла и есть ключ локального хранилища
+UPDATE "attachments"
+SET "storage_key" = regexp_replace(path, '^.*[/\\]', '')
+WHERE url IS NULL AND path <> '' AND "storage_key" IS NULL;
+
+ALTER TABLE "attachments" DROP COLUMN IF EXISTS path;
@@ -0,0 +1,5 @@
+-- Одинаковые файлы хранятся один раз по SHA-256 содержимого, ссылки на объект считаются по storage_key
+
+CREATE INDEX IF NOT EXISTS "attachments_storage_key_idx"
+  ON "attachments" ("storage_key")
+  WHERE "storage_key" IS NOT NULL;
@@ -0,0 +1,18 @@
+-- Журнал доставок вебхуков хранил до 500 символов тела ответа с ошибкой,
+-- теперь - только HTTP статус. Тела ответов удаляются из уже записанных попыток
+
+UPDATE "webhook_deliveries"
+SET attempts = (
+  SELECT jsonb_agg(
+    CASE
+      WHEN attempt->'responseStatus' IS NOT NULL
+        AND jsonb_typeof(attempt->'responseStatus') = 'number'
+        AND attempt->>'error' IS NOT NULL
+      THEN jsonb_set(attempt, '{error}', to_jsonb('HTTP ' || (attempt->>'responseStatus')))
+      ELSE attempt
+    END
+    ORDER BY ordinality
+  )
+  FROM jsonb_array_elements(attempts) WITH ORDINALITY AS elements(attempt, ordinality)
+)
+WHERE jsonb_array_length(attempts) > 0;
@@ -0,0 +1,13 @@
+-- Outbox событий статуса писем для брокера: событие хранится, пока брокер не подтвердит публикацию
+
+CREATE TABLE IF NOT EXISTS "email_events_outbox" (
+  id uuid PRIMARY KEY,
+  type text NOT NULL,
+  payload jsonb NOT NULL,
+  "attempt_count" integer NOT NULL DEFAULT 0,
+  "last_error" text,
+  "next_attempt_at" timestamptz NOT NULL DEFAULT NOW(),
+  "created_at" timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "email_events_outbox_due_idx" ON "email_events_outbox" ("next_attempt_at");
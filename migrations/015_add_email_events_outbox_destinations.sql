@@ -0,0 +1,18 @@
+-- Outbox событий для всех получателей (вебхуки и брокер): запись на каждого получателя,
+-- порядок событий одного письма - по seq
+
+ALTER TABLE "email_events_outbox" ADD COLUMN IF NOT EXISTS seq bigserial;
+ALTER TABLE "email_events_outbox" ADD COLUMN IF NOT EXISTS destination text NOT NULL DEFAULT 'broker';
+ALTER TABLE "email_events_outbox" ADD COLUMN IF NOT EXISTS "email_id" uuid;
+
+UPDATE "email_events_outbox" SET "email_id" = (payload -> 'email' ->> 'id')::uuid WHERE "email_id" IS NULL;
+
+ALTER TABLE "email_events_outbox" ALTER COLUMN "email_id" SET NOT NULL;
+ALTER TABLE "email_events_outbox" ALTER COLUMN destination DROP DEFAULT;
+
+ALTER TABLE "email_events_outbox" DROP CONSTRAINT IF EXISTS "email_events_outbox_pkey";
+ALTER TABLE "email_events_outbox" ADD PRIMARY KEY (seq);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "email_events_outbox_event_idx" ON "email_events_outbox" (id, destination);
+
+CREATE INDEX IF NOT EXISTS "email_events_outbox_email_idx" ON "email_events_outbox" ("email_id", destination, seq);
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type {
+  ApiClientEntity,
+  ApiKeyEntity,
+} from "../domain/api-client.entity.ts";
+import {
+  ApiClientsService,
+  assertSenderAllowed,
+  canAccessEmail,
+  hasScope,
+} from "./api-clients.service.ts";
+import { SenderNotAllowedError } from "./errors/api-client-errors.ts";
+import type { ApiClientsRepository } from "./interfaces/api-clients-repository.ts";
+import type {
+  SaveApiClientData,
+  SaveApiKeyData,
+  UpdateApiClientData,
+} from "./types/save-api-client-data.ts";
+
+const noRateLimits = { requestsPerMinute: null, recipientsPerHour: null };
+
+class InMemoryApiClientsRepository implements ApiClientsRepository {
+  clients: ApiClientEntity[] = [];
+  keys: (ApiKeyEntity & { keyHash: string })[] = [];
+
+  async create(data: SaveApiClientData, key: SaveApiKeyData) {
+    const client: ApiClientEntity = {
+      id: `client-${this.clients.length + 1}`,
+      ...data,
+      disabledAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.clients.push(client);
+
+    return { client, key: this.insertKey(client.id, key) };
+  }
+
+  async findById(id: string) {
+    return this.clients.find((client) => client.id === id) ?? null;
+  }
+
+  async findAll() {
+    return this.clients;
+  }
+
+  async update(data: UpdateApiClientData) {
+    const client = await this.findById(data.id);
+
+    if (!client) {
+      return null;
+    }
+
+    if (data.disabled !== undefined) {
+      client.disabledAt = data.disabled ? new Date() : null;
+    }
+
+    return client;
+  }
+
+  async findByKeyHash(keyHash: string) {
+    const now = new Date();
+    const key = this.keys.find(
+      (key) =>
+        key.keyHash === keyHash &&
+        !key.revokedAt &&
+        (!key.expiresAt || key.expiresAt > now),
+    );
+    const client = key && (await this.findById(key.clientId));
+
+    return key && client && !client.disabledAt ? { client, key } : null;
+  }
+
+  async findKeys(clientId: string) {
+    return this.keys.filter((key) => key.clientId === clientId);
+  }
+
+  async rotateKey(
+    clientId: string,
+    key: SaveApiKeyData,
+    previousExpiresAt: Date,
+  ) {
+    for (const existing of this.keys) {
+      if (existing.clientId === clientId && !existing.revokedAt) {
+        existing.expiresAt =
+          existing.expiresAt && existing.expiresAt < previousExpiresAt
+            ? existing.expiresAt
+            : previousExpiresAt;
+      }
+    }
+
+    return this.insertKey(clientId, key);
+  }
+
+  async revokeKey(clientId: string, keyId: string) {
+    const key = this.keys.find(
+      (key) => key.id === keyId && key.clientId === clientId,
+    );
+
+    if (!key) {
+      return null;
+    }
+
+    key.revokedAt = new Date();
+    return key;
+  }
+
+  async touchKey() {}
+
+  private insertKey(clientId: string, data: SaveApiKeyData) {
+    const key = {
+      id: `key-${this.keys.length + 1}`,
+      clientId,
+      prefix: data.prefix,
+      keyHash: data.keyHash,
+      expiresAt: null,
+      revokedAt: null,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    };
+
+    this.keys.push(key);
+
+    return key;
+  }
+}
+
+describe("ApiClientsService", () => {
+  let repository: InMemoryApiClientsRepository;
+  let service: ApiClientsService;
+
+  beforeEach(() => {
+    repository = new InMemoryApiClientsRepository();
+    service = new ApiClientsService(
+      repository,
+      { secretKey: "shared-secret", adminSecretKey: "admin-secret" },
+      60_000,
+    );
+  });
+
+  it("should authenticate a client by its key and store only the hash", async () => {
+    const { client, apiKey } = await service.createClient({
+      name: "Shop",
+      scopes: ["send"],
+      allowedSenders: ["shop.example"],
+      rateLimits: noRateLimits,
+    });
+
+    expect(client.allowedSenders).toEqual(["@shop.example"]);
+    expect(repository.keys[0].keyHash).not.toContain(apiKey);
+    expect(apiKey.startsWith(repository.keys[0].prefix)).toBe(true);
+
+    expect(await service.authenticate(apiKey)).toEqual({
+      id: client.id,
+      name: "Shop",
+      scopes: ["send"],
+      allowedSenders: ["@shop.example"],
+      rateLimits: noRateLimits,
+    });
+    expect(await service.authenticate(`${apiKey}x`)).toBeNull();
+  });
+
+  it("should keep the previous key valid during the rotation overlap", async () => {
+    const { client, apiKey: oldKey } = await service.createClient({
+      name: "Shop",
+      scopes: ["send"],
+      allowedSenders: [],
+      rateLimits: noRateLimits,
+    });
+
+    const { apiKey: newKey } = await service.rotateKey(client.id);
+
+    expect(await service.authenticate(oldKey)).not.toBeNull();
+    expect(await service.authenticate(newKey)).not.toBeNull();
+
+    await service.rotateKey(client.id, 0);
+
+    expect(await service.authenticate(oldKey)).toBeNull();
+    expect(await service.authenticate(newKey)).toBeNull();
+  });
+
+  it("should reject revoked keys and disabled clients", async () => {
+    const { client, key, apiKey } = await service.createClient({
+      name: "Shop",
+      scopes: ["send"],
+      allowedSenders: [],
+      rateLimits: noRateLimits,
+    });
+    const other = await service.createClient({
+      name: "Other",
+      scopes: ["read"],
+      allowedSenders: [],
+      rateLimits: noRateLimits,
+    });
+
+    await service.revokeKey(client.id, key.id);
+    await service.updateClient({ id: other.client.id, disabled: true });
+
+    expect(await service.authenticate(apiKey)).toBeNull();
+    expect(await service.authenticate(other.apiKey)).toBeNull();
+  });
+
+  it("should accept the shared secret key with admin scope only with ssy-admin", async () => {
+    const shared = await service.authenticate("shared-secret");
+    const admin = await service.authenticate("shared-secret", "admin-secret");
+
+    expect(shared).toMatchObject({ id: null, name: "api-key" });
+    expect(hasScope(shared!, "admin")).toBe(false);
+    expect(hasScope(admin!, "admin")).toBe(true);
+    expect(await service.authenticate("admin-secret")).toBeNull();
+  });
+});
+
+describe("api client access rules", () => {
+  const client = {
+    id: "client-1",
+    name: "Shop",
+    scopes: ["send" as const, "read" as const],
+    allowedSenders: ["noreply@shop.example", "@mail.shop.example"],
+    rateLimits: noRateLimits,
+  };
+
+  it("should allow only listed senders", () => {
+    expect(() =>
+      assertSenderAllowed(client, "NoReply@shop.example"),
+    ).not.toThrow();
+    expect(() =>
+      assertSenderAllowed(client, "news@mail.shop.example"),
+    ).not.toThrow();
+    expect(() => assertSenderAllowed(client, "ceo@shop.example")).toThrow(
+      SenderNotAllowedError,
+    );
+  });
+
+  it("should limit emails to their owner unless admin", () => {
+    expect(canAccessEmail(client, { apiClientId: "client-1" })).toBe(true);
+    expect(canAccessEmail(client, { apiClientId: "client-2" })).toBe(false);
+    expect(
+      canAccessEmail(
+        { ...client, scopes: ["admin"] },
+        { apiClientId: "client-2" },
+      ),
+    ).toBe(true);
+  });
+});
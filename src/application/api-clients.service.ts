@@ -0,0 +1,265 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { config } from "../config/env.ts";
+import {
+  ApiScope,
+  type ApiClientEntity,
+  type ApiKeyEntity,
+  type AuthenticatedClient,
+} from "../domain/api-client.entity.ts";
+import {
+  ApiClientNotFoundError,
+  SenderNotAllowedError,
+} from "./errors/api-client-errors.ts";
+import type { EmailEntity } from "../domain/email.entity.ts";
+import type { ApiClientsRepository } from "./interfaces/api-clients-repository.ts";
+import type {
+  SaveApiClientData,
+  SaveApiKeyData,
+  UpdateApiClientData,
+} from "./types/save-api-client-data.ts";
+
+const API_KEY_PREFIX = "ssy_";
+// сколько символов ключа хранится открыто для отображения
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// общие ключи из SECRET_KEY / ADMIN_SECRET_KEY, работают параллельно с ключами клиентов
+export interface LegacyKeys {
+  secretKey: string;
+  adminSecretKey: string;
+}
+
+export class ApiClientsService {
+  private readonly apiClientsRepository: ApiClientsRepository;
+  private readonly legacyKeys: LegacyKeys;
+  private readonly rotationOverlap: number;
+
+  constructor(
+    apiClientsRepository: ApiClientsRepository,
+    legacyKeys: LegacyKeys = {
+      secretKey: config.secretKey,
+      adminSecretKey: config.adminSecretKey,
+    },
+    rotationOverlap: number = config.apiClients.rotationOverlap,
+  ) {
+    this.apiClientsRepository = apiClientsRepository;
+    this.legacyKeys = legacyKeys;
+    this.rotationOverlap = rotationOverlap;
+  }
+
+  /**
+   * Создает клиента и его первый ключ. Ключ возвращается открыто только здесь
+   */
+  async createClient(
+    data: SaveApiClientData,
+  ): Promise<{ client: ApiClientEntity; key: ApiKeyEntity; apiKey: string }> {
+    const apiKey = generateApiKey();
+
+    const created = await this.apiClientsRepository.create(
+      { ...data, allowedSenders: normalizeSenders(data.allowedSenders) },
+      toSaveApiKeyData(apiKey),
+    );
+
+    return { ...created, apiKey };
+  }
+
+  async getClients(): Promise<ApiClientEntity[]> {
+    return this.apiClientsRepository.findAll();
+  }
+
+  async getClient(
+    id: string,
+  ): Promise<{ client: ApiClientEntity; keys: ApiKeyEntity[] } | null> {
+    const client = await this.apiClientsRepository.findById(id);
+
+    if (!client) {
+      return null;
+    }
+
+    return { client, keys: await this.apiClientsRepository.findKeys(id) };
+  }
+
+  async updateClient(
+    data: UpdateApiClientData,
+  ): Promise<ApiClientEntity | null> {
+    return this.apiClientsRepository.update({
+      ...data,
+      allowedSenders:
+        data.allowedSenders && normalizeSenders(data.allowedSenders),
+    });
+  }
+
+  /**
+   * Выпускает новый ключ. Прежние ключи продолжают работать еще overlap мс,
+   * чтобы клиент успел перейти на новый
+   */
+  async rotateKey(
+    clientId: string,
+    overlap: number = this.rotationOverlap,
+  ): Promise<{ key: ApiKeyEntity; apiKey: string; previousExpiresAt: Date }> {
+    const client = await this.apiClientsRepository.findById(clientId);
+
+    if (!client) {
+      throw new ApiClientNotFoundError(clientId);
+    }
+
+    const apiKey = generateApiKey();
+    const previousExpiresAt = new Date(Date.now() + overlap);
+
+    const key = await this.apiClientsRepository.rotateKey(
+      clientId,
+      toSaveApiKeyData(apiKey),
+      previousExpiresAt,
+    );
+
+    return { key, apiKey, previousExpiresAt };
+  }
+
+  async revokeKey(
+    clientId: string,
+    keyId: string,
+  ): Promise<ApiKeyEntity | null> {
+    return this.apiClientsRepository.revokeKey(clientId, keyId);
+  }
+
+  /**
+   * Клиент по ключу из заголовка, null - ключ неизвестен, отозван или истек.
+   * adminKey - заголовок ssy-admin, добавляет права admin общему ключу SECRET_KEY
+   */
+  async authenticate(
+    apiKey: string,
+    adminKey?: string,
+  ): Promise<AuthenticatedClient | null> {
+    if (
+      this.legacyKeys.secretKey &&
+      safeEqual(apiKey, this.legacyKeys.secretKey)
+    ) {
+      const isAdmin =
+        Boolean(this.legacyKeys.adminSecretKey) &&
+        adminKey !== undefined &&
+        safeEqual(adminKey, this.legacyKeys.adminSecretKey);
+
+      return {
+        id: null,
+        name: isAdmin ? "admin-key" : "api-key",
+        scopes: [
+          ApiScope.SEND,
+          ApiScope.READ,
+          ApiScope.DELETE,
+          ...(isAdmin ? [ApiScope.ADMIN] : []),
+        ],
+        allowedSenders: [],
+        rateLimits: { requestsPerMinute: null, recipientsPerHour: null },
+      };
+    }
+
+    if (!apiKey.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const found = await this.apiClientsRepository.findByKeyHash(
+      hashApiKey(apiKey),
+    );
+
+    if (!found) {
+      return null;
+    }
+
+    // время последнего использования не должно ломать запрос
+    this.apiClientsRepository.touchKey(found.key.id).catch((error) => {
+      console.error(`Failed to update API key ${found.key.id} usage:`, error);
+    });
+
+    return {
+      id: found.client.id,
+      name: found.client.name,
+      scopes: found.client.scopes,
+      allowedSenders: found.client.allowedSenders,
+      rateLimits: found.client.rateLimits,
+    };
+  }
+}
+
+export function hasScope(
+  client: AuthenticatedClient,
+  scope: ApiScope,
+): boolean {
+  return (
+    client.scopes.includes(ApiScope.ADMIN) || client.scopes.includes(scope)
+  );
+}
+
+/**
+ * Бросает SenderNotAllowedError, если клиенту нельзя отправлять от этого адреса.
+ * Без from письмо отправляется от адреса по умолчанию (SMTP_FROM)
+ */
+export function assertSenderAllowed(
+  client: AuthenticatedClient,
+  from?: string,
+): void {
+  const sender = (from || config.smtp.from).toLowerCase();
+
+  if (!isSenderAllowed(client.allowedSenders, sender)) {
+    throw new SenderNotAllowedError(sender);
+  }
+}
+
+/**
+ * Клиенты без прав admin работают только со своими письмами, общий ключ - со всеми
+ */
+export function canAccessEmail(
+  client: AuthenticatedClient,
+  email: Pick<EmailEntity, "apiClientId">,
+): boolean {
+  return (
+    client.id === null ||
+    client.scopes.includes(ApiScope.ADMIN) ||
+    email.apiClientId === client.id
+  );
+}
+
+export function isSenderAllowed(
+  allowedSenders: string[],
+  sender: string,
+): boolean {
+  if (allowedSenders.length === 0) {
+    return true;
+  }
+
+  const address = sender.toLowerCase();
+  const domain = address.slice(address.lastIndexOf("@"));
+
+  return allowedSenders.some((allowed) =>
+    allowed.startsWith("@") ? allowed === domain : allowed === address,
+  );
+}
+
+export function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+function toSaveApiKeyData(apiKey: string): SaveApiKeyData {
+  return {
+    prefix: apiKey.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(apiKey),
+  };
+}
+
+// "shop.example" и "@shop.example" - домен, остальное - адрес
+function normalizeSenders(senders: string[]): string[] {
+  return senders.map((sender) => {
+    const value = sender.trim().toLowerCase();
+
+    return value.includes("@") ? value : `@${value}`;
+  });
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { AttachmentLinksService } from "./attachment-links.ts";
+
+describe("AttachmentLinksService", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+  const links = new AttachmentLinksService("link-secret", 600);
+
+  const parse = (path: string) => {
+    const url = new URL(path, "http://localhost");
+
+    return {
+      expires: Number(url.searchParams.get("expires")),
+      signature: url.searchParams.get("signature")!,
+    };
+  };
+
+  it("should sign links that expire after ttl", () => {
+    const link = links.create("email-1", "attachment-1", now);
+    const { expires, signature } = parse(link.path);
+
+    expect(link.path).toMatch(
+      /^\/api\/v2\/emails\/email-1\/attachments\/attachment-1\?expires=\d+&signature=[0-9a-f]{64}$/,
+    );
+    expect(link.expiresAt).toEqual(new Date("2026-01-01T00:10:00Z"));
+    expect(
+      links.verify("email-1", "attachment-1", expires, signature, now),
+    ).toBe(true);
+    expect(
+      links.verify(
+        "email-1",
+        "attachment-1",
+        expires,
+        signature,
+        new Date("2026-01-01T00:10:00Z"),
+      ),
+    ).toBe(false);
+  });
+
+  it("should reject links for other attachments or with changed expiry", () => {
+    const { expires, signature } = parse(
+      links.create("email-1", "attachment-1", now).path,
+    );
+
+    expect(
+      links.verify("email-1", "attachment-2", expires, signature, now),
+    ).toBe(false);
+    expect(
+      links.verify("email-1", "attachment-1", expires + 600, signature, now),
+    ).toBe(false);
+    expect(
+      new AttachmentLinksService("other-secret", 600).verify(
+        "email-1",
+        "attachment-1",
+        expires,
+        signature,
+        now,
+      ),
+    ).toBe(false);
+    expect(links.verify("email-1", "attachment-1", expires, "abc", now)).toBe(
+      false,
+    );
+  });
+
+  it("should not sign links without a secret", () => {
+    const unsigned = new AttachmentLinksService("", 600);
+
+    expect(unsigned.create("email-1", "attachment-1", now)).toEqual({
+      path: "/api/v2/emails/email-1/attachments/attachment-1",
+      expiresAt: null,
+    });
+    expect(unsigned.verify("email-1", "attachment-1", 0, "", now)).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { config } from "../config/env.ts";
+
+export interface AttachmentLink {
+  // путь скачивания относительно адреса сервиса
+  path: string;
+  // null - ссылка без подписи, требует ключ клиента
+  expiresAt: Date | null;
+}
+
+/**
+ * Подписанные ссылки на скачивание вложений: HMAC-SHA256 от письма, вложения и срока действия.
+ * Ссылка работает без ключа клиента до истечения срока. Без секрета ссылки не подписываются
+ */
+export class AttachmentLinksService {
+  private readonly secret: string;
+  private readonly ttl: number;
+
+  constructor(
+    secret: string = config.attachments.linkSecret,
+    ttl: number = config.storage.signedUrlTtl,
+  ) {
+    this.secret = secret;
+    this.ttl = ttl;
+  }
+
+  create(
+    emailId: string,
+    attachmentId: string,
+    now = new Date(),
+  ): AttachmentLink {
+    const path = `/api/v2/emails/${emailId}/attachments/${attachmentId}`;
+
+    if (!this.secret) {
+      return { path, expiresAt: null };
+    }
+
+    // срок в секундах, чтобы ссылка не зависела от миллисекунд
+    const expires = Math.floor(now.getTime() / 1000) + this.ttl;
+    const signature = this.sign(emailId, attachmentId, expires);
+
+    return {
+      path: `${path}?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  verify(
+    emailId: string,
+    attachmentId: string,
+    expires: number,
+    signature: string,
+    now = new Date(),
+  ): boolean {
+    if (!this.secret || expires * 1000 <= now.getTime()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(emailId, attachmentId, expires));
+    const actual = Buffer.from(signature);
+
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  private sign(emailId: string, attachmentId: string, expires: number): string {
+    return createHmac("sha256", this.secret)
+      .update(`${emailId}:${attachmentId}:${expires}`)
+      .digest("hex");
+  }
+}
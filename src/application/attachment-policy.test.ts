@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkAttachmentPolicy,
+  sanitizeFilename,
+  type AttachmentPolicyOptions,
+} from "./attachment-policy.ts";
+
+const options: AttachmentPolicyOptions = {
+  allowedTypes: ["application/pdf", "image/*", "text/plain"],
+  blockedTypes: [],
+  allowedExtensions: [],
+  blockedExtensions: [".exe"],
+};
+
+const DOCX =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+describe("sanitizeFilename", () => {
+  it("should strip paths, control and direction characters", () => {
+    expect(sanitizeFilename("C:\\Users\\me\\report.pdf")).toBe("report.pdf");
+    expect(sanitizeFilename("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeFilename("invoice\u202efdp.exe")).toBe("invoice_fdp.exe");
+    expect(sanitizeFilename('a<b>:"c|d?*.txt')).toBe("a_b___c_d__.txt");
+    expect(sanitizeFilename("  .hidden.  ")).toBe("hidden");
+    expect(sanitizeFilename("...")).toBe("attachment");
+  });
+
+  it("should keep the extension when truncating long names", () => {
+    const name = sanitizeFilename(`${"a".repeat(300)}.pdf`);
+
+    expect(name).toHaveLength(255);
+    expect(name.endsWith("a.pdf")).toBe(true);
+  });
+});
+
+describe("checkAttachmentPolicy", () => {
+  it("should take the declared type compatible with the content", () => {
+    expect(
+      checkAttachmentPolicy(
+        {
+          filename: "scan.jpg",
+          contentType: "image/jpg",
+          content: Buffer.from("ffd8ffe0", "hex"),
+        },
+        options,
+      ),
+    ).toEqual({ allowed: true, contentType: "image/jpg" });
+
+    // docx - zip архив
+    expect(
+      checkAttachmentPolicy(
+        {
+          filename: "contract.docx",
+          contentType: DOCX,
+          content: Buffer.from("504b0304", "hex"),
+        },
+        { ...options, allowedTypes: [DOCX] },
+      ),
+    ).toEqual({ allowed: true, contentType: DOCX });
+  });
+
+  it("should detect the type when it is not declared", () => {
+    expect(
+      checkAttachmentPolicy(
+        {
+          filename: "chart",
+          contentType: "application/octet-stream",
+          content: Buffer.from("89504e470d0a1a0a", "hex"),
+        },
+        options,
+      ),
+    ).toEqual({ allowed: true, contentType: "image/png" });
+  });
+
+  it("should reject content that does not match the declared type", () => {
+    expect(
+      checkAttachmentPolicy(
+        {
+          filename: "photo",
+          contentType: "image/png",
+          content: Buffer.from("%PDF-1.7"),
+        },
+        options,
+      ),
+    ).toEqual({
+      allowed: false,
+      code: "CONTENT_MISMATCH",
+      message:
+        "Content (application/pdf) does not match declared type image/png",
+    });
+  });
+
+  it("should apply type and extension lists", () => {
+    expect(
+      checkAttachmentPolicy(
+        { filename: "data.csv", contentType: "text/csv", content: null },
+        options,
+      ),
+    ).toEqual({
+      allowed: false,
+      code: "TYPE_NOT_ALLOWED",
+      message: "Type text/csv is not allowed",
+    });
+
+    expect(
+      checkAttachmentPolicy(
+        { filename: "setup.EXE", contentType: null, content: null },
+        options,
+      ),
+    ).toMatchObject({ allowed: false, code: "EXTENSION_NOT_ALLOWED" });
+
+    // тип вложения по url без заявленного типа неизвестен до загрузки
+    expect(
+      checkAttachmentPolicy(
+        { filename: "report", contentType: null, content: null },
+        options,
+      ),
+    ).toEqual({ allowed: true, contentType: "application/octet-stream" });
+  });
+});
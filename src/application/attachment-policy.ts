@@ -0,0 +1,146 @@
+import path from "path";
+import {
+  expectedSignatureType,
+  isContentTypeCompatible,
+  sniffContentType,
+} from "../libs/content-type.ts";
+import { AttachmentRejectionCode } from "./errors/attachment-errors.ts";
+
+// тип вложения по url неизвестен до загрузки, уточняется при отправке
+export const UNKNOWN_CONTENT_TYPE = "application/octet-stream";
+
+const MAX_FILENAME_LENGTH = 255;
+const DEFAULT_FILENAME = "attachment";
+
+// управляющие символы, символы, запрещенные в именах файлов Windows,
+// и управление направлением текста ("invoice\u202efdp.exe" выглядит как "invoiceexe.pdf")
+const UNSAFE_FILENAME_CHARS =
+  /[\u0000-\u001f\u007f<>:"/\\|?*\u200e\u200f\u202a-\u202e\u2066-\u2069]/g;
+
+export interface AttachmentPolicyOptions {
+  // MIME типы, "image/*" - все изображения. Пустой список разрешает любой тип
+  allowedTypes: string[];
+  blockedTypes: string[];
+  // расширения с точкой (".pdf"). Пустой список разрешает любое расширение
+  allowedExtensions: string[];
+  blockedExtensions: string[];
+}
+
+export type AttachmentPolicyResult =
+  | { allowed: true; contentType: string }
+  | { allowed: false; code: AttachmentRejectionCode; message: string };
+
+/**
+ * Проверяет расширение, тип и содержимое файла по политике вложений.
+ * Содержимое сверяется по сигнатуре с расширением и заявленным типом.
+ * content null - вложение по url до загрузки, проверяются только имя и заявленный тип.
+ * Возвращает тип вложения: заявленный, иначе определенный по содержимому
+ */
+export function checkAttachmentPolicy(
+  file: {
+    filename: string;
+    contentType: string | null;
+    content: Buffer | null;
+  },
+  options: AttachmentPolicyOptions,
+): AttachmentPolicyResult {
+  const extension = path.extname(file.filename).toLowerCase();
+
+  if (
+    options.blockedExtensions.includes(extension) ||
+    (options.allowedExtensions.length > 0 &&
+      !options.allowedExtensions.includes(extension))
+  ) {
+    return {
+      allowed: false,
+      code: AttachmentRejectionCode.EXTENSION_NOT_ALLOWED,
+      message: `Extension ${extension || "(none)"} is not allowed`,
+    };
+  }
+
+  const declared = normalizeContentType(file.contentType);
+  const detected = file.content ? sniffContentType(file.content) : null;
+
+  if (detected) {
+    const expected = expectedSignatureType(extension);
+
+    if (expected && expected !== detected) {
+      return {
+        allowed: false,
+        code: AttachmentRejectionCode.CONTENT_MISMATCH,
+        message: `Content (${detected}) does not match extension ${extension}`,
+      };
+    }
+
+    if (declared && !isContentTypeCompatible(declared, detected)) {
+      return {
+        allowed: false,
+        code: AttachmentRejectionCode.CONTENT_MISMATCH,
+        message: `Content (${detected}) does not match declared type ${declared}`,
+      };
+    }
+  }
+
+  const contentType = declared ?? detected ?? UNKNOWN_CONTENT_TYPE;
+
+  // тип вложения по url без заявленного типа проверяется после загрузки
+  if (!file.content && !declared) {
+    return { allowed: true, contentType };
+  }
+
+  // заявленный тип уже сверен с содержимым: исполняемый файл под видом pdf отклонен выше
+  if (
+    matchesType(contentType, options.blockedTypes) ||
+    (options.allowedTypes.length > 0 &&
+      !matchesType(contentType, options.allowedTypes))
+  ) {
+    return {
+      allowed: false,
+      code: AttachmentRejectionCode.TYPE_NOT_ALLOWED,
+      message: `Type ${contentType} is not allowed`,
+    };
+  }
+
+  return { allowed: true, contentType };
+}
+
+/**
+ * Имя файла без пути, управляющих и небезопасных символов, не длиннее 255 символов (расширение сохраняется)
+ */
+export function sanitizeFilename(filename: string): string {
+  const basename = filename.split(/[/\\]/).pop() ?? "";
+
+  const sanitized = basename
+    .normalize("NFC")
+    .replace(UNSAFE_FILENAME_CHARS, "_")
+    .replace(/\s+/g, " ")
+    // ведущие точки делают файл скрытым, завершающие точки и пробелы Windows отбрасывает
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+
+  if (!sanitized) {
+    return DEFAULT_FILENAME;
+  }
+
+  if (sanitized.length <= MAX_FILENAME_LENGTH) {
+    return sanitized;
+  }
+
+  const extension = path.extname(sanitized).slice(0, 16);
+
+  return `${sanitized.slice(0, MAX_FILENAME_LENGTH - extension.length)}${extension}`;
+}
+
+// "application/pdf; charset=binary" -> "application/pdf", неизвестный тип - null
+function normalizeContentType(contentType: string | null): string | null {
+  const normalized = contentType?.split(";")[0].trim().toLowerCase();
+
+  return normalized && normalized !== UNKNOWN_CONTENT_TYPE ? normalized : null;
+}
+
+function matchesType(type: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith("/*")
+      ? type.startsWith(pattern.slice(0, -1))
+      : type === pattern,
+  );
+}
@@ -0,0 +1,236 @@
+import { describe, it, expect } from "vitest";
+import { AttachmentsService, isHostAllowed } from "./attachments.service.ts";
+import {
+  AttachmentFetchError,
+  AttachmentsRejectedError,
+} from "./errors/attachment-errors.ts";
+import type { AttachmentFetcher } from "./interfaces/attachment-fetcher.ts";
+import type { VirusScanner } from "./interfaces/virus-scanner.ts";
+import type { StorageService } from "./storage.service.ts";
+import type { AttachmentEntity } from "../domain/attachment.entity.ts";
+
+const EICAR =
+  "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!";
+
+class FakeStorage {
+  saved: string[] = [];
+
+  async saveAttachment(content: Buffer, originalName: string) {
+    this.saved.push(originalName);
+    return {
+      filename: `${originalName}.bin`,
+      storageKey: `${originalName}.bin`,
+      size: content.length,
+    };
+  }
+
+  async deleteAttachment() {}
+}
+
+class FakeFetcher implements AttachmentFetcher {
+  constructor(private readonly content: Buffer) {}
+
+  async fetch() {
+    return { content: this.content, contentType: "application/octet-stream" };
+  }
+}
+
+const fakeScanner: VirusScanner = {
+  async scan(content) {
+    const infected = content.toString().includes("EICAR");
+
+    return {
+      infected,
+      signature: infected ? "Eicar-Test-Signature" : null,
+    };
+  },
+};
+
+const urlAttachment = (originalName: string): AttachmentEntity => ({
+  id: "attachment-1",
+  emailId: "email-1",
+  filename: originalName,
+  originalName,
+  mimetype: "application/octet-stream",
+  size: 0,
+  storageKey: null,
+  url: `https://files.example.com/${originalName}`,
+  createdAt: new Date(),
+});
+
+describe("AttachmentsService", () => {
+  const createService = (
+    storage: FakeStorage,
+    fetcher: AttachmentFetcher = new FakeFetcher(Buffer.alloc(0)),
+  ) =>
+    new AttachmentsService(
+      storage as unknown as StorageService,
+      fetcher,
+      fakeScanner,
+      {
+        allowedHosts: ["files.example.com", "*.cdn.example.com"],
+        maxFileSize: 100,
+        maxTotalSize: 150,
+        allowedTypes: [],
+        blockedTypes: ["application/x-msdownload"],
+        allowedExtensions: [],
+        blockedExtensions: [".exe", ".js"],
+      },
+    );
+
+  it("should match exact hosts and subdomain wildcards", () => {
+    const allowed = ["files.example.com", "*.cdn.example.com"];
+
+    expect(isHostAllowed("FILES.example.com", allowed)).toBe(true);
+    expect(isHostAllowed("eu.cdn.example.com", allowed)).toBe(true);
+    expect(isHostAllowed("cdn.example.com", allowed)).toBe(false);
+    expect(isHostAllowed("evil-files.example.com", allowed)).toBe(false);
+    expect(isHostAllowed("anything.test", [])).toBe(false);
+    expect(isHostAllowed("anything.test", ["*"])).toBe(true);
+  });
+
+  it("should store uploads and base64 content and keep urls for send time", async () => {
+    const storage = new FakeStorage();
+
+    const attachments = await createService(storage).resolveInputs(
+      [
+        { filename: "a.pdf", url: "https://files.example.com/a.pdf" },
+        // %PDF-
+        { filename: "b", content: Buffer.from("%PDF-1.7").toString("base64") },
+      ],
+      [
+        {
+          originalName: "../../notes.txt",
+          mimetype: "text/plain",
+          content: Buffer.from("hello"),
+        },
+      ],
+    );
+
+    expect(attachments).toEqual([
+      {
+        filename: "notes.txt.bin",
+        originalName: "notes.txt",
+        mimetype: "text/plain",
+        size: 5,
+        storageKey: "notes.txt.bin",
+        url: null,
+      },
+      {
+        filename: "a.pdf",
+        originalName: "a.pdf",
+        mimetype: "application/octet-stream",
+        size: 0,
+        storageKey: null,
+        url: "https://files.example.com/a.pdf",
+      },
+      {
+        filename: "b.bin",
+        originalName: "b",
+        mimetype: "application/pdf",
+        size: 8,
+        storageKey: "b.bin",
+        url: null,
+      },
+    ]);
+  });
+
+  it("should reject every invalid attachment before storing any", async () => {
+    const storage = new FakeStorage();
+    const base64 = (content: string | Buffer) =>
+      Buffer.from(content).toString("base64");
+
+    const error = await createService(storage)
+      .resolveInputs([
+        { filename: "ok.txt", content: base64("hello") },
+        { filename: "a.pdf", url: "https://other.example.com/a.pdf" },
+        { filename: "big.txt", content: base64(Buffer.alloc(120)) },
+        { filename: "run.exe", content: base64("MZ") },
+        { filename: "invoice.pdf", content: base64("MZ\x90\x00") },
+        { filename: "fill-1.txt", content: base64(Buffer.alloc(80)) },
+        { filename: "fill-2.txt", content: base64(Buffer.alloc(80)) },
+      ])
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AttachmentsRejectedError);
+    expect(error.attachments).toEqual([
+      {
+        filename: "a.pdf",
+        code: "HOST_NOT_ALLOWED",
+        message: "Host other.example.com is not allowed",
+      },
+      {
+        filename: "big.txt",
+        code: "FILE_TOO_LARGE",
+        message: "File size 120 exceeds 100 bytes",
+      },
+      {
+        filename: "run.exe",
+        code: "EXTENSION_NOT_ALLOWED",
+        message: "Extension .exe is not allowed",
+      },
+      {
+        filename: "invoice.pdf",
+        code: "CONTENT_MISMATCH",
+        message:
+          "Content (application/x-msdownload) does not match extension .pdf",
+      },
+      {
+        filename: "fill-2.txt",
+        code: "TOTAL_SIZE_EXCEEDED",
+        message: "Total attachments size exceeds 150 bytes",
+      },
+    ]);
+    expect(storage.saved).toEqual([]);
+  });
+
+  it("should reject infected files", async () => {
+    const storage = new FakeStorage();
+
+    const error = await createService(storage)
+      .resolveInputs([
+        {
+          filename: "clean.txt",
+          content: Buffer.from("hi").toString("base64"),
+        },
+        {
+          filename: "eicar.txt",
+          content: Buffer.from(EICAR).toString("base64"),
+        },
+      ])
+      .catch((e) => e);
+
+    expect(error.attachments).toEqual([
+      {
+        filename: "eicar.txt",
+        code: "VIRUS_DETECTED",
+        message: "Virus detected: Eicar-Test-Signature",
+      },
+    ]);
+    expect(storage.saved).toEqual([]);
+  });
+
+  it("should check url content at send time", async () => {
+    const pdf = Buffer.from("%PDF-1.7");
+
+    const loaded = await createService(
+      new FakeStorage(),
+      new FakeFetcher(pdf),
+    ).loadContent(urlAttachment("report.pdf"));
+
+    expect(loaded).toEqual({ content: pdf, contentType: "application/pdf" });
+
+    const error = await createService(
+      new FakeStorage(),
+      new FakeFetcher(Buffer.from(EICAR)),
+    )
+      .loadContent(urlAttachment("eicar.txt"))
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AttachmentFetchError);
+    expect(error.permanent).toBe(true);
+    expect(error.message).toBe(
+      'Attachment "eicar.txt" could not be fetched from https://files.example.com/eicar.txt: virus detected: Eicar-Test-Signature',
+    );
+  });
+});
@@ -0,0 +1,375 @@
+import type { Readable } from "stream";
+import { config } from "../config/env.ts";
+import type { AttachmentInput } from "../contracts/send-email.dto.ts";
+import type { AttachmentEntity } from "../domain/attachment.entity.ts";
+import {
+  checkAttachmentPolicy,
+  sanitizeFilename,
+  UNKNOWN_CONTENT_TYPE,
+  type AttachmentPolicyOptions,
+  type AttachmentPolicyResult,
+} from "./attachment-policy.ts";
+import {
+  AttachmentFetchError,
+  AttachmentRejectionCode,
+  AttachmentsRejectedError,
+  VirusScanUnavailableError,
+  type RejectedAttachment,
+} from "./errors/attachment-errors.ts";
+import { StorageObjectNotFoundError } from "./errors/storage-errors.ts";
+import type {
+  AttachmentFetcher,
+  FetchedAttachment,
+} from "./interfaces/attachment-fetcher.ts";
+import type { VirusScanner } from "./interfaces/virus-scanner.ts";
+import type { StorageService } from "./storage.service.ts";
+
+export type NewAttachment = Omit<
+  AttachmentEntity,
+  "id" | "createdAt" | "emailId"
+>;
+
+// файл из multipart запроса
+export interface UploadedAttachment {
+  originalName: string;
+  mimetype: string;
+  content: Buffer;
+}
+
+export interface AttachmentsOptions extends AttachmentPolicyOptions {
+  allowedHosts: string[];
+  // максимальный размер файла, байт
+  maxFileSize: number;
+  // суммарный размер файлов письма, хранящихся в сервисе, байт
+  maxTotalSize: number;
+}
+
+// вложение до проверки: content null - вложение по url
+interface AttachmentCandidate {
+  filename: string;
+  contentType: string | null;
+  content: Buffer | null;
+  url: string | null;
+}
+
+/**
+ * Вложения писем: файлы multipart запроса и вложения из JSON (HTTP API, очередь) по url или base64.
+ * При приеме все файлы проверяются политикой вложений и антивирусом, содержимое сохраняется в хранилище,
+ * url сохраняется как есть и загружается (и проверяется) при отправке
+ */
+export class AttachmentsService {
+  private readonly storageService: StorageService;
+  private readonly attachmentFetcher: AttachmentFetcher;
+  private readonly virusScanner: VirusScanner | null;
+  private readonly options: AttachmentsOptions;
+
+  constructor(
+    storageService: StorageService,
+    attachmentFetcher: AttachmentFetcher,
+    virusScanner: VirusScanner | null = null,
+    options: AttachmentsOptions = {
+      ...config.attachments,
+      maxFileSize: config.storage.maxFileSize,
+    },
+  ) {
+    this.storageService = storageService;
+    this.attachmentFetcher = attachmentFetcher;
+    this.virusScanner = virusScanner;
+    this.options = options;
+  }
+
+  /**
+   * Проверяет все вложения и только затем сохраняет содержимое в хранилище, файлы multipart запроса - первыми.
+   * Бросает AttachmentsRejectedError со списком отклоненных файлов,
+   * VirusScanUnavailableError - антивирус недоступен
+   */
+  async resolveInputs(
+    inputs: AttachmentInput[],
+    uploads: UploadedAttachment[] = [],
+  ): Promise<NewAttachment[]> {
+    const candidates: AttachmentCandidate[] = [
+      ...uploads.map((upload) => ({
+        filename: upload.originalName,
+        contentType: upload.mimetype,
+        content: upload.content,
+        url: null,
+      })),
+      ...inputs.map((input) =>
+        "url" in input
+          ? {
+              filename: input.filename,
+              contentType: input.contentType ?? null,
+              content: null,
+              url: input.url,
+            }
+          : {
+              filename: input.filename,
+              contentType: input.contentType ?? null,
+              content: Buffer.from(input.content, "base64"),
+              url: null,
+            },
+      ),
+    ];
+
+    const rejected: RejectedAttachment[] = [];
+    const accepted: { candidate: AttachmentCandidate; contentType: string }[] =
+      [];
+    let totalSize = 0;
+
+    for (const candidate of candidates) {
+      const result = this.check(candidate);
+
+      if (!result.allowed) {
+        rejected.push({
+          filename: candidate.filename,
+          code: result.code,
+          message: result.message,
+        });
+        continue;
+      }
+
+      totalSize += candidate.content?.length ?? 0;
+
+      if (totalSize > this.options.maxTotalSize) {
+        rejected.push({
+          filename: candidate.filename,
+          code: AttachmentRejectionCode.TOTAL_SIZE_EXCEEDED,
+          message: `Total attachments size exceeds ${this.options.maxTotalSize} bytes`,
+        });
+        continue;
+      }
+
+      accepted.push({ candidate, contentType: result.contentType });
+    }
+
+    // антивирус проверяет только файлы, прошедшие остальные проверки
+    if (rejected.length === 0) {
+      for (const { candidate } of accepted) {
+        const signature = candidate.content
+          ? await this.scan(candidate.content)
+          : null;
+
+        if (signature) {
+          rejected.push({
+            filename: candidate.filename,
+            code: AttachmentRejectionCode.VIRUS_DETECTED,
+            message: `Virus detected: ${signature}`,
+          });
+        }
+      }
+    }
+
+    if (rejected.length > 0) {
+      throw new AttachmentsRejectedError(rejected);
+    }
+
+    const attachments: NewAttachment[] = [];
+
+    try {
+      for (const { candidate, contentType } of accepted) {
+        attachments.push(await this.save(candidate, contentType));
+      }
+    } catch (error) {
+      await this.discard(attachments);
+      throw error;
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Содержимое вложения для отправки: из хранилища или загрузка по url.
+   * Файл по url проверяется политикой вложений и антивирусом после загрузки.
+   * Бросает AttachmentFetchError с именем файла
+   */
+  async loadContent(attachment: AttachmentEntity): Promise<FetchedAttachment> {
+    if (!attachment.url) {
+      return {
+        content: await this.readStored(attachment),
+        contentType: attachment.mimetype,
+      };
+    }
+
+    const fail = (reason: string, permanent: boolean) =>
+      new AttachmentFetchError(
+        attachment.url!,
+        reason,
+        permanent,
+        attachment.originalName,
+      );
+
+    let fetched: FetchedAttachment;
+
+    try {
+      fetched = await this.attachmentFetcher.fetch(attachment.url);
+    } catch (error) {
+      if (error instanceof AttachmentFetchError) {
+        throw fail(error.reason, error.permanent);
+      }
+
+      throw error;
+    }
+
+    const result = checkAttachmentPolicy(
+      {
+        filename: attachment.originalName,
+        // тип, указанный отправителем, важнее определенного при загрузке
+        contentType:
+          attachment.mimetype !== UNKNOWN_CONTENT_TYPE
+            ? attachment.mimetype
+            : fetched.contentType,
+        content: fetched.content,
+      },
+      this.options,
+    );
+
+    if (!result.allowed) {
+      throw fail(result.message, true);
+    }
+
+    let signature: string | null;
+
+    try {
+      signature = await this.scan(fetched.content);
+    } catch (error) {
+      if (error instanceof VirusScanUnavailableError) {
+        throw fail(error.message, false);
+      }
+
+      throw error;
+    }
+
+    if (signature) {
+      throw fail(`virus detected: ${signature}`, true);
+    }
+
+    return { content: fetched.content, contentType: result.contentType };
+  }
+
+  /**
+   * Поток содержимого вложения, хранящегося в сервисе, для скачивания.
+   * Бросает StorageObjectNotFoundError, если файла нет в хранилище
+   */
+  async openStored(attachment: AttachmentEntity): Promise<Readable> {
+    return this.storageService.openAttachment(attachment.storageKey!);
+  }
+
+  private check(candidate: AttachmentCandidate): AttachmentPolicyResult {
+    if (candidate.url) {
+      const host = new URL(candidate.url).hostname;
+
+      if (!isHostAllowed(host, this.options.allowedHosts)) {
+        return {
+          allowed: false,
+          code: AttachmentRejectionCode.HOST_NOT_ALLOWED,
+          message: `Host ${host} is not allowed`,
+        };
+      }
+    }
+
+    const size = candidate.content?.length ?? 0;
+
+    if (size > this.options.maxFileSize) {
+      return {
+        allowed: false,
+        code: AttachmentRejectionCode.FILE_TOO_LARGE,
+        message: `File size ${size} exceeds ${this.options.maxFileSize} bytes`,
+      };
+    }
+
+    return checkAttachmentPolicy(
+      {
+        filename: sanitizeFilename(candidate.filename),
+        contentType: candidate.contentType,
+        content: candidate.content,
+      },
+      this.options,
+    );
+  }
+
+  // имя сигнатуры, null - файл чист или антивирус не подключен
+  private async scan(content: Buffer): Promise<string | null> {
+    if (!this.virusScanner) {
+      return null;
+    }
+
+    const result = await this.virusScanner.scan(content);
+
+    return result.infected ? (result.signature ?? "unknown") : null;
+  }
+
+  private async save(
+    candidate: AttachmentCandidate,
+    contentType: string,
+  ): Promise<NewAttachment> {
+    const originalName = sanitizeFilename(candidate.filename);
+
+    if (!candidate.content) {
+      return {
+        filename: originalName,
+        originalName,
+        mimetype: contentType,
+        size: 0,
+        storageKey: null,
+        url: candidate.url,
+      };
+    }
+
+    const saved = await this.storageService.saveAttachment(
+      candidate.content,
+      originalName,
+      contentType,
+    );
+
+    return {
+      filename: saved.filename,
+      originalName,
+      mimetype: contentType,
+      size: saved.size,
+      storageKey: saved.storageKey,
+      url: null,
+    };
+  }
+
+  // удаленный из хранилища объект не появится при повторе, остальные ошибки хранилища временные
+  private async readStored(attachment: AttachmentEntity): Promise<Buffer> {
+    try {
+      return await this.storageService.readAttachment(attachment.storageKey!);
+    } catch (error) {
+      if (error instanceof StorageObjectNotFoundError) {
+        throw new AttachmentFetchError(
+          `storage:${attachment.storageKey}`,
+          "object not found",
+          true,
+          attachment.originalName,
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  private async discard(attachments: NewAttachment[]): Promise<void> {
+    await Promise.allSettled(
+      attachments.map((attachment) =>
+        this.storageService.deleteAttachment(attachment),
+      ),
+    );
+  }
+}
+
+/**
+ * Хост разрешен списком: точное совпадение, "*.example.com" (поддомены example.com)
+ * или "*" (любой хост с публичным адресом). Пустой список запрещает вложения по url
+ */
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  const normalized = host.toLowerCase();
+
+  return allowedHosts.some((allowed) =>
+    allowed === "*"
+      ? true
+      : allowed.startsWith("*.")
+        ? normalized.endsWith(allowed.slice(1))
+        : normalized === allowed,
+  );
+}
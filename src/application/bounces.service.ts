@@ -0,0 +1,140 @@
+import type { DeliveryReport } from "../domain/delivery-report.ts";
+import { EmailStatus } from "../domain/types.ts";
+import { EmailEventType } from "../domain/email-event.ts";
+import { parseDeliveryReport } from "./delivery-report-parser.ts";
+import type { EmailsRepository } from "./interfaces/emails-repository.ts";
+import type { SuppressionsService } from "./suppressions.service.ts";
+
+export interface ProcessReportResult {
+  // unrecognized - письмо не является DSN / ARF отчетом
+  // unmatched - не найдено письмо с таким Message-ID
+  // ignored - отчет не меняет статус (например, доставка отложена)
+  // updated - статус письма обновлен
+  outcome: "unrecognized" | "unmatched" | "ignored" | "updated";
+  type: DeliveryReport["type"] | null;
+  messageId: string | null;
+  emailId: string | null;
+  status: EmailStatus | null;
+}
+
+// из каких статусов письмо может перейти по отчету
+const BOUNCE_SOURCE_STATUSES: EmailStatus[] = [EmailStatus.SENT];
+const COMPLAINT_SOURCE_STATUSES: EmailStatus[] = [
+  EmailStatus.SENT,
+  EmailStatus.BOUNCED,
+];
+
+/**
+ * Обработка отчетов о доставке (RFC 3464) и жалоб (RFC 5965),
+ * пришедших через webhook или из почтового ящика
+ */
+export class BouncesService {
+  private readonly emailsRepository: EmailsRepository;
+  private readonly suppressionsService: SuppressionsService;
+
+  constructor(
+    emailsRepository: EmailsRepository,
+    suppressionsService: SuppressionsService,
+  ) {
+    this.emailsRepository = emailsRepository;
+    this.suppressionsService = suppressionsService;
+  }
+
+  async processReport(raw: string): Promise<ProcessReportResult> {
+    const report = parseDeliveryReport(raw);
+
+    if (!report) {
+      return this.toResult("unrecognized", null);
+    }
+
+    return this.applyReport(report);
+  }
+
+  async applyReport(report: DeliveryReport): Promise<ProcessReportResult> {
+    if (!report.originalMessageId) {
+      return this.toResult("unmatched", report);
+    }
+
+    const email = await this.emailsRepository.findByMessageId(
+      report.originalMessageId,
+    );
+
+    if (!email) {
+      return this.toResult("unmatched", report);
+    }
+
+    // жесткие отказы и жалобы пополняют список подавления независимо от статуса письма
+    await this.suppressionsService.suppressFromReport(report, email);
+
+    const change = this.resolveStatusChange(report);
+
+    const sourceStatuses =
+      report.type === "bounce"
+        ? BOUNCE_SOURCE_STATUSES
+        : COMPLAINT_SOURCE_STATUSES;
+
+    if (!change || !sourceStatuses.includes(email.status)) {
+      return this.toResult("ignored", report, email.id, email.status);
+    }
+
+    const updatedEmail = await this.emailsRepository.update(
+      {
+        id: email.id,
+        status: change.status,
+        diagnosticCode: change.diagnosticCode,
+      },
+      change.status === EmailStatus.COMPLAINED
+        ? EmailEventType.COMPLAINED
+        : EmailEventType.BOUNCED,
+    );
+
+    if (!updatedEmail) {
+      throw new Error("Failed to update email status");
+    }
+
+    return this.toResult("updated", report, email.id, updatedEmail.status);
+  }
+
+  private resolveStatusChange(
+    report: DeliveryReport,
+  ): { status: EmailStatus; diagnosticCode: string | null } | null {
+    if (report.type === "complaint") {
+      return {
+        status: EmailStatus.COMPLAINED,
+        diagnosticCode: report.feedbackType,
+      };
+    }
+
+    // delayed / delivered / relayed не означают недоставку
+    const failed = report.recipients.filter(
+      (recipient) => recipient.action === "failed",
+    );
+
+    if (failed.length === 0) {
+      return null;
+    }
+
+    const recipient =
+      failed.find((recipient) => recipient.permanent) ?? failed[0];
+
+    return {
+      status: EmailStatus.BOUNCED,
+      diagnosticCode: recipient.diagnosticCode ?? recipient.status,
+    };
+  }
+
+  private toResult(
+    outcome: ProcessReportResult["outcome"],
+    report: DeliveryReport | null,
+    emailId: string | null = null,
+    status: EmailStatus | null = null,
+  ): ProcessReportResult {
+    return {
+      outcome,
+      type: report?.type ?? null,
+      messageId: report?.originalMessageId ?? null,
+      emailId,
+      status,
+    };
+  }
+}
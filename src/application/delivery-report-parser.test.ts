@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeMessageId,
+  parseDeliveryReport,
+} from "./delivery-report-parser.ts";
+
+const DSN = [
+  "From: MAILER-DAEMON@mx.example.com",
+  "To: noreply@shop.example",
+  "Subject: Undelivered Mail Returned to Sender",
+  "MIME-Version: 1.0",
+  "Content-Type: multipart/report; report-type=delivery-status;",
+  '  boundary="BOUNDARY-1"',
+  "",
+  "This is a MIME-encapsulated message.",
+  "",
+  "--BOUNDARY-1",
+  "Content-Type: text/plain",
+  "",
+  "I'm sorry to have to inform you that your message could not be delivered.",
+  "",
+  "--BOUNDARY-1",
+  "Content-Type: message/delivery-status",
+  "",
+  "Reporting-MTA: dns; mx.example.com",
+  "Arrival-Date: Mon, 19 Oct 2026 10:00:00 +0000",
+  "",
+  "Final-Recipient: rfc822; Missing@Example.com",
+  "Original-Recipient: rfc822;missing@example.com",
+  "Action: failed",
+  "Status: 5.1.1",
+  "Diagnostic-Code: smtp; 550 5.1.1 <missing@example.com>:",
+  "    Recipient address rejected: User unknown",
+  "",
+  "Final-Recipient: rfc822; slow@example.com",
+  "Action: delayed",
+  "Status: 4.4.1",
+  "",
+  "--BOUNDARY-1",
+  "Content-Type: text/rfc822-headers",
+  "",
+  "From: Shop <noreply@shop.example>",
+  "To: missing@example.com",
+  "Subject: Your order",
+  "Message-ID: <abc-123@shop.example>",
+  "",
+  "--BOUNDARY-1--",
+  "",
+].join("\r\n");
+
+const ARF = [
+  "From: feedback@isp.example",
+  "To: abuse@shop.example",
+  "Subject: FW: Your order",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/report; report-type=feedback-report; boundary="part"',
+  "",
+  "--part",
+  "Content-Type: text/plain",
+  "",
+  "This is an email abuse report.",
+  "",
+  "--part",
+  "Content-Type: message/feedback-report",
+  "",
+  "Feedback-Type: abuse",
+  "User-Agent: SomeGenerator/1.0",
+  "Version: 1",
+  "Original-Mail-From: <noreply@shop.example>",
+  "Original-Rcpt-To: <user@isp.example>",
+  "",
+  "--part",
+  "Content-Type: message/rfc822",
+  "Content-Transfer-Encoding: base64",
+  "",
+  Buffer.from(
+    "From: noreply@shop.example\r\nMessage-ID: <def-456@shop.example>\r\nSubject: Your order\r\n\r\nHello\r\n",
+  ).toString("base64"),
+  "",
+  "--part--",
+].join("\n");
+
+describe("parseDeliveryReport", () => {
+  it("should parse a delivery status notification", () => {
+    const report = parseDeliveryReport(DSN);
+
+    expect(report).toEqual({
+      type: "bounce",
+      originalMessageId: "abc-123@shop.example",
+      feedbackType: null,
+      recipients: [
+        {
+          address: "missing@example.com",
+          action: "failed",
+          status: "5.1.1",
+          diagnosticCode:
+            "smtp; 550 5.1.1 <missing@example.com>: Recipient address rejected: User unknown",
+          permanent: true,
+        },
+        {
+          address: "slow@example.com",
+          action: "delayed",
+          status: "4.4.1",
+          diagnosticCode: null,
+          permanent: false,
+        },
+      ],
+    });
+  });
+
+  it("should parse an ARF complaint with base64 encoded original message", () => {
+    const report = parseDeliveryReport(ARF);
+
+    expect(report).toEqual({
+      type: "complaint",
+      originalMessageId: "def-456@shop.example",
+      feedbackType: "abuse",
+      recipients: [
+        {
+          address: "user@isp.example",
+          action: null,
+          status: null,
+          diagnosticCode: null,
+          permanent: false,
+        },
+      ],
+    });
+  });
+
+  it("should find a report nested in a forwarded message", () => {
+    const forwarded = [
+      "Content-Type: multipart/mixed; boundary=outer",
+      "",
+      "--outer",
+      "Content-Type: text/plain",
+      "",
+      "Forwarded bounce",
+      "--outer",
+      DSN.split("\r\n").slice(4).join("\r\n"),
+      "--outer--",
+    ].join("\r\n");
+
+    expect(parseDeliveryReport(forwarded)?.originalMessageId).toBe(
+      "abc-123@shop.example",
+    );
+  });
+
+  it("should return null for a regular message", () => {
+    expect(
+      parseDeliveryReport(
+        "From: someone@example.com\r\nSubject: Out of office\r\n\r\nI'm away",
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("normalizeMessageId", () => {
+  it("should strip angle brackets and whitespace", () => {
+    expect(normalizeMessageId(" <abc@example.com> ")).toBe("abc@example.com");
+    expect(normalizeMessageId("abc@example.com")).toBe("abc@example.com");
+  });
+});
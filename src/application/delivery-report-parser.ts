@@ -0,0 +1,270 @@
+import type {
+  DeliveryReport,
+  DeliveryReportRecipient,
+} from "../domain/delivery-report.ts";
+
+// Минимальный разбор MIME, достаточный для multipart/report:
+// заголовки, multipart с boundary, base64 / quoted-printable в частях
+
+type Headers = Map<string, string>;
+
+interface MimePart {
+  headers: Headers;
+  body: string;
+}
+
+interface ContentType {
+  type: string;
+  params: Record<string, string>;
+}
+
+// вложенность multipart в пересланных отчетах
+const MAX_DEPTH = 5;
+
+/**
+ * Разбирает сырое письмо с отчетом о доставке (RFC 3464) или жалобой (RFC 5965).
+ * Возвращает null, если письмо не является ни тем, ни другим
+ */
+export function parseDeliveryReport(raw: string): DeliveryReport | null {
+  const message = parsePart(raw);
+  const parts = flattenParts(message, 0);
+
+  const statusPart = parts.find(
+    (part) => contentTypeOf(part).type === "message/delivery-status",
+  );
+  const feedbackPart = parts.find(
+    (part) => contentTypeOf(part).type === "message/feedback-report",
+  );
+  const originalMessageId = findOriginalMessageId(parts);
+
+  if (feedbackPart) {
+    const [fields = new Map()] = parseFieldGroups(decodeBody(feedbackPart));
+
+    return {
+      type: "complaint",
+      originalMessageId,
+      recipients: getAll(fields, "original-rcpt-to").map((address) => ({
+        address: stripAddressType(address),
+        action: null,
+        status: null,
+        diagnosticCode: null,
+        permanent: false,
+      })),
+      feedbackType: fields.get("feedback-type")?.toLowerCase() ?? null,
+    };
+  }
+
+  if (statusPart) {
+    // первая группа полей относится к сообщению, остальные - к получателям
+    const [, ...recipientGroups] = parseFieldGroups(decodeBody(statusPart));
+
+    return {
+      type: "bounce",
+      originalMessageId,
+      recipients: recipientGroups
+        .filter((fields) => fields.has("final-recipient"))
+        .map(toRecipient),
+      feedbackType: null,
+    };
+  }
+
+  return null;
+}
+
+export function normalizeMessageId(value: string): string {
+  return value.trim().replace(/^<|>$/g, "").trim();
+}
+
+function toRecipient(fields: Headers): DeliveryReportRecipient {
+  const status = fields.get("status")?.trim() ?? null;
+
+  return {
+    address: stripAddressType(fields.get("final-recipient")!),
+    action: fields.get("action")?.trim().toLowerCase() ?? null,
+    status,
+    diagnosticCode: fields.get("diagnostic-code")?.trim() ?? null,
+    permanent: status?.startsWith("5") ?? false,
+  };
+}
+
+// "rfc822; user@example.com" -> "user@example.com"
+function stripAddressType(value: string): string {
+  const separator = value.indexOf(";");
+  const address = separator === -1 ? value : value.slice(separator + 1);
+
+  return address.trim().replace(/^<|>$/g, "").toLowerCase();
+}
+
+function findOriginalMessageId(parts: MimePart[]): string | null {
+  for (const part of parts) {
+    const type = contentTypeOf(part).type;
+
+    if (type !== "message/rfc822" && type !== "text/rfc822-headers") {
+      continue;
+    }
+
+    const original = parsePart(decodeBody(part));
+    const messageId = original.headers.get("message-id");
+
+    if (messageId) {
+      return normalizeMessageId(messageId);
+    }
+  }
+
+  return null;
+}
+
+function flattenParts(part: MimePart, depth: number): MimePart[] {
+  const contentType = contentTypeOf(part);
+
+  if (
+    !contentType.type.startsWith("multipart/") ||
+    !contentType.params.boundary ||
+    depth >= MAX_DEPTH
+  ) {
+    return [part];
+  }
+
+  return splitMultipart(part.body, contentType.params.boundary)
+    .map((raw) => parsePart(raw))
+    .flatMap((child) => flattenParts(child, depth + 1));
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const lines = body.split(/\r?\n/);
+  const parts: string[] = [];
+
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+
+    if (trimmed === `--${boundary}--`) {
+      break;
+    }
+
+    if (trimmed === `--${boundary}`) {
+      if (current) {
+        parts.push(current.join("\n"));
+      }
+      current = [];
+      continue;
+    }
+
+    current?.push(line);
+  }
+
+  if (current) {
+    parts.push(current.join("\n"));
+  }
+
+  return parts;
+}
+
+function parsePart(raw: string): MimePart {
+  const normalized = raw.replace(/\r\n/g, "\n");
+  const separator = normalized.indexOf("\n\n");
+
+  if (separator === -1) {
+    return { headers: parseFields(normalized), body: "" };
+  }
+
+  return {
+    headers: parseFields(normalized.slice(0, separator)),
+    body: normalized.slice(separator + 2),
+  };
+}
+
+/**
+ * Поля в формате заголовков (с продолжением строк), имена в нижнем регистре.
+ * Повторяющиеся поля объединяются через "\n"
+ */
+function parseFields(text: string): Headers {
+  const fields: Headers = new Map();
+
+  let name: string | null = null;
+
+  for (const line of text.split("\n")) {
+    if (/^[ \t]/.test(line) && name) {
+      fields.set(name, `${fields.get(name)} ${line.trim()}`);
+      continue;
+    }
+
+    const colon = line.indexOf(":");
+
+    if (colon <= 0) {
+      name = null;
+      continue;
+    }
+
+    name = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    const existing = fields.get(name);
+
+    fields.set(name, existing === undefined ? value : `${existing}\n${value}`);
+  }
+
+  return fields;
+}
+
+function parseFieldGroups(text: string): Headers[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split(/\n[ \t]*\n/)
+    .map((group) => group.trim())
+    .filter(Boolean)
+    .map((group) => parseFields(group));
+}
+
+function getAll(fields: Headers, name: string): string[] {
+  return (fields.get(name) ?? "").split("\n").filter(Boolean);
+}
+
+function contentTypeOf(part: MimePart): ContentType {
+  const [type = "text/plain", ...rawParams] = (
+    part.headers.get("content-type") ?? "text/plain"
+  ).split(";");
+
+  const params: Record<string, string> = {};
+
+  for (const param of rawParams) {
+    const equals = param.indexOf("=");
+
+    if (equals === -1) {
+      continue;
+    }
+
+    params[param.slice(0, equals).trim().toLowerCase()] = param
+      .slice(equals + 1)
+      .trim()
+      .replace(/^"|"$/g, "");
+  }
+
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = part.headers
+    .get("content-transfer-encoding")
+    ?.trim()
+    .toLowerCase();
+
+  if (encoding === "base64") {
+    return Buffer.from(part.body.replace(/\s+/g, ""), "base64").toString(
+      "utf8",
+    );
+  }
+
+  if (encoding === "quoted-printable") {
+    return Buffer.from(
+      part.body
+        .replace(/=\r?\n/g, "")
+        .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16)),
+        ),
+      "latin1",
+    ).toString("utf8");
+  }
+
+  return part.body;
+}
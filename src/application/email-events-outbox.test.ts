@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  EmailEventDestination,
+  EmailEventType,
+  type EmailEvent,
+  type PendingEmailEvent,
+} from "../domain/email-event.ts";
+import { EmailEventsOutbox } from "./email-events-outbox.ts";
+import type { EmailEventsOutboxRepository } from "./interfaces/email-events-outbox-repository.ts";
+import type { EmailEventsPublisher } from "./interfaces/email-events-publisher.ts";
+
+class InMemoryEmailEventsOutboxRepository implements EmailEventsOutboxRepository {
+  entries: (PendingEmailEvent & {
+    nextAttemptAt: Date;
+    lastError: string | null;
+  })[] = [];
+  private seq = 0;
+
+  // как EmailsSqlRepository: событие записывается для каждого получателя
+  add(event: EmailEvent, destinations: EmailEventDestination[]) {
+    for (const destination of destinations) {
+      this.entries.push({
+        id: String(++this.seq),
+        destination,
+        event,
+        attemptCount: 0,
+        nextAttemptAt: new Date(),
+        lastError: null,
+      });
+    }
+  }
+
+  async claimDue(limit: number, lease: number) {
+    const now = Date.now();
+    const due = this.entries
+      .filter(
+        (entry) =>
+          entry.nextAttemptAt.getTime() <= now &&
+          !this.entries.some(
+            (earlier) =>
+              earlier.event.email.id === entry.event.email.id &&
+              earlier.destination === entry.destination &&
+              Number(earlier.id) < Number(entry.id),
+          ),
+      )
+      .slice(0, limit);
+
+    for (const entry of due) {
+      entry.nextAttemptAt = new Date(now + lease);
+    }
+
+    return due.map(({ id, destination, event, attemptCount }) => ({
+      id,
+      destination,
+      event,
+      attemptCount,
+    }));
+  }
+
+  async delete(id: string) {
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+  }
+
+  async recordFailure(id: string, error: string, nextAttemptAt: Date) {
+    const entry = this.entries.find((entry) => entry.id === id)!;
+
+    entry.attemptCount++;
+    entry.lastError = error;
+    entry.nextAttemptAt = nextAttemptAt;
+  }
+}
+
+class FakePublisher implements EmailEventsPublisher {
+  published: string[] = [];
+  failures = 0;
+
+  async publish(event: EmailEvent) {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("RabbitMQ channel is not available (reconnecting)");
+    }
+
+    this.published.push(event.id);
+  }
+}
+
+const createEvent = (id: string, emailId = "email-1"): EmailEvent => ({
+  id,
+  type: EmailEventType.SENT,
+  occurredAt: new Date("2024-01-01T00:00:00.000Z"),
+  email: {
+    id: emailId,
+    apiClientId: null,
+    status: "SENT",
+    from: "noreply@shop.example",
+    to: ["user@example.com"],
+    cc: [],
+    bcc: [],
+    subject: "Hello",
+    tag: null,
+    templateId: null,
+    provider: "primary",
+    messageId: "<id@example.com>",
+    error: null,
+    diagnosticCode: null,
+    attemptsCount: 1,
+    nextAttemptAt: null,
+    scheduledAt: null,
+    sentAt: new Date("2024-01-01T00:00:00.000Z"),
+    deletedAt: null,
+  },
+});
+
+const { WEBHOOKS, BROKER } = EmailEventDestination;
+
+describe("EmailEventsOutbox", () => {
+  let repository: InMemoryEmailEventsOutboxRepository;
+  let webhooks: FakePublisher;
+  let broker: FakePublisher;
+  let outbox: EmailEventsOutbox;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    repository = new InMemoryEmailEventsOutboxRepository();
+    webhooks = new FakePublisher();
+    broker = new FakePublisher();
+    outbox = new EmailEventsOutbox(
+      repository,
+      { [WEBHOOKS]: webhooks, [BROKER]: broker },
+      {
+        lease: 60_000,
+        baseDelay: 1_000,
+        maxDelay: 10_000,
+        multiplier: 2,
+      },
+    );
+  });
+
+  it("should publish stored events to every destination and remove them", async () => {
+    repository.add(createEvent("event-1"), [WEBHOOKS, BROKER]);
+
+    expect(await outbox.relayDue(10)).toBe(2);
+    expect(webhooks.published).toEqual(["event-1"]);
+    expect(broker.published).toEqual(["event-1"]);
+    expect(repository.entries).toEqual([]);
+  });
+
+  it("should publish events of one email in order", async () => {
+    repository.add(createEvent("event-1"), [BROKER]);
+    repository.add(createEvent("event-2"), [BROKER]);
+    repository.add(createEvent("event-3", "email-2"), [BROKER]);
+
+    // следующее событие письма ждет, пока предыдущее не будет передано
+    expect(await outbox.relayDue(10)).toBe(2);
+    expect(broker.published).toEqual(["event-1", "event-3"]);
+
+    await outbox.relayDue(10);
+
+    expect(broker.published).toEqual(["event-1", "event-3", "event-2"]);
+    expect(repository.entries).toEqual([]);
+  });
+
+  it("should keep an unconfirmed event and retry it with backoff", async () => {
+    repository.add(createEvent("event-1"), [BROKER]);
+    repository.add(createEvent("event-2"), [BROKER]);
+    broker.failures = 1;
+
+    const before = Date.now();
+    await outbox.relayDue(10);
+
+    expect(broker.published).toEqual([]);
+    expect(repository.entries[0]).toMatchObject({
+      attemptCount: 1,
+      lastError: "RabbitMQ channel is not available (reconnecting)",
+    });
+    expect(
+      repository.entries[0].nextAttemptAt.getTime() - before,
+    ).toBeGreaterThanOrEqual(1_000);
+
+    // время повтора еще не подошло, следующее событие письма не обгоняет неподтвержденное
+    expect(await outbox.relayDue(10)).toBe(0);
+
+    repository.entries[0].nextAttemptAt = new Date(0);
+    await outbox.relayDue(10);
+    await outbox.relayDue(10);
+
+    expect(broker.published).toEqual(["event-1", "event-2"]);
+    expect(repository.entries).toEqual([]);
+  });
+
+  it("should not hold other destinations while one of them fails", async () => {
+    repository.add(createEvent("event-1"), [WEBHOOKS, BROKER]);
+    broker.failures = 1;
+
+    await outbox.relayDue(10);
+
+    expect(webhooks.published).toEqual(["event-1"]);
+    expect(repository.entries).toHaveLength(1);
+    expect(repository.entries[0].destination).toBe(BROKER);
+  });
+
+  it("should drop events for a disabled destination", async () => {
+    outbox = new EmailEventsOutbox(repository, { [WEBHOOKS]: webhooks });
+    repository.add(createEvent("event-1"), [WEBHOOKS, BROKER]);
+
+    expect(await outbox.relayDue(10)).toBe(2);
+    expect(webhooks.published).toEqual(["event-1"]);
+    expect(repository.entries).toEqual([]);
+  });
+});
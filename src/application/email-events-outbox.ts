@@ -0,0 +1,78 @@
+import { config } from "../config/env.ts";
+import type { EmailEventDestination } from "../domain/email-event.ts";
+import type { EmailEventsOutboxRepository } from "./interfaces/email-events-outbox-repository.ts";
+import type { EmailEventsPublisher } from "./interfaces/email-events-publisher.ts";
+import { computeBackoffDelay, type RetryOptions } from "./retry-policy.ts";
+
+export interface EmailEventsOutboxOptions extends Pick<
+  RetryOptions,
+  "baseDelay" | "maxDelay" | "multiplier"
+> {
+  // аренда забранного события, мс
+  lease: number;
+}
+
+/**
+ * Outbox событий статуса писем: события записываются репозиторием писем в транзакции изменения письма,
+ * relayDue передает их получателям (журнал вебхуков, брокер) и повторяет неудачные
+ * с экспоненциальной задержкой. События одного письма передаются каждому получателю по порядку
+ */
+export class EmailEventsOutbox {
+  private readonly outboxRepository: EmailEventsOutboxRepository;
+  private readonly publishers: Partial<
+    Record<EmailEventDestination, EmailEventsPublisher>
+  >;
+  private readonly options: EmailEventsOutboxOptions;
+
+  constructor(
+    outboxRepository: EmailEventsOutboxRepository,
+    publishers: Partial<Record<EmailEventDestination, EmailEventsPublisher>>,
+    options: EmailEventsOutboxOptions = config.eventsOutbox,
+  ) {
+    this.outboxRepository = outboxRepository;
+    this.publishers = publishers;
+    this.options = options;
+  }
+
+  /**
+   * Передает до limit событий с подошедшим временем попытки, возвращает количество забранных
+   */
+  async relayDue(limit: number): Promise<number> {
+    const claimed = await this.outboxRepository.claimDue(
+      limit,
+      this.options.lease,
+    );
+
+    for (const { id, destination, event, attemptCount } of claimed) {
+      const publisher = this.publishers[destination];
+
+      // получатель отключен (например, RABBITMQ_EVENTS_ENABLED=false), событие ему не нужно
+      if (!publisher) {
+        await this.outboxRepository.delete(id);
+        continue;
+      }
+
+      try {
+        await publisher.publish(event);
+      } catch (error) {
+        const delay = computeBackoffDelay(attemptCount + 1, this.options);
+
+        console.error(
+          `Failed to publish ${event.type} ${event.id} to ${destination}, retrying in ${delay}ms:`,
+          error,
+        );
+
+        await this.outboxRepository.recordFailure(
+          id,
+          error instanceof Error ? error.message : String(error),
+          new Date(Date.now() + delay),
+        );
+        continue;
+      }
+
+      await this.outboxRepository.delete(id);
+    }
+
+    return claimed.length;
+  }
+}
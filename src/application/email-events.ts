@@ -0,0 +1,35 @@
+import { randomUUID } from "crypto";
+import type { EmailEntity } from "../domain/email.entity.ts";
+import type { EmailEvent, EmailEventType } from "../domain/email-event.ts";
+
+export function createEmailEvent(
+  type: EmailEventType,
+  email: EmailEntity,
+): EmailEvent {
+  return {
+    id: randomUUID(),
+    type,
+    occurredAt: new Date(),
+    email: {
+      id: email.id,
+      apiClientId: email.apiClientId,
+      status: email.status,
+      from: email.from,
+      to: email.to,
+      cc: email.cc,
+      bcc: email.bcc,
+      subject: email.subject,
+      tag: email.tag,
+      templateId: email.templateId,
+      provider: email.provider,
+      messageId: email.messageId,
+      error: email.error,
+      diagnosticCode: email.diagnosticCode,
+      attemptsCount: email.attempts.length,
+      nextAttemptAt: email.nextAttemptAt,
+      scheduledAt: email.scheduledAt,
+      sentAt: email.sentAt,
+      deletedAt: email.deletedAt,
+    },
+  };
+}
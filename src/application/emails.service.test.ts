@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { EmailEntity } from "../domain/email.entity.ts";
+import { EmailEventType } from "../domain/email-event.ts";
+import {
+  DeliveryState,
+  type ClaimedEmail,
+} from "../domain/email-delivery.entity.ts";
+import { EmailStatus } from "../domain/types.ts";
+import { SuppressionReason } from "../domain/suppression.entity.ts";
+import { RecipientsSuppressedError } from "./errors/suppression-errors.ts";
+import { EmailsService } from "./emails.service.ts";
+import type {
+  EmailProvider,
+  SendEmailResult,
+} from "./interfaces/email-provider.ts";
+import type { EmailsRepository } from "./interfaces/emails-repository.ts";
+import type { SuppressionsService } from "./suppressions.service.ts";
+import type { RateLimitsService } from "./rate-limits.service.ts";
+import type { TemplatesService } from "./templates.service.ts";
+import type { StorageService } from "./storage.service.ts";
+import type { AuditLogRepository } from "./interfaces/audit-log-repository.ts";
+import type { UpdateEmailData } from "./types/update-email-data.ts";
+
+class FakeProvider implements EmailProvider {
+  calls = 0;
+
+  constructor(private readonly result: SendEmailResult) {}
+
+  async send(): Promise<SendEmailResult> {
+    this.calls++;
+    return this.result;
+  }
+}
+
+// хранит только то, что нужно для отправки арендованного письма
+class FakeEmailsRepository {
+  states = new Map<string, DeliveryState>();
+  completed: UpdateEmailData[] = [];
+  events: EmailEventType[] = [];
+  deferred: { emailId: string; until: Date }[] = [];
+  failCompletions = 0;
+
+  async startSending(deliveryId: string): Promise<boolean> {
+    if (this.states.get(deliveryId) !== DeliveryState.CLAIMED) {
+      return false;
+    }
+
+    this.states.set(deliveryId, DeliveryState.SENDING);
+    return true;
+  }
+
+  async completeDelivery(
+    deliveryId: string,
+    data: UpdateEmailData,
+    event: EmailEventType,
+  ): Promise<EmailEntity> {
+    if (this.failCompletions > 0) {
+      this.failCompletions--;
+      throw new Error("Connection terminated");
+    }
+
+    this.states.set(deliveryId, DeliveryState.COMPLETED);
+    this.completed.push(data);
+    this.events.push(event);
+
+    return {
+      id: data.id,
+      status: data.status,
+      attempts: [],
+    } as unknown as EmailEntity;
+  }
+
+  async deferDelivery(
+    deliveryId: string,
+    emailId: string,
+    until: Date,
+  ): Promise<EmailEntity> {
+    this.states.set(deliveryId, DeliveryState.RELEASED);
+    this.deferred.push({ emailId, until });
+
+    return {
+      id: emailId,
+      status: EmailStatus.QUEUED,
+      nextAttemptAt: until,
+    } as EmailEntity;
+  }
+}
+
+const suppressAll = {
+  checkRecipients: async () => {
+    throw new RecipientsSuppressedError([
+      { address: "user@example.com", reason: SuppressionReason.HARD_BOUNCE },
+    ]);
+  },
+} as unknown as SuppressionsService;
+
+const noSuppressions = {
+  checkRecipients: async (recipients: {
+    to: string[];
+    cc: string[];
+    bcc: string[];
+  }) => ({ recipients, suppressed: [] }),
+} as unknown as SuppressionsService;
+
+class FakeDomainThrottles {
+  refunded: string[][] = [];
+
+  constructor(private readonly until: Date | null) {}
+
+  async throttleRecipientDomains(): Promise<Date | null> {
+    return this.until;
+  }
+
+  async refundRecipientDomains(recipients: string[]): Promise<void> {
+    this.refunded.push(recipients);
+  }
+}
+
+const createClaim = (): ClaimedEmail => ({
+  email: {
+    id: "email-1",
+    to: ["user@example.com"],
+    cc: [],
+    bcc: [],
+    suppressedRecipients: [],
+    attempts: [],
+  } as unknown as EmailEntity,
+  delivery: {
+    id: "delivery-1",
+    emailId: "email-1",
+    attempt: 1,
+    state: DeliveryState.CLAIMED,
+    workerId: "test",
+    leaseExpiresAt: new Date(Date.now() + 60_000),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+});
+
+describe("EmailsService.deliverEmail", () => {
+  let repository: FakeEmailsRepository;
+  let domainThrottles: FakeDomainThrottles;
+
+  const createService = (
+    provider: EmailProvider,
+    domainsThrottledUntil: Date | null = null,
+    suppressions: SuppressionsService = noSuppressions,
+  ) => {
+    domainThrottles = new FakeDomainThrottles(domainsThrottledUntil);
+
+    return new EmailsService(
+      repository as unknown as EmailsRepository,
+      provider,
+      {} as AuditLogRepository,
+      {} as TemplatesService,
+      suppressions,
+      domainThrottles as unknown as RateLimitsService,
+      {} as StorageService,
+      60_000,
+    );
+  };
+
+  beforeEach(() => {
+    repository = new FakeEmailsRepository();
+    repository.states.set("delivery-1", DeliveryState.CLAIMED);
+  });
+
+  it("should record the result and complete the lease", async () => {
+    const provider = new FakeProvider({
+      success: true,
+      messageId: "<id@example.com>",
+      provider: "primary",
+    });
+
+    const result = await createService(provider).deliverEmail(createClaim());
+
+    expect(provider.calls).toBe(1);
+    expect(result?.status).toBe(EmailStatus.SENT);
+    expect(repository.states.get("delivery-1")).toBe(DeliveryState.COMPLETED);
+    expect(repository.completed[0]).toMatchObject({
+      id: "email-1",
+      status: EmailStatus.SENT,
+      messageId: "<id@example.com>",
+      attempt: { attempt: 1, success: true },
+    });
+    expect(repository.events).toEqual([EmailEventType.SENT]);
+    expect(domainThrottles.refunded).toEqual([]);
+  });
+
+  it("should not send when the lease was lost", async () => {
+    const provider = new FakeProvider({ success: true });
+
+    // восстановление успело вернуть письмо в очередь
+    repository.states.set("delivery-1", DeliveryState.RELEASED);
+
+    const result = await createService(provider).deliverEmail(createClaim());
+
+    expect(result).toBeNull();
+    expect(provider.calls).toBe(0);
+    expect(repository.completed).toEqual([]);
+  });
+
+  it("should retry recording the result without sending again", async () => {
+    const provider = new FakeProvider({ success: true, messageId: "id" });
+    repository.failCompletions = 1;
+
+    const result = await createService(provider).deliverEmail(createClaim());
+
+    expect(provider.calls).toBe(1);
+    expect(result?.status).toBe(EmailStatus.SENT);
+  });
+
+  it("should retry recording the dead letter of a suppressed email", async () => {
+    const provider = new FakeProvider({ success: true });
+    repository.failCompletions = 1;
+
+    const result = await createService(
+      provider,
+      null,
+      suppressAll,
+    ).deliverEmail(createClaim());
+
+    expect(provider.calls).toBe(0);
+    expect(result?.status).toBe(EmailStatus.DEAD_LETTER);
+    expect(repository.events).toEqual([EmailEventType.FAILED]);
+  });
+
+  it("should defer a throttled email without sending or counting an attempt", async () => {
+    const provider = new FakeProvider({ success: true });
+    const until = new Date(Date.now() + 30_000);
+
+    const result = await createService(provider, until).deliverEmail(
+      createClaim(),
+    );
+
+    expect(provider.calls).toBe(0);
+    expect(result).toMatchObject({
+      status: EmailStatus.QUEUED,
+      nextAttemptAt: until,
+    });
+    expect(repository.deferred).toEqual([{ emailId: "email-1", until }]);
+    expect(repository.completed).toEqual([]);
+    expect(repository.states.get("delivery-1")).toBe(DeliveryState.RELEASED);
+    expect(repository.events).toEqual([]);
+  });
+
+  it("should defer when all providers are throttled", async () => {
+    const until = new Date(Date.now() + 1_000);
+    const provider = new FakeProvider({
+      success: false,
+      error: "All matching email providers are throttled",
+      throttledUntil: until,
+    });
+
+    const result = await createService(provider).deliverEmail(createClaim());
+
+    expect(result?.status).toBe(EmailStatus.QUEUED);
+    expect(repository.deferred).toEqual([{ emailId: "email-1", until }]);
+    expect(repository.completed).toEqual([]);
+    // письмо не отправлено, получатели не занимают окно домена
+    expect(domainThrottles.refunded).toEqual([["user@example.com"]]);
+  });
+
+  it("should refund the domain throttle when a failed send will be retried", async () => {
+    const provider = new FakeProvider({
+      success: false,
+      error: "Connection timeout",
+      errorCode: "ETIMEDOUT",
+    });
+
+    const result = await createService(provider).deliverEmail(createClaim());
+
+    expect(result?.status).toBe(EmailStatus.FAILED);
+    expect(domainThrottles.refunded).toEqual([["user@example.com"]]);
+  });
+});
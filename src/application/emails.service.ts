@@ -1,10 +1,30 @@
 import type { AttachmentEntity } from "../domain/attachment.entity.ts";
 import type { EmailsRepository } from "./interfaces/emails-repository.ts";
 import { config } from "../config/env.ts";
-import { EmailStatus } from "../domain/types.ts";
-import type { EmailProvider } from "./interfaces/email-provider.ts";
+import { EmailStatus, type EmailAttempt } from "../domain/types.ts";
+import type {
+  EmailProvider,
+  SendEmailResult,
+} from "./interfaces/email-provider.ts";
 import type { EmailEntity } from "../domain/email.entity.ts";
-import { StorageService } from "./storage.service.ts";
+import type { StorageService } from "./storage.service.ts";
+import type { SaveEmailData } from "./types/save-email-data.ts";
+import type { FindEmailsFilter } from "./types/find-emails-filter.ts";
+import type { UpdateEmailData } from "./types/update-email-data.ts";
+import type { AuditLogRepository } from "./interfaces/audit-log-repository.ts";
+import type { AuditContext } from "./types/audit-context.ts";
+import type { TemplatesService } from "./templates.service.ts";
+import { computeBackoffDelay, shouldRetry } from "./retry-policy.ts";
+import type { SuppressionsService } from "./suppressions.service.ts";
+import type { RateLimitsService } from "./rate-limits.service.ts";
+import { EmailEventType } from "../domain/email-event.ts";
+import { RecipientsSuppressedError } from "./errors/suppression-errors.ts";
+import { EmailNotScheduledError } from "./errors/email-errors.ts";
+import type {
+  ClaimedEmail,
+  DeliveryLease,
+} from "../domain/email-delivery.entity.ts";
+import { hostname } from "os";
 
 export interface SendEmailRequest {
   to: string[];
@@ -15,91 +35,379 @@ export interface SendEmailRequest {
   cc?: string[];
   bcc?: string[];
   html?: string;
+  // если указан, subject/body/html формируются из активной версии шаблона
+  templateId?: string;
+  variables?: Record<string, unknown>;
+  tag?: string;
+  // клиент API, от имени которого отправляется письмо
+  apiClientId?: string | null;
+  // отложенная отправка: момент отправки (UTC) и часовой пояс, в котором он был задан
+  sendAt?: Date;
+  timezone?: string;
   attachments?: Omit<AttachmentEntity, "id" | "createdAt" | "emailId">[];
 }
 
+// действия, выполненные не через API (например, cron очистки)
+const SYSTEM_AUDIT_CONTEXT: AuditContext = { actor: "system" };
+
+// запись результата после успешной отправки повторяется, чтобы письмо не ушло в восстановление
+const COMPLETE_DELIVERY_ATTEMPTS = 3;
+const COMPLETE_DELIVERY_RETRY_DELAY = 1000;
+
 export class EmailsService {
   private readonly emailsRepository: EmailsRepository;
   private readonly emailProvider: EmailProvider;
   private readonly storageService: StorageService;
+  private readonly auditLogRepository: AuditLogRepository;
+  private readonly templatesService: TemplatesService;
+  private readonly suppressionsService: SuppressionsService;
+  private readonly rateLimitsService: RateLimitsService;
+  private readonly lease: DeliveryLease;
 
   constructor(
     emailsRepository: EmailsRepository,
     emailProvider: EmailProvider,
+    auditLogRepository: AuditLogRepository,
+    templatesService: TemplatesService,
+    suppressionsService: SuppressionsService,
+    rateLimitsService: RateLimitsService,
+    storageService: StorageService,
+    leaseDuration: number = config.delivery.leaseDuration,
   ) {
     this.emailsRepository = emailsRepository;
     this.emailProvider = emailProvider;
-    this.storageService = new StorageService(); // no DI because it's a simple service
+    this.auditLogRepository = auditLogRepository;
+    this.templatesService = templatesService;
+    this.suppressionsService = suppressionsService;
+    this.rateLimitsService = rateLimitsService;
+    this.storageService = storageService;
+    this.lease = {
+      workerId: `${hostname()}:${process.pid}`,
+      duration: leaseDuration,
+    };
   }
 
+  /**
+   * Синхронная отправка: письмо сохраняется и сразу отправляется провайдеру
+   */
   async sendEmail(request: SendEmailRequest): Promise<EmailEntity | null> {
-    const savedEmail = await this.emailsRepository.save({
-      from: request.from || config.smtp.from,
-      to: request.to,
-      displayName: request.displayName || config.smtp.displayName,
-      subject: request.subject,
-      body: request.body,
-      cc: request.cc,
-      bcc: request.bcc,
-      html: request.html,
-      attachments: request.attachments,
-      status: EmailStatus.PENDING,
+    const savedEmail = await this.emailsRepository.save(
+      await this.toSaveEmailData(request, EmailStatus.PENDING),
+    );
+
+    const claimed = await this.emailsRepository.claimById(
+      savedEmail.id,
+      this.lease,
+    );
+
+    if (!claimed) {
+      throw new Error(`Failed to claim email ${savedEmail.id} for delivery`);
+    }
+
+    return this.deliverEmail(claimed);
+  }
+
+  /**
+   * Асинхронная отправка: письмо сохраняется в статусе QUEUED,
+   * отправку выполняет EmailDeliveryWorker
+   */
+  async queueEmail(request: SendEmailRequest): Promise<EmailEntity> {
+    return this.emailsRepository.save(
+      await this.toSaveEmailData(request, EmailStatus.QUEUED),
+      EmailEventType.QUEUED,
+    );
+  }
+
+  /**
+   * Отложенная отправка: письмо сохраняется в статусе SCHEDULED,
+   * в момент sendAt ScheduledEmailDispatcher передает его на отправку (QUEUED).
+   * Шаблон рендерится сразу, при сохранении
+   */
+  async scheduleEmail(
+    request: SendEmailRequest & { sendAt: Date },
+  ): Promise<EmailEntity> {
+    return this.emailsRepository.save(
+      await this.toSaveEmailData(request, EmailStatus.SCHEDULED),
+      EmailEventType.SCHEDULED,
+    );
+  }
+
+  /**
+   * Передает на отправку письма, время которых подошло (SCHEDULED -> QUEUED).
+   * Возвращает количество переданных писем
+   */
+  async releaseScheduledEmails(limit: number): Promise<number> {
+    const emailIds = await this.emailsRepository.releaseScheduled(limit);
+
+    return emailIds.length;
+  }
+
+  /**
+   * Отменяет отложенную отправку. Возвращает null, если письмо не найдено
+   */
+  async cancelScheduledEmail(
+    emailId: string,
+    audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  ): Promise<EmailEntity | null> {
+    const email = await this.findScheduledEmail(emailId);
+
+    if (!email) {
+      return null;
+    }
+
+    const cancelledEmail = await this.emailsRepository.cancelScheduled(emailId);
+
+    // письмо успели передать на отправку между проверкой и обновлением
+    if (!cancelledEmail) {
+      throw new EmailNotScheduledError(emailId, EmailStatus.QUEUED);
+    }
+
+    await this.recordAudit("email.cancel", emailId, audit);
+
+    return cancelledEmail;
+  }
+
+  /**
+   * Переносит отложенную отправку. Возвращает null, если письмо не найдено
+   */
+  async rescheduleEmail(
+    emailId: string,
+    sendAt: Date,
+    timezone: string | null,
+    audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  ): Promise<EmailEntity | null> {
+    const email = await this.findScheduledEmail(emailId);
+
+    if (!email) {
+      return null;
+    }
+
+    const rescheduledEmail = await this.emailsRepository.reschedule(
+      emailId,
+      sendAt,
+      timezone,
+    );
+
+    if (!rescheduledEmail) {
+      throw new EmailNotScheduledError(emailId, EmailStatus.QUEUED);
+    }
+
+    await this.recordAudit("email.reschedule", emailId, audit, {
+      from: email.scheduledAt?.toISOString() ?? null,
+      to: sendAt.toISOString(),
     });
 
+    return rescheduledEmail;
+  }
+
+  /**
+   * Забирает из базы очередную пачку писем, готовых к отправке (переводит их в PENDING под аренду)
+   */
+  async claimEmailsForDelivery(limit: number): Promise<ClaimedEmail[]> {
+    return this.emailsRepository.claimForDelivery(limit, this.lease);
+  }
+
+  /**
+   * Отправляет арендованное письмо в статусе PENDING и в одной транзакции записывает
+   * результат попытки и закрывает аренду.
+   * При временной ошибке письмо остается в FAILED с nextAttemptAt (повтор выполнит воркер),
+   * при постоянной ошибке или исчерпании попыток - переводится в DEAD_LETTER.
+   * Если домен получателей или все провайдеры исчерпали ограничение скорости,
+   * письмо возвращается в QUEUED до nextAttemptAt без учета попытки.
+   * Возвращает null, если аренда истекла до отправки (письмо вернет в очередь восстановление)
+   */
+  async deliverEmail({
+    email,
+    delivery,
+  }: ClaimedEmail): Promise<EmailEntity | null> {
+    const attemptNumber = delivery.attempt;
+
+    // адреса могли попасть в список подавления, пока письмо ждало отправки
+    let checked: Awaited<ReturnType<SuppressionsService["checkRecipients"]>>;
+
     try {
-      // какая есть сейчас проблема, при проверке result.success если он true, то обновление статуса может упасть, но письмо отправлено
-      // будут неконсистентные данные в базе
-      const result = await this.emailProvider.send(savedEmail);
+      checked = await this.suppressionsService.checkRecipients(email);
+    } catch (error) {
+      if (!(error instanceof RecipientsSuppressedError)) {
+        throw error;
+      }
 
-      if (result.success) {
-        const sentEmail = this.emailsRepository.update({
-          id: savedEmail.id,
-          status: EmailStatus.SENT,
-          sentAt: new Date(),
-        });
+      const failedEmail = await this.completeDelivery(
+        delivery.id,
+        {
+          id: email.id,
+          status: EmailStatus.DEAD_LETTER,
+          error: error.message,
+          nextAttemptAt: null,
+        },
+        EmailEventType.FAILED,
+      );
 
-        if (!sentEmail) {
-          throw new Error("Failed to update email status");
-        }
+      return failedEmail;
+    }
 
-        return sentEmail;
-      } else {
-        const failedEmail = this.emailsRepository.update({
-          id: savedEmail.id,
-          status: EmailStatus.FAILED,
-          error: result.error || "Unknown error",
-        });
+    const recipients = [
+      ...checked.recipients.to,
+      ...checked.recipients.cc,
+      ...checked.recipients.bcc,
+    ];
+    const throttledAt = new Date();
+    const throttledUntil =
+      await this.rateLimitsService.throttleRecipientDomains(
+        recipients,
+        throttledAt,
+      );
 
-        if (!failedEmail) {
-          throw new Error("Failed to update email status");
-        }
+    if (throttledUntil) {
+      return this.emailsRepository.deferDelivery(
+        delivery.id,
+        email.id,
+        throttledUntil,
+      );
+    }
 
-        return failedEmail;
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
+    // после этого шага повторной отправки при сбое не будет
+    if (!(await this.emailsRepository.startSending(delivery.id))) {
+      console.warn(
+        `Delivery lease for email ${email.id} expired before sending, skipped`,
+      );
+      await this.rateLimitsService.refundRecipientDomains(
+        recipients,
+        throttledAt,
+      );
+      return null;
+    }
+
+    let result: SendEmailResult;
+
+    const startedAt = performance.now();
 
-      const failedEmail = this.emailsRepository.update({
-        id: savedEmail.id,
-        status: EmailStatus.FAILED,
-        error: errorMessage,
+    try {
+      result = await this.emailProvider.send({
+        ...email,
+        ...checked.recipients,
       });
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
 
-      if (!failedEmail) {
-        throw new Error("Failed to update email status");
-      }
+    // провайдер не вызывался, письмо можно безопасно отправить позже
+    if (result.throttledUntil) {
+      await this.rateLimitsService.refundRecipientDomains(
+        recipients,
+        throttledAt,
+      );
+      return this.emailsRepository.deferDelivery(
+        delivery.id,
+        email.id,
+        result.throttledUntil,
+      );
+    }
 
-      return failedEmail;
+    const durationMs = Math.round(performance.now() - startedAt);
+
+    const attempt: EmailAttempt = {
+      attempt: attemptNumber,
+      at: new Date(),
+      provider: result.provider ?? null,
+      success: result.success,
+      error: result.success ? null : result.error || "Unknown error",
+      responseCode: result.responseCode ?? null,
+      errorCode: result.errorCode ?? null,
+      response: result.response ?? null,
+      durationMs,
+    };
+
+    const deliveryResult = {
+      acceptedRecipients: result.accepted ?? [],
+      rejectedRecipients: result.rejected ?? [],
+      smtpResponse: attempt.response,
+      sendDurationMs: durationMs,
+      ...(checked.suppressed.length > 0 && {
+        suppressedRecipients: [
+          ...email.suppressedRecipients,
+          ...checked.suppressed.map((recipient) => recipient.address),
+        ],
+      }),
+    };
+
+    if (result.success) {
+      const sentEmail = await this.completeDelivery(
+        delivery.id,
+        {
+          id: email.id,
+          status: EmailStatus.SENT,
+          sentAt: attempt.at,
+          provider: result.provider,
+          messageId: result.messageId,
+          ...deliveryResult,
+          attempt,
+          nextAttemptAt: null,
+        },
+        EmailEventType.SENT,
+      );
+
+      return sentEmail;
+    }
+
+    const retry = shouldRetry(result, attemptNumber, config.retry);
+
+    // письмо не доставлено и будет отправлено повторно: получатели учтутся при повторе
+    if (retry) {
+      await this.rateLimitsService.refundRecipientDomains(
+        recipients,
+        throttledAt,
+      );
     }
+
+    const failedEmail = await this.completeDelivery(
+      delivery.id,
+      {
+        id: email.id,
+        status: retry ? EmailStatus.FAILED : EmailStatus.DEAD_LETTER,
+        error: attempt.error!,
+        provider: result.provider,
+        ...deliveryResult,
+        attempt,
+        nextAttemptAt: retry
+          ? new Date(
+              attempt.at.getTime() +
+                computeBackoffDelay(attemptNumber, config.retry),
+            )
+          : null,
+      },
+      EmailEventType.FAILED,
+    );
+
+    return failedEmail;
+  }
+
+  /**
+   * Возвращает в очередь письма, зависшие в PENDING после падения воркера.
+   * Письма, отправка которых была прервана на вызове провайдера, переводятся в DEAD_LETTER
+   */
+  async recoverStuckDeliveries(): Promise<{
+    requeued: string[];
+    interrupted: string[];
+  }> {
+    return this.emailsRepository.recoverStuckDeliveries(this.lease.duration);
   }
 
   async getEmailDetails(emailId: string): Promise<EmailEntity | null> {
     return this.emailsRepository.findById(emailId);
   }
-  // TODO: getEmails
 
-  async deleteEmailSoft(emailId: string): Promise<EmailEntity | null> {
+  async getEmails(filter: FindEmailsFilter) {
+    return this.emailsRepository.findAll(filter);
+  }
+
+  async deleteEmailSoft(
+    emailId: string,
+    audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  ): Promise<EmailEntity | null> {
     try {
       const deletedEmail = await this.emailsRepository.deleteSoft(emailId);
 
@@ -107,22 +415,9 @@ export class EmailsService {
         return null;
       }
 
-      if (deletedEmail && deletedEmail.attachments.length > 0) {
-        const deletePromises = deletedEmail.attachments.map((attachment) =>
-          this.storageService.deleteAttachment(attachment),
-        );
-
-        const results = await Promise.allSettled(deletePromises);
+      await this.deleteAttachmentFiles(deletedEmail);
 
-        results.forEach((result, index) => {
-          if (result.status === "rejected") {
-            console.error(
-              `Failed to delete attachment ${deletedEmail.attachments[index].filename}:`,
-              result.reason,
-            );
-          }
-        });
-      }
+      await this.recordAudit("email.delete_soft", emailId, audit);
 
       return deletedEmail;
     } catch (error) {
@@ -135,9 +430,32 @@ export class EmailsService {
     }
   }
 
-  async deleteEmailHard(emailId: string): Promise<void> {
+  /**
+   * Полное удаление письма и вложений. Возвращает null, если письмо не найдено
+   */
+  async deleteEmailHard(
+    emailId: string,
+    audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  ): Promise<EmailEntity | null> {
     try {
+      const email = await this.emailsRepository.findById(emailId);
+
+      if (!email) {
+        return null;
+      }
+
       await this.emailsRepository.deleteHard(emailId);
+
+      // у мягко удаленных писем файлы уже удалены
+      if (!email.deletedAt) {
+        await this.deleteAttachmentFiles(email);
+      }
+
+      await this.recordAudit("email.delete_hard", emailId, audit, {
+        wasSoftDeleted: email.deletedAt !== null,
+      });
+
+      return email;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
@@ -146,4 +464,176 @@ export class EmailsService {
       throw new Error(errorMessage);
     }
   }
+
+  /**
+   * Восстанавливает мягко удаленное письмо.
+   * Файлы вложений без других ссылок удаляются при мягком удалении, поэтому они не восстанавливаются
+   */
+  async restoreEmail(
+    emailId: string,
+    audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  ): Promise<EmailEntity | null> {
+    const restoredEmail = await this.emailsRepository.restore(emailId);
+
+    if (!restoredEmail) {
+      return null;
+    }
+
+    await this.recordAudit("email.restore", emailId, audit);
+
+    return restoredEmail;
+  }
+
+  /**
+   * Удаляет файлы вложений, которые так и не были сохранены с письмом
+   * (например, запрос оказался повтором по Idempotency-Key)
+   */
+  async discardAttachments(
+    attachments: Pick<AttachmentEntity, "storageKey">[],
+  ): Promise<void> {
+    await Promise.allSettled(
+      attachments.map((attachment) =>
+        this.storageService.deleteAttachment(attachment),
+      ),
+    );
+  }
+
+  private async completeDelivery(
+    deliveryId: string,
+    data: UpdateEmailData,
+    event: EmailEventType,
+  ): Promise<EmailEntity> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.emailsRepository.completeDelivery(
+          deliveryId,
+          data,
+          event,
+        );
+      } catch (error) {
+        if (attempt >= COMPLETE_DELIVERY_ATTEMPTS) {
+          throw error;
+        }
+
+        console.error(
+          `Failed to record delivery result for email ${data.id}, retrying:`,
+          error,
+        );
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, COMPLETE_DELIVERY_RETRY_DELAY * attempt),
+        );
+      }
+    }
+  }
+
+  private async findScheduledEmail(
+    emailId: string,
+  ): Promise<EmailEntity | null> {
+    const email = await this.emailsRepository.findById(emailId);
+
+    if (!email || email.deletedAt) {
+      return null;
+    }
+
+    if (email.status !== EmailStatus.SCHEDULED) {
+      throw new EmailNotScheduledError(emailId, email.status);
+    }
+
+    return email;
+  }
+
+  private async deleteAttachmentFiles(email: EmailEntity): Promise<void> {
+    if (email.attachments.length === 0) {
+      return;
+    }
+
+    const results = await Promise.allSettled(
+      email.attachments.map((attachment) =>
+        this.storageService.deleteAttachment(attachment),
+      ),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        console.error(
+          `Failed to delete attachment ${email.attachments[index].filename}:`,
+          result.reason,
+        );
+      }
+    });
+  }
+
+  // ошибка записи аудита не должна отменять уже выполненное действие
+  private async recordAudit(
+    action: string,
+    emailId: string,
+    audit: AuditContext,
+    details?: Record<string, unknown>,
+  ): Promise<void> {
+    try {
+      await this.auditLogRepository.record({
+        action,
+        entityType: "email",
+        entityId: emailId,
+        actor: audit.actor,
+        ip: audit.ip ?? null,
+        details: details ?? null,
+      });
+    } catch (error) {
+      console.error(
+        `Failed to record audit log for ${action} ${emailId}:`,
+        error,
+      );
+    }
+  }
+
+  private async toSaveEmailData(
+    request: SendEmailRequest,
+    status: EmailStatus,
+  ): Promise<SaveEmailData> {
+    // бросает RecipientsSuppressedError, если отправку нужно отклонить
+    const { recipients, suppressed } =
+      await this.suppressionsService.checkRecipients({
+        to: request.to,
+        cc: request.cc ?? [],
+        bcc: request.bcc ?? [],
+      });
+
+    const data: SaveEmailData = {
+      from: request.from || config.smtp.from,
+      to: recipients.to,
+      displayName: request.displayName || config.smtp.displayName,
+      subject: request.subject,
+      body: request.body,
+      cc: recipients.cc,
+      bcc: recipients.bcc,
+      html: request.html,
+      attachments: request.attachments,
+      tag: request.tag,
+      apiClientId: request.apiClientId ?? null,
+      suppressedRecipients: suppressed.map((recipient) => recipient.address),
+      scheduledAt: request.sendAt,
+      timezone: request.timezone,
+      status,
+    };
+
+    if (!request.templateId) {
+      return data;
+    }
+
+    const rendered = await this.templatesService.renderActiveVersion(
+      request.templateId,
+      request.variables ?? {},
+    );
+
+    return {
+      ...data,
+      subject: rendered.subject,
+      body: rendered.body,
+      html: rendered.html ?? undefined,
+      templateId: rendered.templateId,
+      templateVersion: rendered.templateVersion,
+    };
+  }
 }
@@ -0,0 +1,16 @@
+export class SenderNotAllowedError extends Error {
+  public readonly sender: string;
+
+  constructor(sender: string) {
+    super(`Sender ${sender} is not allowed for this API client`);
+    this.name = this.constructor.name;
+    this.sender = sender;
+  }
+}
+
+export class ApiClientNotFoundError extends Error {
+  constructor(clientId: string) {
+    super(`API client ${clientId} not found`);
+    this.name = this.constructor.name;
+  }
+}
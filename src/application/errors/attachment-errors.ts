@@ -0,0 +1,77 @@
+export const AttachmentRejectionCode = {
+  HOST_NOT_ALLOWED: "HOST_NOT_ALLOWED",
+  FILE_TOO_LARGE: "FILE_TOO_LARGE",
+  TOTAL_SIZE_EXCEEDED: "TOTAL_SIZE_EXCEEDED",
+  TYPE_NOT_ALLOWED: "TYPE_NOT_ALLOWED",
+  EXTENSION_NOT_ALLOWED: "EXTENSION_NOT_ALLOWED",
+  // содержимое не соответствует расширению или заявленному типу
+  CONTENT_MISMATCH: "CONTENT_MISMATCH",
+  VIRUS_DETECTED: "VIRUS_DETECTED",
+} as const;
+
+export type AttachmentRejectionCode =
+  (typeof AttachmentRejectionCode)[keyof typeof AttachmentRejectionCode];
+
+export interface RejectedAttachment {
+  // имя файла, как его передал клиент
+  filename: string;
+  code: AttachmentRejectionCode;
+  message: string;
+}
+
+/**
+ * Вложения письма отклонены при приеме, причина указана для каждого файла
+ */
+export class AttachmentsRejectedError extends Error {
+  public readonly attachments: RejectedAttachment[];
+
+  constructor(attachments: RejectedAttachment[]) {
+    super(
+      `Attachments rejected: ${attachments.map((attachment) => `${attachment.filename} (${attachment.message})`).join(", ")}`,
+    );
+    this.name = this.constructor.name;
+    this.attachments = attachments;
+  }
+}
+
+/**
+ * Антивирус недоступен, вложения не могут быть проверены
+ */
+export class VirusScanUnavailableError extends Error {
+  public readonly reason: string;
+
+  constructor(reason: string) {
+    super(`Virus scan unavailable: ${reason}`);
+    this.name = this.constructor.name;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Не удалось загрузить вложение по url.
+ * permanent - повтор не поможет (4xx, превышен размер, хост не разрешен)
+ */
+export class AttachmentFetchError extends Error {
+  public readonly url: string;
+  public readonly reason: string;
+  public readonly permanent: boolean;
+  public readonly filename: string | null;
+
+  constructor(
+    url: string,
+    reason: string,
+    permanent: boolean,
+    filename: string | null = null,
+  ) {
+    super(
+      filename
+        ? `Attachment "${filename}" could not be fetched from ${url}: ${reason}`
+        : `Failed to fetch ${url}: ${reason}`,
+    );
+    this.name = this.constructor.name;
+    this.url = url;
+    this.reason = reason;
+    this.permanent = permanent;
+    this.filename = filename;
+  }
+}
@@ -0,0 +1,12 @@
+import type { EmailStatus } from "../../domain/types.ts";
+
+/**
+ * Отмена / перенос возможны только для писем в статусе SCHEDULED
+ * (письмо уже передано на отправку, отправлено или отменено)
+ */
+export class EmailNotScheduledError extends Error {
+  constructor(emailId: string, status: EmailStatus) {
+    super(`Email ${emailId} is not scheduled (status ${status})`);
+    this.name = this.constructor.name;
+  }
+}
@@ -0,0 +1,15 @@
+export class IdempotencyKeyMismatchError extends Error {
+  constructor(key: string) {
+    super(
+      `Idempotency key "${key}" was already used with a different request payload`,
+    );
+    this.name = this.constructor.name;
+  }
+}
+
+export class IdempotencyKeyInProgressError extends Error {
+  constructor(key: string) {
+    super(`Request with idempotency key "${key}" is still being processed`);
+    this.name = this.constructor.name;
+  }
+}
@@ -0,0 +1,14 @@
+export type RateLimitName = "requests" | "recipients";
+
+export class RateLimitExceededError extends Error {
+  public readonly limit: RateLimitName;
+  // через сколько секунд можно повторить запрос
+  public readonly retryAfter: number;
+
+  constructor(limit: RateLimitName, retryAfter: number) {
+    super(`Rate limit exceeded for ${limit}, retry in ${retryAfter}s`);
+    this.name = this.constructor.name;
+    this.limit = limit;
+    this.retryAfter = retryAfter;
+  }
+}
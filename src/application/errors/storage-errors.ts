@@ -0,0 +1,9 @@
+export class StorageObjectNotFoundError extends Error {
+  public readonly key: string;
+
+  constructor(key: string) {
+    super(`Storage object ${key} not found`);
+    this.name = this.constructor.name;
+    this.key = key;
+  }
+}
@@ -0,0 +1,22 @@
+import type { SuppressionReason } from "../../domain/suppression.entity.ts";
+
+export interface SuppressedRecipient {
+  address: string;
+  reason: SuppressionReason;
+}
+
+/**
+ * Отправка отклонена: получатели в списке подавления
+ * (политика reject или после исключения не осталось ни одного получателя)
+ */
+export class RecipientsSuppressedError extends Error {
+  public readonly recipients: SuppressedRecipient[];
+
+  constructor(recipients: SuppressedRecipient[]) {
+    super(
+      `Recipients are suppressed: ${recipients.map((recipient) => recipient.address).join(", ")}`,
+    );
+    this.name = this.constructor.name;
+    this.recipients = recipients;
+  }
+}
@@ -0,0 +1,49 @@
+export interface TemplateVariableIssue {
+  variable: string;
+  // missing - не передана обязательная переменная
+  // unknown - передана переменная, не объявленная в шаблоне
+  // invalid_type - значение не соответствует типу переменной
+  // undeclared - плейсхолдер в тексте шаблона не объявлен в variables
+  code: "missing" | "unknown" | "invalid_type" | "undeclared";
+  message: string;
+}
+
+export class TemplateNotFoundError extends Error {
+  constructor(templateId: string, version?: number) {
+    super(
+      version === undefined
+        ? `Template ${templateId} not found`
+        : `Template ${templateId} version ${version} not found`,
+    );
+    this.name = this.constructor.name;
+  }
+}
+
+export class TemplateVariablesError extends Error {
+  public readonly issues: TemplateVariableIssue[];
+
+  constructor(issues: TemplateVariableIssue[]) {
+    super("Invalid template variables");
+    this.name = this.constructor.name;
+    this.issues = issues;
+  }
+}
+
+export class TemplateConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+export class TestRecipientNotAllowedError extends Error {
+  public readonly recipients: string[];
+
+  constructor(recipients: string[]) {
+    super(
+      `Recipients are not allowed for test sends: ${recipients.join(", ")}`,
+    );
+    this.name = this.constructor.name;
+    this.recipients = recipients;
+  }
+}
@@ -0,0 +1,9 @@
+export class WebhookUrlNotAllowedError extends Error {
+  public readonly url: string;
+
+  constructor(url: string, reason: string) {
+    super(`Webhook url ${url} is not allowed: ${reason}`);
+    this.name = this.constructor.name;
+    this.url = url;
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { IdempotencyKeyEntity } from "../domain/idempotency-key.entity.ts";
+import {
+  IdempotencyKeyInProgressError,
+  IdempotencyKeyMismatchError,
+} from "./errors/idempotency-errors.ts";
+import {
+  hashPayload,
+  IdempotencyService,
+  type IdempotentResponse,
+} from "./idempotency.service.ts";
+import type { IdempotencyKeysRepository } from "./interfaces/idempotency-keys-repository.ts";
+
+class InMemoryIdempotencyKeysRepository implements IdempotencyKeysRepository {
+  entries = new Map<string, IdempotencyKeyEntity>();
+
+  async acquire(key: string, requestHash: string, lockTimeout: number) {
+    const existing = this.entries.get(key);
+
+    if (existing && existing.expiresAt > new Date()) {
+      return null;
+    }
+
+    const entry: IdempotencyKeyEntity = {
+      key,
+      requestHash,
+      responseStatus: null,
+      responseBody: null,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + lockTimeout),
+    };
+
+    this.entries.set(key, entry);
+
+    return entry;
+  }
+
+  async findByKey(key: string) {
+    return this.entries.get(key) ?? null;
+  }
+
+  async complete(key: string, status: number, body: unknown, ttl: number) {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      this.entries.set(key, {
+        ...entry,
+        responseStatus: status,
+        responseBody: body,
+        expiresAt: new Date(Date.now() + ttl),
+      });
+    }
+  }
+
+  async release(key: string) {
+    if (this.entries.get(key)?.responseStatus === null) {
+      this.entries.delete(key);
+    }
+  }
+
+  async deleteExpired() {
+    let deleted = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= new Date()) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+}
+
+describe("IdempotencyService", () => {
+  let repository: InMemoryIdempotencyKeysRepository;
+  let service: IdempotencyService;
+  let calls: number;
+
+  const handler = async (): Promise<IdempotentResponse<{ id: string }>> => {
+    calls++;
+    return { status: 201, body: { id: `email-${calls}` } };
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryIdempotencyKeysRepository();
+    service = new IdempotencyService(repository, 60_000);
+    calls = 0;
+  });
+
+  it("should return the stored response for a repeated request", async () => {
+    const payload = { to: ["user@example.com"], subject: "Hello" };
+
+    const first = await service.execute("key-1", payload, handler);
+    const second = await service.execute("key-1", payload, handler);
+
+    expect(calls).toBe(1);
+    expect(first).toEqual({
+      status: 201,
+      body: { id: "email-1" },
+      replayed: false,
+    });
+    expect(second).toEqual({
+      status: 201,
+      body: { id: "email-1" },
+      replayed: true,
+    });
+  });
+
+  it("should reject the same key with a different payload", async () => {
+    await service.execute("key-1", { subject: "Hello" }, handler);
+
+    await expect(
+      service.execute("key-1", { subject: "Other" }, handler),
+    ).rejects.toBeInstanceOf(IdempotencyKeyMismatchError);
+    expect(calls).toBe(1);
+  });
+
+  it("should reject a repeat while the first request is in progress", async () => {
+    await repository.acquire(
+      "key-1",
+      hashPayload({ subject: "Hello" }),
+      60_000,
+    );
+
+    await expect(
+      service.execute("key-1", { subject: "Hello" }, handler),
+    ).rejects.toBeInstanceOf(IdempotencyKeyInProgressError);
+  });
+
+  it("should take over a key left in progress longer than the lock timeout", async () => {
+    // процесс занял ключ и упал, не сохранив ответ
+    await repository.acquire("key-1", hashPayload({ subject: "Hello" }), -1);
+
+    const result = await service.execute(
+      "key-1",
+      { subject: "Hello" },
+      handler,
+    );
+
+    expect(result).toMatchObject({ body: { id: "email-1" }, replayed: false });
+  });
+
+  it("should keep the response for the ttl after a short lock", async () => {
+    service = new IdempotencyService(repository, 60_000, 1);
+
+    await service.execute("key-1", { subject: "Hello" }, handler);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const result = await service.execute(
+      "key-1",
+      { subject: "Hello" },
+      handler,
+    );
+
+    expect(result).toMatchObject({ body: { id: "email-1" }, replayed: true });
+    expect(calls).toBe(1);
+  });
+
+  it("should release the key when the handler fails", async () => {
+    await expect(
+      service.execute("key-1", { subject: "Hello" }, async () => {
+        throw new Error("Database is down");
+      }),
+    ).rejects.toThrow("Database is down");
+
+    const result = await service.execute(
+      "key-1",
+      { subject: "Hello" },
+      handler,
+    );
+
+    expect(result.replayed).toBe(false);
+    expect(calls).toBe(1);
+  });
+
+  it("should accept an expired key as new", async () => {
+    service = new IdempotencyService(repository, -1);
+
+    await service.execute("key-1", { subject: "Hello" }, handler);
+    const result = await service.execute(
+      "key-1",
+      { subject: "Other" },
+      handler,
+    );
+
+    expect(result).toMatchObject({ body: { id: "email-2" }, replayed: false });
+  });
+});
+
+describe("hashPayload", () => {
+  it("should not depend on key order or undefined fields", () => {
+    expect(hashPayload({ a: 1, b: { c: [1, 2], d: "x" } })).toBe(
+      hashPayload({ b: { d: "x", c: [1, 2] }, a: 1, e: undefined }),
+    );
+    expect(hashPayload({ a: [1, 2] })).not.toBe(hashPayload({ a: [2, 1] }));
+  });
+});
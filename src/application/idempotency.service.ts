@@ -0,0 +1,125 @@
+import { createHash } from "crypto";
+import { config } from "../config/env.ts";
+import {
+  IdempotencyKeyInProgressError,
+  IdempotencyKeyMismatchError,
+} from "./errors/idempotency-errors.ts";
+import type { IdempotencyKeysRepository } from "./interfaces/idempotency-keys-repository.ts";
+
+export interface IdempotentResponse<T = unknown> {
+  status: number;
+  body: T;
+}
+
+/**
+ * Повторные запросы с тем же ключом и содержимым получают сохраненный ответ,
+ * не выполняя отправку заново
+ */
+export class IdempotencyService {
+  private readonly idempotencyKeysRepository: IdempotencyKeysRepository;
+  private readonly ttl: number;
+  private readonly lockTimeout: number;
+
+  constructor(
+    idempotencyKeysRepository: IdempotencyKeysRepository,
+    ttl: number = config.idempotency.ttl,
+    lockTimeout: number = config.idempotency.lockTimeout,
+  ) {
+    this.idempotencyKeysRepository = idempotencyKeysRepository;
+    this.ttl = ttl;
+    this.lockTimeout = lockTimeout;
+  }
+
+  /**
+   * Выполняет handler один раз для ключа. Для повтора с тем же payload возвращает
+   * сохраненный ответ (replayed: true), с другим payload - IdempotencyKeyMismatchError.
+   * Если handler бросил ошибку, ключ освобождается и запрос можно повторить.
+   * Ключ, занятый дольше lockTimeout без ответа (процесс упал), занимается заново
+   */
+  async execute<T>(
+    key: string,
+    payload: unknown,
+    handler: () => Promise<IdempotentResponse<T>>,
+  ): Promise<IdempotentResponse<T> & { replayed: boolean }> {
+    const requestHash = hashPayload(payload);
+
+    const acquired = await this.idempotencyKeysRepository.acquire(
+      key,
+      requestHash,
+      this.lockTimeout,
+    );
+
+    if (!acquired) {
+      const existing = await this.idempotencyKeysRepository.findByKey(key);
+
+      // запись могла истечь и удалиться между acquire и findByKey
+      if (!existing) {
+        return this.execute(key, payload, handler);
+      }
+
+      if (existing.requestHash !== requestHash) {
+        throw new IdempotencyKeyMismatchError(key);
+      }
+
+      if (existing.responseStatus === null) {
+        throw new IdempotencyKeyInProgressError(key);
+      }
+
+      return {
+        status: existing.responseStatus,
+        body: existing.responseBody as T,
+        replayed: true,
+      };
+    }
+
+    let response: IdempotentResponse<T>;
+
+    try {
+      response = await handler();
+    } catch (error) {
+      await this.idempotencyKeysRepository.release(key);
+      throw error;
+    }
+
+    await this.idempotencyKeysRepository.complete(
+      key,
+      response.status,
+      response.body,
+      this.ttl,
+    );
+
+    return { ...response, replayed: false };
+  }
+
+  async purgeExpired(): Promise<number> {
+    return this.idempotencyKeysRepository.deleteExpired();
+  }
+}
+
+export function hashPayload(payload: unknown): string {
+  return createHash("sha256").update(stableStringify(payload)).digest("hex");
+}
+
+// JSON с отсортированными ключами, чтобы порядок полей не влиял на hash
+function stableStringify(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(
+        ([name, item]) => `${JSON.stringify(name)}:${stableStringify(item)}`,
+      );
+
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
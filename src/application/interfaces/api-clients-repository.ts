@@ -0,0 +1,50 @@
+import type {
+  ApiClientEntity,
+  ApiKeyEntity,
+} from "../../domain/api-client.entity.ts";
+import type {
+  SaveApiClientData,
+  SaveApiKeyData,
+  UpdateApiClientData,
+} from "../types/save-api-client-data.ts";
+
+export interface ApiClientsRepository {
+  /**
+   * Создает клиента вместе с первым ключом (в одной транзакции)
+   */
+  create(
+    data: SaveApiClientData,
+    key: SaveApiKeyData,
+  ): Promise<{ client: ApiClientEntity; key: ApiKeyEntity }>;
+
+  findById(id: string): Promise<ApiClientEntity | null>;
+
+  findAll(): Promise<ApiClientEntity[]>;
+
+  update(data: UpdateApiClientData): Promise<ApiClientEntity | null>;
+
+  /**
+   * Действующий ключ (не отозван и не истек) активного клиента по hash ключа
+   */
+  findByKeyHash(
+    keyHash: string,
+  ): Promise<{ client: ApiClientEntity; key: ApiKeyEntity } | null>;
+
+  findKeys(clientId: string): Promise<ApiKeyEntity[]>;
+
+  /**
+   * Добавляет новый ключ, действующие ключи клиента истекают не позже previousExpiresAt
+   */
+  rotateKey(
+    clientId: string,
+    key: SaveApiKeyData,
+    previousExpiresAt: Date,
+  ): Promise<ApiKeyEntity>;
+
+  /**
+   * Отзывает ключ, null если ключ не найден
+   */
+  revokeKey(clientId: string, keyId: string): Promise<ApiKeyEntity | null>;
+
+  touchKey(keyId: string): Promise<void>;
+}
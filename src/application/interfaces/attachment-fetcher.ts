@@ -0,0 +1,12 @@
+export interface FetchedAttachment {
+  content: Buffer;
+  // определен по содержимому, если сигнатура известна, иначе по заголовку Content-Type
+  contentType: string;
+}
+
+export interface AttachmentFetcher {
+  /**
+   * Загружает вложение по url, бросает AttachmentFetchError
+   */
+  fetch(url: string): Promise<FetchedAttachment>;
+}
@@ -0,0 +1,10 @@
+/**
+ * Ссылки на объекты хранилища. Ссылка - вложение письма, не удаленного мягко
+ * (файлы мягко удаленных писем не восстанавливаются)
+ */
+export interface AttachmentsRepository {
+  countByStorageKey(storageKey: string): Promise<number>;
+
+  // ключи из списка, на которые есть ссылки
+  findReferencedStorageKeys(storageKeys: string[]): Promise<string[]>;
+}
@@ -0,0 +1,7 @@
+import type { AuditLogEntity } from "../../domain/audit-log.entity.ts";
+
+export interface AuditLogRepository {
+  record(
+    entry: Omit<AuditLogEntity, "id" | "createdAt">,
+  ): Promise<AuditLogEntity>;
+}
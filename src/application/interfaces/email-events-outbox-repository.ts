@@ -0,0 +1,15 @@
+import type { PendingEmailEvent } from "../../domain/email-event.ts";
+
+// События записываются в outbox репозиторием писем в транзакции изменения письма
+export interface EmailEventsOutboxRepository {
+  /**
+   * Забирает до limit записей с подошедшим временем попытки и сдвигает их nextAttemptAt на lease мс:
+   * если процесс упадет, событие будет передано повторно. Для каждого письма и получателя
+   * забирается только самая ранняя запись, следующая ждет, пока предыдущая не будет передана
+   */
+  claimDue(limit: number, lease: number): Promise<PendingEmailEvent[]>;
+
+  delete(id: string): Promise<void>;
+
+  recordFailure(id: string, error: string, nextAttemptAt: Date): Promise<void>;
+}
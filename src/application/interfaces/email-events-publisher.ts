@@ -0,0 +1,5 @@
+import type { EmailEvent } from "../../domain/email-event.ts";
+
+export interface EmailEventsPublisher {
+  publish(event: EmailEvent): Promise<void>;
+}
@@ -4,6 +4,19 @@ export interface SendEmailResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  // SMTP код ответа (например 421, 550), если сервер ответил ошибкой
+  responseCode?: number;
+  // код ошибки nodemailer / node (ETIMEDOUT, ECONNECTION, EAUTH, ...)
+  errorCode?: string;
+  // имя провайдера, через который выполнялась отправка
+  provider?: string;
+  // адреса, которые сервер принял / отклонил
+  accepted?: string[];
+  rejected?: string[];
+  // строка ответа сервера (например "250 2.0.0 OK queued as 4F3A1")
+  response?: string;
+  // все подходящие провайдеры исчерпали ограничение скорости, письмо не отправлялось
+  throttledUntil?: Date;
 }
 
 export interface EmailProvider {
@@ -1,13 +1,27 @@
 import type { EmailEntity } from "../../domain/email.entity.ts";
+import type {
+  ClaimedEmail,
+  DeliveryLease,
+} from "../../domain/email-delivery.entity.ts";
 import type { SaveEmailData } from "../types/save-email-data.ts";
 import type { UpdateEmailData } from "../types/update-email-data.ts";
+import type { FindEmailsFilter } from "../types/find-emails-filter.ts";
+import type { EmailStatus } from "../../domain/types.ts";
+import type { EmailEventType } from "../../domain/email-event.ts";
 
+// Изменения статуса письма записывают событие в outbox в той же транзакции:
+// методы с параметром event - если он передан, остальные - всегда (тип события указан в описании)
 export interface EmailsRepository {
-  save(data: SaveEmailData): Promise<EmailEntity>;
+  save(data: SaveEmailData, event?: EmailEventType): Promise<EmailEntity>;
 
   findById(id: string): Promise<EmailEntity | null>;
 
-  findAll(): Promise<{
+  /**
+   * Поиск по Message-ID, выданному провайдером (без угловых скобок)
+   */
+  findByMessageId(messageId: string): Promise<EmailEntity | null>;
+
+  findAll(filter: FindEmailsFilter): Promise<{
     emails: EmailEntity[];
     count: number;
     page: number;
@@ -15,11 +29,104 @@ export interface EmailsRepository {
     total: number;
   }>;
 
-  update(data: UpdateEmailData): Promise<EmailEntity | null>;
+  update(
+    data: UpdateEmailData,
+    event?: EmailEventType,
+  ): Promise<EmailEntity | null>;
+
+  /**
+   * Атомарно переводит в PENDING до limit писем, готовых к отправке
+   * (QUEUED и FAILED, у которых подошло время следующей попытки),
+   * и в той же транзакции создает для каждого аренду (CLAIMED) на lease.duration мс.
+   * Несколько воркеров не получат одно и то же письмо (FOR UPDATE SKIP LOCKED)
+   */
+  claimForDelivery(
+    limit: number,
+    lease: DeliveryLease,
+  ): Promise<ClaimedEmail[]>;
+
+  /**
+   * Аренда только что сохраненного письма в PENDING (синхронная отправка),
+   * null если письмо не в PENDING или уже арендовано
+   */
+  claimById(id: string, lease: DeliveryLease): Promise<ClaimedEmail | null>;
+
+  /**
+   * CLAIMED -> SENDING непосредственно перед вызовом провайдера.
+   * false - аренда истекла или уже закрыта, отправлять письмо нельзя
+   */
+  startSending(deliveryId: string): Promise<boolean>;
+
+  /**
+   * В одной транзакции записывает результат попытки в письмо, событие event и закрывает аренду (COMPLETED)
+   */
+  completeDelivery(
+    deliveryId: string,
+    data: UpdateEmailData,
+    event: EmailEventType,
+  ): Promise<EmailEntity>;
+
+  /**
+   * Откладывает отправку без учета попытки: аренда закрывается (RELEASED),
+   * письмо возвращается в QUEUED и будет забрано не раньше until
+   */
+  deferDelivery(
+    deliveryId: string,
+    emailId: string,
+    until: Date,
+  ): Promise<EmailEntity>;
+
+  /**
+   * Восстановление после падения воркера. Истекшие аренды CLAIMED - письмо возвращается в QUEUED,
+   * SENDING - письмо переводится в DEAD_LETTER (оно могло уйти, повтор дал бы дубль).
+   * Письма PENDING без аренды, не менявшиеся staleAfter мс, тоже возвращаются в QUEUED.
+   * Событие email.failed - для писем, переведенных в DEAD_LETTER
+   */
+  recoverStuckDeliveries(staleAfter: number): Promise<{
+    requeued: string[];
+    interrupted: string[];
+  }>;
+
+  /**
+   * Переводит в QUEUED до limit писем SCHEDULED, у которых подошло время отправки,
+   * возвращает их id (FOR UPDATE SKIP LOCKED). Событие email.queued
+   */
+  releaseScheduled(limit: number): Promise<string[]>;
 
+  /**
+   * SCHEDULED -> CANCELLED, null если письмо не найдено или уже не в SCHEDULED. Событие email.cancelled
+   */
+  cancelScheduled(id: string): Promise<EmailEntity | null>;
+
+  /**
+   * Новое время отправки для письма в SCHEDULED, null если письмо не найдено или уже не в SCHEDULED
+   */
+  reschedule(
+    id: string,
+    scheduledAt: Date,
+    timezone: string | null,
+  ): Promise<EmailEntity | null>;
+
+  /**
+   * Событие email.deleted
+   */
   deleteSoft(id: string): Promise<EmailEntity | null>;
 
+  /**
+   * Событие email.deleted, если письмо не было удалено мягко
+   */
   deleteHard(id: string): Promise<void>;
 
-  getEmailsIdOlderThan(days: number): Promise<string[]>;
+  /**
+   * Снимает мягкое удаление, возвращает null если письмо не найдено или не удалено
+   */
+  restore(id: string): Promise<EmailEntity | null>;
+
+  /**
+   * id писем, созданных больше days дней назад, кроме писем в статусах excludeStatuses
+   */
+  getEmailsIdOlderThan(
+    days: number,
+    excludeStatuses: EmailStatus[],
+  ): Promise<string[]>;
 }
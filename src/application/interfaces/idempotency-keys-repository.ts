@@ -0,0 +1,32 @@
+import type { IdempotencyKeyEntity } from "../../domain/idempotency-key.entity.ts";
+
+export interface IdempotencyKeysRepository {
+  /**
+   * Занимает ключ на lockTimeout мс. Возвращает запись, если ключ свободен или истек
+   * (в том числе брошен упавшим процессом), null - если ключ уже занят действующей записью
+   */
+  acquire(
+    key: string,
+    requestHash: string,
+    lockTimeout: number,
+  ): Promise<IdempotencyKeyEntity | null>;
+
+  findByKey(key: string): Promise<IdempotencyKeyEntity | null>;
+
+  /**
+   * Сохраняет ответ, ключ хранится еще ttl мс
+   */
+  complete(
+    key: string,
+    status: number,
+    body: unknown,
+    ttl: number,
+  ): Promise<void>;
+
+  /**
+   * Освобождает ключ, если ответ еще не сохранен (обработка завершилась ошибкой)
+   */
+  release(key: string): Promise<void>;
+
+  deleteExpired(): Promise<number>;
+}
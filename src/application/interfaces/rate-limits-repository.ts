@@ -0,0 +1,21 @@
+export interface RateLimitsRepository {
+  /**
+   * Атомарно увеличивает счетчик key в окне windowStart на cost, если он не превысит limit.
+   * Возвращает новое значение счетчика, null - лимит окна исчерпан (счетчик не меняется).
+   * Счетчик окна хранится до expiresAt
+   */
+  increment(
+    key: string,
+    windowStart: Date,
+    cost: number,
+    limit: number,
+    expiresAt: Date,
+  ): Promise<number | null>;
+
+  /**
+   * Возвращает cost в счетчик окна (операция, под которую он был увеличен, не выполнена)
+   */
+  decrement(key: string, windowStart: Date, cost: number): Promise<void>;
+
+  deleteExpired(): Promise<number>;
+}
@@ -0,0 +1,32 @@
+import type { Readable } from "stream";
+
+export interface StorageObject {
+  key: string;
+  lastModified: Date;
+}
+
+/**
+ * Хранилище содержимого вложений. Ключ - относительный путь объекта ("ab/<sha256>")
+ */
+export interface StorageBackend {
+  put(key: string, content: Buffer, contentType: string): Promise<void>;
+  /**
+   * Бросает StorageObjectNotFoundError, если объекта нет
+   */
+  get(key: string): Promise<Buffer>;
+  /**
+   * Поток содержимого для отдачи клиенту, бросает StorageObjectNotFoundError, если объекта нет
+   */
+  getStream(key: string): Promise<Readable>;
+  // null - объекта нет
+  stat(key: string): Promise<StorageObject | null>;
+  // все объекты хранилища, для поиска объектов без ссылок
+  list(): AsyncIterable<StorageObject>;
+  // отсутствующий объект не ошибка
+  delete(key: string): Promise<void>;
+  /**
+   * Ссылка на объект с ограниченным временем жизни,
+   * null - хранилище не выдает ссылок (локальный диск)
+   */
+  getSignedUrl(key: string, expiresIn: number): Promise<string | null>;
+}
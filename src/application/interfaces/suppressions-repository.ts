@@ -0,0 +1,34 @@
+import type { SuppressionEntity } from "../../domain/suppression.entity.ts";
+import type {
+  FindSuppressionsFilter,
+  SaveSuppressionData,
+  UpdateSuppressionData,
+} from "../types/save-suppression-data.ts";
+
+export interface SuppressionsRepository {
+  /**
+   * Добавляет запись, существующая запись для того же адреса / домена перезаписывается
+   */
+  upsert(data: SaveSuppressionData): Promise<SuppressionEntity>;
+
+  findById(id: string): Promise<SuppressionEntity | null>;
+
+  findAll(filter: FindSuppressionsFilter): Promise<{
+    suppressions: SuppressionEntity[];
+    page: number;
+    limit: number;
+    total: number;
+  }>;
+
+  update(data: UpdateSuppressionData): Promise<SuppressionEntity | null>;
+
+  delete(id: string): Promise<SuppressionEntity | null>;
+
+  /**
+   * Действующие (не истекшие) записи для адресов и их доменов
+   */
+  findActiveMatches(
+    addresses: string[],
+    domains: string[],
+  ): Promise<SuppressionEntity[]>;
+}
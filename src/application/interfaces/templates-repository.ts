@@ -0,0 +1,49 @@
+import type {
+  TemplateEntity,
+  TemplateVersionEntity,
+} from "../../domain/template.entity.ts";
+import type {
+  SaveTemplateData,
+  TemplateContentData,
+  UpdateTemplateData,
+} from "../types/save-template-data.ts";
+
+export interface TemplatesRepository {
+  /**
+   * Создает шаблон и его первую (активную) версию
+   */
+  save(
+    data: SaveTemplateData,
+  ): Promise<{ template: TemplateEntity; version: TemplateVersionEntity }>;
+
+  findById(id: string): Promise<TemplateEntity | null>;
+
+  findByName(name: string): Promise<TemplateEntity | null>;
+
+  findAll(): Promise<TemplateEntity[]>;
+
+  update(data: UpdateTemplateData): Promise<TemplateEntity | null>;
+
+  deleteSoft(id: string): Promise<TemplateEntity | null>;
+
+  /**
+   * Добавляет новую версию (номер = последний + 1), при activate делает ее активной
+   */
+  addVersion(
+    templateId: string,
+    content: TemplateContentData,
+    activate: boolean,
+  ): Promise<TemplateVersionEntity>;
+
+  findVersion(
+    templateId: string,
+    version: number,
+  ): Promise<TemplateVersionEntity | null>;
+
+  findVersions(templateId: string): Promise<TemplateVersionEntity[]>;
+
+  setActiveVersion(
+    templateId: string,
+    version: number,
+  ): Promise<TemplateEntity | null>;
+}
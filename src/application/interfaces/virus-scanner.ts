@@ -0,0 +1,12 @@
+export interface VirusScanResult {
+  infected: boolean;
+  // имя сигнатуры, например "Eicar-Signature"
+  signature: string | null;
+}
+
+export interface VirusScanner {
+  /**
+   * Проверяет содержимое файла, бросает VirusScanUnavailableError, если проверка не выполнена
+   */
+  scan(content: Buffer): Promise<VirusScanResult>;
+}
@@ -0,0 +1,20 @@
+export interface WebhookRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  timeout: number;
+}
+
+export interface WebhookResponse {
+  // HTTP статус, null - ответа не было (таймаут, сетевая ошибка)
+  status: number | null;
+  error: string | null;
+}
+
+export interface WebhookSender {
+  /**
+   * Причина, по которой на url нельзя доставлять вебхуки (адрес внутренней сети), null - url разрешен
+   */
+  verifyUrl(url: string): Promise<string | null>;
+  send(request: WebhookRequest): Promise<WebhookResponse>;
+}
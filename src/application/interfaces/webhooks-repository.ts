@@ -0,0 +1,77 @@
+import type { EmailEvent } from "../../domain/email-event.ts";
+import type {
+  ClaimedWebhookDelivery,
+  WebhookDeliveryEntity,
+  WebhookEntity,
+} from "../../domain/webhook.entity.ts";
+import type {
+  FindWebhookDeliveriesFilter,
+  RecordWebhookAttemptData,
+  SaveWebhookData,
+  UpdateWebhookData,
+} from "../types/save-webhook-data.ts";
+
+export interface WebhooksRepository {
+  create(data: SaveWebhookData): Promise<WebhookEntity>;
+
+  findById(id: string): Promise<WebhookEntity | null>;
+
+  /**
+   * Подписки клиента, без clientId - все подписки
+   */
+  findAll(clientId?: string): Promise<WebhookEntity[]>;
+
+  update(data: UpdateWebhookData): Promise<WebhookEntity | null>;
+
+  /**
+   * Удаляет подписку вместе с журналом доставок
+   */
+  delete(id: string): Promise<WebhookEntity | null>;
+
+  /**
+   * Создает доставки события для всех активных подписок клиента на этот тип события,
+   * возвращает их количество
+   */
+  enqueueDeliveries(
+    clientId: string,
+    event: EmailEvent,
+    payload: unknown,
+  ): Promise<number>;
+
+  findDeliveries(filter: FindWebhookDeliveriesFilter): Promise<{
+    deliveries: WebhookDeliveryEntity[];
+    page: number;
+    limit: number;
+    total: number;
+  }>;
+
+  /**
+   * Забирает до limit доставок PENDING с подошедшим временем попытки у активных подписок
+   * и сдвигает их nextAttemptAt на lease мс: если воркер упадет, доставка будет повторена.
+   * Несколько воркеров не получат одну доставку (FOR UPDATE SKIP LOCKED)
+   */
+  claimDueDeliveries(
+    limit: number,
+    lease: number,
+  ): Promise<ClaimedWebhookDelivery[]>;
+
+  recordAttempt(
+    deliveryId: string,
+    data: RecordWebhookAttemptData,
+  ): Promise<WebhookDeliveryEntity | null>;
+
+  /**
+   * Возвращает доставки подписки в PENDING со сбросом счетчика попыток.
+   * Без deliveryIds - все FAILED, с deliveryIds - указанные FAILED и DELIVERED.
+   * Возвращает id возвращенных доставок
+   */
+  replayDeliveries(
+    webhookId: string,
+    deliveryIds?: string[],
+  ): Promise<string[]>;
+
+  /**
+   * Удаляет из журнала завершенные доставки старше days дней
+   */
+  deleteDeliveriesOlderThan(days: number): Promise<number>;
+}
@@ -0,0 +1,235 @@
+import { describe, it, expect } from "vitest";
+import type { EmailEntity } from "../domain/email.entity.ts";
+import { EmailStatus } from "../domain/types.ts";
+import type {
+  EmailProvider,
+  SendEmailResult,
+} from "./interfaces/email-provider.ts";
+import { ProviderRegistry } from "./provider-registry.ts";
+import { RateLimitsService } from "./rate-limits.service.ts";
+import { RateLimitsMemoryRepository } from "../infrastructure/rate-limits.memory.repository.ts";
+
+class FakeProvider implements EmailProvider {
+  calls = 0;
+
+  constructor(private readonly result: SendEmailResult) {}
+
+  async send(): Promise<SendEmailResult> {
+    this.calls++;
+    return this.result;
+  }
+}
+
+const createEmail = (overrides: Partial<EmailEntity> = {}): EmailEntity => ({
+  id: "email-1",
+  to: ["user@example.com"],
+  subject: "Subject",
+  from: "noreply@shop.example",
+  displayName: "Shop",
+  body: "Body",
+  status: EmailStatus.PENDING,
+  cc: [],
+  bcc: [],
+  html: null,
+  templateId: null,
+  templateVersion: null,
+  tag: null,
+  apiClientId: null,
+  attachments: [],
+  error: null,
+  provider: null,
+  messageId: null,
+  acceptedRecipients: [],
+  rejectedRecipients: [],
+  smtpResponse: null,
+  sendDurationMs: null,
+  diagnosticCode: null,
+  suppressedRecipients: [],
+  scheduledAt: null,
+  timezone: null,
+  attempts: [],
+  nextAttemptAt: null,
+  sentAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  deletedAt: null,
+  ...overrides,
+});
+
+const ok = (messageId: string): SendEmailResult => ({
+  success: true,
+  messageId,
+});
+
+describe("ProviderRegistry", () => {
+  it("should use providers in priority order", async () => {
+    const primary = new FakeProvider(ok("primary-id"));
+    const backup = new FakeProvider(ok("backup-id"));
+
+    const registry = new ProviderRegistry(
+      [
+        { name: "backup", priority: 20, provider: backup },
+        { name: "primary", priority: 10, provider: primary },
+      ],
+      [],
+    );
+
+    const result = await registry.send(createEmail());
+
+    expect(result).toEqual({
+      success: true,
+      messageId: "primary-id",
+      provider: "primary",
+    });
+    expect(backup.calls).toBe(0);
+  });
+
+  it("should fail over to the next provider", async () => {
+    const primary = new FakeProvider({
+      success: false,
+      error: "timeout",
+      errorCode: "ETIMEDOUT",
+    });
+    const backup = new FakeProvider(ok("backup-id"));
+
+    const registry = new ProviderRegistry(
+      [
+        { name: "primary", priority: 10, provider: primary },
+        { name: "backup", priority: 20, provider: backup },
+      ],
+      [],
+    );
+
+    const result = await registry.send(createEmail());
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe("backup");
+    expect(primary.calls).toBe(1);
+  });
+
+  it("should route by sender domain and tag", async () => {
+    const primary = new FakeProvider(ok("primary-id"));
+    const marketing = new FakeProvider(ok("marketing-id"));
+    const shop = new FakeProvider(ok("shop-id"));
+
+    const registry = new ProviderRegistry(
+      [
+        { name: "primary", priority: 10, provider: primary },
+        { name: "marketing", priority: 20, provider: marketing },
+        { name: "shop", priority: 30, provider: shop },
+      ],
+      [
+        { tag: "newsletter", providers: ["marketing"] },
+        { senderDomain: "shop.example", providers: ["shop", "primary"] },
+      ],
+    );
+
+    const byTag = await registry.send(createEmail({ tag: "newsletter" }));
+    const byDomain = await registry.send(
+      createEmail({ from: "orders@SHOP.example" }),
+    );
+    const byDefault = await registry.send(
+      createEmail({ from: "noreply@other.example" }),
+    );
+
+    expect(byTag.provider).toBe("marketing");
+    expect(byDomain.provider).toBe("shop");
+    expect(byDefault.provider).toBe("primary");
+  });
+
+  it("should aggregate errors and keep transient failure for retry", async () => {
+    const registry = new ProviderRegistry(
+      [
+        {
+          name: "primary",
+          priority: 10,
+          provider: new FakeProvider({
+            success: false,
+            error: "connection lost",
+            errorCode: "ECONNRESET",
+          }),
+        },
+        {
+          name: "backup",
+          priority: 20,
+          provider: new FakeProvider({
+            success: false,
+            error: "mailbox unavailable",
+            responseCode: 550,
+          }),
+        },
+      ],
+      [],
+    );
+
+    const result = await registry.send(createEmail());
+
+    expect(result.success).toBe(false);
+    expect(result.provider).toBe("primary");
+    expect(result.errorCode).toBe("ECONNRESET");
+    expect(result.error).toBe(
+      "primary: connection lost; backup: mailbox unavailable",
+    );
+  });
+
+  it("should treat thrown errors as failures", async () => {
+    const broken: EmailProvider = {
+      send: async () => {
+        throw new Error("boom");
+      },
+    };
+
+    const registry = new ProviderRegistry(
+      [{ name: "broken", priority: 10, provider: broken }],
+      [],
+    );
+
+    const result = await registry.send(createEmail());
+
+    expect(result).toMatchObject({
+      success: false,
+      provider: "broken",
+      error: "broken: boom",
+    });
+  });
+
+  it("should skip a throttled provider and defer when all are throttled", async () => {
+    const primary = new FakeProvider(ok("primary-id"));
+    const backup = new FakeProvider(ok("backup-id"));
+    const registry = new ProviderRegistry(
+      [
+        {
+          name: "primary",
+          priority: 10,
+          provider: primary,
+          throttle: { limit: 1, window: 60_000 },
+        },
+        {
+          name: "backup",
+          priority: 20,
+          provider: backup,
+          throttle: { limit: 1, window: 60_000 },
+        },
+      ],
+      [],
+      new RateLimitsService(new RateLimitsMemoryRepository(), [], {
+        requestsPerMinute: 0,
+        recipientsPerHour: 0,
+      }),
+    );
+
+    expect(await registry.send(createEmail())).toMatchObject({
+      provider: "primary",
+    });
+    expect(await registry.send(createEmail())).toMatchObject({
+      provider: "backup",
+    });
+
+    const throttled = await registry.send(createEmail());
+
+    expect(throttled.success).toBe(false);
+    expect(throttled.throttledUntil).toBeInstanceOf(Date);
+    expect(primary.calls).toBe(1);
+    expect(backup.calls).toBe(1);
+  });
+});
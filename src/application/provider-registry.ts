@@ -0,0 +1,157 @@
+import type { EmailEntity } from "../domain/email.entity.ts";
+import type {
+  EmailProvider,
+  SendEmailResult,
+} from "./interfaces/email-provider.ts";
+import type { RateLimitRule } from "../domain/rate-limit.ts";
+import type { RateLimitsService } from "./rate-limits.service.ts";
+import { classifyFailure } from "./retry-policy.ts";
+
+export interface RegisteredProvider {
+  name: string;
+  // меньше - раньше
+  priority: number;
+  provider: EmailProvider;
+  // ограничение скорости отправки через провайдера
+  throttle?: RateLimitRule;
+}
+
+export interface ProviderRoutingRule {
+  senderDomain?: string;
+  tag?: string;
+  // провайдеры в порядке попыток
+  providers: string[];
+}
+
+/**
+ * Набор провайдеров отправки с маршрутизацией и failover.
+ * Сам является EmailProvider: пробует подходящих провайдеров по очереди,
+ * пока один из них не отправит письмо.
+ * Провайдер, исчерпавший свое ограничение скорости, пропускается; если ограничены все
+ * подходящие провайдеры, возвращается throttledUntil и отправку нужно отложить
+ */
+export class ProviderRegistry implements EmailProvider {
+  private readonly providers: RegisteredProvider[];
+  private readonly rules: ProviderRoutingRule[];
+  private readonly rateLimitsService: RateLimitsService | null;
+
+  constructor(
+    providers: RegisteredProvider[],
+    rules: ProviderRoutingRule[],
+    rateLimitsService: RateLimitsService | null = null,
+  ) {
+    if (providers.length === 0) {
+      throw new Error("At least one email provider is required");
+    }
+
+    this.providers = [...providers].sort((a, b) => a.priority - b.priority);
+    this.rules = rules;
+    this.rateLimitsService = rateLimitsService;
+  }
+
+  get registeredProviders(): RegisteredProvider[] {
+    return this.providers;
+  }
+
+  /**
+   * Провайдеры для письма: из первого подходящего правила,
+   * иначе все провайдеры по приоритету
+   */
+  selectProviders(email: EmailEntity): RegisteredProvider[] {
+    const senderDomain = email.from
+      .slice(email.from.lastIndexOf("@") + 1)
+      .toLowerCase();
+
+    const rule = this.rules.find(
+      (rule) =>
+        (!rule.senderDomain || rule.senderDomain === senderDomain) &&
+        (!rule.tag || rule.tag === email.tag),
+    );
+
+    if (!rule) {
+      return this.providers;
+    }
+
+    return rule.providers
+      .map((name) => this.providers.find((provider) => provider.name === name))
+      .filter((provider): provider is RegisteredProvider => Boolean(provider));
+  }
+
+  async send(email: EmailEntity): Promise<SendEmailResult> {
+    const candidates = this.selectProviders(email);
+    const failures: SendEmailResult[] = [];
+    let throttledUntil: Date | null = null;
+
+    for (const candidate of candidates) {
+      const availableAt = await this.checkThrottle(candidate);
+
+      if (availableAt) {
+        if (!throttledUntil || availableAt < throttledUntil) {
+          throttledUntil = availableAt;
+        }
+
+        continue;
+      }
+
+      let result: SendEmailResult;
+
+      try {
+        result = await candidate.provider.send(email);
+      } catch (error) {
+        result = {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+
+      result = { ...result, provider: candidate.name };
+
+      if (result.success) {
+        return result;
+      }
+
+      console.warn(
+        `Provider ${candidate.name} failed to send email ${email.id}: ${result.error}`,
+      );
+      failures.push(result);
+    }
+
+    if (failures.length === 0 && throttledUntil) {
+      return {
+        success: false,
+        error: "All matching email providers are throttled",
+        throttledUntil,
+      };
+    }
+
+    if (failures.length === 0) {
+      return { success: false, error: "No email provider matched" };
+    }
+
+    // если хотя бы один провайдер вернул временную ошибку, письмо стоит повторить
+    const result =
+      failures.findLast(
+        (failure) => classifyFailure(failure) === "transient",
+      ) ?? failures[failures.length - 1];
+
+    return {
+      ...result,
+      error: failures
+        .map((failure) => `${failure.provider}: ${failure.error}`)
+        .join("; "),
+    };
+  }
+
+  private async checkThrottle(
+    candidate: RegisteredProvider,
+  ): Promise<Date | null> {
+    if (!candidate.throttle || !this.rateLimitsService) {
+      return null;
+    }
+
+    return this.rateLimitsService.throttleProvider(
+      candidate.name,
+      candidate.throttle,
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { AuthenticatedClient } from "../domain/api-client.entity.ts";
+import { RateLimitExceededError } from "./errors/rate-limit-errors.ts";
+import { RateLimitsService } from "./rate-limits.service.ts";
+import { RateLimitsMemoryRepository } from "../infrastructure/rate-limits.memory.repository.ts";
+
+const createClient = (
+  rateLimits: Partial<AuthenticatedClient["rateLimits"]> = {},
+): AuthenticatedClient => ({
+  id: "client-1",
+  name: "Shop",
+  scopes: ["send"],
+  allowedSenders: [],
+  rateLimits: {
+    requestsPerMinute: null,
+    recipientsPerHour: null,
+    ...rateLimits,
+  },
+});
+
+describe("RateLimitsService", () => {
+  let repository: RateLimitsMemoryRepository;
+  let service: RateLimitsService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T10:00:30.000Z"));
+
+    repository = new RateLimitsMemoryRepository();
+    service = new RateLimitsService(
+      repository,
+      [{ domain: "gmail.com", limit: 3, window: 60_000 }],
+      { requestsPerMinute: 2, recipientsPerHour: 0 },
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should reject requests over the limit until the window ends", async () => {
+    const client = createClient();
+
+    await service.consumeRequest(client);
+    await service.consumeRequest(client);
+
+    const error = await service.consumeRequest(client).catch((error) => error);
+
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect(error).toMatchObject({ limit: "requests", retryAfter: 30 });
+
+    vi.setSystemTime(new Date("2026-10-19T10:01:00.000Z"));
+
+    await expect(service.consumeRequest(client)).resolves.toBeUndefined();
+  });
+
+  it("should use client limits over defaults, 0 - unlimited", async () => {
+    const unlimited = createClient({ requestsPerMinute: 0 });
+
+    for (let i = 0; i < 5; i++) {
+      await service.consumeRequest(unlimited);
+    }
+
+    const limited = createClient({ recipientsPerHour: 10 });
+
+    await service.consumeRecipients(limited, 8);
+
+    await expect(service.consumeRecipients(limited, 3)).rejects.toMatchObject({
+      limit: "recipients",
+      retryAfter: 3570,
+    });
+    await expect(
+      service.consumeRecipients(limited, 2),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should delay delivery to a throttled domain and ignore others", async () => {
+    expect(
+      await service.throttleRecipientDomains([
+        "a@gmail.com",
+        "b@Gmail.com",
+        "c@example.com",
+      ]),
+    ).toBeNull();
+
+    expect(
+      await service.throttleRecipientDomains(["d@gmail.com", "e@gmail.com"]),
+    ).toEqual(new Date("2026-10-19T10:01:00.000Z"));
+
+    // отложенное письмо не занимает окно
+    expect(await service.throttleRecipientDomains(["d@gmail.com"])).toBeNull();
+    expect(
+      await service.throttleRecipientDomains(["x@example.com"]),
+    ).toBeNull();
+  });
+
+  it("should return refunded domain recipients to the window", async () => {
+    const at = new Date();
+
+    await service.throttleRecipientDomains(
+      ["a@gmail.com", "b@gmail.com", "c@example.com"],
+      at,
+    );
+
+    vi.setSystemTime(new Date("2026-10-19T10:00:45.000Z"));
+
+    await service.refundRecipientDomains(
+      ["a@gmail.com", "b@gmail.com", "c@example.com"],
+      at,
+    );
+
+    expect(
+      await service.throttleRecipientDomains([
+        "1@gmail.com",
+        "2@gmail.com",
+        "3@gmail.com",
+      ]),
+    ).toBeNull();
+  });
+
+  it("should refund consumed counters when another limit is exceeded", async () => {
+    service = new RateLimitsService(repository, [
+      { domain: "gmail.com", limit: 5, window: 60_000 },
+      { domain: "mail.ru", limit: 1, window: 60_000 },
+    ]);
+
+    await service.throttleRecipientDomains(["a@mail.ru"]);
+
+    expect(
+      await service.throttleRecipientDomains(["a@gmail.com", "b@mail.ru"]),
+    ).not.toBeNull();
+
+    // счетчик gmail.com возвращен, в окне доступны все 5 получателей
+    expect(
+      await service.throttleRecipientDomains([
+        "1@gmail.com",
+        "2@gmail.com",
+        "3@gmail.com",
+        "4@gmail.com",
+        "5@gmail.com",
+      ]),
+    ).toBeNull();
+  });
+});
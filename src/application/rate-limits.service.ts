@@ -0,0 +1,220 @@
+import { config } from "../config/env.ts";
+import type { AuthenticatedClient } from "../domain/api-client.entity.ts";
+import type { DomainThrottle, RateLimitRule } from "../domain/rate-limit.ts";
+import {
+  RateLimitExceededError,
+  type RateLimitName,
+} from "./errors/rate-limit-errors.ts";
+import type { RateLimitsRepository } from "./interfaces/rate-limits-repository.ts";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+// лимиты клиентов без собственных значений, 0 - без ограничения
+export interface ClientRateLimitDefaults {
+  requestsPerMinute: number;
+  recipientsPerHour: number;
+}
+
+interface RateLimitHit {
+  key: string;
+  cost: number;
+  rule: RateLimitRule;
+}
+
+type ConsumeResult = { allowed: true } | { allowed: false; resetAt: Date };
+
+/**
+ * Лимиты скорости на счетчиках фиксированных окон.
+ * Лимиты клиентов API отклоняют запрос (RateLimitExceededError),
+ * ограничения провайдеров и доменов получателей откладывают отправку
+ */
+export class RateLimitsService {
+  private readonly rateLimitsRepository: RateLimitsRepository;
+  private readonly domainThrottles: Map<string, DomainThrottle>;
+  private readonly defaults: ClientRateLimitDefaults;
+
+  constructor(
+    rateLimitsRepository: RateLimitsRepository,
+    domainThrottles: DomainThrottle[] = [],
+    defaults: ClientRateLimitDefaults = config.rateLimits,
+  ) {
+    this.rateLimitsRepository = rateLimitsRepository;
+    this.domainThrottles = new Map(
+      domainThrottles.map((throttle) => [
+        throttle.domain.toLowerCase(),
+        throttle,
+      ]),
+    );
+    this.defaults = defaults;
+  }
+
+  /**
+   * Учитывает запрос клиента к API, бросает RateLimitExceededError при превышении лимита в минуту
+   */
+  async consumeRequest(client: AuthenticatedClient): Promise<void> {
+    const limit =
+      client.rateLimits.requestsPerMinute ?? this.defaults.requestsPerMinute;
+
+    await this.consumeClientLimit(client, "requests", 1, {
+      limit,
+      window: MINUTE,
+    });
+  }
+
+  /**
+   * Учитывает получателей письма (to, cc, bcc), бросает RateLimitExceededError при превышении лимита в час
+   */
+  async consumeRecipients(
+    client: AuthenticatedClient,
+    count: number,
+  ): Promise<void> {
+    const limit =
+      client.rateLimits.recipientsPerHour ?? this.defaults.recipientsPerHour;
+
+    await this.consumeClientLimit(client, "recipients", count, {
+      limit,
+      window: HOUR,
+    });
+  }
+
+  /**
+   * Учитывает получателей в доменах с ограничением скорости в окнах момента at.
+   * Возвращает время, до которого отправку нужно отложить, null - отправлять можно
+   */
+  async throttleRecipientDomains(
+    recipients: string[],
+    at: Date = new Date(),
+  ): Promise<Date | null> {
+    const result = await this.consume(
+      this.getDomainHits(recipients),
+      at.getTime(),
+    );
+
+    return result.allowed ? null : result.resetAt;
+  }
+
+  /**
+   * Возвращает учтенных throttleRecipientDomains(recipients, at) получателей,
+   * если письмо так и не было отправлено
+   */
+  async refundRecipientDomains(recipients: string[], at: Date): Promise<void> {
+    const now = at.getTime();
+
+    await this.refund(
+      this.getDomainHits(recipients)
+        .filter(({ cost, rule }) => rule.limit > 0 && cost > 0)
+        .map(({ key, cost, rule }) => ({
+          key,
+          windowStart: new Date(now - (now % rule.window)),
+          cost: Math.min(cost, rule.limit),
+        })),
+    );
+  }
+
+  /**
+   * Учитывает письмо в ограничении провайдера.
+   * Возвращает время, до которого провайдер недоступен, null - отправлять можно
+   */
+  async throttleProvider(
+    name: string,
+    rule: RateLimitRule,
+  ): Promise<Date | null> {
+    const result = await this.consume([
+      { key: `provider:${name}`, cost: 1, rule },
+    ]);
+
+    return result.allowed ? null : result.resetAt;
+  }
+
+  async purgeExpired(): Promise<number> {
+    return this.rateLimitsRepository.deleteExpired();
+  }
+
+  private getDomainHits(recipients: string[]): RateLimitHit[] {
+    const costs = new Map<string, number>();
+
+    for (const recipient of recipients) {
+      const domain = recipient
+        .slice(recipient.lastIndexOf("@") + 1)
+        .toLowerCase();
+
+      if (this.domainThrottles.has(domain)) {
+        costs.set(domain, (costs.get(domain) ?? 0) + 1);
+      }
+    }
+
+    return [...costs].map(([domain, cost]) => ({
+      key: `domain:${domain}`,
+      cost,
+      rule: this.domainThrottles.get(domain)!,
+    }));
+  }
+
+  private async consumeClientLimit(
+    client: AuthenticatedClient,
+    name: RateLimitName,
+    cost: number,
+    rule: RateLimitRule,
+  ): Promise<void> {
+    const result = await this.consume([
+      { key: `client:${client.id ?? "shared"}:${name}`, cost, rule },
+    ]);
+
+    if (!result.allowed) {
+      throw new RateLimitExceededError(
+        name,
+        Math.max(1, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000)),
+      );
+    }
+  }
+
+  // все счетчики или ни одного: при превышении любого лимита уже учтенные возвращаются
+  private async consume(
+    hits: RateLimitHit[],
+    now = Date.now(),
+  ): Promise<ConsumeResult> {
+    const consumed: { key: string; windowStart: Date; cost: number }[] = [];
+
+    for (const { key, cost, rule } of hits) {
+      if (rule.limit <= 0 || cost <= 0) {
+        continue;
+      }
+
+      const windowStart = new Date(now - (now % rule.window));
+      const resetAt = new Date(windowStart.getTime() + rule.window);
+      // операция больше лимита целиком занимает окно, иначе она не выполнилась бы никогда
+      const windowCost = Math.min(cost, rule.limit);
+
+      const count = await this.rateLimitsRepository.increment(
+        key,
+        windowStart,
+        windowCost,
+        rule.limit,
+        resetAt,
+      );
+
+      if (count === null) {
+        await this.refund(consumed);
+
+        return { allowed: false, resetAt };
+      }
+
+      consumed.push({ key, windowStart, cost: windowCost });
+    }
+
+    return { allowed: true };
+  }
+
+  private async refund(
+    consumed: { key: string; windowStart: Date; cost: number }[],
+  ): Promise<void> {
+    for (const { key, windowStart, cost } of consumed) {
+      try {
+        await this.rateLimitsRepository.decrement(key, windowStart, cost);
+      } catch (error) {
+        console.error(`Failed to refund rate limit counter ${key}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyFailure,
+  computeBackoffDelay,
+  shouldRetry,
+} from "./retry-policy.ts";
+
+describe("classifyFailure", () => {
+  it("should treat SMTP 4xx responses as transient", () => {
+    expect(
+      classifyFailure({ success: false, responseCode: 421, error: "busy" }),
+    ).toBe("transient");
+  });
+
+  it("should treat SMTP 5xx responses as permanent", () => {
+    expect(
+      classifyFailure({ success: false, responseCode: 550, error: "no user" }),
+    ).toBe("permanent");
+  });
+
+  it("should treat network errors as transient", () => {
+    expect(classifyFailure({ success: false, errorCode: "ETIMEDOUT" })).toBe(
+      "transient",
+    );
+    expect(classifyFailure({ success: false, errorCode: "ECONNRESET" })).toBe(
+      "transient",
+    );
+  });
+
+  it("should treat auth errors as permanent", () => {
+    expect(classifyFailure({ success: false, errorCode: "EAUTH" })).toBe(
+      "permanent",
+    );
+  });
+
+  it("should prefer response code over error code", () => {
+    expect(
+      classifyFailure({
+        success: false,
+        errorCode: "EENVELOPE",
+        responseCode: 452,
+      }),
+    ).toBe("transient");
+  });
+
+  it("should treat unknown errors as transient", () => {
+    expect(classifyFailure({ success: false, error: "Unknown error" })).toBe(
+      "transient",
+    );
+  });
+});
+
+describe("computeBackoffDelay", () => {
+  const options = { baseDelay: 1000, maxDelay: 10000, multiplier: 2 };
+
+  it("should grow exponentially", () => {
+    expect(computeBackoffDelay(1, options)).toBe(1000);
+    expect(computeBackoffDelay(2, options)).toBe(2000);
+    expect(computeBackoffDelay(3, options)).toBe(4000);
+  });
+
+  it("should be capped by maxDelay", () => {
+    expect(computeBackoffDelay(10, options)).toBe(10000);
+  });
+});
+
+describe("shouldRetry", () => {
+  it("should retry transient errors until max attempts", () => {
+    const result = { success: false, errorCode: "ETIMEDOUT" };
+
+    expect(shouldRetry(result, 1, { maxAttempts: 3 })).toBe(true);
+    expect(shouldRetry(result, 3, { maxAttempts: 3 })).toBe(false);
+  });
+
+  it("should not retry permanent errors", () => {
+    expect(
+      shouldRetry({ success: false, responseCode: 550 }, 1, { maxAttempts: 3 }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import type { SendEmailResult } from "./interfaces/email-provider.ts";
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelay: number; // ms
+  maxDelay: number; // ms
+  multiplier: number;
+}
+
+export type FailureKind = "transient" | "permanent";
+
+// Сетевые ошибки nodemailer / node, после которых имеет смысл повторить отправку
+const TRANSIENT_ERROR_CODES = new Set([
+  "ETIMEDOUT",
+  "ECONNECTION",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ESOCKET",
+  "EDNS",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+// Ошибки конфигурации или самого письма, повтор не поможет
+const PERMANENT_ERROR_CODES = new Set([
+  "EAUTH",
+  "EENVELOPE",
+  "EMESSAGE",
+  // HTTP API провайдер отклонил запрос (4xx, кроме 429)
+  "EREJECTED",
+  // вложение по url недоступно (4xx, превышен размер, хост не разрешен)
+  "EATTACHMENT",
+]);
+
+/**
+ * Определяет, временная ли ошибка отправки:
+ * SMTP 4xx и сетевые ошибки - временные, SMTP 5xx - постоянные.
+ * Неизвестные ошибки считаются временными (ограничены maxAttempts)
+ */
+export function classifyFailure(result: SendEmailResult): FailureKind {
+  if (result.responseCode) {
+    if (result.responseCode >= 400 && result.responseCode < 500) {
+      return "transient";
+    }
+
+    if (result.responseCode >= 500) {
+      return "permanent";
+    }
+  }
+
+  if (result.errorCode) {
+    if (TRANSIENT_ERROR_CODES.has(result.errorCode)) {
+      return "transient";
+    }
+
+    if (PERMANENT_ERROR_CODES.has(result.errorCode)) {
+      return "permanent";
+    }
+  }
+
+  return "transient";
+}
+
+/**
+ * Задержка перед следующей попыткой (attempt - номер неудачной попытки, с 1)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: Pick<RetryOptions, "baseDelay" | "maxDelay" | "multiplier">,
+): number {
+  const delay = options.baseDelay * options.multiplier ** (attempt - 1);
+
+  return Math.min(delay, options.maxDelay);
+}
+
+export function shouldRetry(
+  result: SendEmailResult,
+  attempt: number,
+  options: Pick<RetryOptions, "maxAttempts">,
+): boolean {
+  return (
+    classifyFailure(result) === "transient" && attempt < options.maxAttempts
+  );
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm, utimes } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { StorageService } from "./storage.service.ts";
+import type { AttachmentsRepository } from "./interfaces/attachments-repository.ts";
+import type { StorageBackend } from "./interfaces/storage-backend.ts";
+import { LocalStorageBackend } from "../infrastructure/storage/local-storage.backend.ts";
+
+class FakeAttachmentsRepository implements AttachmentsRepository {
+  // storage_key -> число вложений писем, не удаленных мягко
+  readonly references = new Map<string, number>();
+
+  async countByStorageKey(storageKey: string) {
+    return this.references.get(storageKey) ?? 0;
+  }
+
+  async findReferencedStorageKeys(storageKeys: string[]) {
+    return storageKeys.filter((key) => this.references.has(key));
+  }
+}
+
+describe("StorageService", () => {
+  let dir: string;
+  let repository: FakeAttachmentsRepository;
+  let service: StorageService;
+
+  // объект записан два часа назад, срок защиты - час
+  const age = async (storageKey: string) => {
+    const time = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await utimes(path.join(dir, storageKey), time, time);
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "storage-"));
+    repository = new FakeAttachmentsRepository();
+    service = new StorageService(new LocalStorageBackend(dir), repository, {
+      signedUrlTtl: 3600,
+      orphanGracePeriod: 3600,
+    });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should store identical content once under its sha256", async () => {
+    const terms = Buffer.from("%PDF-1.7 terms and conditions");
+
+    const first = await service.saveAttachment(
+      terms,
+      "terms.pdf",
+      "application/pdf",
+    );
+    const second = await service.saveAttachment(
+      terms,
+      "Условия.pdf",
+      "application/pdf",
+    );
+
+    expect(first.storageKey).toMatch(/^([0-9a-f]{2})\/\1[0-9a-f]{62}$/);
+    expect(second).toEqual(first);
+    expect(await readdir(path.join(dir, first.storageKey.slice(0, 2)))).toEqual(
+      [first.storageKey.slice(3)],
+    );
+  });
+
+  it("should delete a file only when its last reference goes", async () => {
+    const { storageKey } = await service.saveAttachment(
+      Buffer.from("hello"),
+      "a.txt",
+      "text/plain",
+    );
+    await age(storageKey);
+
+    repository.references.set(storageKey, 1);
+    await service.deleteAttachment({ storageKey });
+
+    expect((await service.readAttachment(storageKey)).toString()).toBe("hello");
+
+    repository.references.delete(storageKey);
+    await service.deleteAttachment({ storageKey });
+    // повторное удаление не ошибка
+    await service.deleteAttachment({ storageKey });
+
+    await expect(service.readAttachment(storageKey)).rejects.toThrow();
+  });
+
+  it("should leave recently written files without references to the sweeper", async () => {
+    const { storageKey } = await service.saveAttachment(
+      Buffer.from("hello"),
+      "a.txt",
+      "text/plain",
+    );
+
+    await service.deleteAttachment({ storageKey });
+
+    expect((await service.readAttachment(storageKey)).toString()).toBe("hello");
+  });
+
+  it("should sweep old files without references", async () => {
+    const save = (content: string) =>
+      service.saveAttachment(Buffer.from(content), "a.txt", "text/plain");
+
+    const referenced = await save("referenced");
+    const orphan = await save("orphan");
+    const fresh = await save("fresh");
+    // чужой файл и файл со старым ключом не трогаются
+    const backend: StorageBackend = new LocalStorageBackend(dir);
+    await backend.put("backups/db.dump", Buffer.from("dump"), "");
+    await backend.put("0b1c2d3e.pdf", Buffer.from("%PDF"), "");
+
+    for (const key of [
+      referenced.storageKey,
+      orphan.storageKey,
+      "backups/db.dump",
+      "0b1c2d3e.pdf",
+    ]) {
+      await age(key);
+    }
+
+    repository.references.set(referenced.storageKey, 2);
+
+    expect(await service.sweepOrphans()).toBe(1);
+
+    await expect(service.readAttachment(orphan.storageKey)).rejects.toThrow();
+    expect(await service.readAttachment(referenced.storageKey)).toBeDefined();
+    expect(await service.readAttachment(fresh.storageKey)).toBeDefined();
+    expect(await backend.get("backups/db.dump")).toBeDefined();
+    expect(await backend.get("0b1c2d3e.pdf")).toBeDefined();
+  });
+
+  it("should keep a file rewritten for a new email after the reference check", async () => {
+    const { storageKey } = await service.saveAttachment(
+      Buffer.from("terms"),
+      "terms.pdf",
+      "application/pdf",
+    );
+    await age(storageKey);
+
+    // письмо с тем же файлом сохраняется, пока идет проверка ссылок
+    repository.countByStorageKey = async () => {
+      await service.saveAttachment(
+        Buffer.from("terms"),
+        "terms.pdf",
+        "application/pdf",
+      );
+      return 0;
+    };
+
+    await service.deleteAttachment({ storageKey });
+
+    expect((await service.readAttachment(storageKey)).toString()).toBe("terms");
+  });
+});
@@ -1,17 +1,165 @@
-import { unlink } from "fs/promises";
 import type { AttachmentEntity } from "../domain/attachment.entity.ts";
-import path from "path";
+import { createHash } from "crypto";
+import type { Readable } from "stream";
+import { config } from "../config/env.ts";
+import type { AttachmentsRepository } from "./interfaces/attachments-repository.ts";
+import type { StorageBackend } from "./interfaces/storage-backend.ts";
 
+// ключей в одном запросе ссылок при поиске объектов без ссылок
+const SWEEP_BATCH_SIZE = 500;
+
+// ключ объекта, сохраненного по содержимому: "ab/ab<sha256>". Уборщик удаляет только такие объекты,
+// чтобы не трогать чужие данные в общем bucket или директории и файлы со старыми ключами "<uuid>.pdf"
+const CONTENT_KEY = /^([0-9a-f]{2})\/\1[0-9a-f]{62}$/;
+
+export interface StorageOptions {
+  // время жизни подписанных ссылок, сек
+  signedUrlTtl: number;
+  // объект без ссылок моложе этого срока не удаляется, сек
+  orphanGracePeriod: number;
+}
+
+/**
+ * Содержимое вложений в хранилище (локальный диск или S3). В письме хранится только ключ объекта.
+ * Ключ - SHA-256 содержимого: одинаковые файлы хранятся один раз, объект удаляется,
+ * когда на него не осталось ссылок из вложений
+ */
 export class StorageService {
-  async deleteAttachment(attachment: AttachmentEntity): Promise<void> {
-    try {
-      const absolutePath = path.resolve(attachment.path);
-      await unlink(absolutePath);
-    } catch (error) {
-      // Если файл не существует (ENOENT), игнорируем ошибку
-      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
-        throw error;
+  private readonly backend: StorageBackend;
+  private readonly attachmentsRepository: AttachmentsRepository;
+  private readonly options: StorageOptions;
+
+  constructor(
+    backend: StorageBackend,
+    attachmentsRepository: AttachmentsRepository,
+    options: StorageOptions = config.storage,
+  ) {
+    this.backend = backend;
+    this.attachmentsRepository = attachmentsRepository;
+    this.options = options;
+  }
+
+  async saveAttachment(
+    content: Buffer,
+    originalName: string,
+    contentType: string,
+  ): Promise<{ filename: string; storageKey: string; size: number }> {
+    const hash = createHash("sha256").update(content).digest("hex");
+    // первые два символа - поддиректория, чтобы не держать все файлы в одной
+    const storageKey = `${hash.slice(0, 2)}/${hash}`;
+
+    // повторная запись того же содержимого обновляет время изменения объекта,
+    // и он не будет удален как объект без ссылок, пока письмо сохраняется
+    await this.backend.put(storageKey, content, contentType);
+
+    return { filename: storageKey, storageKey, size: content.length };
+  }
+
+  /**
+   * Бросает StorageObjectNotFoundError, если объекта нет
+   */
+  async readAttachment(storageKey: string): Promise<Buffer> {
+    return this.backend.get(storageKey);
+  }
+
+  /**
+   * Бросает StorageObjectNotFoundError, если объекта нет
+   */
+  async openAttachment(storageKey: string): Promise<Readable> {
+    return this.backend.getStream(storageKey);
+  }
+
+  /**
+   * Удаляет объект, если на него не осталось ссылок. Вызывается после удаления
+   * (или мягкого удаления) письма. Недавно записанный объект остается уборщику
+   */
+  async deleteAttachment(
+    attachment: Pick<AttachmentEntity, "storageKey">,
+  ): Promise<void> {
+    // Вложения по url не хранятся у нас
+    if (!attachment.storageKey) {
+      return;
+    }
+
+    if (await this.isReferenced(attachment.storageKey)) {
+      return;
+    }
+
+    await this.deleteIfStale(attachment.storageKey, new Date());
+  }
+
+  async getSignedUrl(storageKey: string): Promise<string | null> {
+    return this.backend.getSignedUrl(storageKey, this.options.signedUrlTtl);
+  }
+
+  /**
+   * Удаляет объекты хранилища без ссылок из вложений: файлы писем, которые не удалось удалить,
+   * и файлы запросов, завершившихся до сохранения письма. Проверяются только ключи вида "ab/ab<sha256>".
+   * Возвращает число удаленных объектов
+   */
+  async sweepOrphans(now = new Date()): Promise<number> {
+    let deleted = 0;
+    let batch: string[] = [];
+
+    const sweep = async () => {
+      const referenced = new Set(
+        await this.attachmentsRepository.findReferencedStorageKeys(batch),
+      );
+
+      for (const key of batch) {
+        if (!referenced.has(key) && (await this.deleteIfStale(key, now))) {
+          deleted++;
+        }
+      }
+
+      batch = [];
+    };
+
+    for await (const object of this.backend.list()) {
+      if (
+        !CONTENT_KEY.test(object.key) ||
+        this.isFresh(object.lastModified, now)
+      ) {
+        continue;
       }
+
+      batch.push(object.key);
+
+      if (batch.length >= SWEEP_BATCH_SIZE) {
+        await sweep();
+      }
+    }
+
+    if (batch.length > 0) {
+      await sweep();
     }
+
+    return deleted;
+  }
+
+  // объект перечитывается перед самым удалением: параллельная запись того же содержимого
+  // для нового письма обновляет время изменения, и такой объект не удаляется
+  private async deleteIfStale(storageKey: string, now: Date): Promise<boolean> {
+    const object = await this.backend.stat(storageKey);
+
+    if (!object || this.isFresh(object.lastModified, now)) {
+      return false;
+    }
+
+    await this.backend.delete(storageKey);
+
+    return true;
+  }
+
+  private async isReferenced(storageKey: string): Promise<boolean> {
+    return (await this.attachmentsRepository.countByStorageKey(storageKey)) > 0;
+  }
+
+  // объект мог быть только что записан для письма, которое еще не сохранено
+  private isFresh(lastModified: Date, now: Date): boolean {
+    return (
+      now.getTime() - lastModified.getTime() <
+      this.options.orphanGracePeriod * 1000
+    );
   }
 }
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { parseSuppressionCsv, toSuppressionTarget } from "./suppression-csv.ts";
+
+describe("toSuppressionTarget", () => {
+  it("should detect addresses and domains", () => {
+    expect(toSuppressionTarget(" User@Example.com ")).toEqual({
+      type: "address",
+      value: "user@example.com",
+    });
+    expect(toSuppressionTarget("@Example.com")).toEqual({
+      type: "domain",
+      value: "example.com",
+    });
+    expect(toSuppressionTarget("mail.example.com")).toEqual({
+      type: "domain",
+      value: "mail.example.com",
+    });
+  });
+
+  it("should reject invalid values", () => {
+    expect(toSuppressionTarget("not an address")).toBeNull();
+    expect(toSuppressionTarget("user@")).toBeNull();
+    expect(toSuppressionTarget("")).toBeNull();
+  });
+});
+
+describe("parseSuppressionCsv", () => {
+  it("should parse rows by header names", () => {
+    const csv = [
+      "reason,email,expires_at",
+      "unsubscribe,one@example.com,",
+      ',"two@example.com",2030-01-01T00:00:00Z',
+      "hard_bounce,@blocked.example,",
+      "",
+    ].join("\r\n");
+
+    expect(parseSuppressionCsv(csv)).toEqual({
+      rows: [
+        {
+          line: 2,
+          type: "address",
+          value: "one@example.com",
+          reason: "UNSUBSCRIBE",
+          expiresAt: null,
+        },
+        {
+          line: 3,
+          type: "address",
+          value: "two@example.com",
+          reason: "MANUAL",
+          expiresAt: new Date("2030-01-01T00:00:00Z"),
+        },
+        {
+          line: 4,
+          type: "domain",
+          value: "blocked.example",
+          reason: "HARD_BOUNCE",
+          expiresAt: null,
+        },
+      ],
+      errors: [],
+    });
+  });
+
+  it("should report invalid rows with line numbers", () => {
+    const csv = [
+      "address,reason,expires_at",
+      "broken,,",
+      "ok@example.com,spam,",
+      "late@example.com,,tomorrow",
+    ].join("\n");
+
+    const result = parseSuppressionCsv(csv);
+
+    expect(result.rows).toEqual([]);
+    expect(result.errors).toEqual([
+      { line: 2, message: "Invalid address or domain" },
+      { line: 3, message: 'Unknown reason "SPAM"' },
+      { line: 4, message: 'Invalid expires_at "tomorrow"' },
+    ]);
+  });
+
+  it("should require address column", () => {
+    expect(parseSuppressionCsv("name,reason\nx,y").errors).toEqual([
+      { line: 1, message: 'Header must contain "address" column' },
+    ]);
+  });
+});
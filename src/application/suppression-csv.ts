@@ -0,0 +1,150 @@
+import { z } from "zod";
+import {
+  SuppressionReason,
+  type SuppressionType,
+} from "../domain/suppression.entity.ts";
+
+export interface SuppressionTarget {
+  type: SuppressionType;
+  value: string;
+}
+
+export interface SuppressionCsvRow extends SuppressionTarget {
+  line: number;
+  reason: SuppressionReason;
+  expiresAt: Date | null;
+}
+
+export interface SuppressionCsvError {
+  line: number;
+  message: string;
+}
+
+const EmailSchema = z.email();
+const DomainSchema = z
+  .string()
+  .regex(/^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/);
+
+/**
+ * "user@example.com" - адрес, "@example.com" или "example.com" - домен
+ */
+export function toSuppressionTarget(raw: string): SuppressionTarget | null {
+  const value = raw.trim().toLowerCase();
+
+  if (value.startsWith("@") || !value.includes("@")) {
+    const domain = value.replace(/^@/, "");
+
+    return DomainSchema.safeParse(domain).success
+      ? { type: "domain", value: domain }
+      : null;
+  }
+
+  return EmailSchema.safeParse(value).success
+    ? { type: "address", value }
+    : null;
+}
+
+/**
+ * Разбор CSV для импорта. Первая строка - заголовок:
+ * address (или email) - обязательная колонка, reason и expires_at - необязательные
+ */
+export function parseSuppressionCsv(csv: string): {
+  rows: SuppressionCsvRow[];
+  errors: SuppressionCsvError[];
+} {
+  const lines = csv.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? "").map((column) =>
+    column.trim().toLowerCase(),
+  );
+
+  const addressIndex = header.findIndex(
+    (column) => column === "address" || column === "email",
+  );
+
+  if (addressIndex === -1) {
+    return {
+      rows: [],
+      errors: [{ line: 1, message: 'Header must contain "address" column' }],
+    };
+  }
+
+  const reasonIndex = header.indexOf("reason");
+  const expiresIndex = header.indexOf("expires_at");
+
+  const rows: SuppressionCsvRow[] = [];
+  const errors: SuppressionCsvError[] = [];
+
+  lines.slice(1).forEach((text, index) => {
+    const line = index + 2;
+
+    if (!text.trim()) {
+      return;
+    }
+
+    const columns = splitCsvLine(text);
+    const target = toSuppressionTarget(columns[addressIndex] ?? "");
+
+    if (!target) {
+      errors.push({ line, message: "Invalid address or domain" });
+      return;
+    }
+
+    const rawReason = (columns[reasonIndex] ?? "").trim().toUpperCase();
+    const reason = rawReason || SuppressionReason.MANUAL;
+
+    if (!isSuppressionReason(reason)) {
+      errors.push({ line, message: `Unknown reason "${rawReason}"` });
+      return;
+    }
+
+    const rawExpiresAt = (columns[expiresIndex] ?? "").trim();
+    const expiresAt = rawExpiresAt ? new Date(rawExpiresAt) : null;
+
+    if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+      errors.push({ line, message: `Invalid expires_at "${rawExpiresAt}"` });
+      return;
+    }
+
+    rows.push({ line, ...target, reason, expiresAt });
+  });
+
+  return { rows, errors };
+}
+
+function isSuppressionReason(value: string): value is SuppressionReason {
+  return (Object.values(SuppressionReason) as string[]).includes(value);
+}
+
+// значения в кавычках могут содержать запятые, "" внутри кавычек - экранированная кавычка
+function splitCsvLine(line: string): string[] {
+  const columns: string[] = [];
+
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      columns.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  columns.push(current);
+
+  return columns;
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import type { SuppressionEntity } from "../domain/suppression.entity.ts";
+import type { EmailEntity } from "../domain/email.entity.ts";
+import { RecipientsSuppressedError } from "./errors/suppression-errors.ts";
+import type { SuppressionsRepository } from "./interfaces/suppressions-repository.ts";
+import { SuppressionsService } from "./suppressions.service.ts";
+import type { SaveSuppressionData } from "./types/save-suppression-data.ts";
+
+class InMemorySuppressionsRepository implements SuppressionsRepository {
+  entries: SuppressionEntity[] = [];
+
+  async upsert(data: SaveSuppressionData): Promise<SuppressionEntity> {
+    const entry: SuppressionEntity = {
+      id: `${data.type}:${data.value}`,
+      type: data.type,
+      value: data.value,
+      reason: data.reason,
+      source: data.source,
+      expiresAt: data.expiresAt ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.entries = [
+      ...this.entries.filter((existing) => existing.id !== entry.id),
+      entry,
+    ];
+
+    return entry;
+  }
+
+  async findById(id: string) {
+    return this.entries.find((entry) => entry.id === id) ?? null;
+  }
+
+  async findAll() {
+    return { suppressions: this.entries, page: 1, limit: 20, total: 0 };
+  }
+
+  async update() {
+    return null;
+  }
+
+  async delete() {
+    return null;
+  }
+
+  async findActiveMatches(addresses: string[], domains: string[]) {
+    const now = new Date();
+
+    return this.entries.filter(
+      (entry) =>
+        (!entry.expiresAt || entry.expiresAt > now) &&
+        (entry.type === "address"
+          ? addresses.includes(entry.value)
+          : domains.includes(entry.value)),
+    );
+  }
+}
+
+const createService = async (policy: "drop" | "reject") => {
+  const repository = new InMemorySuppressionsRepository();
+  const service = new SuppressionsService(repository, policy);
+
+  await service.addSuppression({
+    type: "address",
+    value: "Bounced@Example.com",
+    reason: "HARD_BOUNCE",
+    source: "test",
+  });
+  await service.addSuppression({
+    type: "domain",
+    value: "blocked.example",
+    reason: "MANUAL",
+    source: "test",
+  });
+  await service.addSuppression({
+    type: "address",
+    value: "expired@example.com",
+    reason: "UNSUBSCRIBE",
+    source: "test",
+    expiresAt: new Date(Date.now() - 1000),
+  });
+
+  return { service, repository };
+};
+
+describe("SuppressionsService.checkRecipients", () => {
+  it("should drop suppressed addresses and domains", async () => {
+    const { service } = await createService("drop");
+
+    const result = await service.checkRecipients({
+      to: ["ok@example.com", "bounced@example.com"],
+      cc: ["someone@blocked.example"],
+      bcc: ["expired@example.com"],
+    });
+
+    expect(result.recipients).toEqual({
+      to: ["ok@example.com"],
+      cc: [],
+      bcc: ["expired@example.com"],
+    });
+    expect(result.suppressed).toEqual([
+      { address: "bounced@example.com", reason: "HARD_BOUNCE" },
+      { address: "someone@blocked.example", reason: "MANUAL" },
+    ]);
+  });
+
+  it("should reject when policy is reject", async () => {
+    const { service } = await createService("reject");
+
+    await expect(
+      service.checkRecipients({
+        to: ["ok@example.com", "BOUNCED@example.com"],
+        cc: [],
+        bcc: [],
+      }),
+    ).rejects.toBeInstanceOf(RecipientsSuppressedError);
+  });
+
+  it("should reject when no recipients remain", async () => {
+    const { service } = await createService("drop");
+
+    await expect(
+      service.checkRecipients({
+        to: ["bounced@example.com"],
+        cc: [],
+        bcc: [],
+      }),
+    ).rejects.toThrow("Recipients are suppressed: bounced@example.com");
+  });
+});
+
+describe("SuppressionsService.suppressFromReport", () => {
+  const email = {
+    id: "email-1",
+    to: ["user@isp.example"],
+  } as EmailEntity;
+
+  it("should add hard bounces only", async () => {
+    const { service, repository } = await createService("drop");
+
+    await service.suppressFromReport(
+      {
+        type: "bounce",
+        originalMessageId: "id@example.com",
+        feedbackType: null,
+        recipients: [
+          {
+            address: "gone@example.com",
+            action: "failed",
+            status: "5.1.1",
+            diagnosticCode: null,
+            permanent: true,
+          },
+          {
+            address: "full@example.com",
+            action: "failed",
+            status: "4.2.2",
+            diagnosticCode: null,
+            permanent: false,
+          },
+        ],
+      },
+      email,
+    );
+
+    expect(await repository.findById("address:gone@example.com")).toMatchObject(
+      { reason: "HARD_BOUNCE", source: "bounce:email-1" },
+    );
+    expect(await repository.findById("address:full@example.com")).toBeNull();
+  });
+
+  it("should fall back to email recipients for redacted complaints", async () => {
+    const { service, repository } = await createService("drop");
+
+    await service.suppressFromReport(
+      {
+        type: "complaint",
+        originalMessageId: "id@example.com",
+        feedbackType: "abuse",
+        recipients: [],
+      },
+      email,
+    );
+
+    expect(await repository.findById("address:user@isp.example")).toMatchObject(
+      { reason: "COMPLAINT", source: "complaint:email-1" },
+    );
+  });
+});
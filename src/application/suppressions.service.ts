@@ -0,0 +1,219 @@
+import { config } from "../config/env.ts";
+import type { DeliveryReport } from "../domain/delivery-report.ts";
+import type { EmailEntity } from "../domain/email.entity.ts";
+import {
+  SuppressionReason,
+  type SuppressionEntity,
+} from "../domain/suppression.entity.ts";
+import {
+  RecipientsSuppressedError,
+  type SuppressedRecipient,
+} from "./errors/suppression-errors.ts";
+import type { SuppressionsRepository } from "./interfaces/suppressions-repository.ts";
+import {
+  parseSuppressionCsv,
+  type SuppressionCsvError,
+} from "./suppression-csv.ts";
+import type {
+  FindSuppressionsFilter,
+  SaveSuppressionData,
+  UpdateSuppressionData,
+} from "./types/save-suppression-data.ts";
+
+export interface EmailRecipients {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+}
+
+// drop - подавленные получатели исключаются из письма, reject - отправка отклоняется
+export type SuppressionPolicy = "drop" | "reject";
+
+export class SuppressionsService {
+  private readonly suppressionsRepository: SuppressionsRepository;
+  private readonly policy: SuppressionPolicy;
+
+  constructor(
+    suppressionsRepository: SuppressionsRepository,
+    policy: SuppressionPolicy = config.suppression.policy,
+  ) {
+    this.suppressionsRepository = suppressionsRepository;
+    this.policy = policy;
+  }
+
+  async addSuppression(data: SaveSuppressionData): Promise<SuppressionEntity> {
+    return this.suppressionsRepository.upsert({
+      ...data,
+      value: data.value.toLowerCase(),
+    });
+  }
+
+  async getSuppression(id: string): Promise<SuppressionEntity | null> {
+    return this.suppressionsRepository.findById(id);
+  }
+
+  async getSuppressions(filter: FindSuppressionsFilter) {
+    return this.suppressionsRepository.findAll(filter);
+  }
+
+  async updateSuppression(
+    data: UpdateSuppressionData,
+  ): Promise<SuppressionEntity | null> {
+    return this.suppressionsRepository.update(data);
+  }
+
+  async deleteSuppression(id: string): Promise<SuppressionEntity | null> {
+    return this.suppressionsRepository.delete(id);
+  }
+
+  /**
+   * Импорт из CSV, некорректные строки пропускаются и возвращаются в errors
+   */
+  async importCsv(
+    csv: string,
+    source: string,
+  ): Promise<{ imported: number; errors: SuppressionCsvError[] }> {
+    const { rows, errors } = parseSuppressionCsv(csv);
+
+    let imported = 0;
+
+    for (const row of rows) {
+      try {
+        await this.suppressionsRepository.upsert({
+          type: row.type,
+          value: row.value,
+          reason: row.reason,
+          source,
+          expiresAt: row.expiresAt,
+        });
+        imported++;
+      } catch (error) {
+        errors.push({
+          line: row.line,
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    errors.sort((a, b) => a.line - b.line);
+
+    return { imported, errors };
+  }
+
+  /**
+   * Проверяет получателей по списку подавления и применяет политику.
+   * Возвращает получателей без подавленных адресов и список исключенных.
+   * Бросает RecipientsSuppressedError при политике reject
+   * или если после исключения не осталось ни одного получателя
+   */
+  async checkRecipients(recipients: EmailRecipients): Promise<{
+    recipients: EmailRecipients;
+    suppressed: SuppressedRecipient[];
+  }> {
+    const suppressed = await this.findSuppressed([
+      ...recipients.to,
+      ...recipients.cc,
+      ...recipients.bcc,
+    ]);
+
+    if (suppressed.length === 0) {
+      return { recipients, suppressed };
+    }
+
+    const suppressedAddresses = new Set(
+      suppressed.map((recipient) => recipient.address),
+    );
+    const allowed = (addresses: string[]) =>
+      addresses.filter(
+        (address) => !suppressedAddresses.has(address.toLowerCase()),
+      );
+
+    const filtered: EmailRecipients = {
+      to: allowed(recipients.to),
+      cc: allowed(recipients.cc),
+      bcc: allowed(recipients.bcc),
+    };
+
+    const remaining =
+      filtered.to.length + filtered.cc.length + filtered.bcc.length;
+
+    if (this.policy === "reject" || remaining === 0) {
+      throw new RecipientsSuppressedError(suppressed);
+    }
+
+    return { recipients: filtered, suppressed };
+  }
+
+  /**
+   * Пополняет список по отчету о доставке: постоянные ошибки и жалобы
+   */
+  async suppressFromReport(
+    report: DeliveryReport,
+    email: EmailEntity,
+  ): Promise<void> {
+    if (report.type === "complaint") {
+      // в ARF адрес получателя часто скрыт, тогда берем получателей письма
+      const addresses =
+        report.recipients.length > 0
+          ? report.recipients.map((recipient) => recipient.address)
+          : email.to;
+
+      for (const address of addresses) {
+        await this.addSuppression({
+          type: "address",
+          value: address,
+          reason: SuppressionReason.COMPLAINT,
+          source: `complaint:${email.id}`,
+        });
+      }
+
+      return;
+    }
+
+    const hardBounces = report.recipients.filter(
+      (recipient) => recipient.action === "failed" && recipient.permanent,
+    );
+
+    for (const recipient of hardBounces) {
+      await this.addSuppression({
+        type: "address",
+        value: recipient.address,
+        reason: SuppressionReason.HARD_BOUNCE,
+        source: `bounce:${email.id}`,
+      });
+    }
+  }
+
+  private async findSuppressed(
+    addresses: string[],
+  ): Promise<SuppressedRecipient[]> {
+    const normalized = [
+      ...new Set(addresses.map((address) => address.toLowerCase())),
+    ];
+
+    if (normalized.length === 0) {
+      return [];
+    }
+
+    const domainOf = (address: string) =>
+      address.slice(address.lastIndexOf("@") + 1);
+
+    const entries = await this.suppressionsRepository.findActiveMatches(
+      normalized,
+      [...new Set(normalized.map(domainOf))],
+    );
+
+    return normalized.flatMap((address) => {
+      const entry =
+        entries.find(
+          (entry) => entry.type === "address" && entry.value === address,
+        ) ??
+        entries.find(
+          (entry) =>
+            entry.type === "domain" && entry.value === domainOf(address),
+        );
+
+      return entry ? [{ address, reason: entry.reason }] : [];
+    });
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractPlaceholders,
+  renderTemplate,
+  validateTemplateContent,
+  validateTemplateVariables,
+} from "./template-renderer.ts";
+import { TemplateVariablesError } from "./errors/template-errors.ts";
+import type { TemplateVariable } from "../domain/template.entity.ts";
+
+const variable = (
+  name: string,
+  overrides: Partial<TemplateVariable> = {},
+): TemplateVariable => ({
+  name,
+  type: "string",
+  required: true,
+  description: null,
+  defaultValue: null,
+  ...overrides,
+});
+
+describe("extractPlaceholders", () => {
+  it("should find escaped and raw placeholders once", () => {
+    expect(
+      extractPlaceholders(
+        "Hi {{ name }}, {{{footer}}} {{name}} {{ order.id }}",
+      ),
+    ).toEqual(["name", "footer", "order.id"]);
+  });
+});
+
+describe("validateTemplateContent", () => {
+  it("should report undeclared placeholders", () => {
+    const issues = validateTemplateContent({
+      subject: "Order {{orderId}}",
+      body: "Hello {{name}}",
+      html: null,
+      variables: [variable("name")],
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ variable: "orderId", code: "undeclared" }),
+    ]);
+  });
+});
+
+describe("validateTemplateVariables", () => {
+  it("should report missing required variables", () => {
+    const issues = validateTemplateVariables([variable("name")], {});
+    expect(issues).toEqual([
+      expect.objectContaining({ variable: "name", code: "missing" }),
+    ]);
+  });
+
+  it("should not require variables with default value", () => {
+    const issues = validateTemplateVariables(
+      [variable("name", { defaultValue: "customer" })],
+      {},
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it("should report unknown variables", () => {
+    const issues = validateTemplateVariables([], { extra: "value" });
+    expect(issues).toEqual([
+      expect.objectContaining({ variable: "extra", code: "unknown" }),
+    ]);
+  });
+
+  it("should check variable types", () => {
+    const issues = validateTemplateVariables(
+      [
+        variable("count", { type: "number" }),
+        variable("active", { type: "boolean" }),
+        variable("date", { type: "date" }),
+      ],
+      { count: "5", active: true, date: "not a date" },
+    );
+
+    expect(issues.map((issue) => [issue.variable, issue.code])).toEqual([
+      ["count", "invalid_type"],
+      ["date", "invalid_type"],
+    ]);
+  });
+});
+
+describe("renderTemplate", () => {
+  const content = {
+    subject: "Order {{ orderId }}",
+    body: "Hello {{name}}, total {{total}}",
+    html: "<p>Hello {{name}}</p>{{{signature}}}",
+    variables: [
+      variable("orderId"),
+      variable("name"),
+      variable("total", { type: "number" as const }),
+      variable("signature", { required: false }),
+    ],
+  };
+
+  it("should substitute variables", () => {
+    const result = renderTemplate(content, {
+      orderId: "42",
+      name: "Ann",
+      total: 10.5,
+      signature: "<b>Shop</b>",
+    });
+
+    expect(result).toEqual({
+      subject: "Order 42",
+      body: "Hello Ann, total 10.5",
+      html: "<p>Hello Ann</p><b>Shop</b>",
+    });
+  });
+
+  it("should escape html in double braces only", () => {
+    const result = renderTemplate(content, {
+      orderId: "1",
+      name: "<script>",
+      total: 1,
+    });
+
+    expect(result.body).toBe("Hello <script>, total 1");
+    expect(result.html).toBe("<p>Hello &lt;script&gt;</p>");
+  });
+
+  it("should throw TemplateVariablesError with issues", () => {
+    try {
+      renderTemplate(content, { name: "Ann", total: 1, unexpected: true });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(TemplateVariablesError);
+      expect((error as TemplateVariablesError).issues).toHaveLength(2);
+    }
+  });
+});
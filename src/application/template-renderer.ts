@@ -0,0 +1,183 @@
+import type {
+  TemplateVariable,
+  TemplateVersionEntity,
+} from "../domain/template.entity.ts";
+import {
+  TemplateVariablesError,
+  type TemplateVariableIssue,
+} from "./errors/template-errors.ts";
+
+// {{ name }} - значение экранируется в html, {{{ name }}} - вставляется как есть
+const PLACEHOLDER_REGEX =
+  /\{\{\{\s*([\w.-]+)\s*\}\}\}|\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export interface RenderedTemplate {
+  subject: string;
+  body: string;
+  html: string | null;
+}
+
+export type TemplateContent = Pick<
+  TemplateVersionEntity,
+  "subject" | "body" | "html" | "variables"
+>;
+
+/**
+ * Возвращает имена всех переменных, используемых в тексте
+ */
+export function extractPlaceholders(text: string): string[] {
+  const names = new Set<string>();
+
+  for (const match of text.matchAll(PLACEHOLDER_REGEX)) {
+    names.add(match[1] ?? match[2]);
+  }
+
+  return [...names];
+}
+
+/**
+ * Проверяет, что все плейсхолдеры subject/body/html объявлены в variables
+ */
+export function validateTemplateContent(
+  content: TemplateContent,
+): TemplateVariableIssue[] {
+  const declared = new Set(content.variables.map((v) => v.name));
+  const used = extractPlaceholders(
+    [content.subject, content.body, content.html ?? ""].join("\n"),
+  );
+
+  return used
+    .filter((name) => !declared.has(name))
+    .map((name) => ({
+      variable: name,
+      code: "undeclared" as const,
+      message: `Placeholder "${name}" is not declared in template variables`,
+    }));
+}
+
+/**
+ * Проверяет переданные значения по схеме переменных шаблона
+ */
+export function validateTemplateVariables(
+  definitions: TemplateVariable[],
+  values: Record<string, unknown>,
+): TemplateVariableIssue[] {
+  const issues: TemplateVariableIssue[] = [];
+  const declared = new Set(definitions.map((v) => v.name));
+
+  for (const definition of definitions) {
+    const value = values[definition.name];
+
+    if (value === undefined || value === null) {
+      if (definition.required && definition.defaultValue === null) {
+        issues.push({
+          variable: definition.name,
+          code: "missing",
+          message: `Variable "${definition.name}" is required`,
+        });
+      }
+      continue;
+    }
+
+    if (!isValidType(definition, value)) {
+      issues.push({
+        variable: definition.name,
+        code: "invalid_type",
+        message: `Variable "${definition.name}" must be of type ${definition.type}`,
+      });
+    }
+  }
+
+  for (const name of Object.keys(values)) {
+    if (!declared.has(name)) {
+      issues.push({
+        variable: name,
+        code: "unknown",
+        message: `Variable "${name}" is not declared in template`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Подставляет значения переменных в subject, body и html шаблона.
+ * Бросает TemplateVariablesError, если значения не соответствуют схеме
+ */
+export function renderTemplate(
+  content: TemplateContent,
+  values: Record<string, unknown>,
+): RenderedTemplate {
+  const issues = validateTemplateVariables(content.variables, values);
+
+  if (issues.length > 0) {
+    throw new TemplateVariablesError(issues);
+  }
+
+  const resolved: Record<string, string> = {};
+
+  for (const definition of content.variables) {
+    const value = values[definition.name] ?? definition.defaultValue;
+    resolved[definition.name] = value === null ? "" : formatValue(value);
+  }
+
+  return {
+    subject: replacePlaceholders(content.subject, resolved, false),
+    body: replacePlaceholders(content.body, resolved, false),
+    html: content.html
+      ? replacePlaceholders(content.html, resolved, true)
+      : null,
+  };
+}
+
+function replacePlaceholders(
+  text: string,
+  values: Record<string, string>,
+  escape: boolean,
+): string {
+  return text.replace(
+    PLACEHOLDER_REGEX,
+    (_match, rawName: string | undefined, name: string | undefined) => {
+      if (rawName !== undefined) {
+        return values[rawName] ?? "";
+      }
+
+      const value = values[name!] ?? "";
+      return escape ? escapeHtml(value) : value;
+    },
+  );
+}
+
+function isValidType(definition: TemplateVariable, value: unknown): boolean {
+  switch (definition.type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "date":
+      return (
+        (typeof value === "string" || value instanceof Date) &&
+        !Number.isNaN(new Date(value).getTime())
+      );
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return String(value);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,324 @@
+import type { TemplatesRepository } from "./interfaces/templates-repository.ts";
+import type {
+  SaveTemplateData,
+  TemplateContentData,
+  UpdateTemplateData,
+} from "./types/save-template-data.ts";
+import type {
+  TemplateEntity,
+  TemplateVersionEntity,
+} from "../domain/template.entity.ts";
+import {
+  TemplateConflictError,
+  TemplateNotFoundError,
+  TemplateVariablesError,
+  TestRecipientNotAllowedError,
+} from "./errors/template-errors.ts";
+import {
+  renderTemplate,
+  validateTemplateContent,
+  type RenderedTemplate,
+  type TemplateContent,
+} from "./template-renderer.ts";
+import type { EmailProvider } from "./interfaces/email-provider.ts";
+import { EmailStatus } from "../domain/types.ts";
+import { config } from "../config/env.ts";
+import { randomUUID } from "crypto";
+
+export interface TemplateDetails {
+  template: TemplateEntity;
+  activeVersion: TemplateVersionEntity | null;
+  versions: TemplateVersionEntity[];
+}
+
+export interface RenderedTemplateResult extends RenderedTemplate {
+  templateId: string;
+  templateVersion: number;
+}
+
+// шаблон для предпросмотра: сохраненный (активная или указанная версия) либо переданный в запросе
+export type TemplateSource =
+  | { templateId: string; version?: number }
+  | { content: TemplateContentData };
+
+export interface TestSendResult {
+  rendered: RenderedTemplate;
+  messageId: string | null;
+}
+
+const TEST_SUBJECT_PREFIX = "[TEST] ";
+
+export class TemplatesService {
+  private readonly templatesRepository: TemplatesRepository;
+  private readonly emailProvider: EmailProvider;
+
+  constructor(
+    templatesRepository: TemplatesRepository,
+    emailProvider: EmailProvider,
+  ) {
+    this.templatesRepository = templatesRepository;
+    this.emailProvider = emailProvider;
+  }
+
+  async createTemplate(
+    data: SaveTemplateData,
+  ): Promise<{ template: TemplateEntity; version: TemplateVersionEntity }> {
+    this.assertValidContent(data.content);
+    await this.assertNameAvailable(data.name);
+
+    return this.templatesRepository.save(data);
+  }
+
+  async getTemplates(): Promise<TemplateEntity[]> {
+    return this.templatesRepository.findAll();
+  }
+
+  async getTemplateDetails(templateId: string): Promise<TemplateDetails> {
+    const template = await this.getTemplateOrThrow(templateId);
+    const versions = await this.templatesRepository.findVersions(templateId);
+
+    return {
+      template,
+      activeVersion:
+        versions.find((v) => v.version === template.activeVersion) ?? null,
+      versions,
+    };
+  }
+
+  async updateTemplate(data: UpdateTemplateData): Promise<TemplateEntity> {
+    if (data.name !== undefined) {
+      await this.assertNameAvailable(data.name, data.id);
+    }
+
+    const updated = await this.templatesRepository.update(data);
+
+    if (!updated) {
+      throw new TemplateNotFoundError(data.id);
+    }
+
+    return updated;
+  }
+
+  async deleteTemplate(templateId: string): Promise<TemplateEntity> {
+    const deleted = await this.templatesRepository.deleteSoft(templateId);
+
+    if (!deleted) {
+      throw new TemplateNotFoundError(templateId);
+    }
+
+    return deleted;
+  }
+
+  async addVersion(
+    templateId: string,
+    content: TemplateContentData,
+    activate: boolean,
+  ): Promise<TemplateVersionEntity> {
+    this.assertValidContent(content);
+    await this.getTemplateOrThrow(templateId);
+
+    return this.templatesRepository.addVersion(templateId, content, activate);
+  }
+
+  async getVersion(
+    templateId: string,
+    version: number,
+  ): Promise<TemplateVersionEntity> {
+    await this.getTemplateOrThrow(templateId);
+
+    const found = await this.templatesRepository.findVersion(
+      templateId,
+      version,
+    );
+
+    if (!found) {
+      throw new TemplateNotFoundError(templateId, version);
+    }
+
+    return found;
+  }
+
+  async activateVersion(
+    templateId: string,
+    version: number,
+  ): Promise<TemplateEntity> {
+    await this.getTemplateOrThrow(templateId);
+
+    const updated = await this.templatesRepository.setActiveVersion(
+      templateId,
+      version,
+    );
+
+    if (!updated) {
+      throw new TemplateNotFoundError(templateId, version);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Рендерит активную версию шаблона с переданными переменными
+   */
+  async renderActiveVersion(
+    templateId: string,
+    variables: Record<string, unknown>,
+  ): Promise<RenderedTemplateResult> {
+    const template = await this.getTemplateOrThrow(templateId);
+
+    if (template.activeVersion === null) {
+      throw new TemplateNotFoundError(templateId);
+    }
+
+    const version = await this.getVersion(templateId, template.activeVersion);
+
+    return {
+      ...renderTemplate(version, variables),
+      templateId,
+      templateVersion: version.version,
+    };
+  }
+
+  /**
+   * Рендерит шаблон без сохранения письма
+   */
+  async preview(
+    source: TemplateSource,
+    variables: Record<string, unknown>,
+  ): Promise<RenderedTemplate> {
+    const content = await this.resolveContent(source);
+
+    return renderTemplate(content, variables);
+  }
+
+  /**
+   * Рендерит шаблон и отправляет результат на тестовые адреса через провайдера,
+   * письмо не сохраняется. Получатели должны входить в config.templates.testRecipients
+   */
+  async sendTest(
+    source: TemplateSource,
+    variables: Record<string, unknown>,
+    to: string[],
+  ): Promise<TestSendResult> {
+    const notAllowed = to.filter((address) => !isAllowedTestRecipient(address));
+
+    if (notAllowed.length > 0) {
+      throw new TestRecipientNotAllowedError(notAllowed);
+    }
+
+    const rendered = await this.preview(source, variables);
+    const now = new Date();
+
+    const result = await this.emailProvider.send({
+      id: randomUUID(),
+      from: config.smtp.from,
+      displayName: config.smtp.displayName,
+      to,
+      cc: [],
+      bcc: [],
+      subject: `${TEST_SUBJECT_PREFIX}${rendered.subject}`,
+      body: rendered.body,
+      html: rendered.html,
+      templateId: "templateId" in source ? source.templateId : null,
+      templateVersion: null,
+      tag: null,
+      apiClientId: null,
+      status: EmailStatus.PENDING,
+      attachments: [],
+      error: null,
+      provider: null,
+      messageId: null,
+      acceptedRecipients: [],
+      rejectedRecipients: [],
+      smtpResponse: null,
+      sendDurationMs: null,
+      diagnosticCode: null,
+      suppressedRecipients: [],
+      scheduledAt: null,
+      timezone: null,
+      attempts: [],
+      nextAttemptAt: null,
+      sentAt: null,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to send test email");
+    }
+
+    return { rendered, messageId: result.messageId ?? null };
+  }
+
+  private async resolveContent(
+    source: TemplateSource,
+  ): Promise<TemplateContent> {
+    if ("content" in source) {
+      this.assertValidContent(source.content);
+
+      return {
+        subject: source.content.subject,
+        body: source.content.body,
+        html: source.content.html ?? null,
+        variables: source.content.variables,
+      };
+    }
+
+    if (source.version !== undefined) {
+      return this.getVersion(source.templateId, source.version);
+    }
+
+    const template = await this.getTemplateOrThrow(source.templateId);
+
+    if (template.activeVersion === null) {
+      throw new TemplateNotFoundError(source.templateId);
+    }
+
+    return this.getVersion(source.templateId, template.activeVersion);
+  }
+
+  private async getTemplateOrThrow(
+    templateId: string,
+  ): Promise<TemplateEntity> {
+    const template = await this.templatesRepository.findById(templateId);
+
+    if (!template) {
+      throw new TemplateNotFoundError(templateId);
+    }
+
+    return template;
+  }
+
+  private assertValidContent(content: TemplateContentData): void {
+    const issues = validateTemplateContent({
+      subject: content.subject,
+      body: content.body,
+      html: content.html ?? null,
+      variables: content.variables,
+    });
+
+    if (issues.length > 0) {
+      throw new TemplateVariablesError(issues);
+    }
+  }
+
+  private async assertNameAvailable(
+    name: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.templatesRepository.findByName(name);
+
+    if (existing && existing.id !== excludeId) {
+      throw new TemplateConflictError(`Template "${name}" already exists`);
+    }
+  }
+}
+
+function isAllowedTestRecipient(address: string): boolean {
+  const normalized = address.trim().toLowerCase();
+  const domain = normalized.slice(normalized.lastIndexOf("@"));
+
+  return config.templates.testRecipients.some(
+    (allowed) => allowed === normalized || allowed === domain,
+  );
+}
@@ -0,0 +1,5 @@
+// Кто и откуда выполняет действие, записывается в журнал аудита
+export interface AuditContext {
+  actor: string;
+  ip?: string | null;
+}
@@ -0,0 +1,29 @@
+import type { EmailStatus } from "../../domain/types.ts";
+
+export type EmailsSortField =
+  | "createdAt"
+  | "updatedAt"
+  | "sentAt"
+  | "status"
+  | "subject";
+
+export interface FindEmailsFilter {
+  status?: EmailStatus[];
+  // адрес получателя в to, cc или bcc
+  recipient?: string;
+  from?: string;
+  // только письма этого клиента API
+  apiClientId?: string;
+  // подстрока темы письма
+  subject?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  sentFrom?: Date;
+  sentTo?: Date;
+  // exclude - только не удаленные, include - все, only - только мягко удаленные
+  deleted: "exclude" | "include" | "only";
+  page: number;
+  limit: number;
+  sortBy: EmailsSortField;
+  sortOrder: "asc" | "desc";
+}
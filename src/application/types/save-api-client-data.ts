@@ -0,0 +1,24 @@
+import type { ApiScope } from "../../domain/api-client.entity.ts";
+import type { ClientRateLimits } from "../../domain/rate-limit.ts";
+
+export interface SaveApiClientData {
+  name: string;
+  scopes: ApiScope[];
+  allowedSenders: string[];
+  rateLimits: ClientRateLimits;
+}
+
+export interface UpdateApiClientData {
+  id: string;
+  name?: string;
+  scopes?: ApiScope[];
+  allowedSenders?: string[];
+  rateLimits?: Partial<ClientRateLimits>;
+  disabled?: boolean;
+}
+
+// ключ в том виде, в котором он хранится
+export interface SaveApiKeyData {
+  prefix: string;
+  keyHash: string;
+}
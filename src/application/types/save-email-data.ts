@@ -11,5 +11,12 @@ export interface SaveEmailData {
   cc?: string[];
   bcc?: string[];
   html?: string;
+  templateId?: string;
+  templateVersion?: number;
+  tag?: string;
+  apiClientId?: string | null;
+  suppressedRecipients?: string[];
+  scheduledAt?: Date;
+  timezone?: string;
   attachments?: Omit<AttachmentEntity, "id" | "createdAt" | "emailId">[];
 }
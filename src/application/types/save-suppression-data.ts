@@ -0,0 +1,28 @@
+import type {
+  SuppressionReason,
+  SuppressionType,
+} from "../../domain/suppression.entity.ts";
+
+export interface SaveSuppressionData {
+  type: SuppressionType;
+  value: string;
+  reason: SuppressionReason;
+  source: string;
+  expiresAt?: Date | null;
+}
+
+export interface UpdateSuppressionData {
+  id: string;
+  reason?: SuppressionReason;
+  expiresAt?: Date | null;
+}
+
+export interface FindSuppressionsFilter {
+  type?: SuppressionType;
+  reason?: SuppressionReason;
+  // подстрока адреса / домена
+  search?: string;
+  includeExpired: boolean;
+  page: number;
+  limit: number;
+}
@@ -0,0 +1,21 @@
+import type { TemplateVariable } from "../../domain/template.entity.ts";
+
+export interface TemplateContentData {
+  subject: string;
+  body: string;
+  html?: string | null;
+  variables: TemplateVariable[];
+}
+
+export interface SaveTemplateData {
+  name: string;
+  description?: string | null;
+  // содержимое первой версии шаблона
+  content: TemplateContentData;
+}
+
+export interface UpdateTemplateData {
+  id: string;
+  name?: string;
+  description?: string | null;
+}
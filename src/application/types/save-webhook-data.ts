@@ -0,0 +1,32 @@
+import type { EmailEventType } from "../../domain/email-event.ts";
+import type {
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+} from "../../domain/webhook.entity.ts";
+
+export interface SaveWebhookData {
+  clientId: string;
+  url: string;
+  events: EmailEventType[];
+  secret: string;
+}
+
+export interface UpdateWebhookData {
+  id: string;
+  url?: string;
+  events?: EmailEventType[];
+  disabled?: boolean;
+}
+
+export interface FindWebhookDeliveriesFilter {
+  webhookId: string;
+  status?: WebhookDeliveryStatus;
+  page: number;
+  limit: number;
+}
+
+export interface RecordWebhookAttemptData {
+  status: WebhookDeliveryStatus;
+  attempt: WebhookDeliveryAttempt;
+  nextAttemptAt: Date | null;
+}
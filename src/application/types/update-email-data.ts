@@ -1,8 +1,19 @@
-import type { EmailStatus } from "../../domain/types.ts";
+import type { EmailAttempt, EmailStatus } from "../../domain/types.ts";
 
 export interface UpdateEmailData {
   id: string;
   status: EmailStatus;
   sentAt?: Date;
   error?: string;
+  provider?: string;
+  messageId?: string;
+  acceptedRecipients?: string[];
+  rejectedRecipients?: string[];
+  smtpResponse?: string | null;
+  sendDurationMs?: number;
+  diagnosticCode?: string | null;
+  suppressedRecipients?: string[];
+  // добавляется в историю попыток
+  attempt?: EmailAttempt;
+  nextAttemptAt?: Date | null;
 }
@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { EmailEventType, type EmailEvent } from "../domain/email-event.ts";
+import {
+  WebhookDeliveryStatus,
+  type ClaimedWebhookDelivery,
+  type WebhookDeliveryEntity,
+  type WebhookEntity,
+} from "../domain/webhook.entity.ts";
+import type {
+  WebhookRequest,
+  WebhookResponse,
+  WebhookSender,
+} from "./interfaces/webhook-sender.ts";
+import type { WebhooksRepository } from "./interfaces/webhooks-repository.ts";
+import type {
+  RecordWebhookAttemptData,
+  SaveWebhookData,
+  UpdateWebhookData,
+} from "./types/save-webhook-data.ts";
+import {
+  signWebhookPayload,
+  toWebhookPayload,
+  WebhooksService,
+} from "./webhooks.service.ts";
+import { WebhookUrlNotAllowedError } from "./errors/webhook-errors.ts";
+
+class InMemoryWebhooksRepository implements WebhooksRepository {
+  webhooks: (WebhookEntity & { secret: string })[] = [];
+  deliveries: WebhookDeliveryEntity[] = [];
+
+  async create(data: SaveWebhookData) {
+    const webhook = {
+      id: `webhook-${this.webhooks.length + 1}`,
+      ...data,
+      disabledAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.webhooks.push(webhook);
+
+    return webhook;
+  }
+
+  async findById(id: string) {
+    return this.webhooks.find((webhook) => webhook.id === id) ?? null;
+  }
+
+  async findAll(clientId?: string) {
+    return this.webhooks.filter(
+      (webhook) => !clientId || webhook.clientId === clientId,
+    );
+  }
+
+  async update(data: UpdateWebhookData) {
+    const webhook = await this.findById(data.id);
+
+    if (webhook && data.disabled !== undefined) {
+      webhook.disabledAt = data.disabled ? new Date() : null;
+    }
+
+    return webhook;
+  }
+
+  async delete(id: string) {
+    const webhook = await this.findById(id);
+    this.webhooks = this.webhooks.filter((item) => item.id !== id);
+
+    return webhook;
+  }
+
+  async enqueueDeliveries(
+    clientId: string,
+    event: EmailEvent,
+    payload: unknown,
+  ) {
+    const webhooks = this.webhooks.filter(
+      (webhook) =>
+        webhook.clientId === clientId &&
+        !webhook.disabledAt &&
+        webhook.events.includes(event.type),
+    );
+
+    for (const webhook of webhooks) {
+      this.deliveries.push({
+        id: `delivery-${this.deliveries.length + 1}`,
+        webhookId: webhook.id,
+        eventId: event.id,
+        event: event.type,
+        payload,
+        status: WebhookDeliveryStatus.PENDING,
+        attemptCount: 0,
+        attempts: [],
+        nextAttemptAt: new Date(),
+        deliveredAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    }
+
+    return webhooks.length;
+  }
+
+  async findDeliveries() {
+    return { deliveries: this.deliveries, page: 1, limit: 20, total: 0 };
+  }
+
+  async claimDueDeliveries(limit: number): Promise<ClaimedWebhookDelivery[]> {
+    return this.deliveries
+      .filter((delivery) => delivery.status === WebhookDeliveryStatus.PENDING)
+      .slice(0, limit)
+      .map((delivery) => {
+        const webhook = this.webhooks.find(
+          (item) => item.id === delivery.webhookId,
+        )!;
+
+        return { delivery, url: webhook.url, secret: webhook.secret };
+      });
+  }
+
+  async recordAttempt(deliveryId: string, data: RecordWebhookAttemptData) {
+    const delivery = this.deliveries.find((item) => item.id === deliveryId);
+
+    if (!delivery) {
+      return null;
+    }
+
+    delivery.status = data.status;
+    delivery.attemptCount++;
+    delivery.attempts.push(data.attempt);
+    delivery.nextAttemptAt = data.nextAttemptAt;
+
+    return delivery;
+  }
+
+  async replayDeliveries(webhookId: string) {
+    const failed = this.deliveries.filter(
+      (delivery) =>
+        delivery.webhookId === webhookId &&
+        delivery.status === WebhookDeliveryStatus.FAILED,
+    );
+
+    for (const delivery of failed) {
+      delivery.status = WebhookDeliveryStatus.PENDING;
+      delivery.attemptCount = 0;
+    }
+
+    return failed.map((delivery) => delivery.id);
+  }
+
+  async deleteDeliveriesOlderThan() {
+    return 0;
+  }
+}
+
+class FakeSender implements WebhookSender {
+  requests: WebhookRequest[] = [];
+
+  constructor(private readonly responses: WebhookResponse[]) {}
+
+  async verifyUrl(url: string): Promise<string | null> {
+    return url.includes("internal") ? "host resolves to 10.0.0.1" : null;
+  }
+
+  async send(request: WebhookRequest): Promise<WebhookResponse> {
+    this.requests.push(request);
+    return this.responses.shift() ?? { status: 200, error: null };
+  }
+}
+
+const createEvent = (apiClientId: string | null): EmailEvent => ({
+  id: "event-1",
+  type: EmailEventType.SENT,
+  occurredAt: new Date("2024-01-01T00:00:00.000Z"),
+  email: {
+    id: "email-1",
+    apiClientId,
+    status: "SENT",
+    from: "noreply@shop.example",
+    to: ["user@example.com"],
+    cc: [],
+    bcc: [],
+    subject: "Hello",
+    tag: null,
+    templateId: null,
+    provider: "primary",
+    messageId: "<id@example.com>",
+    error: null,
+    diagnosticCode: null,
+    attemptsCount: 1,
+    nextAttemptAt: null,
+    scheduledAt: null,
+    sentAt: new Date("2024-01-01T00:00:00.000Z"),
+    deletedAt: null,
+  },
+});
+
+const options = {
+  timeout: 1_000,
+  maxAttempts: 2,
+  baseDelay: 1_000,
+  maxDelay: 10_000,
+  multiplier: 2,
+};
+
+describe("WebhooksService", () => {
+  let repository: InMemoryWebhooksRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryWebhooksRepository();
+  });
+
+  const subscribe = async (service: WebhooksService) =>
+    service.createWebhook({
+      clientId: "client-1",
+      url: "https://hooks.example.com/email",
+      events: [EmailEventType.SENT],
+    });
+
+  it("should deliver a signed payload", async () => {
+    const sender = new FakeSender([{ status: 204, error: null }]);
+    const service = new WebhooksService(repository, sender, options);
+    const { secret } = await subscribe(service);
+
+    await service.publish(createEvent("client-1"));
+    const [claimed] = await service.claimDueDeliveries(10);
+    const delivery = await service.deliver(claimed);
+
+    const request = sender.requests[0];
+    const timestamp = Number(request.headers["X-Webhook-Timestamp"]);
+
+    expect(secret).toMatch(/^whsec_/);
+    expect(JSON.parse(request.body)).toEqual(
+      JSON.parse(JSON.stringify(toWebhookPayload(createEvent("client-1")))),
+    );
+    expect(request.headers["X-Webhook-Signature"]).toBe(
+      `sha256=${signWebhookPayload(secret, timestamp, request.body)}`,
+    );
+    expect(delivery).toMatchObject({
+      status: WebhookDeliveryStatus.DELIVERED,
+      attemptCount: 1,
+      nextAttemptAt: null,
+    });
+  });
+
+  it("should retry with backoff and fail after max attempts", async () => {
+    const sender = new FakeSender([
+      { status: 500, error: null },
+      { status: null, error: "Timeout" },
+    ]);
+    const service = new WebhooksService(repository, sender, options);
+    await subscribe(service);
+    await service.publish(createEvent("client-1"));
+
+    const [first] = await service.claimDueDeliveries(10);
+    const retried = await service.deliver(first);
+
+    expect(retried?.status).toBe(WebhookDeliveryStatus.PENDING);
+    expect(retried?.attempts[0]).toMatchObject({
+      responseStatus: 500,
+      error: "HTTP 500",
+    });
+    expect(retried!.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+
+    const [second] = await service.claimDueDeliveries(10);
+    const failed = await service.deliver(second);
+
+    expect(failed).toMatchObject({
+      status: WebhookDeliveryStatus.FAILED,
+      attemptCount: 2,
+      nextAttemptAt: null,
+    });
+    expect(failed?.attempts[1].error).toBe("Timeout");
+
+    expect(await service.replayDeliveries(failed!.webhookId)).toEqual([
+      failed!.id,
+    ]);
+    expect(failed?.status).toBe(WebhookDeliveryStatus.PENDING);
+  });
+
+  it("should reject urls pointing to internal networks", async () => {
+    const service = new WebhooksService(
+      repository,
+      new FakeSender([]),
+      options,
+    );
+
+    const error = await service
+      .createWebhook({
+        clientId: "client-1",
+        url: "http://internal.local/hook",
+        events: [EmailEventType.SENT],
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(WebhookUrlNotAllowedError);
+    expect(error.message).toBe(
+      "Webhook url http://internal.local/hook is not allowed: host resolves to 10.0.0.1",
+    );
+  });
+
+  it("should skip events of emails without an API client and unsubscribed events", async () => {
+    const service = new WebhooksService(
+      repository,
+      new FakeSender([]),
+      options,
+    );
+    await subscribe(service);
+
+    await service.publish(createEvent(null));
+    await service.publish({
+      ...createEvent("client-1"),
+      type: EmailEventType.BOUNCED,
+    });
+
+    expect(repository.deliveries).toEqual([]);
+  });
+});
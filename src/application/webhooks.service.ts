@@ -0,0 +1,219 @@
+import { createHmac, randomBytes } from "crypto";
+import { config } from "../config/env.ts";
+import type { EmailEvent } from "../domain/email-event.ts";
+import {
+  WebhookDeliveryStatus,
+  type ClaimedWebhookDelivery,
+  type WebhookDeliveryEntity,
+  type WebhookEntity,
+} from "../domain/webhook.entity.ts";
+import { WebhookUrlNotAllowedError } from "./errors/webhook-errors.ts";
+import type { EmailEventsPublisher } from "./interfaces/email-events-publisher.ts";
+import type { WebhookSender } from "./interfaces/webhook-sender.ts";
+import type { WebhooksRepository } from "./interfaces/webhooks-repository.ts";
+import { computeBackoffDelay, type RetryOptions } from "./retry-policy.ts";
+import type {
+  FindWebhookDeliveriesFilter,
+  SaveWebhookData,
+  UpdateWebhookData,
+} from "./types/save-webhook-data.ts";
+
+const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+export interface WebhookOptions extends RetryOptions {
+  // таймаут запроса к получателю, мс
+  timeout: number;
+}
+
+/**
+ * Вебхуки клиентов API: подписки на события писем клиента и доставка событий
+ * с подписью HMAC-SHA256 и повторами. Каждая доставка сохраняется в журнале
+ */
+export class WebhooksService implements EmailEventsPublisher {
+  private readonly webhooksRepository: WebhooksRepository;
+  private readonly webhookSender: WebhookSender;
+  private readonly options: WebhookOptions;
+
+  constructor(
+    webhooksRepository: WebhooksRepository,
+    webhookSender: WebhookSender,
+    options: WebhookOptions = config.webhooks,
+  ) {
+    this.webhooksRepository = webhooksRepository;
+    this.webhookSender = webhookSender;
+    this.options = options;
+  }
+
+  /**
+   * Создает подписку. Секрет для проверки подписи возвращается открыто только здесь.
+   * Бросает WebhookUrlNotAllowedError - url указывает во внутреннюю сеть
+   */
+  async createWebhook(
+    data: Omit<SaveWebhookData, "secret">,
+  ): Promise<{ webhook: WebhookEntity; secret: string }> {
+    await this.assertUrlAllowed(data.url);
+
+    const secret = `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+
+    const webhook = await this.webhooksRepository.create({ ...data, secret });
+
+    return { webhook, secret };
+  }
+
+  async getWebhooks(clientId?: string): Promise<WebhookEntity[]> {
+    return this.webhooksRepository.findAll(clientId);
+  }
+
+  async getWebhook(id: string): Promise<WebhookEntity | null> {
+    return this.webhooksRepository.findById(id);
+  }
+
+  /**
+   * Бросает WebhookUrlNotAllowedError - url указывает во внутреннюю сеть
+   */
+  async updateWebhook(data: UpdateWebhookData): Promise<WebhookEntity | null> {
+    if (data.url !== undefined) {
+      await this.assertUrlAllowed(data.url);
+    }
+
+    return this.webhooksRepository.update(data);
+  }
+
+  async deleteWebhook(id: string): Promise<WebhookEntity | null> {
+    return this.webhooksRepository.delete(id);
+  }
+
+  async getDeliveries(filter: FindWebhookDeliveriesFilter) {
+    return this.webhooksRepository.findDeliveries(filter);
+  }
+
+  /**
+   * Повторная доставка: без deliveryIds - все доставки, исчерпавшие попытки
+   */
+  async replayDeliveries(
+    webhookId: string,
+    deliveryIds?: string[],
+  ): Promise<string[]> {
+    return this.webhooksRepository.replayDeliveries(webhookId, deliveryIds);
+  }
+
+  /**
+   * Ставит событие в очередь доставки подпискам клиента, создавшего письмо.
+   * Письма без клиента (общий ключ, очередь) вебхуки не получают
+   */
+  async publish(event: EmailEvent): Promise<void> {
+    if (!event.email.apiClientId) {
+      return;
+    }
+
+    await this.webhooksRepository.enqueueDeliveries(
+      event.email.apiClientId,
+      event,
+      toWebhookPayload(event),
+    );
+  }
+
+  async claimDueDeliveries(limit: number): Promise<ClaimedWebhookDelivery[]> {
+    // аренда с запасом больше таймаута запроса
+    return this.webhooksRepository.claimDueDeliveries(
+      limit,
+      this.options.timeout * 2,
+    );
+  }
+
+  /**
+   * Отправляет событие получателю и записывает попытку в журнал.
+   * Ответ не 2xx - повтор с экспоненциальной задержкой, после maxAttempts - FAILED
+   */
+  async deliver({
+    delivery,
+    url,
+    secret,
+  }: ClaimedWebhookDelivery): Promise<WebhookDeliveryEntity | null> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const startedAt = performance.now();
+
+    const response = await this.webhookSender.send({
+      url,
+      body,
+      timeout: this.options.timeout,
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(secret, timestamp, body)}`,
+      },
+    });
+
+    const at = new Date();
+    const attemptCount = delivery.attemptCount + 1;
+    const delivered =
+      response.status !== null &&
+      response.status >= 200 &&
+      response.status < 300;
+
+    const status = delivered
+      ? WebhookDeliveryStatus.DELIVERED
+      : attemptCount >= this.options.maxAttempts
+        ? WebhookDeliveryStatus.FAILED
+        : WebhookDeliveryStatus.PENDING;
+
+    return this.webhooksRepository.recordAttempt(delivery.id, {
+      status,
+      attempt: {
+        at,
+        responseStatus: response.status,
+        error: delivered ? null : (response.error ?? `HTTP ${response.status}`),
+        durationMs: Math.round(performance.now() - startedAt),
+      },
+      nextAttemptAt:
+        status === WebhookDeliveryStatus.PENDING
+          ? new Date(
+              at.getTime() + computeBackoffDelay(attemptCount, this.options),
+            )
+          : null,
+    });
+  }
+
+  async purgeDeliveries(days: number): Promise<number> {
+    return this.webhooksRepository.deleteDeliveriesOlderThan(days);
+  }
+
+  // адрес проверяется еще раз при каждой доставке: DNS хоста может измениться
+  private async assertUrlAllowed(url: string): Promise<void> {
+    const rejection = await this.webhookSender.verifyUrl(url);
+
+    if (rejection) {
+      throw new WebhookUrlNotAllowedError(url, rejection);
+    }
+  }
+}
+
+/**
+ * Тело запроса вебхука. id события одинаков во всех попытках и при replay
+ */
+export function toWebhookPayload(event: EmailEvent) {
+  return {
+    id: event.id,
+    type: event.type,
+    createdAt: event.occurredAt.toISOString(),
+    data: event.email,
+  };
+}
+
+/**
+ * Подпись: hex HMAC-SHA256 от "<timestamp>.<тело запроса>" секретом подписки.
+ * Получатель сверяет ее с заголовком X-Webhook-Signature и отбрасывает старые timestamp
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
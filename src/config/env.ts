@@ -2,6 +2,20 @@ import { config as dotenvConfig } from "dotenv";
 
 dotenvConfig();
 
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// "pdf, .DOCX" -> [".pdf", ".docx"]
+function parseExtensions(value: string | undefined): string[] {
+  return parseList(value).map((extension) =>
+    extension.startsWith(".") ? extension : `.${extension}`,
+  );
+}
+
 export const config = {
   origin: process.env.ORIGIN || "*",
   port: Number(process.env.PORT) || 3008,
@@ -11,6 +25,8 @@ export const config = {
     process.env.NODE_ENV === "production"
       ? process.env.API_URL_PROD
       : process.env.API_URL_DEV,
+  // внешний адрес сервиса для ссылок в ответах API (https://mail.example.com), пустой - адрес из запроса
+  publicUrl: (process.env.PUBLIC_URL || "").replace(/\/+$/, ""),
 
   smtp: {
     host: process.env.SMTP_HOST!,
@@ -35,12 +51,236 @@ export const config = {
     queue: process.env.RABBITMQ_QUEUE || "email.send",
     exchange: "email.exchange",
     routingKey: "email.send",
+    deadLetterExchange:
+      process.env.RABBITMQ_DEAD_LETTER_EXCHANGE || "email.dlx",
+    deadLetterQueue: process.env.RABBITMQ_DEAD_LETTER_QUEUE || "email.send.dlq",
+    // topic exchange событий статуса писем (email.status.*)
+    eventsEnabled: process.env.RABBITMQ_EVENTS_ENABLED !== "false",
+    eventsExchange:
+      process.env.RABBITMQ_EVENTS_EXCHANGE || "notification.events",
+    // сколько неподтвержденных сообщений consumer получает одновременно
+    prefetch: parseInt(process.env.RABBITMQ_PREFETCH || "10", 10),
+    // переподключение после разрыва соединения
+    reconnect: {
+      baseDelay: parseInt(
+        process.env.RABBITMQ_RECONNECT_BASE_DELAY || "1000",
+        10,
+      ), // 1 sec
+      maxDelay: parseInt(
+        process.env.RABBITMQ_RECONNECT_MAX_DELAY || "30000",
+        10,
+      ), // 30 sec
+      multiplier: 2,
+    },
+  },
+
+  delivery: {
+    // режим отправки по умолчанию для POST /api/v2/emails: sync | async
+    defaultMode: (process.env.DELIVERY_DEFAULT_MODE === "async"
+      ? "async"
+      : "sync") as "sync" | "async",
+    workerEnabled: process.env.DELIVERY_WORKER_ENABLED !== "false",
+    pollInterval: parseInt(process.env.DELIVERY_POLL_INTERVAL || "5000", 10),
+    batchSize: parseInt(process.env.DELIVERY_BATCH_SIZE || "10", 10),
+    // аренда письма воркером, должна быть больше таймаута отправки провайдером
+    leaseDuration: parseInt(
+      process.env.DELIVERY_LEASE_DURATION || "300000",
+      10,
+    ), // 5 min
+    // cron с секундами: поиск писем, зависших в PENDING после падения воркера
+    recoveryCron: process.env.DELIVERY_RECOVERY_CRON || "0 * * * * *",
+  },
+
+  scheduling: {
+    // cron с секундами: как часто проверять письма с подошедшим временем отправки
+    dispatchCron: process.env.SCHEDULED_DISPATCH_CRON || "*/30 * * * * *",
+    dispatchBatchSize: parseInt(
+      process.env.SCHEDULED_DISPATCH_BATCH_SIZE || "100",
+      10,
+    ),
+  },
+
+  migrations: {
+    dir: process.env.MIGRATIONS_DIR || "./migrations",
+    // применять ожидающие миграции при старте сервиса
+    runOnStartup: process.env.MIGRATIONS_RUN_ON_STARTUP === "true",
+  },
+
+  idempotency: {
+    // сколько хранится ответ для Idempotency-Key
+    ttl: parseInt(process.env.IDEMPOTENCY_KEY_TTL || "86400000", 10), // 24 hours
+    // сколько ключ занят обрабатываемым запросом: после сбоя процесса ключ можно занять заново
+    lockTimeout: parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT || "300000", 10), // 5 min
   },
 
+  retry: {
+    maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || "5", 10),
+    baseDelay: parseInt(process.env.RETRY_BASE_DELAY || "60000", 10), // 1 min
+    maxDelay: parseInt(process.env.RETRY_MAX_DELAY || "3600000", 10), // 1 hour
+    multiplier: parseFloat(process.env.RETRY_MULTIPLIER || "2"),
+  },
+
+  webhooks: {
+    workerEnabled: process.env.WEBHOOK_WORKER_ENABLED !== "false",
+    pollInterval: parseInt(process.env.WEBHOOK_POLL_INTERVAL || "5000", 10),
+    batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || "20", 10),
+    timeout: parseInt(process.env.WEBHOOK_TIMEOUT || "10000", 10),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10),
+    baseDelay: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY || "30000", 10), // 30 sec
+    maxDelay: parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY || "21600000", 10), // 6 hours
+    multiplier: parseFloat(process.env.WEBHOOK_RETRY_MULTIPLIER || "3"),
+    // доставка на loopback и адреса частных сетей (по умолчанию запрещена), только для разработки
+    allowPrivateNetworks: process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === "true",
+    // сколько дней хранится журнал завершенных доставок
+    retentionDays: parseInt(
+      process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || "30",
+      10,
+    ),
+  },
+
+  // outbox событий статуса писем для RABBITMQ_EVENTS_EXCHANGE
+  eventsOutbox: {
+    pollInterval: parseInt(
+      process.env.EVENTS_OUTBOX_POLL_INTERVAL || "1000",
+      10,
+    ),
+    batchSize: parseInt(process.env.EVENTS_OUTBOX_BATCH_SIZE || "100", 10),
+    lease: parseInt(process.env.EVENTS_OUTBOX_LEASE || "60000", 10),
+    baseDelay: parseInt(
+      process.env.EVENTS_OUTBOX_RETRY_BASE_DELAY || "5000",
+      10,
+    ), // 5 sec
+    maxDelay: parseInt(
+      process.env.EVENTS_OUTBOX_RETRY_MAX_DELAY || "300000",
+      10,
+    ), // 5 min
+    multiplier: parseFloat(process.env.EVENTS_OUTBOX_RETRY_MULTIPLIER || "2"),
+  },
+
+  suppression: {
+    // drop - исключать подавленных получателей, reject - отклонять отправку
+    policy: (process.env.SUPPRESSION_POLICY === "reject"
+      ? "reject"
+      : "drop") as "drop" | "reject",
+  },
+
+  bounces: {
+    // Maildir с отчетами о недоставке и жалобами, пустой - чтение ящика отключено
+    maildir: process.env.BOUNCE_MAILDIR || "",
+    maildirCron: process.env.BOUNCE_MAILDIR_CRON || "* * * * *",
+  },
+
+  templates: {
+    // адреса (user@example.com) и домены (@example.com), на которые разрешена тестовая отправка шаблонов
+    testRecipients: (process.env.TEMPLATE_TEST_RECIPIENTS || "")
+      .split(",")
+      .map((value) => value.trim().toLowerCase())
+      .filter(Boolean),
+  },
+
+  apiClients: {
+    // сколько прежние ключи клиента действуют после выпуска нового
+    rotationOverlap: parseInt(
+      process.env.API_KEY_ROTATION_OVERLAP || "86400000",
+      10,
+    ), // 24 hours
+  },
+
+  rateLimits: {
+    // postgres - счетчики общие для всех реплик, memory - в памяти процесса
+    store: (process.env.RATE_LIMIT_STORE === "memory"
+      ? "memory"
+      : "postgres") as "memory" | "postgres",
+    // лимиты клиента API по умолчанию, 0 - без ограничения
+    requestsPerMinute: parseInt(
+      process.env.RATE_LIMIT_REQUESTS_PER_MINUTE || "0",
+      10,
+    ),
+    recipientsPerHour: parseInt(
+      process.env.RATE_LIMIT_RECIPIENTS_PER_HOUR || "0",
+      10,
+    ),
+  },
+
+  // общий ключ (заголовок ssy), работает вместе с ключами клиентов из api_clients
   secretKey: process.env.SECRET_KEY || "",
+  // ключ для административных операций (заголовок ssy-admin), пустой - операции запрещены
+  adminSecretKey: process.env.ADMIN_SECRET_KEY || "",
 
   storage: {
+    // local - директория UPLOAD_DIR, s3 - S3-совместимое хранилище (общее для всех реплик)
+    driver: (process.env.STORAGE_DRIVER === "s3" ? "s3" : "local") as
+      | "local"
+      | "s3",
     uploadDir: process.env.UPLOAD_DIR || "./uploads",
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || "10485760", 10), // 10MB
+    // время жизни ссылок на вложения, сек
+    signedUrlTtl: parseInt(process.env.STORAGE_SIGNED_URL_TTL || "3600", 10),
+    // объект без ссылок моложе этого срока не удаляется (письмо с ним может еще сохраняться), сек
+    orphanGracePeriod: parseInt(
+      process.env.STORAGE_ORPHAN_GRACE_PERIOD || "3600",
+      10,
+    ),
+    // поиск и удаление объектов хранилища без ссылок из вложений
+    orphanSweepCron: process.env.STORAGE_ORPHAN_SWEEP_CRON || "0 4 * * *",
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || "https://s3.amazonaws.com",
+      region: process.env.S3_REGION || "us-east-1",
+      bucket: process.env.S3_BUCKET || "",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      prefix: process.env.S3_PREFIX || "",
+      timeout: parseInt(process.env.S3_TIMEOUT || "30000", 10),
+    },
+  },
+
+  attachments: {
+    // хосты вложений по url: "files.example.com", "*.example.com" или "*" - любой, пустой список запрещает url
+    allowedHosts: (process.env.ATTACHMENT_URL_ALLOWED_HOSTS || "")
+      .split(",")
+      .map((value) => value.trim().toLowerCase())
+      .filter(Boolean),
+    fetchTimeout: parseInt(process.env.ATTACHMENT_FETCH_TIMEOUT || "15000", 10),
+    // загрузка с loopback и адресов частных сетей (по умолчанию запрещена), только для разработки
+    fetchAllowPrivateNetworks:
+      process.env.ATTACHMENT_FETCH_ALLOW_PRIVATE_NETWORKS === "true",
+    maxRemoteSize: parseInt(
+      process.env.ATTACHMENT_FETCH_MAX_SIZE ||
+        process.env.MAX_FILE_SIZE ||
+        "10485760",
+      10,
+    ),
+    // суммарный размер вложений письма, хранящихся в сервисе, байт
+    maxTotalSize: parseInt(
+      process.env.ATTACHMENT_MAX_TOTAL_SIZE || "26214400",
+      10,
+    ), // 25MB
+    // MIME типы через запятую, "image/*" - все изображения, пустой список разрешает любой тип
+    allowedTypes: parseList(process.env.ATTACHMENT_ALLOWED_TYPES),
+    blockedTypes: parseList(
+      process.env.ATTACHMENT_BLOCKED_TYPES ??
+        "application/x-msdownload,application/x-executable",
+    ),
+    // расширения через запятую (pdf или .pdf), пустой список разрешает любое расширение
+    allowedExtensions: parseExtensions(
+      process.env.ATTACHMENT_ALLOWED_EXTENSIONS,
+    ),
+    blockedExtensions: parseExtensions(
+      process.env.ATTACHMENT_BLOCKED_EXTENSIONS ??
+        "exe,com,scr,pif,bat,cmd,msi,dll,vbs,vbe,js,jse,wsf,wsh,ps1,hta,cpl,jar,lnk",
+    ),
+    // секрет подписи ссылок на скачивание вложений, пустой - ссылки требуют ключ клиента
+    linkSecret: process.env.ATTACHMENT_LINK_SECRET || "",
+    // clamav - проверка антивирусом через clamd, none - без проверки
+    scanner: (process.env.ATTACHMENT_SCANNER === "clamav"
+      ? "clamav"
+      : "none") as "clamav" | "none",
+    clamav: {
+      socket: process.env.CLAMAV_SOCKET || "",
+      host: process.env.CLAMAV_HOST || "localhost",
+      port: parseInt(process.env.CLAMAV_PORT || "3310", 10),
+      timeout: parseInt(process.env.CLAMAV_TIMEOUT || "30000", 10),
+    },
   },
 };
@@ -1,26 +1,10 @@
 import multer from "multer";
 import { config } from "./env.ts";
-import path from "path";
-import { v4 as uuidv4 } from "uuid";
-import fs from "fs";
+import { LimitedMemoryStorage } from "../infrastructure/limited-memory-storage.ts";
 
-const uploadDir = path.resolve(config.storage.uploadDir);
-
-// create upload directory if it doesn't exist
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, uploadDir);
-  },
-  // TODO: add validation for file name
-  filename: (req, file, cb) => {
-    const uniqueName = `${uuidv4()}${path.extname(file.originalname)}`;
-    cb(null, uniqueName);
-  },
-});
+// файлы держатся в памяти до сохранения в хранилище вложений (локальный диск или S3),
+// суммарный размер файлов запроса ограничен уже при приеме
+const storage = new LimitedMemoryStorage(config.attachments.maxTotalSize);
 
 export const upload = multer({
   storage,
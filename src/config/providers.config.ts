@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { config } from "./env.ts";
+import type { DomainThrottle } from "../domain/rate-limit.ts";
+
+// Описание провайдеров отправки и правил маршрутизации.
+// EMAIL_PROVIDERS - JSON массив провайдеров, если не задан - один SMTP провайдер "default" из SMTP_*
+// EMAIL_ROUTING_RULES - JSON массив правил выбора провайдера по домену отправителя или тегу письма
+// DELIVERY_DOMAIN_THROTTLES - JSON массив ограничений скорости отправки по доменам получателей
+
+// не больше limit писем за window мс, сверх лимита отправка откладывается
+const ThrottleSchema = z.object({
+  limit: z.number().int().positive(),
+  window: z.number().int().positive(),
+});
+
+const SmtpProviderConfigSchema = z.object({
+  type: z.literal("smtp"),
+  name: z.string().min(1),
+  priority: z.number().int().default(100),
+  host: z.string().min(1),
+  port: z.number().int().positive().default(587),
+  secure: z.boolean().default(false),
+  user: z.string().optional(),
+  pass: z.string().optional(),
+  connectionTimeout: z.number().int().positive().default(30000),
+  greetingTimeout: z.number().int().positive().default(30000),
+  socketTimeout: z.number().int().positive().default(120000),
+  throttle: ThrottleSchema.optional(),
+});
+
+const HttpProviderConfigSchema = z.object({
+  type: z.literal("http"),
+  name: z.string().min(1),
+  priority: z.number().int().default(100),
+  url: z.url(),
+  apiKey: z.string().optional(),
+  timeout: z.number().int().positive().default(30000),
+  throttle: ThrottleSchema.optional(),
+});
+
+const ProviderConfigSchema = z.discriminatedUnion("type", [
+  SmtpProviderConfigSchema,
+  HttpProviderConfigSchema,
+]);
+
+const RoutingRuleSchema = z
+  .object({
+    senderDomain: z.string().min(1).toLowerCase().optional(),
+    tag: z.string().min(1).optional(),
+    // провайдеры в порядке попыток
+    providers: z.array(z.string().min(1)).min(1),
+  })
+  .refine((rule) => rule.senderDomain || rule.tag, {
+    message: "Routing rule must have senderDomain or tag",
+  });
+
+// limit - получателей домена за window мс
+const DomainThrottleSchema = ThrottleSchema.extend({
+  domain: z.string().min(1).toLowerCase(),
+});
+
+export type SmtpProviderConfig = z.infer<typeof SmtpProviderConfigSchema>;
+export type HttpProviderConfig = z.infer<typeof HttpProviderConfigSchema>;
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
+
+const parseJsonEnv = (name: string): unknown => {
+  const value = process.env[name];
+
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new Error(`${name} must be valid JSON: ${(error as Error).message}`);
+  }
+};
+
+const defaultSmtpProvider = (): SmtpProviderConfig => ({
+  type: "smtp",
+  name: "default",
+  priority: 100,
+  host: config.smtp.host,
+  port: config.smtp.port,
+  secure: config.smtp.secure,
+  user: config.smtp.auth.user,
+  pass: config.smtp.auth.pass,
+  connectionTimeout: config.smtp.connectionTimeout,
+  greetingTimeout: config.smtp.greetingTimeout,
+  socketTimeout: config.smtp.socketTimeout,
+});
+
+export function loadProvidersConfig(): {
+  providers: ProviderConfig[];
+  routingRules: RoutingRule[];
+} {
+  const providersJson = parseJsonEnv("EMAIL_PROVIDERS");
+  const rulesJson = parseJsonEnv("EMAIL_ROUTING_RULES");
+
+  const providers =
+    providersJson === undefined
+      ? [defaultSmtpProvider()]
+      : z.array(ProviderConfigSchema).min(1).parse(providersJson);
+
+  const names = new Set(providers.map((provider) => provider.name));
+
+  if (names.size !== providers.length) {
+    throw new Error("EMAIL_PROVIDERS contains duplicate provider names");
+  }
+
+  const routingRules =
+    rulesJson === undefined ? [] : z.array(RoutingRuleSchema).parse(rulesJson);
+
+  for (const rule of routingRules) {
+    const unknown = rule.providers.filter((name) => !names.has(name));
+
+    if (unknown.length > 0) {
+      throw new Error(
+        `EMAIL_ROUTING_RULES references unknown providers: ${unknown.join(", ")}`,
+      );
+    }
+  }
+
+  return { providers, routingRules };
+}
+
+export function loadDomainThrottles(): DomainThrottle[] {
+  const throttlesJson = parseJsonEnv("DELIVERY_DOMAIN_THROTTLES");
+
+  if (throttlesJson === undefined) {
+    return [];
+  }
+
+  const throttles = z.array(DomainThrottleSchema).parse(throttlesJson);
+  const domains = new Set(throttles.map((throttle) => throttle.domain));
+
+  if (domains.size !== throttles.length) {
+    throw new Error("DELIVERY_DOMAIN_THROTTLES contains duplicate domains");
+  }
+
+  return throttles;
+}
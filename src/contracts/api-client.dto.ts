@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { ApiScope } from "../domain/api-client.entity.ts";
+
+const ApiScopeSchema = z.enum(
+  Object.values(ApiScope) as [ApiScope, ...ApiScope[]],
+);
+
+// адрес отправителя или домен: "noreply@shop.example", "@shop.example", "shop.example"
+const AllowedSenderSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(
+    /^([^\s@]+@|@)?([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/,
+    "Invalid sender address or domain",
+  );
+
+// null - лимит по умолчанию из конфигурации, 0 - без ограничения
+const RateLimitsSchema = z.object({
+  requestsPerMinute: z.number().int().min(0).nullable().optional(),
+  recipientsPerHour: z.number().int().min(0).nullable().optional(),
+});
+
+export const CreateApiClientDtoSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(ApiScopeSchema).min(1),
+  allowedSenders: z.array(AllowedSenderSchema).max(100).default([]),
+  rateLimits: RateLimitsSchema.default({}).transform((limits) => ({
+    requestsPerMinute: limits.requestsPerMinute ?? null,
+    recipientsPerHour: limits.recipientsPerHour ?? null,
+  })),
+});
+
+export const UpdateApiClientDtoSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    scopes: z.array(ApiScopeSchema).min(1).optional(),
+    allowedSenders: z.array(AllowedSenderSchema).max(100).optional(),
+    rateLimits: RateLimitsSchema.optional(),
+    disabled: z.boolean().optional(),
+  })
+  .refine((dto) => Object.values(dto).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+export const RotateApiKeyDtoSchema = z.object({
+  // сколько секунд прежние ключи продолжают действовать
+  overlapSeconds: z.number().int().min(0).max(2_592_000).optional(),
+});
+
+export type CreateApiClientDto = z.infer<typeof CreateApiClientDtoSchema>;
+export type UpdateApiClientDto = z.infer<typeof UpdateApiClientDtoSchema>;
+export type RotateApiKeyDto = z.infer<typeof RotateApiKeyDtoSchema>;
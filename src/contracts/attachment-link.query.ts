@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+// ?expires=<unix time, сек>&signature=<hex HMAC-SHA256>
+export const AttachmentLinkQuerySchema = z.object({
+  expires: z.coerce.number().int().positive(),
+  signature: z.string().regex(/^[0-9a-f]{64}$/i),
+});
+
+export type AttachmentLinkQuery = z.infer<typeof AttachmentLinkQuerySchema>;
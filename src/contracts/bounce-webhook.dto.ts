@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+// Отчет в JSON (для сервисов, которые не умеют передавать письмо как message/rfc822)
+export const BounceWebhookDtoSchema = z.object({
+  message: z.string().min(1),
+});
+
+export type BounceWebhookDto = z.infer<typeof BounceWebhookDtoSchema>;
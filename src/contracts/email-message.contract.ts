@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { SendEmailDtoSchema, type AttachmentInput } from "./send-email.dto.ts";
+import { normalizeSendEmailDto } from "./normalize-dto.ts";
+
+// Контракт сообщения очереди email.send.
+// Версия указывается в поле version, сообщения без версии считаются v1
+// (так публикуют сервисы, которые отправляли письма до появления контракта).
+export const EMAIL_MESSAGE_TYPE = "email.send";
+export const EMAIL_MESSAGE_VERSIONS = [1] as const;
+
+export const EmailMessageV1Schema = SendEmailDtoSchema.safeExtend({
+  version: z.literal(1).default(1),
+  type: z.literal(EMAIL_MESSAGE_TYPE).default(EMAIL_MESSAGE_TYPE),
+  // аналог заголовка Idempotency-Key: повтор сообщения с тем же ключом не создает новое письмо
+  idempotencyKey: z.string().trim().min(1).max(255).optional(),
+});
+
+export type EmailMessageV1 = z.infer<typeof EmailMessageV1Schema>;
+
+export type NormalizedEmailMessage = ReturnType<
+  typeof normalizeSendEmailDto
+> & {
+  attachments: AttachmentInput[];
+};
+
+export interface EmailMessageReply {
+  success: boolean;
+  data: { id: string; status: string } | null;
+  error: string | null;
+}
+
+export class UnsupportedMessageVersionError extends Error {
+  constructor(version: unknown) {
+    super(`Unsupported email message version: ${String(version)}`);
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Валидирует сообщение из очереди по контракту соответствующей версии
+ */
+export function parseEmailMessage(message: unknown): EmailMessageV1 {
+  const version =
+    message && typeof message === "object" && "version" in message
+      ? (message as { version: unknown }).version
+      : 1;
+
+  if (!EMAIL_MESSAGE_VERSIONS.includes(version as 1)) {
+    throw new UnsupportedMessageVersionError(version);
+  }
+
+  return EmailMessageV1Schema.parse(message);
+}
+
+export function normalizeEmailMessage(
+  message: EmailMessageV1,
+): NormalizedEmailMessage {
+  return {
+    ...normalizeSendEmailDto(message),
+    attachments: message.attachments ?? [],
+  };
+}
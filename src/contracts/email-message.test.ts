@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeEmailMessage,
+  parseEmailMessage,
+  UnsupportedMessageVersionError,
+} from "./email-message.contract.ts";
+
+describe("parseEmailMessage", () => {
+  it("should treat message without version as v1", () => {
+    const result = parseEmailMessage({
+      to: "test@example.com",
+      subject: "Test",
+      body: "Test body",
+    });
+
+    expect(result.version).toBe(1);
+    expect(result.type).toBe("email.send");
+  });
+
+  it("should reject unsupported version", () => {
+    expect(() =>
+      parseEmailMessage({ version: 2, to: "test@example.com" }),
+    ).toThrow(UnsupportedMessageVersionError);
+  });
+
+  it("should reject invalid recipients", () => {
+    expect(() =>
+      parseEmailMessage({ version: 1, to: "not-an-email" }),
+    ).toThrow();
+  });
+
+  it("should accept url and base64 attachments", () => {
+    const result = parseEmailMessage({
+      version: 1,
+      to: "test@example.com",
+      attachments: [
+        { filename: "a.pdf", url: "https://files.example.com/a.pdf" },
+        { filename: "b.txt", contentType: "text/plain", content: "aGVsbG8=" },
+      ],
+    });
+
+    expect(result.attachments).toHaveLength(2);
+  });
+
+  it("should reject attachment without url or content", () => {
+    expect(() =>
+      parseEmailMessage({
+        to: "test@example.com",
+        attachments: [{ filename: "a.pdf" }],
+      }),
+    ).toThrow();
+  });
+
+  it("should reject non http attachment url", () => {
+    expect(() =>
+      parseEmailMessage({
+        to: "test@example.com",
+        attachments: [{ filename: "a.pdf", url: "file:///etc/passwd" }],
+      }),
+    ).toThrow();
+  });
+
+  it("should accept template with variables", () => {
+    const result = parseEmailMessage({
+      to: "test@example.com",
+      templateId: "5f0c7a52-3b1e-4d8a-9a57-0f3c9d2b6e11",
+      variables: { name: "Ann" },
+    });
+
+    expect(result.templateId).toBe("5f0c7a52-3b1e-4d8a-9a57-0f3c9d2b6e11");
+    expect(result.variables).toEqual({ name: "Ann" });
+  });
+
+  it("should reject template combined with raw content", () => {
+    expect(() =>
+      parseEmailMessage({
+        to: "test@example.com",
+        templateId: "5f0c7a52-3b1e-4d8a-9a57-0f3c9d2b6e11",
+        subject: "Raw subject",
+      }),
+    ).toThrow();
+  });
+
+  it("should reject invalid base64 content", () => {
+    expect(() =>
+      parseEmailMessage({
+        to: "test@example.com",
+        attachments: [{ filename: "a.txt", content: "not base64!" }],
+      }),
+    ).toThrow();
+  });
+});
+
+describe("normalizeEmailMessage", () => {
+  it("should normalize fields and keep attachments", () => {
+    const message = parseEmailMessage({
+      to: "a@example.com;b@example.com",
+      title: "Title",
+      message: "Message",
+      attachments: [
+        { filename: "a.pdf", url: "https://files.example.com/a.pdf" },
+      ],
+    });
+
+    const result = normalizeEmailMessage(message);
+
+    expect(result.to).toEqual(["a@example.com", "b@example.com"]);
+    expect(result.subject).toBe("Title");
+    expect(result.body).toBe("Message");
+    expect(result.attachments).toEqual([
+      { filename: "a.pdf", url: "https://files.example.com/a.pdf" },
+    ]);
+  });
+
+  it("should return empty attachments when not provided", () => {
+    const result = normalizeEmailMessage(
+      parseEmailMessage({ to: "test@example.com" }),
+    );
+
+    expect(result.attachments).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { EmailEventType, type EmailEvent } from "../domain/email-event.ts";
+import { EmailStatus } from "../domain/types.ts";
+
+// Контракт событий статуса письма в exchange событий (topic).
+// Routing key: email.status.<событие>, например email.status.sent, email.status.failed.
+// Несовместимые изменения выпускаются новой версией, version есть в теле и в заголовке x-schema-version
+export const EMAIL_STATUS_EVENT_VERSION = 1;
+export const EMAIL_STATUS_ROUTING_KEY_PREFIX = "email.status.";
+
+const IsoDateSchema = z.iso.datetime();
+
+export const EmailStatusEventV1Schema = z.object({
+  version: z.literal(EMAIL_STATUS_EVENT_VERSION),
+  // уникален для события, по нему подписчик отбрасывает повторные доставки
+  id: z.uuid(),
+  type: z.enum(
+    Object.values(EmailEventType) as [EmailEventType, ...EmailEventType[]],
+  ),
+  occurredAt: IsoDateSchema,
+  email: z.object({
+    id: z.string(),
+    apiClientId: z.string().nullable(),
+    status: z.enum(
+      Object.values(EmailStatus) as [EmailStatus, ...EmailStatus[]],
+    ),
+    from: z.string(),
+    to: z.array(z.string()),
+    cc: z.array(z.string()),
+    bcc: z.array(z.string()),
+    subject: z.string(),
+    tag: z.string().nullable(),
+    templateId: z.string().nullable(),
+    provider: z.string().nullable(),
+    messageId: z.string().nullable(),
+    error: z.string().nullable(),
+    diagnosticCode: z.string().nullable(),
+    attemptsCount: z.number().int(),
+    nextAttemptAt: IsoDateSchema.nullable(),
+    scheduledAt: IsoDateSchema.nullable(),
+    sentAt: IsoDateSchema.nullable(),
+    deletedAt: IsoDateSchema.nullable(),
+  }),
+});
+
+export type EmailStatusEventV1 = z.infer<typeof EmailStatusEventV1Schema>;
+
+// email.sent -> email.status.sent
+export function toEmailStatusRoutingKey(type: EmailEventType): string {
+  return `${EMAIL_STATUS_ROUTING_KEY_PREFIX}${type.slice(type.indexOf(".") + 1)}`;
+}
+
+export function toEmailStatusEventMessage(
+  event: EmailEvent,
+): EmailStatusEventV1 {
+  const toIso = (date: Date | null) => date?.toISOString() ?? null;
+
+  return {
+    version: EMAIL_STATUS_EVENT_VERSION,
+    id: event.id,
+    type: event.type,
+    occurredAt: event.occurredAt.toISOString(),
+    email: {
+      ...event.email,
+      nextAttemptAt: toIso(event.email.nextAttemptAt),
+      scheduledAt: toIso(event.email.scheduledAt),
+      sentAt: toIso(event.email.sentAt),
+      deletedAt: toIso(event.email.deletedAt),
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { EmailEventType, type EmailEvent } from "../domain/email-event.ts";
+import { EmailStatus } from "../domain/types.ts";
+import {
+  EmailStatusEventV1Schema,
+  toEmailStatusEventMessage,
+  toEmailStatusRoutingKey,
+} from "./email-status-event.contract.ts";
+
+const event: EmailEvent = {
+  id: "0b7f6d1c-4c1a-4d8e-9a53-2d2c1f0f7a11",
+  type: EmailEventType.FAILED,
+  occurredAt: new Date("2024-01-01T12:00:00.000Z"),
+  email: {
+    id: "email-1",
+    apiClientId: null,
+    status: EmailStatus.DEAD_LETTER,
+    from: "noreply@shop.example",
+    to: ["user@example.com"],
+    cc: [],
+    bcc: [],
+    subject: "Hello",
+    tag: null,
+    templateId: null,
+    provider: "primary",
+    messageId: null,
+    error: "Mailbox unavailable",
+    diagnosticCode: null,
+    attemptsCount: 5,
+    nextAttemptAt: null,
+    scheduledAt: null,
+    sentAt: null,
+    deletedAt: null,
+  },
+};
+
+describe("email status event contract", () => {
+  it("should build routing keys from event types", () => {
+    expect(toEmailStatusRoutingKey(EmailEventType.SENT)).toBe(
+      "email.status.sent",
+    );
+    expect(toEmailStatusRoutingKey(EmailEventType.FAILED)).toBe(
+      "email.status.failed",
+    );
+  });
+
+  it("should produce a message valid against the v1 schema", () => {
+    const message = toEmailStatusEventMessage(event);
+
+    expect(message).toMatchObject({
+      version: 1,
+      id: event.id,
+      type: "email.failed",
+      occurredAt: "2024-01-01T12:00:00.000Z",
+      email: { status: "DEAD_LETTER", attemptsCount: 5 },
+    });
+    expect(
+      EmailStatusEventV1Schema.parse(JSON.parse(JSON.stringify(message))),
+    ).toEqual(message);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { ListEmailsQuerySchema } from "./list-emails.query.ts";
+
+describe("ListEmailsQuerySchema", () => {
+  it("should apply defaults", () => {
+    const result = ListEmailsQuerySchema.parse({});
+
+    expect(result).toEqual({
+      deleted: "exclude",
+      page: 1,
+      limit: 20,
+      sortBy: "createdAt",
+      sortOrder: "desc",
+    });
+  });
+
+  it("should parse comma separated statuses", () => {
+    const result = ListEmailsQuerySchema.parse({ status: "SENT,FAILED" });
+    expect(result.status).toEqual(["SENT", "FAILED"]);
+  });
+
+  it("should accept repeated status params", () => {
+    const result = ListEmailsQuerySchema.parse({ status: ["SENT", "QUEUED"] });
+    expect(result.status).toEqual(["SENT", "QUEUED"]);
+  });
+
+  it("should reject unknown status", () => {
+    expect(() => ListEmailsQuerySchema.parse({ status: "LOST" })).toThrow();
+  });
+
+  it("should coerce pagination and dates", () => {
+    const result = ListEmailsQuerySchema.parse({
+      page: "3",
+      limit: "50",
+      createdFrom: "2026-01-01T00:00:00Z",
+    });
+
+    expect(result.page).toBe(3);
+    expect(result.limit).toBe(50);
+    expect(result.createdFrom).toEqual(new Date("2026-01-01T00:00:00Z"));
+  });
+
+  it("should limit page size", () => {
+    expect(() => ListEmailsQuerySchema.parse({ limit: "1000" })).toThrow();
+  });
+
+  it("should reject inverted date range", () => {
+    expect(() =>
+      ListEmailsQuerySchema.parse({
+        sentFrom: "2026-02-01",
+        sentTo: "2026-01-01",
+      }),
+    ).toThrow();
+  });
+
+  it("should reject unknown sort field", () => {
+    expect(() => ListEmailsQuerySchema.parse({ sortBy: "body" })).toThrow();
+  });
+});
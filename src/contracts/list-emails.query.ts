@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { EmailStatus } from "../domain/types.ts";
+
+// status=SENT,FAILED или status=SENT&status=FAILED
+const commaSeparated = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((val) => {
+    if (typeof val === "string") {
+      return val
+        .split(",")
+        .map((v) => v.trim())
+        .filter(Boolean);
+    }
+    return val;
+  }, z.array(schema));
+
+export const ListEmailsQuerySchema = z
+  .object({
+    status: commaSeparated(
+      z.enum(Object.values(EmailStatus) as [EmailStatus, ...EmailStatus[]]),
+    ).optional(),
+    recipient: z.string().trim().min(1).optional(),
+    from: z.string().trim().min(1).optional(),
+    subject: z.string().trim().min(1).optional(),
+
+    createdFrom: z.coerce.date().optional(),
+    createdTo: z.coerce.date().optional(),
+    sentFrom: z.coerce.date().optional(),
+    sentTo: z.coerce.date().optional(),
+
+    deleted: z.enum(["exclude", "include", "only"]).default("exclude"),
+
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+
+    sortBy: z
+      .enum(["createdAt", "updatedAt", "sentAt", "status", "subject"])
+      .default("createdAt"),
+    sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  })
+  .refine(
+    (query) =>
+      !query.createdFrom ||
+      !query.createdTo ||
+      query.createdFrom <= query.createdTo,
+    { message: "createdFrom must be before createdTo", path: ["createdFrom"] },
+  )
+  .refine(
+    (query) =>
+      !query.sentFrom || !query.sentTo || query.sentFrom <= query.sentTo,
+    { message: "sentFrom must be before sentTo", path: ["sentFrom"] },
+  );
+
+export type ListEmailsQuery = z.infer<typeof ListEmailsQuerySchema>;
@@ -364,3 +364,26 @@ describe("complex scenarios", () => {
     expect(result.body).toBe("Test Message");
   });
 });
+
+describe("scheduled delivery normalization", () => {
+  it("should resolve local sendAt in timezone to UTC", () => {
+    const result = normalizeSendEmailDto({
+      to: "test@example.com",
+      sendAt: "2026-10-20T09:00",
+      timezone: "Europe/Moscow",
+    });
+
+    expect(result.sendAt).toEqual(new Date("2026-10-20T06:00:00Z"));
+    expect(result.timezone).toBe("Europe/Moscow");
+  });
+
+  it("should keep sendAt with explicit offset", () => {
+    const result = normalizeSendEmailDto({
+      to: "test@example.com",
+      sendAt: "2026-10-20T09:00:00Z",
+    });
+
+    expect(result.sendAt).toEqual(new Date("2026-10-20T09:00:00Z"));
+    expect(result.timezone).toBeUndefined();
+  });
+});
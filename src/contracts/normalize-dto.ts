@@ -1,4 +1,5 @@
 import type { SendEmailDto } from "./send-email.dto.ts";
+import { resolveDateTime } from "../libs/timezone.ts";
 
 export function normalizeSendEmailDto(dto: SendEmailDto): {
   to: string[];
@@ -9,6 +10,11 @@ export function normalizeSendEmailDto(dto: SendEmailDto): {
   subject: string;
   body: string;
   html?: string;
+  templateId?: string;
+  variables?: Record<string, unknown>;
+  tag?: string;
+  sendAt?: Date;
+  timezone?: string;
 } {
   const toValue = [];
   if (Array.isArray(dto.to)) {
@@ -45,5 +51,12 @@ export function normalizeSendEmailDto(dto: SendEmailDto): {
     body: dto.body ?? dto.message ?? "",
 
     html: dto.html,
+
+    templateId: dto.templateId,
+    variables: dto.variables,
+    tag: dto.tag,
+
+    sendAt: dto.sendAt ? resolveDateTime(dto.sendAt, dto.timezone) : undefined,
+    timezone: dto.timezone,
   };
 }
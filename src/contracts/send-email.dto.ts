@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../libs/timezone.ts";
 
 const emailOrEmailsString = z.union([
   z.email(),
@@ -20,26 +21,115 @@ const emailOrEmailsString = z.union([
   ),
 ]);
 
-export const SendEmailDtoSchema = z.object({
-  to: emailOrEmailsString,
-  fromDisplayName: z.string().optional(),
+// в multipart/form-data переменные шаблона приходят JSON строкой
+const templateVariables = z.preprocess(
+  (val) => {
+    if (typeof val !== "string") {
+      return val;
+    }
+    try {
+      return JSON.parse(val);
+    } catch {
+      return val;
+    }
+  },
+  z.record(z.string(), z.unknown()),
+);
 
-  // fromEmail and from are the same
-  fromEmail: z.email().optional(),
-  from: z.email().optional(),
+// ISO время отправки, со смещением (2026-10-20T09:00:00+03:00)
+// или локальное (2026-10-20T09:00) - тогда в часовом поясе timezone (по умолчанию UTC)
+const sendAt = z.iso.datetime({ offset: true, local: true });
+const timezone = z
+  .string()
+  .refine(isValidTimeZone, { message: "Invalid IANA timezone" });
 
-  // subject and title are the same
-  subject: z.string().min(1).optional(),
-  title: z.string().min(1).optional(),
+const UrlAttachmentSchema = z.object({
+  filename: z.string().min(1),
+  contentType: z.string().min(1).optional(),
+  url: z.url({ protocol: /^https?$/ }),
+});
+
+const ContentAttachmentSchema = z.object({
+  filename: z.string().min(1),
+  contentType: z.string().min(1).optional(),
+  // base64 encoded file content
+  content: z.base64(),
+});
 
-  // body and message are the same
-  body: z.string().min(1).optional(),
-  message: z.string().min(1).optional(),
+// вложение в JSON запросе: по url (загружается при отправке) или base64 содержимым
+export const AttachmentInputSchema = z.union([
+  UrlAttachmentSchema,
+  ContentAttachmentSchema,
+]);
 
-  html: z.string().optional(),
+export type AttachmentInput = z.infer<typeof AttachmentInputSchema>;
 
-  cc: emailOrEmailsString.optional(),
-  bcc: emailOrEmailsString.optional(),
-});
+export const SendEmailDtoSchema = z
+  .object({
+    to: emailOrEmailsString,
+    fromDisplayName: z.string().optional(),
+
+    // fromEmail and from are the same
+    fromEmail: z.email().optional(),
+    from: z.email().optional(),
+
+    // subject and title are the same
+    subject: z.string().min(1).optional(),
+    title: z.string().min(1).optional(),
+
+    // body and message are the same
+    body: z.string().min(1).optional(),
+    message: z.string().min(1).optional(),
+
+    html: z.string().optional(),
+
+    cc: emailOrEmailsString.optional(),
+    bcc: emailOrEmailsString.optional(),
+
+    // тег письма, используется правилами маршрутизации провайдеров
+    tag: z.string().min(1).max(100).optional(),
+
+    // вместо subject/body/html можно передать шаблон и значения его переменных
+    templateId: z.uuid().optional(),
+    variables: templateVariables.optional(),
+
+    // отложенная отправка
+    sendAt: sendAt.optional(),
+    timezone: timezone.optional(),
+
+    // только в JSON запросе, в multipart/form-data файлы передаются в поле files
+    attachments: z.array(AttachmentInputSchema).max(30).optional(),
+  })
+  .refine(
+    // содержимое письма задается либо шаблоном, либо напрямую
+    (dto) =>
+      !dto.templateId ||
+      (dto.subject === undefined &&
+        dto.title === undefined &&
+        dto.body === undefined &&
+        dto.message === undefined &&
+        dto.html === undefined),
+    {
+      message:
+        "templateId cannot be combined with subject/title, body/message or html",
+      path: ["templateId"],
+    },
+  )
+  .refine((dto) => !dto.timezone || dto.sendAt, {
+    message: "timezone requires sendAt",
+    path: ["timezone"],
+  });
 
 export type SendEmailDto = z.infer<typeof SendEmailDtoSchema>;
+
+export const RescheduleEmailDtoSchema = z.object({
+  sendAt,
+  timezone: timezone.optional(),
+});
+
+export type RescheduleEmailDto = z.infer<typeof RescheduleEmailDtoSchema>;
+
+// sync - отправка в рамках запроса, async - письмо ставится в очередь (202 Accepted)
+export const SendModeSchema = z.enum(["sync", "async"]);
+
+export type SendMode = z.infer<typeof SendModeSchema>;
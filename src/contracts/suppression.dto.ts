@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { SuppressionReason } from "../domain/suppression.entity.ts";
+
+const SuppressionReasonSchema = z.enum(
+  Object.values(SuppressionReason) as [
+    SuppressionReason,
+    ...SuppressionReason[],
+  ],
+);
+
+const DomainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((domain) => domain.replace(/^@/, ""))
+  .pipe(
+    z
+      .string()
+      .regex(
+        /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/,
+        "Invalid domain",
+      ),
+  );
+
+// передается либо address, либо domain (все адреса домена)
+export const CreateSuppressionDtoSchema = z
+  .object({
+    address: z.email().toLowerCase().optional(),
+    domain: DomainSchema.optional(),
+    reason: SuppressionReasonSchema.default(SuppressionReason.MANUAL),
+    expiresAt: z.coerce.date().nullable().optional(),
+  })
+  .refine((dto) => Boolean(dto.address) !== Boolean(dto.domain), {
+    message: "Exactly one of address or domain is required",
+    path: ["address"],
+  });
+
+export const UpdateSuppressionDtoSchema = z
+  .object({
+    reason: SuppressionReasonSchema.optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+  })
+  .refine((dto) => dto.reason !== undefined || dto.expiresAt !== undefined, {
+    message: "Nothing to update",
+  });
+
+export const ListSuppressionsQuerySchema = z.object({
+  type: z.enum(["address", "domain"]).optional(),
+  reason: SuppressionReasonSchema.optional(),
+  search: z.string().trim().min(1).optional(),
+  includeExpired: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type CreateSuppressionDto = z.infer<typeof CreateSuppressionDtoSchema>;
+export type UpdateSuppressionDto = z.infer<typeof UpdateSuppressionDtoSchema>;
+export type ListSuppressionsQuery = z.infer<typeof ListSuppressionsQuerySchema>;
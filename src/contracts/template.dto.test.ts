@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  CreateTemplateDtoSchema,
+  PreviewTemplateDtoSchema,
+  TestSendTemplateDtoSchema,
+} from "./template.dto.ts";
+
+const templateId = "5f0c7a52-3b1e-4d8a-9a57-0f3c9d2b6e11";
+
+describe("CreateTemplateDtoSchema", () => {
+  it("should apply variable defaults", () => {
+    const result = CreateTemplateDtoSchema.parse({
+      name: "welcome",
+      subject: "Hi {{name}}",
+      body: "Welcome, {{name}}",
+      variables: [{ name: "name" }],
+    });
+
+    expect(result.variables).toEqual([
+      {
+        name: "name",
+        type: "string",
+        required: true,
+        description: null,
+        defaultValue: null,
+      },
+    ]);
+  });
+
+  it("should reject duplicate variable names", () => {
+    expect(() =>
+      CreateTemplateDtoSchema.parse({
+        name: "welcome",
+        subject: "Hi",
+        body: "Welcome",
+        variables: [{ name: "name" }, { name: "name" }],
+      }),
+    ).toThrow();
+  });
+});
+
+describe("PreviewTemplateDtoSchema", () => {
+  it("should accept stored template with version", () => {
+    const result = PreviewTemplateDtoSchema.parse({
+      templateId,
+      version: 2,
+      variables: { name: "Ann" },
+    });
+
+    expect(result.version).toBe(2);
+  });
+
+  it("should accept inline template", () => {
+    const result = PreviewTemplateDtoSchema.parse({
+      template: { subject: "Hi", body: "Body" },
+    });
+
+    expect(result.variables).toEqual({});
+    expect(result.template?.variables).toEqual([]);
+  });
+
+  it("should require exactly one template source", () => {
+    expect(() => PreviewTemplateDtoSchema.parse({})).toThrow();
+    expect(() =>
+      PreviewTemplateDtoSchema.parse({
+        templateId,
+        template: { subject: "Hi", body: "Body" },
+      }),
+    ).toThrow();
+  });
+
+  it("should reject version for inline template", () => {
+    expect(() =>
+      PreviewTemplateDtoSchema.parse({
+        version: 1,
+        template: { subject: "Hi", body: "Body" },
+      }),
+    ).toThrow();
+  });
+});
+
+describe("TestSendTemplateDtoSchema", () => {
+  it("should require recipients", () => {
+    expect(() => TestSendTemplateDtoSchema.parse({ templateId })).toThrow();
+  });
+
+  it("should accept single recipient", () => {
+    const result = TestSendTemplateDtoSchema.parse({
+      templateId,
+      to: "qa@example.com",
+    });
+
+    expect(result.to).toBe("qa@example.com");
+  });
+});
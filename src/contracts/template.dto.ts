@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { TemplateVariableType } from "../domain/template.entity.ts";
+
+export const TemplateVariableSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[\w.-]+$/, "Variable name may contain letters, digits, _ . -"),
+  type: z.enum(Object.values(TemplateVariableType)).default("string"),
+  required: z.boolean().default(true),
+  description: z.string().nullable().default(null),
+  defaultValue: z
+    .union([z.string(), z.number(), z.boolean()])
+    .nullable()
+    .default(null),
+});
+
+export const TemplateContentSchema = z.object({
+  subject: z.string().min(1),
+  body: z.string().min(1),
+  html: z.string().nullable().optional(),
+  variables: z
+    .array(TemplateVariableSchema)
+    .default([])
+    .refine(
+      (variables) =>
+        new Set(variables.map((v) => v.name)).size === variables.length,
+      { message: "Variable names must be unique" },
+    ),
+});
+
+export const CreateTemplateDtoSchema = TemplateContentSchema.extend({
+  name: z.string().min(1).max(255),
+  description: z.string().nullable().optional(),
+});
+
+export const UpdateTemplateDtoSchema = z
+  .object({
+    name: z.string().min(1).max(255).optional(),
+    description: z.string().nullable().optional(),
+  })
+  .refine((dto) => dto.name !== undefined || dto.description !== undefined, {
+    message: "Nothing to update",
+  });
+
+export const CreateTemplateVersionDtoSchema = TemplateContentSchema.extend({
+  // сделать новую версию активной сразу
+  activate: z.boolean().default(true),
+});
+
+export const TemplateVersionParamSchema = z.coerce.number().int().positive();
+
+export type CreateTemplateDto = z.infer<typeof CreateTemplateDtoSchema>;
+export type UpdateTemplateDto = z.infer<typeof UpdateTemplateDtoSchema>;
+export type CreateTemplateVersionDto = z.infer<
+  typeof CreateTemplateVersionDtoSchema
+>;
+
+// предпросмотр: сохраненный шаблон (templateId + необязательная version) или шаблон в запросе (template)
+export const PreviewTemplateDtoSchema = z
+  .object({
+    templateId: z.uuid().optional(),
+    version: z.number().int().positive().optional(),
+    template: TemplateContentSchema.optional(),
+    variables: z.record(z.string(), z.unknown()).default({}),
+  })
+  .refine((dto) => Boolean(dto.templateId) !== Boolean(dto.template), {
+    message: "Either templateId or template must be provided",
+    path: ["templateId"],
+  })
+  .refine((dto) => dto.version === undefined || dto.templateId, {
+    message: "version can only be used with templateId",
+    path: ["version"],
+  });
+
+export const TestSendTemplateDtoSchema = PreviewTemplateDtoSchema.safeExtend({
+  to: z.union([z.email(), z.array(z.email()).min(1).max(10)]),
+});
+
+export type PreviewTemplateDto = z.infer<typeof PreviewTemplateDtoSchema>;
+export type TestSendTemplateDto = z.infer<typeof TestSendTemplateDtoSchema>;
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { EmailEventType } from "../domain/email-event.ts";
+import { WebhookDeliveryStatus } from "../domain/webhook.entity.ts";
+
+const EmailEventTypeSchema = z.enum(
+  Object.values(EmailEventType) as [EmailEventType, ...EmailEventType[]],
+);
+
+const WebhookUrlSchema = z.url({ protocol: /^https?$/ }).max(2048);
+
+const EventsSchema = z
+  .array(EmailEventTypeSchema)
+  .min(1)
+  .transform((events) => [...new Set(events)]);
+
+export const CreateWebhookDtoSchema = z.object({
+  url: WebhookUrlSchema,
+  events: EventsSchema,
+});
+
+export const UpdateWebhookDtoSchema = z
+  .object({
+    url: WebhookUrlSchema.optional(),
+    events: EventsSchema.optional(),
+    disabled: z.boolean().optional(),
+  })
+  .refine((dto) => Object.values(dto).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+export const ListWebhookDeliveriesQuerySchema = z.object({
+  status: z
+    .enum(
+      Object.values(WebhookDeliveryStatus) as [
+        WebhookDeliveryStatus,
+        ...WebhookDeliveryStatus[],
+      ],
+    )
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// без deliveryIds повторяются все доставки в статусе FAILED
+export const ReplayWebhookDeliveriesDtoSchema = z.object({
+  deliveryIds: z.array(z.uuid()).min(1).max(1000).optional(),
+});
+
+export type CreateWebhookDto = z.infer<typeof CreateWebhookDtoSchema>;
+export type UpdateWebhookDto = z.infer<typeof UpdateWebhookDtoSchema>;
+export type ListWebhookDeliveriesQuery = z.infer<
+  typeof ListWebhookDeliveriesQuerySchema
+>;
+export type ReplayWebhookDeliveriesDto = z.infer<
+  typeof ReplayWebhookDeliveriesDtoSchema
+>;
@@ -0,0 +1,47 @@
+import type { ClientRateLimits } from "./rate-limit.ts";
+
+export const ApiScope = {
+  // отправка писем, создание и изменение шаблонов
+  SEND: "send",
+  // просмотр писем и шаблонов
+  READ: "read",
+  // удаление писем и шаблонов, отмена отложенной отправки
+  DELETE: "delete",
+  // управление клиентами, списком подавления, полное удаление; включает остальные права
+  ADMIN: "admin",
+} as const;
+
+export type ApiScope = (typeof ApiScope)[keyof typeof ApiScope];
+
+export interface ApiClientEntity {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  // адреса ("noreply@shop.example") и домены ("@shop.example"), пустой список - любой отправитель
+  allowedSenders: string[];
+  rateLimits: ClientRateLimits;
+  disabledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ApiKeyEntity {
+  id: string;
+  clientId: string;
+  // начало ключа для отображения, сам ключ хранится только в виде hash
+  prefix: string;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// клиент, от имени которого выполняется запрос.
+// id = null - общий ключ SECRET_KEY (без записи в api_clients)
+export interface AuthenticatedClient {
+  id: string | null;
+  name: string;
+  scopes: ApiScope[];
+  allowedSenders: string[];
+  rateLimits: ClientRateLimits;
+}
@@ -5,7 +5,8 @@ export interface AttachmentEntity {
   originalName: string;
   mimetype: string;
   size: number;
-  path: string;
+  // ключ объекта в хранилище, null - вложение по url
+  storageKey: string | null;
   url: string | null;
   createdAt: Date;
 }
@@ -0,0 +1,11 @@
+export interface AuditLogEntity {
+  id: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  // кто выполнил действие (api-key, admin-key, system:cleanup, ...)
+  actor: string;
+  ip: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: Date;
+}
@@ -0,0 +1,25 @@
+// Отчеты, приходящие после того, как SMTP сервер принял письмо:
+// bounce - уведомление о статусе доставки (DSN, RFC 3464)
+// complaint - жалоба получателя (ARF, RFC 5965)
+export type DeliveryReportType = "bounce" | "complaint";
+
+export interface DeliveryReportRecipient {
+  address: string;
+  // failed | delayed | delivered | relayed | expanded
+  action: string | null;
+  // расширенный статус, например 5.1.1
+  status: string | null;
+  // например "smtp; 550 5.1.1 User unknown"
+  diagnosticCode: string | null;
+  // 5.x.x - постоянная ошибка (hard bounce)
+  permanent: boolean;
+}
+
+export interface DeliveryReport {
+  type: DeliveryReportType;
+  // Message-ID исходного письма без угловых скобок
+  originalMessageId: string | null;
+  recipients: DeliveryReportRecipient[];
+  // тип жалобы для ARF (abuse, fraud, virus, ...)
+  feedbackType: string | null;
+}
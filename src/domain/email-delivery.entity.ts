@@ -0,0 +1,41 @@
+import type { EmailEntity } from "./email.entity.ts";
+
+// состояние аренды (lease) письма воркером в таблице "email_deliveries"
+export const DeliveryState = {
+  // письмо забрано воркером (email PENDING), провайдер еще не вызывался
+  CLAIMED: "CLAIMED",
+  // вызван провайдер, результат еще не записан
+  SENDING: "SENDING",
+  // результат попытки записан в письмо
+  COMPLETED: "COMPLETED",
+  // аренда закрыта без отправки (истекла или отправка отложена ограничением скорости),
+  // письмо возвращено в очередь
+  RELEASED: "RELEASED",
+  // аренда истекла во время отправки, результат неизвестен - повтора не будет
+  INTERRUPTED: "INTERRUPTED",
+} as const;
+
+export type DeliveryState = (typeof DeliveryState)[keyof typeof DeliveryState];
+
+export interface EmailDeliveryEntity {
+  id: string;
+  emailId: string;
+  // номер попытки отправки письма
+  attempt: number;
+  state: DeliveryState;
+  workerId: string;
+  leaseExpiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DeliveryLease {
+  workerId: string;
+  // длительность аренды, мс. Должна быть больше таймаута отправки провайдером
+  duration: number;
+}
+
+export interface ClaimedEmail {
+  email: EmailEntity;
+  delivery: EmailDeliveryEntity;
+}
@@ -0,0 +1,67 @@
+import type { EmailStatus } from "./types.ts";
+
+export const EmailEventType = {
+  // письмо принято на асинхронную отправку или время отложенного письма подошло
+  QUEUED: "email.queued",
+  SCHEDULED: "email.scheduled",
+  CANCELLED: "email.cancelled",
+  SENT: "email.sent",
+  // попытка отправки не удалась: FAILED - будет повтор, DEAD_LETTER - повторов не будет
+  FAILED: "email.failed",
+  BOUNCED: "email.bounced",
+  COMPLAINED: "email.complained",
+  DELETED: "email.deleted",
+} as const;
+
+export type EmailEventType =
+  (typeof EmailEventType)[keyof typeof EmailEventType];
+
+// состояние письма в момент события, без тела и вложений
+export interface EmailEventData {
+  id: string;
+  apiClientId: string | null;
+  status: EmailStatus;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  tag: string | null;
+  templateId: string | null;
+  provider: string | null;
+  messageId: string | null;
+  error: string | null;
+  diagnosticCode: string | null;
+  attemptsCount: number;
+  nextAttemptAt: Date | null;
+  scheduledAt: Date | null;
+  sentAt: Date | null;
+  deletedAt: Date | null;
+}
+
+export interface EmailEvent {
+  // уникален для события, по нему подписчик отбрасывает повторные доставки
+  id: string;
+  type: EmailEventType;
+  occurredAt: Date;
+  email: EmailEventData;
+}
+
+// получатели событий из outbox: журнал доставок вебхуков и exchange событий в брокере
+export const EmailEventDestination = {
+  WEBHOOKS: "webhooks",
+  BROKER: "broker",
+} as const;
+
+export type EmailEventDestination =
+  (typeof EmailEventDestination)[keyof typeof EmailEventDestination];
+
+// событие в outbox, ожидающее передачи получателю
+export interface PendingEmailEvent {
+  // порядковый номер записи в outbox
+  id: string;
+  destination: EmailEventDestination;
+  event: EmailEvent;
+  // неудачных попыток передачи
+  attemptCount: number;
+}
@@ -1,5 +1,5 @@
 import type { AttachmentEntity } from "./attachment.entity.ts";
-import type { EmailStatus } from "./types.ts";
+import type { EmailAttempt, EmailStatus } from "./types.ts";
 
 export interface EmailEntity {
   id: string;
@@ -12,8 +12,32 @@ export interface EmailEntity {
   cc: string[];
   bcc: string[];
   html: string | null;
+  // шаблон и его версия, из которых было сформировано письмо
+  templateId: string | null;
+  templateVersion: number | null;
+  // тег для маршрутизации по провайдерам
+  tag: string | null;
+  // клиент API, создавший письмо (null - общий ключ или очередь)
+  apiClientId: string | null;
   attachments: AttachmentEntity[];
   error: string | null;
+  // провайдер, отправивший письмо, и выданный им Message-ID
+  provider: string | null;
+  messageId: string | null;
+  // результат последней попытки отправки
+  acceptedRecipients: string[];
+  rejectedRecipients: string[];
+  smtpResponse: string | null;
+  sendDurationMs: number | null;
+  // код из отчета о недоставке / тип жалобы (для BOUNCED / COMPLAINED)
+  diagnosticCode: string | null;
+  // получатели, исключенные по списку подавления (политика drop)
+  suppressedRecipients: string[];
+  attempts: EmailAttempt[];
+  nextAttemptAt: Date | null;
+  // отложенная отправка: момент отправки (UTC) и часовой пояс, в котором он был задан
+  scheduledAt: Date | null;
+  timezone: string | null;
   sentAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
@@ -0,0 +1,10 @@
+export interface IdempotencyKeyEntity {
+  key: string;
+  // sha256 от содержимого запроса, повтор с тем же ключом должен совпадать
+  requestHash: string;
+  // null - запрос еще обрабатывается
+  responseStatus: number | null;
+  responseBody: unknown;
+  createdAt: Date;
+  expiresAt: Date;
+}
@@ -0,0 +1,16 @@
+// не больше limit единиц (запросов, получателей, писем) за окно window мс
+export interface RateLimitRule {
+  limit: number;
+  window: number;
+}
+
+// ограничение скорости отправки на домен получателей (gmail.com, mail.ru, ...)
+export interface DomainThrottle extends RateLimitRule {
+  domain: string;
+}
+
+// лимиты клиента API: null - значение по умолчанию из конфигурации, 0 - без ограничения
+export interface ClientRateLimits {
+  requestsPerMinute: number | null;
+  recipientsPerHour: number | null;
+}
@@ -0,0 +1,28 @@
+export const SuppressionReason = {
+  // постоянная ошибка доставки (DSN 5.x.x)
+  HARD_BOUNCE: "HARD_BOUNCE",
+  // жалоба получателя (ARF)
+  COMPLAINT: "COMPLAINT",
+  UNSUBSCRIBE: "UNSUBSCRIBE",
+  MANUAL: "MANUAL",
+} as const;
+
+export type SuppressionReason =
+  (typeof SuppressionReason)[keyof typeof SuppressionReason];
+
+// address - конкретный адрес, domain - все адреса домена
+export type SuppressionType = "address" | "domain";
+
+export interface SuppressionEntity {
+  id: string;
+  type: SuppressionType;
+  // адрес или домен в нижнем регистре
+  value: string;
+  reason: SuppressionReason;
+  // откуда добавлена запись: bounce, complaint, import, admin-key, ...
+  source: string;
+  // null - бессрочно
+  expiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,39 @@
+export const TemplateVariableType = {
+  STRING: "string",
+  NUMBER: "number",
+  BOOLEAN: "boolean",
+  DATE: "date",
+} as const;
+
+export type TemplateVariableType =
+  (typeof TemplateVariableType)[keyof typeof TemplateVariableType];
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  required: boolean;
+  description: string | null;
+  // используется, если необязательная переменная не передана
+  defaultValue: string | number | boolean | null;
+}
+
+export interface TemplateVersionEntity {
+  id: string;
+  templateId: string;
+  version: number;
+  subject: string;
+  body: string;
+  html: string | null;
+  variables: TemplateVariable[];
+  createdAt: Date;
+}
+
+export interface TemplateEntity {
+  id: string;
+  name: string;
+  description: string | null;
+  activeVersion: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
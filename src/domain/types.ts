@@ -3,6 +3,37 @@ export const EmailStatus = {
   SENT: "SENT",
   FAILED: "FAILED",
   QUEUED: "QUEUED",
+  // ждет времени отправки (scheduledAt), затем переходит в QUEUED
+  SCHEDULED: "SCHEDULED",
+  // отложенная отправка отменена
+  CANCELLED: "CANCELLED",
+  // попытки исчерпаны или постоянная ошибка, повторов не будет
+  DEAD_LETTER: "DEAD_LETTER",
+  // после отправки получен отчет о недоставке (DSN, RFC 3464)
+  BOUNCED: "BOUNCED",
+  // получатель пожаловался на письмо (ARF, RFC 5965)
+  COMPLAINED: "COMPLAINED",
 } as const;
 
 export type EmailStatus = (typeof EmailStatus)[keyof typeof EmailStatus];
+
+// письмо еще ждет отправки или повтора: по возрасту такие письма не удаляются
+export const UNFINISHED_EMAIL_STATUSES: EmailStatus[] = [
+  EmailStatus.PENDING,
+  EmailStatus.QUEUED,
+  EmailStatus.SCHEDULED,
+  EmailStatus.FAILED,
+];
+
+export interface EmailAttempt {
+  attempt: number;
+  at: Date;
+  provider: string | null;
+  success: boolean;
+  error: string | null;
+  responseCode: number | null;
+  errorCode: string | null;
+  response: string | null;
+  // длительность вызова провайдера, мс
+  durationMs: number | null;
+}
@@ -0,0 +1,57 @@
+import type { EmailEventType } from "./email-event.ts";
+
+// подписка клиента API на события своих писем
+export interface WebhookEntity {
+  id: string;
+  clientId: string;
+  url: string;
+  events: EmailEventType[];
+  disabledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const WebhookDeliveryStatus = {
+  // ждет отправки или повтора (nextAttemptAt)
+  PENDING: "PENDING",
+  // получатель ответил 2xx
+  DELIVERED: "DELIVERED",
+  // попытки исчерпаны, доставку можно повторить через replay
+  FAILED: "FAILED",
+} as const;
+
+export type WebhookDeliveryStatus =
+  (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
+export interface WebhookDeliveryAttempt {
+  at: Date;
+  // HTTP статус ответа, null - ответа не было (таймаут, сетевая ошибка)
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+// запись журнала доставки: одно событие для одной подписки
+export interface WebhookDeliveryEntity {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  event: EmailEventType;
+  // тело запроса, при повторах и replay отправляется без изменений
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  // попытки с последнего replay, по ним считается лимит повторов
+  attemptCount: number;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// доставка, забранная воркером, с адресом и секретом подписки
+export interface ClaimedWebhookDelivery {
+  delivery: WebhookDeliveryEntity;
+  url: string;
+  secret: string;
+}
@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { ApiClientsController } from "../presenters/api-clients.controller.ts";
+import { requireScope } from "../presenters/middleware/require-scope.middleware.ts";
+import { ApiScope } from "../domain/api-client.entity.ts";
+
+export class ApiClientRouter {
+  private _router: Router;
+  private apiClientsController: ApiClientsController;
+
+  constructor(apiClientsController: ApiClientsController) {
+    this.apiClientsController = apiClientsController;
+    this._router = Router();
+  }
+
+  get router() {
+    // клиентами управляет только администратор
+    this._router.use(requireScope(ApiScope.ADMIN));
+
+    this._router.post(
+      "/",
+      this.apiClientsController.createClient.bind(this.apiClientsController),
+    );
+
+    this._router.get(
+      "/",
+      this.apiClientsController.getClients.bind(this.apiClientsController),
+    );
+
+    this._router.get(
+      "/:id",
+      this.apiClientsController.getClient.bind(this.apiClientsController),
+    );
+
+    this._router.patch(
+      "/:id",
+      this.apiClientsController.updateClient.bind(this.apiClientsController),
+    );
+
+    this._router.post(
+      "/:id/keys/rotate",
+      this.apiClientsController.rotateKey.bind(this.apiClientsController),
+    );
+
+    this._router.delete(
+      "/:id/keys/:keyId",
+      this.apiClientsController.revokeKey.bind(this.apiClientsController),
+    );
+
+    return this._router;
+  }
+}
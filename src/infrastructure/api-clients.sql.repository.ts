@@ -0,0 +1,270 @@
+import { BaseRepository, type PoolClient } from "../libs/db-client.ts";
+import type { ApiClientsRepository } from "../application/interfaces/api-clients-repository.ts";
+import type {
+  SaveApiClientData,
+  SaveApiKeyData,
+  UpdateApiClientData,
+} from "../application/types/save-api-client-data.ts";
+import type {
+  ApiClientEntity,
+  ApiKeyEntity,
+  ApiScope,
+} from "../domain/api-client.entity.ts";
+
+interface ApiClientRow {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  allowed_senders: string[];
+  requests_per_minute: number | null;
+  recipients_per_hour: number | null;
+  disabled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ApiKeyRow {
+  id: string;
+  client_id: string;
+  prefix: string;
+  key_hash: string;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  last_used_at: Date | null;
+  created_at: Date;
+}
+
+export class ApiClientsSqlRepository
+  extends BaseRepository
+  implements ApiClientsRepository
+{
+  async create(
+    data: SaveApiClientData,
+    key: SaveApiKeyData,
+  ): Promise<{ client: ApiClientEntity; key: ApiKeyEntity }> {
+    return this.transaction(async (client: PoolClient) => {
+      const clientResult = await client.query<ApiClientRow>(
+        `INSERT INTO "api_clients" (
+           name, scopes, "allowed_senders", "requests_per_minute",
+           "recipients_per_hour", "created_at", "updated_at"
+         ) VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+         RETURNING *`,
+        [
+          data.name,
+          data.scopes,
+          data.allowedSenders,
+          data.rateLimits.requestsPerMinute,
+          data.rateLimits.recipientsPerHour,
+        ],
+      );
+
+      const clientRow = clientResult.rows[0];
+      const keyRow = await this.insertKey(client, clientRow.id, key);
+
+      return {
+        client: this.mapRowToClient(clientRow),
+        key: this.mapRowToKey(keyRow),
+      };
+    });
+  }
+
+  async findById(id: string): Promise<ApiClientEntity | null> {
+    const result = await this.query<ApiClientRow>(
+      `SELECT * FROM "api_clients" WHERE id = $1`,
+      [id],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToClient(row) : null;
+  }
+
+  async findAll(): Promise<ApiClientEntity[]> {
+    const result = await this.query<ApiClientRow>(
+      `SELECT * FROM "api_clients" ORDER BY "created_at" DESC`,
+    );
+
+    return result.rows.map((row) => this.mapRowToClient(row));
+  }
+
+  async update(data: UpdateApiClientData): Promise<ApiClientEntity | null> {
+    const updateFields: string[] = ['"updated_at" = NOW()'];
+    const values: any[] = [];
+
+    let paramIndex = 1;
+
+    if (data.name !== undefined) {
+      updateFields.push(`name = $${paramIndex}`);
+      values.push(data.name);
+      paramIndex++;
+    }
+
+    if (data.scopes !== undefined) {
+      updateFields.push(`scopes = $${paramIndex}`);
+      values.push(data.scopes);
+      paramIndex++;
+    }
+
+    if (data.allowedSenders !== undefined) {
+      updateFields.push(`"allowed_senders" = $${paramIndex}`);
+      values.push(data.allowedSenders);
+      paramIndex++;
+    }
+
+    if (data.rateLimits?.requestsPerMinute !== undefined) {
+      updateFields.push(`"requests_per_minute" = $${paramIndex}`);
+      values.push(data.rateLimits.requestsPerMinute);
+      paramIndex++;
+    }
+
+    if (data.rateLimits?.recipientsPerHour !== undefined) {
+      updateFields.push(`"recipients_per_hour" = $${paramIndex}`);
+      values.push(data.rateLimits.recipientsPerHour);
+      paramIndex++;
+    }
+
+    if (data.disabled !== undefined) {
+      updateFields.push(
+        data.disabled
+          ? `"disabled_at" = COALESCE("disabled_at", NOW())`
+          : `"disabled_at" = NULL`,
+      );
+    }
+
+    values.push(data.id);
+
+    const result = await this.query<ApiClientRow>(
+      `UPDATE "api_clients"
+       SET ${updateFields.join(", ")}
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values,
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToClient(row) : null;
+  }
+
+  async findByKeyHash(
+    keyHash: string,
+  ): Promise<{ client: ApiClientEntity; key: ApiKeyEntity } | null> {
+    const keyResult = await this.query<ApiKeyRow>(
+      `SELECT k.* FROM "api_keys" k
+       JOIN "api_clients" c ON c.id = k."client_id"
+       WHERE k."key_hash" = $1
+         AND k."revoked_at" IS NULL
+         AND (k."expires_at" IS NULL OR k."expires_at" > NOW())
+         AND c."disabled_at" IS NULL`,
+      [keyHash],
+    );
+
+    const keyRow = keyResult.rows[0];
+
+    if (!keyRow) {
+      return null;
+    }
+
+    const client = await this.findById(keyRow.client_id);
+
+    return client ? { client, key: this.mapRowToKey(keyRow) } : null;
+  }
+
+  async findKeys(clientId: string): Promise<ApiKeyEntity[]> {
+    const result = await this.query<ApiKeyRow>(
+      `SELECT * FROM "api_keys" WHERE "client_id" = $1 ORDER BY "created_at" DESC`,
+      [clientId],
+    );
+
+    return result.rows.map((row) => this.mapRowToKey(row));
+  }
+
+  async rotateKey(
+    clientId: string,
+    key: SaveApiKeyData,
+    previousExpiresAt: Date,
+  ): Promise<ApiKeyEntity> {
+    return this.transaction(async (client: PoolClient) => {
+      await client.query(
+        `UPDATE "api_keys"
+         SET "expires_at" = LEAST(COALESCE("expires_at", $2), $2)
+         WHERE "client_id" = $1
+           AND "revoked_at" IS NULL
+           AND ("expires_at" IS NULL OR "expires_at" > NOW())`,
+        [clientId, previousExpiresAt],
+      );
+
+      const keyRow = await this.insertKey(client, clientId, key);
+
+      return this.mapRowToKey(keyRow);
+    });
+  }
+
+  async revokeKey(
+    clientId: string,
+    keyId: string,
+  ): Promise<ApiKeyEntity | null> {
+    const result = await this.query<ApiKeyRow>(
+      `UPDATE "api_keys" SET "revoked_at" = COALESCE("revoked_at", NOW())
+       WHERE id = $1 AND "client_id" = $2
+       RETURNING *`,
+      [keyId, clientId],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToKey(row) : null;
+  }
+
+  async touchKey(keyId: string): Promise<void> {
+    await this.query(
+      `UPDATE "api_keys" SET "last_used_at" = NOW() WHERE id = $1`,
+      [keyId],
+    );
+  }
+
+  private async insertKey(
+    client: PoolClient,
+    clientId: string,
+    key: SaveApiKeyData,
+  ): Promise<ApiKeyRow> {
+    const result = await client.query<ApiKeyRow>(
+      `INSERT INTO "api_keys" (
+         "client_id", prefix, "key_hash", "created_at"
+       ) VALUES ($1, $2, $3, NOW())
+       RETURNING *`,
+      [clientId, key.prefix, key.keyHash],
+    );
+
+    return result.rows[0];
+  }
+
+  private mapRowToClient(row: ApiClientRow): ApiClientEntity {
+    return {
+      id: row.id,
+      name: row.name,
+      scopes: row.scopes,
+      allowedSenders: row.allowed_senders || [],
+      rateLimits: {
+        requestsPerMinute: row.requests_per_minute ?? null,
+        recipientsPerHour: row.recipients_per_hour ?? null,
+      },
+      disabledAt: row.disabled_at || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // hash ключа наружу не отдается
+  private mapRowToKey(row: ApiKeyRow): ApiKeyEntity {
+    return {
+      id: row.id,
+      clientId: row.client_id,
+      prefix: row.prefix,
+      expiresAt: row.expires_at || null,
+      revokedAt: row.revoked_at || null,
+      lastUsedAt: row.last_used_at || null,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { BaseRepository } from "../libs/db-client.ts";
+import type { AttachmentsRepository } from "../application/interfaces/attachments-repository.ts";
+
+export class AttachmentsSqlRepository
+  extends BaseRepository
+  implements AttachmentsRepository
+{
+  async countByStorageKey(storageKey: string): Promise<number> {
+    const result = await this.query<{ count: string }>(
+      `SELECT COUNT(*) AS count
+       FROM "attachments" a
+       JOIN "emails" e ON e.id = a."email_id"
+       WHERE a."storage_key" = $1 AND e."deleted_at" IS NULL`,
+      [storageKey],
+    );
+
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  async findReferencedStorageKeys(storageKeys: string[]): Promise<string[]> {
+    if (storageKeys.length === 0) {
+      return [];
+    }
+
+    const result = await this.query<{ storage_key: string }>(
+      `SELECT DISTINCT a."storage_key"
+       FROM "attachments" a
+       JOIN "emails" e ON e.id = a."email_id"
+       WHERE a."storage_key" = ANY($1) AND e."deleted_at" IS NULL`,
+      [storageKeys],
+    );
+
+    return result.rows.map((row) => row.storage_key);
+  }
+}
@@ -0,0 +1,53 @@
+import { BaseRepository } from "../libs/db-client.ts";
+import type { AuditLogRepository } from "../application/interfaces/audit-log-repository.ts";
+import type { AuditLogEntity } from "../domain/audit-log.entity.ts";
+
+interface AuditLogRow {
+  id: string;
+  action: string;
+  entity_type: string;
+  entity_id: string;
+  actor: string;
+  ip: string | null;
+  details: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+export class AuditLogSqlRepository
+  extends BaseRepository
+  implements AuditLogRepository
+{
+  async record(
+    entry: Omit<AuditLogEntity, "id" | "createdAt">,
+  ): Promise<AuditLogEntity> {
+    const result = await this.query<AuditLogRow>(
+      `INSERT INTO "audit_log" (
+         action, "entity_type", "entity_id", actor, ip, details, "created_at"
+       ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+       RETURNING *`,
+      [
+        entry.action,
+        entry.entityType,
+        entry.entityId,
+        entry.actor,
+        entry.ip,
+        entry.details ? JSON.stringify(entry.details) : null,
+      ],
+    );
+
+    return this.mapRowToAuditLog(result.rows[0]);
+  }
+
+  private mapRowToAuditLog(row: AuditLogRow): AuditLogEntity {
+    return {
+      id: row.id,
+      action: row.action,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      actor: row.actor,
+      ip: row.ip,
+      details: row.details,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import express, { Router } from "express";
+import { BouncesController } from "../presenters/bounces.controller.ts";
+import { requireScope } from "../presenters/middleware/require-scope.middleware.ts";
+import { ApiScope } from "../domain/api-client.entity.ts";
+
+export class BounceRouter {
+  private _router: Router;
+  private bouncesController: BouncesController;
+
+  constructor(bouncesController: BouncesController) {
+    this.bouncesController = bouncesController;
+    this._router = Router();
+  }
+
+  get router() {
+    this._router.post(
+      "/",
+      // отчеты меняют статусы писем любых клиентов
+      requireScope(ApiScope.ADMIN),
+      express.text({
+        type: ["message/*", "multipart/report", "text/plain"],
+        limit: "10mb",
+      }),
+      this.bouncesController.receiveReport.bind(this.bouncesController),
+    );
+
+    return this._router;
+  }
+}
@@ -0,0 +1,104 @@
+import { createServer, type Server } from "net";
+import type { AddressInfo } from "net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { VirusScanUnavailableError } from "../application/errors/attachment-errors.ts";
+import { ClamAvScanner } from "./clamav-scanner.ts";
+
+// разбирает команду zINSTREAM: куски с длиной в 4 байта, пустой кусок - конец
+const parseInstream = (data: Buffer): Buffer | null => {
+  const command = "zINSTREAM\0";
+
+  if (data.toString("latin1", 0, command.length) !== command) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+  let offset = command.length;
+
+  while (offset + 4 <= data.length) {
+    const size = data.readUInt32BE(offset);
+
+    if (size === 0) {
+      return Buffer.concat(chunks);
+    }
+
+    chunks.push(data.subarray(offset + 4, offset + 4 + size));
+    offset += 4 + size;
+  }
+
+  return null;
+};
+
+describe("ClamAvScanner", () => {
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    // заменитель clamd
+    server = createServer((socket) => {
+      const received: Buffer[] = [];
+
+      socket.on("data", (data) => received.push(data));
+      socket.on("end", () => {
+        const content = parseInstream(Buffer.concat(received));
+
+        if (!content) {
+          socket.end("UNKNOWN COMMAND\0");
+        } else if (content.includes("EICAR")) {
+          socket.end("stream: Eicar-Test-Signature FOUND\0");
+        } else {
+          socket.end("stream: OK\0");
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createScanner = (scannerPort = port) =>
+    new ClamAvScanner({
+      socket: "",
+      host: "127.0.0.1",
+      port: scannerPort,
+      timeout: 2000,
+    });
+
+  it("should stream content in chunks and report clean files", async () => {
+    const result = await createScanner().scan(Buffer.alloc(150_000, 0x61));
+
+    expect(result).toEqual({ infected: false, signature: null });
+  });
+
+  it("should report the signature of infected files", async () => {
+    const result = await createScanner().scan(
+      Buffer.from(
+        "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!",
+      ),
+    );
+
+    expect(result).toEqual({
+      infected: true,
+      signature: "Eicar-Test-Signature",
+    });
+  });
+
+  it("should fail when clamd is unavailable", async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) =>
+      closed.listen(0, "127.0.0.1", resolve),
+    );
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    await expect(
+      createScanner(closedPort).scan(Buffer.from("x")),
+    ).rejects.toBeInstanceOf(VirusScanUnavailableError);
+  });
+});
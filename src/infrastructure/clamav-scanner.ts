@@ -0,0 +1,89 @@
+import net from "net";
+import { config } from "../config/env.ts";
+import { VirusScanUnavailableError } from "../application/errors/attachment-errors.ts";
+import type {
+  VirusScanner,
+  VirusScanResult,
+} from "../application/interfaces/virus-scanner.ts";
+
+// clamd принимает поток кусками с длиной в 4 байта (big-endian), пустой кусок - конец потока
+const CHUNK_SIZE = 64 * 1024;
+
+export interface ClamAvOptions {
+  // unix socket clamd (/var/run/clamav/clamd.ctl), пустой - TCP host:port
+  socket: string;
+  host: string;
+  port: number;
+  // таймаут простоя соединения, мс
+  timeout: number;
+}
+
+/**
+ * Проверка вложений антивирусом ClamAV через демон clamd (команда INSTREAM)
+ */
+export class ClamAvScanner implements VirusScanner {
+  private readonly options: ClamAvOptions;
+
+  constructor(options: ClamAvOptions = config.attachments.clamav) {
+    this.options = options;
+  }
+
+  async scan(content: Buffer): Promise<VirusScanResult> {
+    // "stream: OK", "stream: Eicar-Signature FOUND", "INSTREAM size limit exceeded. ERROR"
+    const response = await this.instream(content);
+
+    if (response === "stream: OK") {
+      return { infected: false, signature: null };
+    }
+
+    const found = /^stream: (.+) FOUND$/.exec(response);
+
+    if (found) {
+      return { infected: true, signature: found[1] };
+    }
+
+    throw new VirusScanUnavailableError(`clamd responded "${response}"`);
+  }
+
+  private instream(content: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.socket
+        ? net.createConnection(this.options.socket)
+        : net.createConnection(this.options.port, this.options.host);
+
+      const chunks: Buffer[] = [];
+
+      socket.setTimeout(this.options.timeout, () =>
+        socket.destroy(new Error(`timed out after ${this.options.timeout}ms`)),
+      );
+
+      socket.on("connect", () => {
+        // префикс z - ответ завершается нулевым байтом
+        socket.write("zINSTREAM\0");
+
+        for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+          const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+          const size = Buffer.alloc(4);
+          size.writeUInt32BE(chunk.length);
+
+          socket.write(size);
+          socket.write(chunk);
+        }
+
+        socket.end(Buffer.alloc(4));
+      });
+
+      socket.on("data", (data) => chunks.push(data));
+
+      socket.on("error", (error) =>
+        reject(new VirusScanUnavailableError(error.message)),
+      );
+
+      socket.on("close", (hadError) => {
+        if (!hadError) {
+          resolve(Buffer.concat(chunks).toString().replace(/\0/g, "").trim());
+        }
+      });
+    });
+  }
+}
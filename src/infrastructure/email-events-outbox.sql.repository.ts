@@ -0,0 +1,142 @@
+import {
+  BaseRepository,
+  type DatabasePool,
+  type PoolClient,
+} from "../libs/db-client.ts";
+import type { EmailEventsOutboxRepository } from "../application/interfaces/email-events-outbox-repository.ts";
+import type {
+  EmailEvent,
+  EmailEventDestination,
+  EmailEventType,
+  PendingEmailEvent,
+} from "../domain/email-event.ts";
+
+interface EmailEventsOutboxRow {
+  seq: string;
+  id: string;
+  destination: EmailEventDestination;
+  email_id: string;
+  type: EmailEventType;
+  payload: EmailEventJson;
+  attempt_count: number;
+  last_error: string | null;
+  next_attempt_at: Date;
+  created_at: Date;
+}
+
+// событие в jsonb "payload": даты хранятся строками ISO
+type EmailEventJson = Omit<EmailEvent, "occurredAt" | "email"> & {
+  occurredAt: string;
+  email: Omit<
+    EmailEvent["email"],
+    "nextAttemptAt" | "scheduledAt" | "sentAt" | "deletedAt"
+  > & {
+    nextAttemptAt: string | null;
+    scheduledAt: string | null;
+    sentAt: string | null;
+    deletedAt: string | null;
+  };
+};
+
+export class EmailEventsOutboxSqlRepository
+  extends BaseRepository
+  implements EmailEventsOutboxRepository
+{
+  private readonly destinations: EmailEventDestination[];
+
+  constructor(db: DatabasePool, destinations: EmailEventDestination[]) {
+    super(db);
+    this.destinations = destinations;
+  }
+
+  /**
+   * Записывает событие для каждого получателя. Вызывается в транзакции изменения письма:
+   * событие сохраняется тогда и только тогда, когда сохранено изменение
+   */
+  async record(client: PoolClient, event: EmailEvent): Promise<void> {
+    if (this.destinations.length === 0) {
+      return;
+    }
+
+    await client.query(
+      `INSERT INTO "email_events_outbox" (
+         id, destination, "email_id", type, payload, "next_attempt_at", "created_at"
+       )
+       SELECT $1, destination, $2, $3, $4, NOW(), NOW()
+       FROM UNNEST($5::text[]) AS destination`,
+      [
+        event.id,
+        event.email.id,
+        event.type,
+        JSON.stringify(event),
+        this.destinations,
+      ],
+    );
+  }
+
+  async claimDue(limit: number, lease: number): Promise<PendingEmailEvent[]> {
+    const result = await this.query<EmailEventsOutboxRow>(
+      `UPDATE "email_events_outbox"
+       SET "next_attempt_at" = NOW() + $2 * INTERVAL '1 millisecond'
+       WHERE seq IN (
+         SELECT o.seq FROM "email_events_outbox" o
+         WHERE o."next_attempt_at" <= NOW()
+           AND NOT EXISTS (
+             SELECT 1 FROM "email_events_outbox" p
+             WHERE p."email_id" = o."email_id"
+               AND p.destination = o.destination
+               AND p.seq < o.seq
+           )
+         ORDER BY o.seq
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, lease],
+    );
+
+    return result.rows
+      .sort((a, b) => Number(a.seq) - Number(b.seq))
+      .map((row) => ({
+        id: row.seq,
+        destination: row.destination,
+        event: this.mapPayloadToEvent(row.payload),
+        attemptCount: row.attempt_count,
+      }));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.query(`DELETE FROM "email_events_outbox" WHERE seq = $1`, [id]);
+  }
+
+  async recordFailure(
+    id: string,
+    error: string,
+    nextAttemptAt: Date,
+  ): Promise<void> {
+    await this.query(
+      `UPDATE "email_events_outbox"
+       SET "attempt_count" = "attempt_count" + 1,
+           "last_error" = $2,
+           "next_attempt_at" = $3
+       WHERE seq = $1`,
+      [id, error, nextAttemptAt],
+    );
+  }
+
+  private mapPayloadToEvent(payload: EmailEventJson): EmailEvent {
+    const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+    return {
+      ...payload,
+      occurredAt: new Date(payload.occurredAt),
+      email: {
+        ...payload.email,
+        nextAttemptAt: toDate(payload.email.nextAttemptAt),
+        scheduledAt: toDate(payload.email.scheduledAt),
+        sentAt: toDate(payload.email.sentAt),
+        deletedAt: toDate(payload.email.deletedAt),
+      },
+    };
+  }
+}
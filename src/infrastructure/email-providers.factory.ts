@@ -0,0 +1,22 @@
+import type { AttachmentsService } from "../application/attachments.service.ts";
+import type { StorageService } from "../application/storage.service.ts";
+import type { RegisteredProvider } from "../application/provider-registry.ts";
+import type { ProviderConfig } from "../config/providers.config.ts";
+import { HttpApiProvider } from "./http-api-provider.ts";
+import { NodemailerProvider } from "./nodemailer-provider.ts";
+
+export function createEmailProviders(
+  providers: ProviderConfig[],
+  attachmentsService: AttachmentsService,
+  storageService: StorageService,
+): RegisteredProvider[] {
+  return providers.map((provider) => ({
+    name: provider.name,
+    priority: provider.priority,
+    throttle: provider.throttle,
+    provider:
+      provider.type === "smtp"
+        ? new NodemailerProvider(provider, attachmentsService)
+        : new HttpApiProvider(provider, storageService),
+  }));
+}
@@ -1,7 +1,8 @@
 import { Router } from "express";
 import { EmailsController } from "../presenters/emails.controller.ts";
 import { upload } from "../config/multer.config.ts";
-import { checkSecretKey } from "../presenters/middleware/check-secret-key.middleware.ts";
+import { requireScope } from "../presenters/middleware/require-scope.middleware.ts";
+import { ApiScope } from "../domain/api-client.entity.ts";
 
 export class EmailRouter {
   private _router: Router;
@@ -15,17 +16,59 @@ export class EmailRouter {
   get router() {
     this._router.post(
       "/",
-      checkSecretKey,
+      requireScope(ApiScope.SEND),
       upload.array("files", 30),
       this.emailsController.sendEmail.bind(this.emailsController),
     );
 
+    this._router.get(
+      "/",
+      requireScope(ApiScope.READ),
+      this.emailsController.getEmails.bind(this.emailsController),
+    );
+
     this._router.get(
       "/:id",
-      checkSecretKey,
+      requireScope(ApiScope.READ),
       this.emailsController.getEmailDetails.bind(this.emailsController),
     );
 
+    this._router.get(
+      "/:id/attachments/:attachmentId",
+      requireScope(ApiScope.READ),
+      this.emailsController.downloadAttachment.bind(this.emailsController),
+    );
+
+    this._router.delete(
+      "/:id",
+      requireScope(ApiScope.DELETE),
+      this.emailsController.deleteEmail.bind(this.emailsController),
+    );
+
+    this._router.post(
+      "/:id/cancel",
+      requireScope(ApiScope.DELETE),
+      this.emailsController.cancelScheduledEmail.bind(this.emailsController),
+    );
+
+    this._router.patch(
+      "/:id/schedule",
+      requireScope(ApiScope.SEND),
+      this.emailsController.rescheduleEmail.bind(this.emailsController),
+    );
+
+    this._router.delete(
+      "/:id/hard",
+      requireScope(ApiScope.ADMIN),
+      this.emailsController.deleteEmailHard.bind(this.emailsController),
+    );
+
+    this._router.post(
+      "/:id/restore",
+      requireScope(ApiScope.ADMIN),
+      this.emailsController.restoreEmail.bind(this.emailsController),
+    );
+
     return this._router;
   }
 }
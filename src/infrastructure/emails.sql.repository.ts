@@ -1,10 +1,35 @@
-import { BaseRepository, type PoolClient } from "../libs/db-client.ts";
+import {
+  BaseRepository,
+  type DatabasePool,
+  type PoolClient,
+} from "../libs/db-client.ts";
+import { createEmailEvent } from "../application/email-events.ts";
+import { EmailEventType } from "../domain/email-event.ts";
+import type { EmailEventsOutboxSqlRepository } from "./email-events-outbox.sql.repository.ts";
 import type { EmailsRepository } from "../application/interfaces/emails-repository.ts";
 import type { SaveEmailData } from "../application/types/save-email-data.ts";
 import { type EmailEntity } from "../domain/email.entity.ts";
 import type { UpdateEmailData } from "../application/types/update-email-data.ts";
 import { type AttachmentEntity } from "../domain/attachment.entity.ts";
-import { EmailStatus } from "../domain/types.ts";
+import { EmailStatus, type EmailAttempt } from "../domain/types.ts";
+import {
+  DeliveryState,
+  type ClaimedEmail,
+  type DeliveryLease,
+  type EmailDeliveryEntity,
+} from "../domain/email-delivery.entity.ts";
+import type {
+  EmailsSortField,
+  FindEmailsFilter,
+} from "../application/types/find-emails-filter.ts";
+
+const SORT_COLUMNS: Record<EmailsSortField, string> = {
+  createdAt: '"created_at"',
+  updatedAt: '"updated_at"',
+  sentAt: '"sent_at"',
+  status: "status",
+  subject: "subject",
+};
 
 interface EmailRow {
   id: string;
@@ -16,14 +41,54 @@ interface EmailRow {
   subject: string;
   body: string;
   html: string | null;
+  template_id: string | null;
+  template_version: number | null;
+  tag: string | null;
+  api_client_id: string | null;
   status: string;
   error: string | null;
+  provider: string | null;
+  message_id: string | null;
+  accepted_recipients: string[] | null;
+  rejected_recipients: string[] | null;
+  smtp_response: string | null;
+  send_duration_ms: number | null;
+  diagnostic_code: string | null;
+  suppressed_recipients: string[] | null;
+  attempts: AttemptJson[];
+  next_attempt_at: Date | null;
+  scheduled_at: Date | null;
+  timezone: string | null;
   sent_at: Date | null;
   created_at: Date;
   updated_at: Date;
   deleted_at: Date | null;
 }
 
+// элемент jsonb массива "attempts"
+interface AttemptJson {
+  attempt: number;
+  at: string;
+  provider?: string | null;
+  success: boolean;
+  error: string | null;
+  responseCode: number | null;
+  errorCode: string | null;
+  response?: string | null;
+  durationMs?: number | null;
+}
+
+interface EmailDeliveryRow {
+  id: string;
+  email_id: string;
+  attempt: number;
+  state: DeliveryState;
+  worker_id: string;
+  lease_expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
 interface AttachmentRow {
   id: string;
   email_id: string;
@@ -31,7 +96,7 @@ interface AttachmentRow {
   original_name: string;
   mimetype: string;
   size: number;
-  path: string;
+  storage_key: string | null;
   url: string | null;
   created_at: Date;
 }
@@ -40,13 +105,24 @@ export class EmailsSqlRepository
   extends BaseRepository
   implements EmailsRepository
 {
-  async save(data: SaveEmailData): Promise<EmailEntity> {
+  private readonly eventsOutbox: EmailEventsOutboxSqlRepository;
+
+  constructor(db: DatabasePool, eventsOutbox: EmailEventsOutboxSqlRepository) {
+    super(db);
+    this.eventsOutbox = eventsOutbox;
+  }
+
+  async save(
+    data: SaveEmailData,
+    event?: EmailEventType,
+  ): Promise<EmailEntity> {
     return await this.transaction(async (client: PoolClient) => {
       const emailResult = await client.query<EmailRow>(
         `INSERT INTO "emails" (
                     "from", "to", "display_name", cc, bcc, subject, body, html, status, 
-                    "created_at", "updated_at"
-                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+                    "template_id", "template_version", tag, "suppressed_recipients", "scheduled_at", timezone,
+                    "api_client_id", "created_at", "updated_at"
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW(), NOW())
                 RETURNING *`,
         [
           data.from,
@@ -58,18 +134,29 @@ export class EmailsSqlRepository
           data.body,
           data.html || null,
           data.status,
+          data.templateId ?? null,
+          data.templateVersion ?? null,
+          data.tag ?? null,
+          data.suppressedRecipients ?? [],
+          data.scheduledAt ?? null,
+          data.timezone ?? null,
+          data.apiClientId ?? null,
         ],
       );
 
       const emailRow = emailResult.rows[0];
 
+      if (event) {
+        await this.recordEvent(client, event, emailRow);
+      }
+
       const attachments: AttachmentEntity[] = [];
 
       if (data.attachments && data.attachments.length > 0) {
         for (const attachment of data.attachments) {
           const attachmentResult = await client.query<AttachmentRow>(
             `INSERT INTO "attachments" (
-                            "email_id", filename, "original_name", mimetype, size, path, url, "created_at"
+                            "email_id", filename, "original_name", mimetype, size, "storage_key", url, "created_at"
                         ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
                          RETURNING *`,
             [
@@ -78,7 +165,7 @@ export class EmailsSqlRepository
               attachment.originalName,
               attachment.mimetype,
               attachment.size,
-              attachment.path,
+              attachment.storageKey,
               attachment.url,
             ],
           );
@@ -119,42 +206,43 @@ export class EmailsSqlRepository
     return this.mapRowToEmail(emailRow, attachments);
   }
 
-  async update(data: UpdateEmailData): Promise<EmailEntity> {
-    const updateFields: string[] = ["status = $1", '"updated_at" = NOW()'];
-
-    const values: any[] = [data.status];
+  async findByMessageId(messageId: string): Promise<EmailEntity | null> {
+    // nodemailer сохраняет Message-ID в угловых скобках, HTTP провайдеры - как есть
+    const emailResult = await this.query<EmailRow>(
+      `SELECT * FROM "emails"
+       WHERE BTRIM("message_id", '<>') = $1
+       ORDER BY "created_at" DESC
+       LIMIT 1`,
+      [messageId],
+    );
 
-    let paramIndex = 2;
+    const emailRow = emailResult.rows[0];
 
-    if (data.sentAt !== undefined) {
-      updateFields.push(`"sent_at" = $${paramIndex}`);
-      values.push(data.sentAt);
-      paramIndex++;
+    if (!emailRow) {
+      return null;
     }
 
-    if (data.error !== undefined) {
-      updateFields.push(`error = $${paramIndex}`);
-      values.push(data.error);
-      paramIndex++;
-    }
+    const attachments = await this.findAttachmentsByEmailIds([emailRow.id]);
 
-    values.push(data.id);
+    return this.mapRowToEmail(emailRow, attachments[emailRow.id] || []);
+  }
 
-    await this.query(
-      `UPDATE "emails" 
-       SET ${updateFields.join(", ")} 
-       WHERE id = $${paramIndex}`,
-      values,
-    );
+  async update(
+    data: UpdateEmailData,
+    event?: EmailEventType,
+  ): Promise<EmailEntity> {
+    const emailRow = await this.transaction(async (client: PoolClient) => {
+      const { text, values } = this.buildUpdateQuery(data);
 
-    const emailResult = await this.query<EmailRow>(
-      `SELECT *
-       FROM "emails" 
-       WHERE id = $1`,
-      [data.id],
-    );
+      const emailResult = await client.query<EmailRow>(text, values);
+      const row = emailResult.rows[0];
 
-    const emailRow = emailResult.rows[0];
+      if (row && event) {
+        await this.recordEvent(client, event, row);
+      }
+
+      return row;
+    });
 
     if (!emailRow) {
       throw new Error(`Email with id ${data.id} not found`);
@@ -174,23 +262,436 @@ export class EmailsSqlRepository
     return this.mapRowToEmail(emailRow, attachments);
   }
 
-  findAll(): Promise<{
+  async findAll(filter: FindEmailsFilter): Promise<{
     emails: EmailEntity[];
     count: number;
     page: number;
     limit: number;
     total: number;
   }> {
-    throw new Error("Method not implemented.");
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    const addParam = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (filter.deleted === "exclude") {
+      conditions.push(`"deleted_at" IS NULL`);
+    } else if (filter.deleted === "only") {
+      conditions.push(`"deleted_at" IS NOT NULL`);
+    }
+
+    if (filter.status && filter.status.length > 0) {
+      conditions.push(`status = ANY(${addParam(filter.status)})`);
+    }
+
+    if (filter.recipient) {
+      conditions.push(
+        `EXISTS (
+           SELECT 1 FROM unnest("to" || cc || bcc) AS recipient
+           WHERE lower(recipient) = lower(${addParam(filter.recipient)})
+         )`,
+      );
+    }
+
+    if (filter.from) {
+      conditions.push(`lower("from") = lower(${addParam(filter.from)})`);
+    }
+
+    if (filter.apiClientId) {
+      conditions.push(`"api_client_id" = ${addParam(filter.apiClientId)}`);
+    }
+
+    if (filter.subject) {
+      // экранируем спецсимволы LIKE, ищем подстроку без учета регистра
+      const escaped = filter.subject.replace(/[\\%_]/g, "\\$&");
+      conditions.push(`subject ILIKE ${addParam(`%${escaped}%`)}`);
+    }
+
+    if (filter.createdFrom) {
+      conditions.push(`"created_at" >= ${addParam(filter.createdFrom)}`);
+    }
+
+    if (filter.createdTo) {
+      conditions.push(`"created_at" <= ${addParam(filter.createdTo)}`);
+    }
+
+    if (filter.sentFrom) {
+      conditions.push(`"sent_at" >= ${addParam(filter.sentFrom)}`);
+    }
+
+    if (filter.sentTo) {
+      conditions.push(`"sent_at" <= ${addParam(filter.sentTo)}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const totalResult = await this.query<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM "emails" ${where}`,
+      values,
+    );
+
+    const total = parseInt(totalResult.rows[0]?.total ?? "0", 10);
+
+    const orderBy = `${SORT_COLUMNS[filter.sortBy]} ${
+      filter.sortOrder === "asc" ? "ASC" : "DESC"
+    } NULLS LAST, id ${filter.sortOrder === "asc" ? "ASC" : "DESC"}`;
+
+    const limitParam = addParam(filter.limit);
+    const offsetParam = addParam((filter.page - 1) * filter.limit);
+
+    const emailsResult = await this.query<EmailRow>(
+      `SELECT * FROM "emails"
+       ${where}
+       ORDER BY ${orderBy}
+       LIMIT ${limitParam} OFFSET ${offsetParam}`,
+      values,
+    );
+
+    const attachmentsByEmailId = await this.findAttachmentsByEmailIds(
+      emailsResult.rows.map((row) => row.id),
+    );
+
+    const emails = emailsResult.rows.map((row) =>
+      this.mapRowToEmail(row, attachmentsByEmailId[row.id] || []),
+    );
+
+    return {
+      emails,
+      count: emails.length,
+      page: filter.page,
+      limit: filter.limit,
+      total,
+    };
   }
 
-  async deleteSoft(id: string): Promise<EmailEntity | null> {
-    // TODO: use transaction
+  async claimForDelivery(
+    limit: number,
+    lease: DeliveryLease,
+  ): Promise<ClaimedEmail[]> {
+    const claimed = await this.transaction(async (client: PoolClient) => {
+      const emailsResult = await client.query<EmailRow>(
+        `UPDATE "emails" SET status = $1, "next_attempt_at" = NULL, "updated_at" = NOW()
+         WHERE id IN (
+           SELECT id FROM "emails"
+           WHERE "deleted_at" IS NULL
+             AND (
+               (status = $2 AND ("next_attempt_at" IS NULL OR "next_attempt_at" <= NOW()))
+               OR (status = $3 AND "next_attempt_at" <= NOW())
+             )
+           ORDER BY COALESCE("next_attempt_at", "created_at")
+           LIMIT $4
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [EmailStatus.PENDING, EmailStatus.QUEUED, EmailStatus.FAILED, limit],
+      );
+
+      const deliveries = await this.insertDeliveries(
+        client,
+        emailsResult.rows,
+        lease,
+      );
+
+      return emailsResult.rows.map((row, index) => ({
+        row,
+        delivery: deliveries[index],
+      }));
+    });
+
+    const attachmentsByEmailId = await this.findAttachmentsByEmailIds(
+      claimed.map(({ row }) => row.id),
+    );
+
+    return claimed.map(({ row, delivery }) => ({
+      email: this.mapRowToEmail(row, attachmentsByEmailId[row.id] || []),
+      delivery,
+    }));
+  }
+
+  async claimById(
+    id: string,
+    lease: DeliveryLease,
+  ): Promise<ClaimedEmail | null> {
+    const claimed = await this.transaction(async (client: PoolClient) => {
+      const emailResult = await client.query<EmailRow>(
+        `SELECT * FROM "emails" e
+         WHERE e.id = $1
+           AND e.status = $2
+           AND e."deleted_at" IS NULL
+           AND NOT EXISTS (
+             SELECT 1 FROM "email_deliveries" d
+             WHERE d."email_id" = e.id AND d.state IN ($3, $4)
+           )
+         FOR UPDATE SKIP LOCKED`,
+        [id, EmailStatus.PENDING, DeliveryState.CLAIMED, DeliveryState.SENDING],
+      );
+
+      const emailRow = emailResult.rows[0];
+
+      if (!emailRow) {
+        return null;
+      }
+
+      const [delivery] = await this.insertDeliveries(client, [emailRow], lease);
+
+      return { row: emailRow, delivery };
+    });
+
+    if (!claimed) {
+      return null;
+    }
+
+    const attachments = await this.findAttachmentsByEmailIds([id]);
+
+    return {
+      email: this.mapRowToEmail(claimed.row, attachments[id] || []),
+      delivery: claimed.delivery,
+    };
+  }
+
+  async startSending(deliveryId: string): Promise<boolean> {
+    const result = await this.query(
+      `UPDATE "email_deliveries" SET state = $2, "updated_at" = NOW()
+       WHERE id = $1 AND state = $3 AND "lease_expires_at" > NOW()`,
+      [deliveryId, DeliveryState.SENDING, DeliveryState.CLAIMED],
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async completeDelivery(
+    deliveryId: string,
+    data: UpdateEmailData,
+    event: EmailEventType,
+  ): Promise<EmailEntity> {
+    await this.transaction(async (client: PoolClient) => {
+      // аренду могли уже закрыть при восстановлении (INTERRUPTED),
+      // фактический результат попытки все равно важнее
+      await client.query(
+        `UPDATE "email_deliveries" SET state = $2, "updated_at" = NOW()
+         WHERE id = $1`,
+        [deliveryId, DeliveryState.COMPLETED],
+      );
+
+      const { text, values } = this.buildUpdateQuery(data);
+
+      const emailResult = await client.query<EmailRow>(text, values);
+
+      if (emailResult.rows[0]) {
+        await this.recordEvent(client, event, emailResult.rows[0]);
+      }
+    });
+
+    const email = await this.findById(data.id);
+
+    if (!email) {
+      throw new Error(`Email with id ${data.id} not found`);
+    }
+
+    return email;
+  }
+
+  async deferDelivery(
+    deliveryId: string,
+    emailId: string,
+    until: Date,
+  ): Promise<EmailEntity> {
+    await this.transaction(async (client: PoolClient) => {
+      await client.query(
+        `UPDATE "email_deliveries" SET state = $2, "updated_at" = NOW()
+         WHERE id = $1`,
+        [deliveryId, DeliveryState.RELEASED],
+      );
+
+      await client.query(
+        `UPDATE "emails" SET status = $2, "next_attempt_at" = $3, "updated_at" = NOW()
+         WHERE id = $1 AND status = $4`,
+        [emailId, EmailStatus.QUEUED, until, EmailStatus.PENDING],
+      );
+    });
+
+    const email = await this.findById(emailId);
+
+    if (!email) {
+      throw new Error(`Email with id ${emailId} not found`);
+    }
+
+    return email;
+  }
+
+  async recoverStuckDeliveries(staleAfter: number): Promise<{
+    requeued: string[];
+    interrupted: string[];
+  }> {
+    return this.transaction(async (client: PoolClient) => {
+      // провайдер не вызывался - письмо можно безопасно вернуть в очередь
+      const releasedResult = await client.query<{ email_id: string }>(
+        `UPDATE "email_deliveries" SET state = $1, "updated_at" = NOW()
+         WHERE id IN (
+           SELECT id FROM "email_deliveries"
+           WHERE state = $2 AND "lease_expires_at" <= NOW()
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING "email_id"`,
+        [DeliveryState.RELEASED, DeliveryState.CLAIMED],
+      );
+
+      // письма PENDING без аренды: процесс упал между сохранением и арендой
+      const orphanedResult = await client.query<{ id: string }>(
+        `SELECT e.id FROM "emails" e
+         WHERE e.status = $1
+           AND e."updated_at" <= NOW() - $2 * INTERVAL '1 millisecond'
+           AND NOT EXISTS (
+             SELECT 1 FROM "email_deliveries" d
+             WHERE d."email_id" = e.id AND d.state IN ($3, $4)
+           )
+         FOR UPDATE SKIP LOCKED`,
+        [
+          EmailStatus.PENDING,
+          staleAfter,
+          DeliveryState.CLAIMED,
+          DeliveryState.SENDING,
+        ],
+      );
+
+      const requeueIds = [
+        ...new Set([
+          ...releasedResult.rows.map((row) => row.email_id),
+          ...orphanedResult.rows.map((row) => row.id),
+        ]),
+      ];
+
+      const requeuedResult = await client.query<{ id: string }>(
+        `UPDATE "emails" SET status = $1, "updated_at" = NOW()
+         WHERE id = ANY($2) AND status = $3
+         RETURNING id`,
+        [EmailStatus.QUEUED, requeueIds, EmailStatus.PENDING],
+      );
+
+      // провайдер вызывался, но результат не записан: письмо могло уйти,
+      // поэтому повторно не отправляем
+      const interruptedResult = await client.query<EmailDeliveryRow>(
+        `UPDATE "email_deliveries" SET state = $1, "updated_at" = NOW()
+         WHERE id IN (
+           SELECT id FROM "email_deliveries"
+           WHERE state = $2 AND "lease_expires_at" <= NOW()
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [DeliveryState.INTERRUPTED, DeliveryState.SENDING],
+      );
+
+      const interrupted: string[] = [];
+
+      for (const row of interruptedResult.rows) {
+        const error = "Delivery interrupted, result is unknown";
+
+        const attempt: AttemptJson = {
+          attempt: row.attempt,
+          at: new Date().toISOString(),
+          provider: null,
+          success: false,
+          error,
+          responseCode: null,
+          errorCode: "DELIVERY_INTERRUPTED",
+          response: null,
+          durationMs: null,
+        };
+
+        const result = await client.query<EmailRow>(
+          `UPDATE "emails"
+           SET status = $1, error = $2, attempts = attempts || $3::jsonb,
+               "next_attempt_at" = NULL, "updated_at" = NOW()
+           WHERE id = $4 AND status = $5
+           RETURNING *`,
+          [
+            EmailStatus.DEAD_LETTER,
+            error,
+            JSON.stringify([attempt]),
+            row.email_id,
+            EmailStatus.PENDING,
+          ],
+        );
+
+        if (result.rows[0]) {
+          await this.recordEvent(client, EmailEventType.FAILED, result.rows[0]);
+          interrupted.push(row.email_id);
+        }
+      }
+
+      return {
+        requeued: requeuedResult.rows.map((row) => row.id),
+        interrupted,
+      };
+    });
+  }
+
+  async releaseScheduled(limit: number): Promise<string[]> {
+    return this.transaction(async (client: PoolClient) => {
+      const result = await client.query<EmailRow>(
+        `UPDATE "emails" SET status = $1, "updated_at" = NOW()
+         WHERE id IN (
+           SELECT id FROM "emails"
+           WHERE status = $2
+             AND "deleted_at" IS NULL
+             AND "scheduled_at" <= NOW()
+           ORDER BY "scheduled_at"
+           LIMIT $3
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [EmailStatus.QUEUED, EmailStatus.SCHEDULED, limit],
+      );
+
+      for (const row of result.rows) {
+        await this.recordEvent(client, EmailEventType.QUEUED, row);
+      }
+
+      return result.rows.map((row) => row.id);
+    });
+  }
+
+  async cancelScheduled(id: string): Promise<EmailEntity | null> {
+    const emailRow = await this.transaction(async (client: PoolClient) => {
+      const emailResult = await client.query<EmailRow>(
+        `UPDATE "emails" SET status = $2, "updated_at" = NOW()
+         WHERE id = $1 AND status = $3 AND "deleted_at" IS NULL
+         RETURNING *`,
+        [id, EmailStatus.CANCELLED, EmailStatus.SCHEDULED],
+      );
+
+      const row = emailResult.rows[0];
+
+      if (row) {
+        await this.recordEvent(client, EmailEventType.CANCELLED, row);
+      }
+
+      return row;
+    });
+
+    if (!emailRow) {
+      return null;
+    }
+
+    const attachments = await this.findAttachmentsByEmailIds([id]);
+
+    return this.mapRowToEmail(emailRow, attachments[id] || []);
+  }
+
+  async reschedule(
+    id: string,
+    scheduledAt: Date,
+    timezone: string | null,
+  ): Promise<EmailEntity | null> {
     const emailResult = await this.query<EmailRow>(
-      `UPDATE "emails" SET "deleted_at" = NOW(), "updated_at" = NOW()
-       WHERE "id" = $1 AND "deleted_at" IS NULL
+      `UPDATE "emails" SET "scheduled_at" = $2, timezone = $3, "updated_at" = NOW()
+       WHERE id = $1 AND status = $4 AND "deleted_at" IS NULL
        RETURNING *`,
-      [id],
+      [id, scheduledAt, timezone, EmailStatus.SCHEDULED],
     );
 
     const emailRow = emailResult.rows[0];
@@ -199,6 +700,33 @@ export class EmailsSqlRepository
       return null;
     }
 
+    const attachments = await this.findAttachmentsByEmailIds([id]);
+
+    return this.mapRowToEmail(emailRow, attachments[id] || []);
+  }
+
+  async deleteSoft(id: string): Promise<EmailEntity | null> {
+    const emailRow = await this.transaction(async (client: PoolClient) => {
+      const emailResult = await client.query<EmailRow>(
+        `UPDATE "emails" SET "deleted_at" = NOW(), "updated_at" = NOW()
+         WHERE "id" = $1 AND "deleted_at" IS NULL
+         RETURNING *`,
+        [id],
+      );
+
+      const row = emailResult.rows[0];
+
+      if (row) {
+        await this.recordEvent(client, EmailEventType.DELETED, row);
+      }
+
+      return row;
+    });
+
+    if (!emailRow) {
+      return null;
+    }
+
     const attachmentsResult = await this.query<AttachmentRow>(
       `SELECT *
        FROM "attachments" 
@@ -215,16 +743,62 @@ export class EmailsSqlRepository
 
   async deleteHard(id: string): Promise<void> {
     await this.transaction(async (client: PoolClient) => {
+      const emailResult = await client.query<EmailRow>(
+        `SELECT * FROM "emails" WHERE id = $1 FOR UPDATE`,
+        [id],
+      );
+
+      // о мягко удаленном письме событие уже записано
+      if (emailResult.rows[0] && !emailResult.rows[0].deleted_at) {
+        await this.recordEvent(
+          client,
+          EmailEventType.DELETED,
+          emailResult.rows[0],
+          {
+            deletedAt: new Date(),
+          },
+        );
+      }
+
       await client.query(`DELETE FROM "attachments" WHERE "email_id" = $1`, [
         id,
       ]);
+      await client.query(
+        `DELETE FROM "email_deliveries" WHERE "email_id" = $1`,
+        [id],
+      );
       await client.query(`DELETE FROM "emails" WHERE "id" = $1`, [id]);
     });
   }
 
-  async getEmailsIdOlderThan(days: number): Promise<string[]> {
+  async restore(id: string): Promise<EmailEntity | null> {
+    const emailResult = await this.query<EmailRow>(
+      `UPDATE "emails" SET "deleted_at" = NULL, "updated_at" = NOW()
+       WHERE "id" = $1 AND "deleted_at" IS NOT NULL
+       RETURNING *`,
+      [id],
+    );
+
+    const emailRow = emailResult.rows[0];
+
+    if (!emailRow) {
+      return null;
+    }
+
+    const attachmentsByEmailId = await this.findAttachmentsByEmailIds([id]);
+
+    return this.mapRowToEmail(emailRow, attachmentsByEmailId[id] || []);
+  }
+
+  async getEmailsIdOlderThan(
+    days: number,
+    excludeStatuses: EmailStatus[],
+  ): Promise<string[]> {
     const emailsResult = await this.query<EmailRow>(
-      `SELECT * FROM "emails" WHERE "created_at" < NOW() - INTERVAL '${days} days'`,
+      `SELECT * FROM "emails"
+       WHERE "created_at" < NOW() - INTERVAL '${days} days'
+         AND status <> ALL($1)`,
+      [excludeStatuses],
     );
 
     const emails = emailsResult.rows;
@@ -259,6 +833,167 @@ export class EmailsSqlRepository
     // );
   }
 
+  // аренды для писем, уже переведенных в PENDING в той же транзакции
+  private async insertDeliveries(
+    client: PoolClient,
+    emailRows: EmailRow[],
+    lease: DeliveryLease,
+  ): Promise<EmailDeliveryEntity[]> {
+    const deliveries: EmailDeliveryEntity[] = [];
+
+    for (const emailRow of emailRows) {
+      const result = await client.query<EmailDeliveryRow>(
+        `INSERT INTO "email_deliveries" (
+           "email_id", attempt, state, "worker_id", "lease_expires_at", "created_at", "updated_at"
+         ) VALUES ($1, $2, $3, $4, NOW() + $5 * INTERVAL '1 millisecond', NOW(), NOW())
+         RETURNING *`,
+        [
+          emailRow.id,
+          (emailRow.attempts || []).length + 1,
+          DeliveryState.CLAIMED,
+          lease.workerId,
+          lease.duration,
+        ],
+      );
+
+      deliveries.push(this.mapRowToDelivery(result.rows[0]));
+    }
+
+    return deliveries;
+  }
+
+  private buildUpdateQuery(data: UpdateEmailData): {
+    text: string;
+    values: any[];
+  } {
+    const updateFields: string[] = ["status = $1", '"updated_at" = NOW()'];
+
+    const values: any[] = [data.status];
+
+    let paramIndex = 2;
+
+    if (data.sentAt !== undefined) {
+      updateFields.push(`"sent_at" = $${paramIndex}`);
+      values.push(data.sentAt);
+      paramIndex++;
+    }
+
+    if (data.error !== undefined) {
+      updateFields.push(`error = $${paramIndex}`);
+      values.push(data.error);
+      paramIndex++;
+    }
+
+    if (data.provider !== undefined) {
+      updateFields.push(`provider = $${paramIndex}`);
+      values.push(data.provider);
+      paramIndex++;
+    }
+
+    if (data.messageId !== undefined) {
+      updateFields.push(`"message_id" = $${paramIndex}`);
+      values.push(data.messageId);
+      paramIndex++;
+    }
+
+    if (data.acceptedRecipients !== undefined) {
+      updateFields.push(`"accepted_recipients" = $${paramIndex}`);
+      values.push(data.acceptedRecipients);
+      paramIndex++;
+    }
+
+    if (data.rejectedRecipients !== undefined) {
+      updateFields.push(`"rejected_recipients" = $${paramIndex}`);
+      values.push(data.rejectedRecipients);
+      paramIndex++;
+    }
+
+    if (data.smtpResponse !== undefined) {
+      updateFields.push(`"smtp_response" = $${paramIndex}`);
+      values.push(data.smtpResponse);
+      paramIndex++;
+    }
+
+    if (data.sendDurationMs !== undefined) {
+      updateFields.push(`"send_duration_ms" = $${paramIndex}`);
+      values.push(data.sendDurationMs);
+      paramIndex++;
+    }
+
+    if (data.suppressedRecipients !== undefined) {
+      updateFields.push(`"suppressed_recipients" = $${paramIndex}`);
+      values.push(data.suppressedRecipients);
+      paramIndex++;
+    }
+
+    if (data.diagnosticCode !== undefined) {
+      updateFields.push(`"diagnostic_code" = $${paramIndex}`);
+      values.push(data.diagnosticCode);
+      paramIndex++;
+    }
+
+    if (data.attempt !== undefined) {
+      updateFields.push(`attempts = attempts || $${paramIndex}::jsonb`);
+      values.push(JSON.stringify([data.attempt]));
+      paramIndex++;
+    }
+
+    if (data.nextAttemptAt !== undefined) {
+      updateFields.push(`"next_attempt_at" = $${paramIndex}`);
+      values.push(data.nextAttemptAt);
+      paramIndex++;
+    }
+
+    values.push(data.id);
+
+    return {
+      text: `UPDATE "emails" 
+       SET ${updateFields.join(", ")} 
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values,
+    };
+  }
+
+  // событие записывается в outbox в транзакции изменения письма.
+  // Вложения в событие не входят, письмо собирается из строки без их загрузки
+  private async recordEvent(
+    client: PoolClient,
+    type: EmailEventType,
+    emailRow: EmailRow,
+    changes: Partial<EmailEntity> = {},
+  ): Promise<void> {
+    await this.eventsOutbox.record(
+      client,
+      createEmailEvent(type, {
+        ...this.mapRowToEmail(emailRow, []),
+        ...changes,
+      }),
+    );
+  }
+
+  private async findAttachmentsByEmailIds(
+    emailIds: string[],
+  ): Promise<Record<string, AttachmentEntity[]>> {
+    if (emailIds.length === 0) {
+      return {};
+    }
+
+    const attachmentsResult = await this.query<AttachmentRow>(
+      `SELECT * FROM "attachments" WHERE "email_id" = ANY($1)`,
+      [emailIds],
+    );
+
+    return attachmentsResult.rows.reduce<Record<string, AttachmentEntity[]>>(
+      (acc, row) => {
+        if (!acc[row.email_id]) acc[row.email_id] = [];
+        acc[row.email_id].push(this.mapRowToAttachment(row));
+        return acc;
+      },
+      {},
+    );
+  }
+
   private mapRowToEmail(
     emailRow: EmailRow,
     attachments: AttachmentEntity[],
@@ -276,13 +1011,58 @@ export class EmailsSqlRepository
       cc: emailRow.cc,
       bcc: emailRow.bcc,
       html: emailRow.html || null,
+      templateId: emailRow.template_id || null,
+      templateVersion: emailRow.template_version ?? null,
+      tag: emailRow.tag || null,
+      apiClientId: emailRow.api_client_id || null,
       attachments: attachments,
       sentAt: emailRow.sent_at || null,
       error: emailRow.error || null,
+      provider: emailRow.provider || null,
+      messageId: emailRow.message_id || null,
+      acceptedRecipients: emailRow.accepted_recipients || [],
+      rejectedRecipients: emailRow.rejected_recipients || [],
+      smtpResponse: emailRow.smtp_response || null,
+      sendDurationMs: emailRow.send_duration_ms ?? null,
+      diagnosticCode: emailRow.diagnostic_code || null,
+      suppressedRecipients: emailRow.suppressed_recipients || [],
+      attempts: (emailRow.attempts || []).map((attempt) =>
+        this.mapJsonToAttempt(attempt),
+      ),
+      nextAttemptAt: emailRow.next_attempt_at || null,
+      scheduledAt: emailRow.scheduled_at || null,
+      timezone: emailRow.timezone || null,
       deletedAt: emailRow.deleted_at || null,
     };
   }
 
+  private mapJsonToAttempt(attempt: AttemptJson): EmailAttempt {
+    return {
+      attempt: attempt.attempt,
+      at: new Date(attempt.at),
+      provider: attempt.provider ?? null,
+      success: attempt.success,
+      error: attempt.error,
+      responseCode: attempt.responseCode,
+      errorCode: attempt.errorCode,
+      response: attempt.response ?? null,
+      durationMs: attempt.durationMs ?? null,
+    };
+  }
+
+  private mapRowToDelivery(row: EmailDeliveryRow): EmailDeliveryEntity {
+    return {
+      id: row.id,
+      emailId: row.email_id,
+      attempt: row.attempt,
+      state: row.state,
+      workerId: row.worker_id,
+      leaseExpiresAt: row.lease_expires_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
   private mapRowToAttachment(attachmentRow: AttachmentRow): AttachmentEntity {
     return {
       id: attachmentRow.id,
@@ -291,7 +1071,7 @@ export class EmailsSqlRepository
       originalName: attachmentRow.original_name,
       mimetype: attachmentRow.mimetype,
       size: attachmentRow.size,
-      path: attachmentRow.path,
+      storageKey: attachmentRow.storage_key,
       url: attachmentRow.url,
       createdAt: attachmentRow.created_at,
     };
@@ -0,0 +1,110 @@
+import type { EmailEntity } from "../domain/email.entity.ts";
+import type {
+  EmailProvider,
+  SendEmailResult,
+} from "../application/interfaces/email-provider.ts";
+import type { HttpProviderConfig } from "../config/providers.config.ts";
+import type { StorageService } from "../application/storage.service.ts";
+
+// Заготовка провайдера для HTTP API (SendGrid, Mailgun, внутренний relay и т.п.).
+// Отправляет письмо JSON-ом на config.url и ожидает в ответе { messageId, accepted?, rejected? }.
+// Для конкретного сервиса формат запроса нужно адаптировать в toRequestBody.
+// Вложения передаются ссылками: url отправителя или ссылка на объект хранилища.
+// Хранилище без ссылок (локальный диск) - такие вложения заготовка не отправляет
+export class HttpApiProvider implements EmailProvider {
+  private readonly options: HttpProviderConfig;
+  private readonly storageService: StorageService;
+
+  constructor(options: HttpProviderConfig, storageService: StorageService) {
+    this.options = options;
+    this.storageService = storageService;
+  }
+
+  async send(email: EmailEntity): Promise<SendEmailResult> {
+    try {
+      const response = await fetch(this.options.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.options.apiKey && {
+            Authorization: `Bearer ${this.options.apiKey}`,
+          }),
+        },
+        body: JSON.stringify(await this.toRequestBody(email)),
+        signal: AbortSignal.timeout(this.options.timeout),
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+
+        return {
+          success: false,
+          error: `HTTP ${response.status}: ${text || response.statusText}`,
+          response: `${response.status} ${response.statusText}`.trim(),
+          // 429 и 5xx - временные ошибки, остальные 4xx - запрос отклонен
+          errorCode:
+            response.status === 429 || response.status >= 500
+              ? "ECONNECTION"
+              : "EREJECTED",
+        };
+      }
+
+      const data = (await response.json().catch(() => ({}))) as {
+        messageId?: string;
+        accepted?: string[];
+        rejected?: string[];
+      };
+
+      return {
+        success: true,
+        messageId: data.messageId,
+        accepted: data.accepted ?? [...email.to, ...email.cc, ...email.bcc],
+        rejected: data.rejected ?? [],
+        response: `${response.status} ${response.statusText}`.trim(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorCode:
+          error instanceof Error && error.name === "TimeoutError"
+            ? "ETIMEDOUT"
+            : "ECONNECTION",
+      };
+    }
+  }
+
+  private async toRequestBody(email: EmailEntity) {
+    const attachments: {
+      filename: string;
+      contentType: string;
+      url: string;
+    }[] = [];
+
+    for (const attachment of email.attachments) {
+      const url = attachment.storageKey
+        ? await this.storageService.getSignedUrl(attachment.storageKey)
+        : attachment.url;
+
+      if (url) {
+        attachments.push({
+          filename: attachment.originalName,
+          contentType: attachment.mimetype,
+          url,
+        });
+      }
+    }
+
+    return {
+      from: { email: email.from, name: email.displayName },
+      to: email.to,
+      cc: email.cc,
+      bcc: email.bcc,
+      subject: email.subject,
+      text: email.body,
+      html: email.html,
+      tag: email.tag,
+      attachments,
+    };
+  }
+}
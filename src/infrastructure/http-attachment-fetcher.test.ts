@@ -0,0 +1,190 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AttachmentFetchError } from "../application/errors/attachment-errors.ts";
+import { createPublicNetwork } from "../libs/network-address.ts";
+import { HttpAttachmentFetcher } from "./http-attachment-fetcher.ts";
+
+const PDF = Buffer.concat([Buffer.from("%PDF-1.7\n"), Buffer.alloc(100, 0x20)]);
+
+describe("HttpAttachmentFetcher", () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: string[];
+
+  beforeAll(async () => {
+    requests = [];
+    server = createServer((req, res) => {
+      requests.push(req.url!);
+
+      switch (req.url) {
+        case "/report.pdf":
+          // сервер не знает тип файла, он определяется по содержимому
+          res.writeHead(200, { "Content-Type": "application/octet-stream" });
+          res.end(PDF);
+          return;
+        case "/notes.txt":
+          res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" });
+          res.end("hello");
+          return;
+        case "/large":
+          // без Content-Length, размер проверяется при чтении
+          res.writeHead(200, { "Transfer-Encoding": "chunked" });
+          res.write(Buffer.alloc(600));
+          res.end(Buffer.alloc(600));
+          return;
+        case "/slow":
+          setTimeout(() => res.end("late"), 500);
+          return;
+        case "/redirect":
+          res.writeHead(302, { Location: "/report.pdf" });
+          res.end();
+          return;
+        case "/redirect-external":
+          res.writeHead(302, { Location: "http://files.example.com/a.pdf" });
+          res.end();
+          return;
+        case "/unavailable":
+          res.writeHead(503);
+          res.end();
+          return;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // тестовый сервер слушает loopback
+  const createFetcher = (
+    allowedHosts: string[] = ["127.0.0.1"],
+    allowPrivateNetworks = true,
+  ) =>
+    new HttpAttachmentFetcher({
+      allowedHosts,
+      timeout: 200,
+      maxSize: 1_000,
+      allowPrivateNetworks,
+    });
+
+  const fetchError = async (fetcher: HttpAttachmentFetcher, path: string) => {
+    const error = await fetcher.fetch(`${baseUrl}${path}`).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AttachmentFetchError);
+
+    return error as AttachmentFetchError;
+  };
+
+  it("should sniff the content type from file content", async () => {
+    const fetched = await createFetcher().fetch(`${baseUrl}/report.pdf`);
+
+    expect(fetched.contentType).toBe("application/pdf");
+    expect(fetched.content.equals(PDF)).toBe(true);
+  });
+
+  it("should fall back to the declared content type", async () => {
+    const fetched = await createFetcher().fetch(`${baseUrl}/notes.txt`);
+
+    expect(fetched).toEqual({
+      content: Buffer.from("hello"),
+      contentType: "text/plain",
+    });
+  });
+
+  it("should follow redirects to allowed hosts only", async () => {
+    const fetched = await createFetcher().fetch(`${baseUrl}/redirect`);
+    expect(fetched.contentType).toBe("application/pdf");
+
+    const error = await fetchError(createFetcher(), "/redirect-external");
+    expect(error).toMatchObject({ permanent: true });
+    expect(error.reason).toBe("host files.example.com is not allowed");
+  });
+
+  it("should reject hosts outside the allow-list", async () => {
+    const error = await fetchError(
+      createFetcher(["*.example.com"]),
+      "/report.pdf",
+    );
+
+    expect(error.permanent).toBe(true);
+  });
+
+  it("should reject non-public addresses of the url and redirect targets", async () => {
+    const error = await fetchError(createFetcher(["*"], false), "/report.pdf");
+
+    expect(error).toMatchObject({
+      permanent: true,
+      reason: "host 127.0.0.1 resolves to non-public address 127.0.0.1",
+    });
+
+    const metadata = await createFetcher(["*"], false)
+      .fetch("http://169.254.169.254/latest/meta-data/")
+      .catch((e) => e);
+
+    expect(metadata.reason).toBe(
+      "host 169.254.169.254 resolves to non-public address 169.254.169.254",
+    );
+  });
+
+  it("should connect only to the address that passed the check", async () => {
+    const { port } = server.address() as AddressInfo;
+    const resolved = [["93.184.216.34"], ["127.0.0.1"]];
+    // DNS rebinding: проверка получает публичный адрес, соединение - loopback
+    const fetcher = new HttpAttachmentFetcher(
+      {
+        allowedHosts: ["rebind.example.com"],
+        timeout: 200,
+        maxSize: 1_000,
+        allowPrivateNetworks: false,
+      },
+      createPublicNetwork(async () => resolved.shift() ?? ["127.0.0.1"]),
+    );
+    const before = requests.length;
+
+    const error = await fetcher
+      .fetch(`http://rebind.example.com:${port}/report.pdf`)
+      .catch((e) => e);
+
+    expect(error).toMatchObject({
+      permanent: true,
+      reason:
+        "host rebind.example.com resolves to non-public address 127.0.0.1",
+    });
+    expect(resolved).toEqual([]);
+    expect(requests.length).toBe(before);
+  });
+
+  it("should stop reading bodies larger than the limit", async () => {
+    const error = await fetchError(createFetcher(), "/large");
+
+    expect(error).toMatchObject({
+      permanent: true,
+      reason: "file exceeds 1000 bytes",
+    });
+  });
+
+  it("should report timeouts and server errors as transient", async () => {
+    expect(await fetchError(createFetcher(), "/slow")).toMatchObject({
+      permanent: false,
+      reason: "timed out after 200ms",
+    });
+    expect(await fetchError(createFetcher(), "/unavailable")).toMatchObject({
+      permanent: false,
+      reason: "HTTP 503",
+    });
+    expect(await fetchError(createFetcher(), "/missing")).toMatchObject({
+      permanent: true,
+      reason: "HTTP 404",
+    });
+  });
+});
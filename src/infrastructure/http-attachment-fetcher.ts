@@ -0,0 +1,216 @@
+import { fetch, type Response } from "undici";
+import { config } from "../config/env.ts";
+import { isHostAllowed } from "../application/attachments.service.ts";
+import { AttachmentFetchError } from "../application/errors/attachment-errors.ts";
+import type {
+  AttachmentFetcher,
+  FetchedAttachment,
+} from "../application/interfaces/attachment-fetcher.ts";
+import { sniffContentType } from "../libs/content-type.ts";
+import {
+  findNonPublicAddress,
+  findNonPublicAddressError,
+  publicNetwork,
+  type PublicNetwork,
+} from "../libs/network-address.ts";
+
+const MAX_REDIRECTS = 3;
+
+export interface HttpAttachmentFetcherOptions {
+  allowedHosts: string[];
+  // таймаут загрузки вместе с телом ответа, мс
+  timeout: number;
+  maxSize: number;
+  // загрузка с loopback и адресов частных сетей, только для разработки
+  allowPrivateNetworks: boolean;
+}
+
+// Загрузка вложений по url через fetch. Редиректы выполняются вручную, чтобы проверить
+// каждый адрес: хост по списку разрешенных и IP адреса хоста (только публичные).
+// Соединение идет через dispatcher, который подключается только к проверенным публичным адресам
+export class HttpAttachmentFetcher implements AttachmentFetcher {
+  private readonly options: HttpAttachmentFetcherOptions;
+  private readonly network: PublicNetwork;
+
+  constructor(
+    options: HttpAttachmentFetcherOptions = {
+      allowedHosts: config.attachments.allowedHosts,
+      timeout: config.attachments.fetchTimeout,
+      maxSize: config.attachments.maxRemoteSize,
+      allowPrivateNetworks: config.attachments.fetchAllowPrivateNetworks,
+    },
+    network: PublicNetwork = publicNetwork,
+  ) {
+    this.options = options;
+    this.network = network;
+  }
+
+  async fetch(url: string): Promise<FetchedAttachment> {
+    const signal = AbortSignal.timeout(this.options.timeout);
+    let current = new URL(url);
+
+    for (let redirects = 0; ; redirects++) {
+      if (!isHostAllowed(current.hostname, this.options.allowedHosts)) {
+        throw new AttachmentFetchError(
+          url,
+          `host ${current.hostname} is not allowed`,
+          true,
+        );
+      }
+
+      await this.assertPublicHost(url, current);
+
+      const response = await this.request(url, current, signal);
+
+      const location = response.headers.get("location");
+
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+
+        if (redirects >= MAX_REDIRECTS) {
+          throw new AttachmentFetchError(url, "too many redirects", true);
+        }
+
+        current = new URL(location, current);
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+
+        // 429 и 5xx - временные ошибки
+        throw new AttachmentFetchError(
+          url,
+          `HTTP ${response.status}`,
+          response.status !== 429 && response.status < 500,
+        );
+      }
+
+      const contentLength = Number(response.headers.get("content-length"));
+
+      if (contentLength > this.options.maxSize) {
+        await response.body?.cancel();
+        throw this.tooLarge(url);
+      }
+
+      const content = await this.readBody(url, response);
+      const declared = response.headers
+        .get("content-type")
+        ?.split(";")[0]
+        .trim()
+        .toLowerCase();
+
+      return {
+        content,
+        contentType:
+          sniffContentType(content) || declared || "application/octet-stream",
+      };
+    }
+  }
+
+  private async assertPublicHost(url: string, target: URL): Promise<void> {
+    if (this.options.allowPrivateNetworks) {
+      return;
+    }
+
+    let address: string | null;
+
+    try {
+      address = await findNonPublicAddress(
+        target.hostname,
+        this.network.resolve,
+      );
+    } catch (error) {
+      // хост не разрешился - как ошибка соединения, временная
+      throw new AttachmentFetchError(url, this.describe(error), false);
+    }
+
+    if (address) {
+      throw new AttachmentFetchError(
+        url,
+        `host ${target.hostname} resolves to non-public address ${address}`,
+        true,
+      );
+    }
+  }
+
+  private async request(
+    url: string,
+    target: URL,
+    signal: AbortSignal,
+  ): Promise<Response> {
+    try {
+      return await fetch(target, {
+        headers: { "User-Agent": "notification-service-attachments" },
+        redirect: "manual",
+        signal,
+        dispatcher: this.options.allowPrivateNetworks
+          ? undefined
+          : this.network.dispatcher,
+      });
+    } catch (error) {
+      // адрес сменился после проверки (DNS rebinding) - постоянная ошибка
+      const nonPublic = findNonPublicAddressError(error);
+
+      if (nonPublic) {
+        throw new AttachmentFetchError(url, nonPublic.message, true);
+      }
+
+      throw new AttachmentFetchError(url, this.describe(error), false);
+    }
+  }
+
+  // тело читается по частям, загрузка прерывается при превышении maxSize
+  private async readBody(url: string, response: Response): Promise<Buffer> {
+    if (!response.body) {
+      return Buffer.alloc(0);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          break;
+        }
+
+        size += value.length;
+
+        if (size > this.options.maxSize) {
+          await reader.cancel();
+          throw this.tooLarge(url);
+        }
+
+        chunks.push(value);
+      }
+    } catch (error) {
+      if (error instanceof AttachmentFetchError) {
+        throw error;
+      }
+
+      throw new AttachmentFetchError(url, this.describe(error), false);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  private tooLarge(url: string): AttachmentFetchError {
+    return new AttachmentFetchError(
+      url,
+      `file exceeds ${this.options.maxSize} bytes`,
+      true,
+    );
+  }
+
+  private describe(error: unknown): string {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      return `timed out after ${this.options.timeout}ms`;
+    }
+
+    return error instanceof Error ? error.message : "Unknown error";
+  }
+}
@@ -0,0 +1,63 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createPublicNetwork } from "../libs/network-address.ts";
+import { HttpWebhookSender } from "./http-webhook-sender.ts";
+
+describe("HttpWebhookSender", () => {
+  let server: Server;
+  let port: number;
+  let requests: number;
+
+  beforeAll(async () => {
+    requests = 0;
+    server = createServer((req, res) => {
+      requests++;
+      res.writeHead(500, { "Content-Type": "text/plain" });
+      res.end("internal secret");
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const request = (host: string) => ({
+    url: `http://${host}:${port}/hook`,
+    body: "{}",
+    headers: {},
+    timeout: 1_000,
+  });
+
+  it("should report the status without the response body", async () => {
+    const sender = new HttpWebhookSender({ allowPrivateNetworks: true });
+
+    expect(await sender.send(request("127.0.0.1"))).toEqual({
+      status: 500,
+      error: "HTTP 500",
+    });
+  });
+
+  it("should connect only to the address that passed the check", async () => {
+    const resolved = [["93.184.216.34"], ["127.0.0.1"]];
+    // DNS rebinding: проверка получает публичный адрес, соединение - loopback
+    const sender = new HttpWebhookSender(
+      { allowPrivateNetworks: false },
+      createPublicNetwork(async () => resolved.shift() ?? ["127.0.0.1"]),
+    );
+    const before = requests;
+
+    expect(await sender.send(request("rebind.example.com"))).toEqual({
+      status: null,
+      error: "host rebind.example.com resolves to non-public address 127.0.0.1",
+    });
+    expect(resolved).toEqual([]);
+    expect(requests).toBe(before);
+  });
+});
@@ -0,0 +1,97 @@
+import { fetch } from "undici";
+import { config } from "../config/env.ts";
+import type {
+  WebhookRequest,
+  WebhookResponse,
+  WebhookSender,
+} from "../application/interfaces/webhook-sender.ts";
+import {
+  findNonPublicAddress,
+  findNonPublicAddressError,
+  publicNetwork,
+  type PublicNetwork,
+} from "../libs/network-address.ts";
+
+export interface HttpWebhookSenderOptions {
+  // доставка на loopback и адреса частных сетей, только для разработки
+  allowPrivateNetworks: boolean;
+}
+
+// Отправка вебхуков через fetch. Редиректы не выполняются: ответ 3xx считается ошибкой доставки.
+// Адреса хоста проверяются перед каждой доставкой, тело ответа не сохраняется:
+// через журнал доставок клиент не должен читать внутренние сервисы.
+// Соединение идет через dispatcher, который подключается только к проверенным публичным адресам
+export class HttpWebhookSender implements WebhookSender {
+  private readonly options: HttpWebhookSenderOptions;
+  private readonly network: PublicNetwork;
+
+  constructor(
+    options: HttpWebhookSenderOptions = {
+      allowPrivateNetworks: config.webhooks.allowPrivateNetworks,
+    },
+    network: PublicNetwork = publicNetwork,
+  ) {
+    this.options = options;
+    this.network = network;
+  }
+
+  async verifyUrl(url: string): Promise<string | null> {
+    if (this.options.allowPrivateNetworks) {
+      return null;
+    }
+
+    const { hostname } = new URL(url);
+
+    try {
+      const address = await findNonPublicAddress(
+        hostname,
+        this.network.resolve,
+      );
+
+      return address
+        ? `host ${hostname} resolves to non-public address ${address}`
+        : null;
+    } catch {
+      return `host ${hostname} could not be resolved`;
+    }
+  }
+
+  async send(request: WebhookRequest): Promise<WebhookResponse> {
+    const rejection = await this.verifyUrl(request.url);
+
+    if (rejection) {
+      return { status: null, error: rejection };
+    }
+
+    try {
+      const response = await fetch(request.url, {
+        method: "POST",
+        headers: {
+          "User-Agent": "notification-service-webhooks",
+          ...request.headers,
+        },
+        body: request.body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(request.timeout),
+        dispatcher: this.options.allowPrivateNetworks
+          ? undefined
+          : this.network.dispatcher,
+      });
+
+      // тело ответа не нужно, соединение освобождается без чтения
+      await response.body?.cancel().catch(() => {});
+
+      return {
+        status: response.status,
+        error: response.ok ? null : `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        status: null,
+        error:
+          findNonPublicAddressError(error)?.message ??
+          (error instanceof Error ? error.message : "Unknown error"),
+      };
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { BaseRepository } from "../libs/db-client.ts";
+import type { IdempotencyKeysRepository } from "../application/interfaces/idempotency-keys-repository.ts";
+import type { IdempotencyKeyEntity } from "../domain/idempotency-key.entity.ts";
+
+interface IdempotencyKeyRow {
+  key: string;
+  request_hash: string;
+  response_status: number | null;
+  response_body: unknown;
+  created_at: Date;
+  expires_at: Date;
+}
+
+export class IdempotencyKeysSqlRepository
+  extends BaseRepository
+  implements IdempotencyKeysRepository
+{
+  async acquire(
+    key: string,
+    requestHash: string,
+    lockTimeout: number,
+  ): Promise<IdempotencyKeyEntity | null> {
+    // истекший ключ занимается заново, действующий не меняется (уникальность по key)
+    const result = await this.query<IdempotencyKeyRow>(
+      `INSERT INTO "idempotency_keys" (
+         key, "request_hash", "created_at", "expires_at"
+       ) VALUES ($1, $2, NOW(), NOW() + $3 * INTERVAL '1 millisecond')
+       ON CONFLICT (key) DO UPDATE SET
+         "request_hash" = EXCLUDED."request_hash",
+         "response_status" = NULL,
+         "response_body" = NULL,
+         "created_at" = EXCLUDED."created_at",
+         "expires_at" = EXCLUDED."expires_at"
+       WHERE "idempotency_keys"."expires_at" <= NOW()
+       RETURNING *`,
+      [key, requestHash, lockTimeout],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToEntity(row) : null;
+  }
+
+  async findByKey(key: string): Promise<IdempotencyKeyEntity | null> {
+    const result = await this.query<IdempotencyKeyRow>(
+      `SELECT * FROM "idempotency_keys" WHERE key = $1`,
+      [key],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToEntity(row) : null;
+  }
+
+  async complete(
+    key: string,
+    status: number,
+    body: unknown,
+    ttl: number,
+  ): Promise<void> {
+    await this.query(
+      `UPDATE "idempotency_keys"
+       SET "response_status" = $2, "response_body" = $3,
+           "expires_at" = NOW() + $4 * INTERVAL '1 millisecond'
+       WHERE key = $1`,
+      [key, status, JSON.stringify(body), ttl],
+    );
+  }
+
+  async release(key: string): Promise<void> {
+    await this.query(
+      `DELETE FROM "idempotency_keys"
+       WHERE key = $1 AND "response_status" IS NULL`,
+      [key],
+    );
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await this.query(
+      `DELETE FROM "idempotency_keys" WHERE "expires_at" <= NOW()`,
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  private mapRowToEntity(row: IdempotencyKeyRow): IdempotencyKeyEntity {
+    return {
+      key: row.key,
+      requestHash: row.request_hash,
+      responseStatus: row.response_status,
+      responseBody: row.response_body,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+// Читает отчеты о доставке и жалобы из локального Maildir (например, ящик bounces@ на MTA).
+// Новые письма берутся из new/, после обработки переносятся в cur/ с флагом S (прочитано).
+// Если обработка упала (например, недоступна база), письмо остается в new/ до следующего запуска
+
+import { mkdir, readdir, readFile, rename } from "fs/promises";
+import path from "path";
+import type { BouncesService } from "../../application/bounces.service.ts";
+
+export class BounceMailboxJob {
+  private readonly bouncesService: BouncesService;
+  private readonly maildir: string;
+
+  constructor(bouncesService: BouncesService, maildir: string) {
+    this.bouncesService = bouncesService;
+    this.maildir = path.resolve(maildir);
+  }
+
+  async processMailbox(): Promise<void> {
+    const newDir = path.join(this.maildir, "new");
+    const curDir = path.join(this.maildir, "cur");
+
+    await mkdir(curDir, { recursive: true });
+
+    let files: string[];
+
+    try {
+      files = await readdir(newDir);
+    } catch (error) {
+      console.error(`Failed to read bounce maildir ${newDir}:`, error);
+      return;
+    }
+
+    for (const file of files) {
+      if (file.startsWith(".")) {
+        continue;
+      }
+
+      try {
+        const raw = await readFile(path.join(newDir, file), "utf8");
+        const result = await this.bouncesService.processReport(raw);
+
+        if (result.outcome === "updated") {
+          console.log(
+            `Email ${result.emailId} marked as ${result.status} from ${file}`,
+          );
+        }
+
+        await rename(
+          path.join(newDir, file),
+          path.join(curDir, `${file.split(":")[0]}:2,S`),
+        );
+      } catch (error) {
+        console.error(`Failed to process bounce message ${file}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// Восстановление писем, зависших в PENDING после падения воркера или процесса:
+// истекшая аренда до вызова провайдера - письмо возвращается в QUEUED,
+// во время вызова - DEAD_LETTER без повтора (письмо могло уйти).
+// Запускается по расписанию из Scheduler
+
+import type { EmailsService } from "../../application/emails.service.ts";
+
+export class DeliveryRecoveryJob {
+  private readonly emailService: EmailsService;
+
+  // cron может сработать повторно, пока предыдущий запуск не закончился
+  private running = false;
+
+  constructor(emailService: EmailsService) {
+    this.emailService = emailService;
+  }
+
+  async recoverStuckDeliveries(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const { requeued, interrupted } =
+        await this.emailService.recoverStuckDeliveries();
+
+      if (requeued.length > 0) {
+        console.log(`Requeued ${requeued.length} stuck emails`);
+      }
+
+      if (interrupted.length > 0) {
+        console.warn(
+          `Emails with interrupted delivery moved to DEAD_LETTER: ${interrupted.join(", ")}`,
+        );
+      }
+    } catch (error) {
+      console.error("Failed to recover stuck deliveries:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
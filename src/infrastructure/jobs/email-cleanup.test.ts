@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import type { EmailsService } from "../../application/emails.service.ts";
+import type { EmailsRepository } from "../../application/interfaces/emails-repository.ts";
+import { EmailStatus } from "../../domain/types.ts";
+import { EmailCleanupJob } from "./email-cleanup.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("EmailCleanupJob", () => {
+  const emails = [
+    { id: "sent", status: EmailStatus.SENT, createdAt: Date.now() - 40 * DAY },
+    // отложено на 60 дней вперед, создано раньше срока хранения
+    {
+      id: "scheduled",
+      status: EmailStatus.SCHEDULED,
+      createdAt: Date.now() - 40 * DAY,
+    },
+    {
+      id: "retry",
+      status: EmailStatus.FAILED,
+      createdAt: Date.now() - 40 * DAY,
+    },
+    { id: "recent", status: EmailStatus.SENT, createdAt: Date.now() - DAY },
+  ];
+
+  const repository = {
+    async getEmailsIdOlderThan(days: number, excludeStatuses: EmailStatus[]) {
+      return emails
+        .filter(
+          (email) =>
+            email.createdAt < Date.now() - days * DAY &&
+            !excludeStatuses.includes(email.status),
+        )
+        .map((email) => email.id);
+    },
+  };
+
+  it("should not delete emails that still wait for delivery", async () => {
+    const deleted: string[] = [];
+    const emailsService = {
+      async deleteEmailSoft(id: string) {
+        deleted.push(id);
+      },
+    };
+
+    await new EmailCleanupJob(
+      repository as unknown as EmailsRepository,
+      emailsService as unknown as EmailsService,
+    ).softDeleteEmails();
+
+    expect(deleted).toEqual(["sent"]);
+  });
+});
@@ -1,9 +1,14 @@
 // Выполняет мягкое удаление emails старше 30 дней
 // Выполняет полное удаление emails старше 180 дней
-// Примечание: при мягком удалении, если у письма были связанные файла, то файлы удаляются из хранилища (папка uploads)
+// Примечание: при мягком удалении файлы вложений удаляются из хранилища, если на них не ссылаются другие письма
+// Письма, которые еще ждут отправки или повтора (в том числе отложенные на срок больше 30 дней), не удаляются
 
 import type { EmailsService } from "../../application/emails.service.ts";
 import type { EmailsRepository } from "../../application/interfaces/emails-repository.ts";
+import type { AuditContext } from "../../application/types/audit-context.ts";
+import { UNFINISHED_EMAIL_STATUSES } from "../../domain/types.ts";
+
+const CLEANUP_AUDIT_CONTEXT: AuditContext = { actor: "system:cleanup" };
 
 export class EmailCleanupJob {
   private readonly emailsRepository: EmailsRepository;
@@ -17,13 +22,16 @@ export class EmailCleanupJob {
   // soft delete emails older than 30 days
   async softDeleteEmails(): Promise<void> {
     try {
-      const emailIds = await this.emailsRepository.getEmailsIdOlderThan(30);
+      const emailIds = await this.emailsRepository.getEmailsIdOlderThan(
+        30,
+        UNFINISHED_EMAIL_STATUSES,
+      );
       if (emailIds.length === 0) {
         return;
       }
 
       const deletePromises = emailIds.map((emailId) =>
-        this.emailService.deleteEmailSoft(emailId),
+        this.emailService.deleteEmailSoft(emailId, CLEANUP_AUDIT_CONTEXT),
       );
 
       const results = await Promise.allSettled(deletePromises);
@@ -45,13 +53,16 @@ export class EmailCleanupJob {
   // hard delete emails older than 180 days
   async hardDeleteEmails(): Promise<void> {
     try {
-      const emailIds = await this.emailsRepository.getEmailsIdOlderThan(180);
+      const emailIds = await this.emailsRepository.getEmailsIdOlderThan(
+        180,
+        UNFINISHED_EMAIL_STATUSES,
+      );
       if (emailIds.length === 0) {
         return;
       }
 
       const deletePromises = emailIds.map((emailId) =>
-        this.emailService.deleteEmailHard(emailId),
+        this.emailService.deleteEmailHard(emailId, CLEANUP_AUDIT_CONTEXT),
       );
 
       const results = await Promise.allSettled(deletePromises);
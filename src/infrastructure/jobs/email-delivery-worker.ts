@@ -0,0 +1,97 @@
+// Фоновый воркер асинхронной отправки.
+// Периодически забирает из базы письма в статусе QUEUED и FAILED с подошедшим
+// временем повтора (-> PENDING под аренду) и отправляет их через EmailsService
+// (PENDING -> SENT / FAILED с повтором / DEAD_LETTER)
+
+import type { EmailsService } from "../../application/emails.service.ts";
+
+export class EmailDeliveryWorker {
+  private readonly emailService: EmailsService;
+  private readonly pollInterval: number;
+  private readonly batchSize: number;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private currentRun: Promise<void> | null = null;
+
+  constructor(
+    emailService: EmailsService,
+    options: { pollInterval: number; batchSize: number },
+  ) {
+    this.emailService = emailService;
+    this.pollInterval = options.pollInterval;
+    this.batchSize = options.batchSize;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.scheduleNext(0);
+
+    console.log(
+      `Email delivery worker started (interval ${this.pollInterval}ms, batch ${this.batchSize})`,
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // дожидаемся отправки уже забранной пачки
+    await this.currentRun;
+  }
+
+  /**
+   * Обрабатывает одну пачку писем, возвращает количество обработанных
+   */
+  async processBatch(): Promise<number> {
+    const claimed = await this.emailService.claimEmailsForDelivery(
+      this.batchSize,
+    );
+
+    const results = await Promise.allSettled(
+      claimed.map((claim) => this.emailService.deliverEmail(claim)),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        console.error(
+          `Failed to deliver email ${claimed[index].email.id}:`,
+          result.reason,
+        );
+      }
+    });
+
+    return claimed.length;
+  }
+
+  private scheduleNext(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentRun = this.tick();
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    let processed = 0;
+
+    try {
+      processed = await this.processBatch();
+    } catch (error) {
+      console.error("Email delivery worker failed:", error);
+    }
+
+    // если пачка заполнена целиком, вероятно в очереди есть еще письма
+    this.scheduleNext(processed >= this.batchSize ? 0 : this.pollInterval);
+  }
+}
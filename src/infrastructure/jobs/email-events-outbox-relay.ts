@@ -0,0 +1,72 @@
+// Фоновый воркер outbox событий статуса писем.
+// Периодически забирает события с подошедшим временем попытки и передает их в журнал вебхуков и брокер
+// через EmailEventsOutbox (переданные удаляются, неудачные откладываются с повтором)
+
+import type { EmailEventsOutbox } from "../../application/email-events-outbox.ts";
+
+export class EmailEventsOutboxRelay {
+  private readonly outbox: EmailEventsOutbox;
+  private readonly pollInterval: number;
+  private readonly batchSize: number;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private currentRun: Promise<void> | null = null;
+
+  constructor(
+    outbox: EmailEventsOutbox,
+    options: { pollInterval: number; batchSize: number },
+  ) {
+    this.outbox = outbox;
+    this.pollInterval = options.pollInterval;
+    this.batchSize = options.batchSize;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.scheduleNext(0);
+
+    console.log(
+      `Email events outbox relay started (interval ${this.pollInterval}ms, batch ${this.batchSize})`,
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // дожидаемся уже забранной пачки
+    await this.currentRun;
+  }
+
+  private scheduleNext(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentRun = this.tick();
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    let processed = 0;
+
+    try {
+      processed = await this.outbox.relayDue(this.batchSize);
+    } catch (error) {
+      console.error("Email events outbox relay failed:", error);
+    }
+
+    // если пачка заполнена целиком, вероятно есть еще события
+    this.scheduleNext(processed >= this.batchSize ? 0 : this.pollInterval);
+  }
+}
@@ -0,0 +1,44 @@
+// Передает на отправку письма с отложенной отправкой, время которых подошло:
+// SCHEDULED -> QUEUED, дальше их отправляет EmailDeliveryWorker.
+// Запускается по расписанию из Scheduler
+
+import type { EmailsService } from "../../application/emails.service.ts";
+
+export class ScheduledEmailDispatcher {
+  private readonly emailService: EmailsService;
+  private readonly batchSize: number;
+
+  // cron может сработать повторно, пока предыдущий запуск не закончился
+  private running = false;
+
+  constructor(emailService: EmailsService, options: { batchSize: number }) {
+    this.emailService = emailService;
+    this.batchSize = options.batchSize;
+  }
+
+  async dispatchDueEmails(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      let released: number;
+
+      do {
+        released = await this.emailService.releaseScheduledEmails(
+          this.batchSize,
+        );
+
+        if (released > 0) {
+          console.log(`Dispatched ${released} scheduled emails`);
+        }
+      } while (released >= this.batchSize);
+    } catch (error) {
+      console.error("Failed to dispatch scheduled emails:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
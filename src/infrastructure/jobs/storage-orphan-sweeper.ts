@@ -0,0 +1,37 @@
+// Удаление объектов хранилища вложений, на которые не ссылается ни одно вложение
+// (ошибка удаления при удалении письма, запрос завершился до сохранения письма).
+// Объекты моложе STORAGE_ORPHAN_GRACE_PERIOD не трогаются.
+// Запускается по расписанию из Scheduler
+
+import type { StorageService } from "../../application/storage.service.ts";
+
+export class StorageOrphanSweeperJob {
+  private readonly storageService: StorageService;
+
+  // обход большого хранилища может не закончиться до следующего запуска
+  private running = false;
+
+  constructor(storageService: StorageService) {
+    this.storageService = storageService;
+  }
+
+  async sweepOrphans(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const deleted = await this.storageService.sweepOrphans();
+
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} orphaned attachment files`);
+      }
+    } catch (error) {
+      console.error("Failed to sweep orphaned attachment files:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
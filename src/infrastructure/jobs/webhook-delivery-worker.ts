@@ -0,0 +1,96 @@
+// Фоновый воркер доставки вебхуков.
+// Периодически забирает из журнала доставки PENDING с подошедшим временем попытки
+// и отправляет их через WebhooksService (PENDING -> DELIVERED / PENDING с повтором / FAILED)
+
+import type { WebhooksService } from "../../application/webhooks.service.ts";
+
+export class WebhookDeliveryWorker {
+  private readonly webhooksService: WebhooksService;
+  private readonly pollInterval: number;
+  private readonly batchSize: number;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private currentRun: Promise<void> | null = null;
+
+  constructor(
+    webhooksService: WebhooksService,
+    options: { pollInterval: number; batchSize: number },
+  ) {
+    this.webhooksService = webhooksService;
+    this.pollInterval = options.pollInterval;
+    this.batchSize = options.batchSize;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.scheduleNext(0);
+
+    console.log(
+      `Webhook delivery worker started (interval ${this.pollInterval}ms, batch ${this.batchSize})`,
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // дожидаемся уже забранной пачки
+    await this.currentRun;
+  }
+
+  /**
+   * Обрабатывает одну пачку доставок, возвращает количество обработанных
+   */
+  async processBatch(): Promise<number> {
+    const claimed = await this.webhooksService.claimDueDeliveries(
+      this.batchSize,
+    );
+
+    const results = await Promise.allSettled(
+      claimed.map((claim) => this.webhooksService.deliver(claim)),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        console.error(
+          `Failed to deliver webhook ${claimed[index].delivery.id}:`,
+          result.reason,
+        );
+      }
+    });
+
+    return claimed.length;
+  }
+
+  private scheduleNext(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentRun = this.tick();
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    let processed = 0;
+
+    try {
+      processed = await this.processBatch();
+    } catch (error) {
+      console.error("Webhook delivery worker failed:", error);
+    }
+
+    // если пачка заполнена целиком, вероятно есть еще доставки
+    this.scheduleNext(processed >= this.batchSize ? 0 : this.pollInterval);
+  }
+}
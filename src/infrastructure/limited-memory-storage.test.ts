@@ -0,0 +1,81 @@
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express from "express";
+import multer from "multer";
+import { AttachmentsRejectedError } from "../application/errors/attachment-errors.ts";
+import { LimitedMemoryStorage } from "./limited-memory-storage.ts";
+
+describe("LimitedMemoryStorage", () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const upload = multer({ storage: new LimitedMemoryStorage(100) });
+    const app = express();
+
+    app.post("/", upload.array("files", 30), (req, res) => {
+      const files = req.files as Express.Multer.File[];
+
+      res.json(files.map((file) => file.buffer.toString()));
+    });
+
+    const errorHandler: express.ErrorRequestHandler = (
+      error,
+      req,
+      res,
+      _next,
+    ) => {
+      res.status(422).json({
+        rejected: error instanceof AttachmentsRejectedError,
+        attachments: (error as AttachmentsRejectedError).attachments,
+      });
+    };
+    app.use(errorHandler);
+
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const post = (...files: [string, string][]) => {
+    const form = new FormData();
+
+    for (const [name, content] of files) {
+      form.append("files", new Blob([content]), name);
+    }
+
+    return fetch(url, { method: "POST", body: form });
+  };
+
+  it("should keep files within the total limit in memory", async () => {
+    const response = await post(["a.txt", "hello"], ["b.txt", "world"]);
+
+    expect(await response.json()).toEqual(["hello", "world"]);
+  });
+
+  it("should reject the request once the total limit is exceeded", async () => {
+    const response = await post(
+      ["a.txt", "a".repeat(60)],
+      ["b.txt", "b".repeat(60)],
+      ["c.txt", "c".repeat(60)],
+    );
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      rejected: true,
+      attachments: [
+        {
+          filename: "b.txt",
+          code: "TOTAL_SIZE_EXCEEDED",
+          message: "Total attachments size exceeds 100 bytes",
+        },
+      ],
+    });
+  });
+});
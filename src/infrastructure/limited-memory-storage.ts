@@ -0,0 +1,79 @@
+import type { Request } from "express";
+import type { StorageEngine } from "multer";
+import {
+  AttachmentRejectionCode,
+  AttachmentsRejectedError,
+} from "../application/errors/attachment-errors.ts";
+
+/**
+ * Хранилище multer в памяти с ограничением суммарного размера файлов запроса.
+ * Запрос отклоняется, как только принятые байты превышают лимит, а не после загрузки всех файлов
+ */
+export class LimitedMemoryStorage implements StorageEngine {
+  private readonly maxTotalSize: number;
+  // принято байт файлов запроса
+  private readonly received = new WeakMap<Request, number>();
+
+  constructor(maxTotalSize: number) {
+    this.maxTotalSize = maxTotalSize;
+  }
+
+  _handleFile(
+    req: Request,
+    file: Express.Multer.File,
+    callback: (error?: unknown, info?: Partial<Express.Multer.File>) => void,
+  ): void {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let finished = false;
+
+    const finish = (error: unknown, info?: Partial<Express.Multer.File>) => {
+      if (!finished) {
+        finished = true;
+        callback(error, info);
+      }
+    };
+
+    file.stream.on("data", (chunk: Buffer) => {
+      if (finished) {
+        return;
+      }
+
+      const total = (this.received.get(req) ?? 0) + chunk.length;
+      this.received.set(req, total);
+
+      if (total > this.maxTotalSize) {
+        // остаток потока отбрасывается, multer дочитывает запрос
+        chunks.length = 0;
+        finish(
+          new AttachmentsRejectedError([
+            {
+              filename: file.originalname,
+              code: AttachmentRejectionCode.TOTAL_SIZE_EXCEEDED,
+              message: `Total attachments size exceeds ${this.maxTotalSize} bytes`,
+            },
+          ]),
+        );
+        return;
+      }
+
+      size += chunk.length;
+      chunks.push(chunk);
+    });
+
+    file.stream.on("end", () =>
+      finish(null, { buffer: Buffer.concat(chunks), size }),
+    );
+    file.stream.on("error", (error) => finish(error));
+  }
+
+  _removeFile(
+    req: Request,
+    file: Express.Multer.File,
+    callback: (error: Error | null) => void,
+  ): void {
+    // буфер освобождается, как в multer.memoryStorage
+    (file as Partial<Express.Multer.File>).buffer = undefined;
+    callback(null);
+  }
+}
@@ -4,27 +4,41 @@ import type {
   EmailProvider,
   SendEmailResult,
 } from "../application/interfaces/email-provider.ts";
-import { config } from "../config/env.ts";
+import type { SmtpProviderConfig } from "../config/providers.config.ts";
+import { AttachmentFetchError } from "../application/errors/attachment-errors.ts";
+import type { AttachmentsService } from "../application/attachments.service.ts";
+
+type MailAttachment = {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+};
 
 export class NodemailerProvider implements EmailProvider {
   private transporter: Transporter;
+  private readonly attachmentsService: AttachmentsService;
+
+  constructor(
+    smtp: SmtpProviderConfig,
+    attachmentsService: AttachmentsService,
+  ) {
+    this.attachmentsService = attachmentsService;
 
-  constructor() {
-    const port = config.smtp.port;
+    const port = smtp.port;
 
     const options: Record<string, unknown> = {
-      host: config.smtp.host,
+      host: smtp.host,
       port: port,
-      secure: config.smtp.secure,
-      connectionTimeout: config.smtp.connectionTimeout, // Таймаут установки TCP-соединения, 15 sec recommended
-      greetingTimeout: config.smtp.greetingTimeout, // Таймаут ожидания приветственного сообщения SMTP, 15 sec recommended
-      socketTimeout: config.smtp.socketTimeout, // Таймаут соединения, 120 sec recommended
+      secure: smtp.secure,
+      connectionTimeout: smtp.connectionTimeout, // Таймаут установки TCP-соединения, 15 sec recommended
+      greetingTimeout: smtp.greetingTimeout, // Таймаут ожидания приветственного сообщения SMTP, 15 sec recommended
+      socketTimeout: smtp.socketTimeout, // Таймаут соединения, 120 sec recommended
     };
 
     if (port !== 25) {
       options.auth = {
-        user: config.smtp.auth.user,
-        pass: config.smtp.auth.pass,
+        user: smtp.user,
+        pass: smtp.pass,
       };
     } else {
       // specific options for 25 port
@@ -39,6 +53,22 @@ export class NodemailerProvider implements EmailProvider {
   }
 
   async send(email: EmailEntity): Promise<SendEmailResult> {
+    let attachments: MailAttachment[];
+
+    try {
+      attachments = await this.resolveAttachments(email);
+    } catch (error) {
+      if (!(error instanceof AttachmentFetchError)) {
+        throw error;
+      }
+
+      return {
+        success: false,
+        error: error.message,
+        errorCode: error.permanent ? "EATTACHMENT" : "ECONNECTION",
+      };
+    }
+
     try {
       const mailOptions = {
         from: `${email.displayName} <${email.from}>`,
@@ -48,12 +78,7 @@ export class NodemailerProvider implements EmailProvider {
         subject: email.subject,
         text: email.body,
         html: email.html || undefined,
-        // TODO: Обработать сценарий, когда у attachments есть url, то нужно использовать url, а не path
-        // такой сценарий может быть, когда мы отправляем письмо через RabbitMQ и вложения уже загружены на сторонний сервис, другим сервисом
-        attachments: email.attachments?.map((att) => ({
-          filename: att.originalName,
-          path: att.path,
-        })),
+        attachments,
       };
 
       const info = await this.transporter.sendMail(mailOptions);
@@ -61,16 +86,70 @@ export class NodemailerProvider implements EmailProvider {
       return {
         success: true,
         messageId: info.messageId,
+        accepted: toAddressList(info.accepted),
+        rejected: toAddressList(info.rejected),
+        response: info.response,
       };
     } catch (error) {
+      // ошибки nodemailer содержат code (ETIMEDOUT, EAUTH, ...), responseCode и строку ответа SMTP сервера,
+      // при отказе в конверте (EENVELOPE) - список отклоненных адресов
+      const smtpError = error as {
+        code?: unknown;
+        responseCode?: unknown;
+        response?: unknown;
+        rejected?: unknown;
+      };
+
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
+        responseCode:
+          typeof smtpError?.responseCode === "number"
+            ? smtpError.responseCode
+            : undefined,
+        errorCode:
+          typeof smtpError?.code === "string" ? smtpError.code : undefined,
+        rejected: Array.isArray(smtpError?.rejected)
+          ? toAddressList(smtpError.rejected)
+          : undefined,
+        response:
+          typeof smtpError?.response === "string"
+            ? smtpError.response
+            : undefined,
       };
     }
   }
 
+  /**
+   * Содержимое вложений читается из хранилища, вложения с url загружаются и проверяются перед отправкой.
+   * Ошибка загрузки или отсутствующий объект хранилища - AttachmentFetchError с именем файла
+   */
+  private async resolveAttachments(
+    email: EmailEntity,
+  ): Promise<MailAttachment[]> {
+    const attachments: MailAttachment[] = [];
+
+    for (const att of email.attachments ?? []) {
+      const loaded = await this.attachmentsService.loadContent(att);
+
+      attachments.push({
+        filename: att.originalName,
+        content: loaded.content,
+        contentType: loaded.contentType,
+      });
+    }
+
+    return attachments;
+  }
+
   get transporterInstance() {
     return this.transporter;
   }
 }
+
+const toAddressList = (
+  addresses: Array<string | { address: string }> | undefined,
+): string[] =>
+  (addresses ?? []).map((address) =>
+    typeof address === "string" ? address : address.address,
+  );
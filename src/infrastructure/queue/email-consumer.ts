@@ -1,35 +1,135 @@
 import type { EmailsService } from "../../application/emails.service.ts";
+import type {
+  IdempotencyService,
+  IdempotentResponse,
+} from "../../application/idempotency.service.ts";
 import type { QueueService } from "../../application/interfaces/queue-service.ts";
+import type { AttachmentsService } from "../../application/attachments.service.ts";
 import { config } from "../../config/env.ts";
-import { normalizeSendEmailDto } from "../../contracts/normalize-dto.ts";
-import { SendEmailDtoSchema } from "../../contracts/send-email.dto.ts";
+import {
+  normalizeEmailMessage,
+  parseEmailMessage,
+  type EmailMessageReply,
+  type EmailMessageV1,
+} from "../../contracts/email-message.contract.ts";
+import { EmailStatus } from "../../domain/types.ts";
+import type { MessageContext } from "./rabbitmq.service.ts";
 
 export class EmailConsumer {
   private readonly queueService: QueueService;
   private readonly emailService: EmailsService;
+  private readonly idempotencyService: IdempotencyService;
+  private readonly attachmentsService: AttachmentsService;
 
-  constructor(queueService: QueueService, emailService: EmailsService) {
+  constructor(
+    queueService: QueueService,
+    emailService: EmailsService,
+    idempotencyService: IdempotencyService,
+    attachmentsService: AttachmentsService,
+  ) {
     this.queueService = queueService;
     this.emailService = emailService;
+    this.idempotencyService = idempotencyService;
+    this.attachmentsService = attachmentsService;
   }
 
   async start(): Promise<void> {
-    // TODO: Добавить контракт для message.
-    await this.queueService.consume(config.rabbitmq.queue, async (message) => {
-      console.log("Received email from queue:", message);
-
-      try {
-        // const validatedData = SendEmailDtoSchema.parse(message);
-        // const normalized = normalizeSendEmailDto(validatedData);
-        // TODO: Обработать сценарий, со структурой файлов.
-        // const result = await this.emailService.sendEmail(normalized);
-        // console.log(`Email sent successfully: ${result?.id} ?? 'Unknown'`);
-      } catch (error) {
-        console.error("Failed to send email from queue:", error);
-        throw error;
-      }
-    });
+    await this.queueService.consume(
+      config.rabbitmq.queue,
+      async (message, context) => {
+        try {
+          const validated = parseEmailMessage(message);
+          const { idempotencyKey, ...payload } = validated;
+
+          if (!idempotencyKey) {
+            const response = await this.processMessage(validated);
+            await this.reply(context, response.body);
+            return;
+          }
+
+          // ключи очереди не пересекаются с ключами HTTP запросов
+          const response = await this.idempotencyService.execute(
+            `queue:${idempotencyKey}`,
+            payload,
+            () => this.processMessage(validated),
+          );
+
+          if (response.replayed) {
+            console.log(
+              `Duplicate email message skipped (idempotency key ${idempotencyKey})`,
+            );
+          }
+
+          await this.reply(context, response.body);
+        } catch (error) {
+          console.error("Failed to send email from queue:", error);
+
+          await this.reply(context, {
+            success: false,
+            data: null,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+
+          throw error;
+        }
+      },
+    );
 
     console.log(`Listening for emails on queue: ${config.rabbitmq.queue}`);
   }
+
+  private async processMessage(
+    message: EmailMessageV1,
+  ): Promise<IdempotentResponse<EmailMessageReply>> {
+    const normalized = normalizeEmailMessage(message);
+
+    // base64 сохраняется в хранилище, url загружаются при отправке
+    const attachments = await this.attachmentsService.resolveInputs(
+      normalized.attachments,
+    );
+
+    const { sendAt } = normalized;
+
+    // с sendAt письмо откладывается, иначе отправляется сразу
+    const result = sendAt
+      ? await this.emailService.scheduleEmail({
+          ...normalized,
+          sendAt,
+          attachments,
+        })
+      : await this.emailService.sendEmail({
+          ...normalized,
+          attachments,
+        });
+
+    if (!result) {
+      throw new Error("Failed to send email");
+    }
+
+    console.log(`Email from queue processed: ${result.id} (${result.status})`);
+
+    return {
+      status: 200,
+      body: {
+        success: result.status !== EmailStatus.DEAD_LETTER,
+        data: { id: result.id, status: result.status },
+        error: result.error,
+      },
+    };
+  }
+
+  private async reply(
+    context: MessageContext | undefined,
+    response: EmailMessageReply,
+  ): Promise<void> {
+    if (!context?.replyTo || !context.correlationId) {
+      return;
+    }
+
+    try {
+      await context.reply(response);
+    } catch (error) {
+      console.error("Failed to reply to email message:", error);
+    }
+  }
 }
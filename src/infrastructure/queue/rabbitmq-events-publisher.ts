@@ -0,0 +1,36 @@
+import type { EmailEventsPublisher } from "../../application/interfaces/email-events-publisher.ts";
+import {
+  EMAIL_STATUS_EVENT_VERSION,
+  toEmailStatusEventMessage,
+  toEmailStatusRoutingKey,
+} from "../../contracts/email-status-event.contract.ts";
+import type { EmailEvent } from "../../domain/email-event.ts";
+import type { RabbitMQService } from "./rabbitmq.service.ts";
+
+/**
+ * Публикует события статуса писем в topic exchange с routing key email.status.*.
+ * publish завершается только после подтверждения брокером
+ */
+export class RabbitMQEventsPublisher implements EmailEventsPublisher {
+  private readonly queueService: RabbitMQService;
+  private readonly exchange: string;
+
+  constructor(queueService: RabbitMQService, exchange: string) {
+    this.queueService = queueService;
+    this.exchange = exchange;
+  }
+
+  async publish(event: EmailEvent): Promise<void> {
+    await this.queueService.publishConfirmed(
+      this.exchange,
+      toEmailStatusRoutingKey(event.type),
+      toEmailStatusEventMessage(event),
+      {
+        messageId: event.id,
+        type: event.type,
+        timestamp: Math.floor(event.occurredAt.getTime() / 1000),
+        headers: { "x-schema-version": EMAIL_STATUS_EVENT_VERSION },
+      },
+    );
+  }
+}
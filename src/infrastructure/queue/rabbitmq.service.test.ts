@@ -0,0 +1,256 @@
+import { EventEmitter } from "events";
+import type { ChannelModel, ConsumeMessage } from "amqplib";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { config } from "../../config/env.ts";
+import {
+  RabbitMQConnectionState,
+  RabbitMQService,
+} from "./rabbitmq.service.ts";
+
+type Confirm = (error: unknown) => void;
+
+// канал amqplib в объеме, который использует RabbitMQService
+class FakeChannel extends EventEmitter {
+  consumers = new Map<string, (msg: ConsumeMessage | null) => void>();
+  published: { exchange: string; routingKey: string; content: unknown }[] = [];
+  confirms: Confirm[] = [];
+  acked: ConsumeMessage[] = [];
+  nacked: ConsumeMessage[] = [];
+  prefetchCount: number | null = null;
+  declared = new Map<string, unknown>();
+
+  async assertExchange() {}
+
+  async assertQueue(queue: string, options?: unknown) {
+    this.declared.set(queue, options);
+    return { queue: queue || "amq.gen-reply" };
+  }
+
+  async bindQueue() {}
+
+  async prefetch(count: number) {
+    this.prefetchCount = count;
+  }
+
+  async consume(queue: string, handler: (msg: ConsumeMessage | null) => void) {
+    this.consumers.set(queue, handler);
+    return { consumerTag: queue };
+  }
+
+  publish(
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    _options: unknown,
+    confirm: Confirm,
+  ) {
+    this.published.push({
+      exchange,
+      routingKey,
+      content: JSON.parse(content.toString()),
+    });
+    this.confirms.push(confirm);
+    return true;
+  }
+
+  sendToQueue() {
+    return true;
+  }
+
+  ack(msg: ConsumeMessage) {
+    this.acked.push(msg);
+  }
+
+  nack(msg: ConsumeMessage) {
+    this.nacked.push(msg);
+  }
+
+  deliver(queue: string, content: unknown) {
+    this.consumers.get(queue)!({
+      content: Buffer.from(JSON.stringify(content)),
+      properties: {},
+    } as ConsumeMessage);
+  }
+}
+
+class FakeConnection extends EventEmitter {
+  channel = new FakeChannel();
+
+  constructor(private readonly existingQueues: Set<string>) {
+    super();
+  }
+
+  async createConfirmChannel() {
+    return this.channel;
+  }
+
+  // канал для checkQueue: отсутствующая очередь - ошибка 404, как у брокера
+  async createChannel() {
+    const channel = new EventEmitter();
+
+    return Object.assign(channel, {
+      checkQueue: async (queue: string) => {
+        if (!this.existingQueues.has(queue)) {
+          throw Object.assign(new Error("NOT_FOUND"), { code: 404 });
+        }
+      },
+      close: async () => {},
+    });
+  }
+
+  async close() {
+    this.emit("close");
+  }
+}
+
+class FakeBroker {
+  connections: FakeConnection[] = [];
+  existingQueues = new Set<string>();
+  failures = 0;
+
+  connect = async (): Promise<ChannelModel> => {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("ECONNREFUSED");
+    }
+
+    const connection = new FakeConnection(this.existingQueues);
+    this.connections.push(connection);
+
+    return connection as unknown as ChannelModel;
+  };
+
+  get last(): FakeConnection {
+    return this.connections[this.connections.length - 1];
+  }
+}
+
+const options = {
+  ...config.rabbitmq,
+  prefetch: 5,
+  reconnect: { baseDelay: 1, maxDelay: 5, multiplier: 2 },
+};
+
+describe("RabbitMQService", () => {
+  let broker: FakeBroker;
+  let service: RabbitMQService;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    broker = new FakeBroker();
+    service = new RabbitMQService(options, broker.connect);
+  });
+
+  afterEach(async () => {
+    await service.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should retry the first connection with backoff", async () => {
+    broker.failures = 2;
+
+    await service.connect();
+
+    expect(broker.connections).toHaveLength(1);
+    expect(service.state).toBe(RabbitMQConnectionState.CONNECTED);
+    expect(broker.last.channel.prefetchCount).toBe(5);
+  });
+
+  it("should declare a missing queue with dead letter arguments", async () => {
+    await service.connect();
+
+    expect(broker.last.channel.declared.get(options.queue)).toEqual({
+      durable: true,
+      deadLetterExchange: options.deadLetterExchange,
+      deadLetterRoutingKey: options.queue,
+    });
+  });
+
+  it("should not redeclare an existing queue with different arguments", async () => {
+    broker.existingQueues.add(options.queue);
+
+    await service.connect();
+
+    expect(service.state).toBe(RabbitMQConnectionState.CONNECTED);
+    expect(broker.last.channel.declared.has(options.queue)).toBe(false);
+  });
+
+  it("should reconnect and re-register consumers after the connection is lost", async () => {
+    const received: unknown[] = [];
+
+    await service.connect();
+    await service.consume(options.queue, async (message) => {
+      received.push(message);
+    });
+
+    broker.failures = 1;
+    broker.last.emit("close");
+
+    expect(service.state).toBe(RabbitMQConnectionState.RECONNECTING);
+
+    await vi.waitFor(() =>
+      expect(service.state).toBe(RabbitMQConnectionState.CONNECTED),
+    );
+
+    expect(broker.connections).toHaveLength(2);
+
+    const channel = broker.last.channel;
+    channel.deliver(options.queue, { id: 1 });
+
+    await vi.waitFor(() => expect(channel.acked).toHaveLength(1));
+    expect(received).toEqual([{ id: 1 }]);
+  });
+
+  it("should resolve publish only after the broker confirms it", async () => {
+    await service.connect();
+
+    const channel = broker.last.channel;
+    let resolved = false;
+
+    const published = service.publish("email.send", { to: "a@example.com" });
+    published.then(() => (resolved = true));
+
+    await Promise.resolve();
+    expect(resolved).toBe(false);
+    expect(channel.published[0]).toMatchObject({
+      exchange: options.exchange,
+      routingKey: options.routingKey,
+    });
+
+    channel.confirms[0](null);
+    await published;
+
+    const rejected = service.publish("email.send", {});
+    channel.confirms[1](new Error("nack"));
+
+    await expect(rejected).rejects.toThrow("did not confirm");
+  });
+
+  it("should reject publish and pending RPC calls while disconnected", async () => {
+    await service.connect();
+
+    const rpc = service.sendRPC("other.service", {}, { timeout: 10_000 });
+
+    broker.failures = 1_000;
+    broker.last.emit("close");
+
+    await expect(rpc).rejects.toThrow("connection lost");
+    await expect(service.publish("email.send", {})).rejects.toThrow(
+      "not available (reconnecting)",
+    );
+  });
+
+  it("should nack messages that fail processing", async () => {
+    await service.connect();
+    await service.consume(options.queue, async () => {
+      throw new Error("Invalid message");
+    });
+
+    const channel = broker.last.channel;
+    channel.deliver(options.queue, {});
+
+    await vi.waitFor(() => expect(channel.nacked).toHaveLength(1));
+    expect(channel.acked).toEqual([]);
+  });
+});
@@ -1,6 +1,13 @@
-import amqp, { type Channel, type ChannelModel, type Message } from "amqplib";
+import amqp, {
+  type ChannelModel,
+  type ConfirmChannel,
+  type ConsumeMessage,
+  type Message,
+  type Options,
+} from "amqplib";
 import { config } from "../../config/env.ts";
 import type { QueueService } from "../../application/interfaces/queue-service.ts";
+import { computeBackoffDelay } from "../../application/retry-policy.ts";
 import { randomUUID } from "crypto";
 
 export interface RPCOptions {
@@ -22,9 +29,35 @@ export interface MessageContext {
   reply: (response: any) => Promise<void>;
 }
 
+export const RabbitMQConnectionState = {
+  // первое подключение
+  CONNECTING: "connecting",
+  CONNECTED: "connected",
+  // соединение потеряно, идут попытки переподключения
+  RECONNECTING: "reconnecting",
+  // закрыто через close()
+  CLOSED: "closed",
+} as const;
+
+export type RabbitMQConnectionState =
+  (typeof RabbitMQConnectionState)[keyof typeof RabbitMQConnectionState];
+
+export type RabbitMQOptions = Omit<typeof config.rabbitmq, "eventsEnabled">;
+
+type MessageHandler = (message: any, context?: MessageContext) => Promise<void>;
+
+interface ConsumerRegistration {
+  queue: string;
+  handler: MessageHandler;
+}
+
 export class RabbitMQService implements QueueService {
+  private readonly options: RabbitMQOptions;
+  private readonly connectFn: (url: string) => Promise<ChannelModel>;
+
   private connection: ChannelModel | null = null;
-  private channel: Channel | null = null;
+  // confirm channel: publish завершается после подтверждения брокером
+  private channel: ConfirmChannel | null = null;
   private replyQueue: string | null = null;
   private pendingRPCRequests: Map<
     string,
@@ -35,46 +68,245 @@ export class RabbitMQService implements QueueService {
     }
   > = new Map();
 
+  // consumers регистрируются заново после каждого переподключения
+  private readonly consumers: ConsumerRegistration[] = [];
+
+  private _state: RabbitMQConnectionState = RabbitMQConnectionState.CLOSED;
+  private connecting: Promise<void> | null = null;
+  private reconnectAttempt = 0;
+  private closing = false;
+  private reconnectDelay: {
+    timer: NodeJS.Timeout;
+    resolve: () => void;
+  } | null = null;
+
+  constructor(
+    options: RabbitMQOptions = config.rabbitmq,
+    connectFn: (url: string) => Promise<ChannelModel> = (url) =>
+      amqp.connect(url),
+  ) {
+    this.options = options;
+    this.connectFn = connectFn;
+  }
+
+  get state(): RabbitMQConnectionState {
+    return this._state;
+  }
+
+  /**
+   * Подключается к брокеру, при ошибке повторяет попытки с экспоненциальной задержкой.
+   * Промис завершается после первого успешного подключения (или после close()).
+   * При разрыве соединения переподключение выполняется автоматически
+   */
   async connect(): Promise<void> {
-    try {
-      this.connection = await amqp.connect(config.rabbitmq.url);
+    this.closing = false;
 
-      this.channel = await this.connection.createChannel();
+    if (this._state === RabbitMQConnectionState.CLOSED) {
+      this._state = RabbitMQConnectionState.CONNECTING;
+    }
 
-      await this.channel.assertExchange(config.rabbitmq.exchange, "direct", {
-        durable: true,
-      });
+    this.connecting ??= this.connectWithRetry().finally(() => {
+      this.connecting = null;
+    });
 
-      await this.channel.assertQueue(config.rabbitmq.queue, {
-        durable: true,
+    return this.connecting;
+  }
+
+  private async connectWithRetry(): Promise<void> {
+    while (!this.closing) {
+      try {
+        await this.establish();
+        return;
+      } catch (error) {
+        if (this.closing) {
+          return;
+        }
+
+        this.reconnectAttempt++;
+
+        const delay = computeBackoffDelay(
+          this.reconnectAttempt,
+          this.options.reconnect,
+        );
+
+        console.error(
+          `Failed to connect to RabbitMQ, retrying in ${delay}ms:`,
+          error,
+        );
+
+        await this.waitBeforeReconnect(delay);
+      }
+    }
+  }
+
+  /**
+   * Открывает соединение и канал, объявляет топологию, reply queue и consumers
+   */
+  private async establish(): Promise<void> {
+    const connection = await this.connectFn(this.options.url);
+
+    connection.on("error", (error) => {
+      console.error("RabbitMQ connection error:", error);
+    });
+    connection.on("close", () => this.handleConnectionLost(connection));
+
+    try {
+      const channel = await connection.createConfirmChannel();
+
+      // канал закрывается брокером при ошибке протокола, соединение пересоздается целиком
+      channel.on("error", (error) => {
+        console.error("RabbitMQ channel error:", error);
+      });
+      channel.on("close", () => {
+        if (this.channel === channel && !this.closing) {
+          connection.close().catch(() => {});
+        }
       });
 
-      await this.channel.bindQueue(
-        config.rabbitmq.queue,
-        config.rabbitmq.exchange,
-        config.rabbitmq.routingKey,
-      );
+      await channel.prefetch(this.options.prefetch);
+      await this.assertTopology(connection, channel);
 
       // Инициализация reply queue для RPC паттерна
-      await this.initializeReplyQueue();
+      await this.initializeReplyQueue(channel);
+
+      // close() вызван, пока шло подключение
+      if (this.closing) {
+        throw new Error("RabbitMQ service closed");
+      }
 
-      console.log("Connected to RabbitMQ");
+      this.connection = connection;
+      this.channel = channel;
+
+      for (const consumer of [...this.consumers]) {
+        await this.startConsumer(channel, consumer);
+      }
     } catch (error) {
-      console.error("Failed to connect to RabbitMQ:", error);
+      this.connection = null;
+      this.channel = null;
+      await connection.close().catch(() => {});
+
       throw error;
     }
+
+    this._state = RabbitMQConnectionState.CONNECTED;
+    this.reconnectAttempt = 0;
+
+    console.log("Connected to RabbitMQ");
+  }
+
+  private async assertTopology(
+    connection: ChannelModel,
+    channel: ConfirmChannel,
+  ): Promise<void> {
+    await channel.assertExchange(this.options.exchange, "direct", {
+      durable: true,
+    });
+
+    // Dead letter exchange: сообщения, которые не удалось обработать (nack без requeue),
+    // попадают в очередь deadLetterQueue вместо того, чтобы теряться
+    await channel.assertExchange(this.options.deadLetterExchange, "direct", {
+      durable: true,
+    });
+
+    await channel.assertQueue(this.options.deadLetterQueue, {
+      durable: true,
+    });
+
+    await channel.bindQueue(
+      this.options.deadLetterQueue,
+      this.options.deadLetterExchange,
+      this.options.queue,
+    );
+
+    // повторное объявление с другими x-аргументами брокер отклоняет (406 PRECONDITION_FAILED),
+    // поэтому существующая очередь используется как есть, dead letter для нее задается policy
+    if (!(await this.queueExists(connection, this.options.queue))) {
+      await channel.assertQueue(this.options.queue, {
+        durable: true,
+        deadLetterExchange: this.options.deadLetterExchange,
+        deadLetterRoutingKey: this.options.queue,
+      });
+    }
+
+    await channel.bindQueue(
+      this.options.queue,
+      this.options.exchange,
+      this.options.routingKey,
+    );
+
+    await channel.assertExchange(this.options.eventsExchange, "topic", {
+      durable: true,
+    });
   }
 
   /**
-   * Инициализирует эксклюзивную очередь для получения ответов (RPC паттерн)
+   * Проверяет очередь через отдельный канал: при отсутствии очереди брокер закрывает канал (404)
    */
-  private async initializeReplyQueue(): Promise<void> {
-    if (!this.channel) {
-      throw new Error("RabbitMQ channel not initialized");
+  private async queueExists(
+    connection: ChannelModel,
+    queue: string,
+  ): Promise<boolean> {
+    const channel = await connection.createChannel();
+
+    channel.on("error", () => {});
+
+    try {
+      await channel.checkQueue(queue);
+    } catch (error) {
+      if ((error as { code?: number }).code === 404) {
+        return false;
+      }
+
+      throw error;
     }
 
+    await channel.close();
+
+    return true;
+  }
+
+  private handleConnectionLost(connection: ChannelModel): void {
+    if (this.connection !== connection) {
+      return;
+    }
+
+    this.connection = null;
+    this.channel = null;
+    this.replyQueue = null;
+
+    // exclusive reply queue удалена вместе с соединением, ответы на эти запросы не придут
+    this.rejectPendingRPCRequests(new Error("RabbitMQ connection lost"));
+
+    if (this.closing) {
+      return;
+    }
+
+    console.error("RabbitMQ connection lost, reconnecting...");
+
+    this._state = RabbitMQConnectionState.RECONNECTING;
+
+    this.connect().catch((error) => {
+      console.error("Failed to reconnect to RabbitMQ:", error);
+    });
+  }
+
+  private waitBeforeReconnect(delay: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.reconnectDelay = null;
+        resolve();
+      }, delay);
+
+      this.reconnectDelay = { timer, resolve };
+    });
+  }
+
+  /**
+   * Инициализирует эксклюзивную очередь для получения ответов (RPC паттерн)
+   */
+  private async initializeReplyQueue(channel: ConfirmChannel): Promise<void> {
     // Создаем временную эксклюзивную очередь для ответов
-    const reply = await this.channel.assertQueue("", {
+    const reply = await channel.assertQueue("", {
       exclusive: true, // автоматически удалится при закрытии соединения
       autoDelete: true,
     });
@@ -82,8 +314,8 @@ export class RabbitMQService implements QueueService {
     this.replyQueue = reply.queue;
 
     // Слушаем ответы в reply queue
-    await this.channel.consume(
-      this.replyQueue,
+    await channel.consume(
+      reply.queue,
       (msg) => {
         if (msg) {
           this.handleRPCReply(msg);
@@ -124,13 +356,7 @@ export class RabbitMQService implements QueueService {
     message: any,
     options?: PublishOptions,
   ): Promise<void> {
-    if (!this.channel) {
-      throw new Error("RabbitMQ channel not initialized");
-    }
-
-    const messageBuffer = Buffer.from(JSON.stringify(message));
-
-    const publishOptions: any = {
+    const publishOptions: Options.Publish = {
       persistent: options?.persistent ?? true,
     };
 
@@ -149,14 +375,46 @@ export class RabbitMQService implements QueueService {
       publishOptions.expiration = options.expiration;
     }
 
-    this.channel.publish(
-      config.rabbitmq.exchange,
-      config.rabbitmq.routingKey,
-      messageBuffer,
+    await this.publishConfirmed(
+      this.options.exchange,
+      this.options.routingKey,
+      message,
       publishOptions,
     );
   }
 
+  /**
+   * Публикация с подтверждением: промис завершается после ack брокера,
+   * при nack или закрытии канала - ошибка, сообщение нужно считать неопубликованным
+   */
+  async publishConfirmed(
+    exchange: string,
+    routingKey: string,
+    message: any,
+    options?: Options.Publish,
+  ): Promise<void> {
+    const channel = this.getChannel();
+    const messageBuffer = Buffer.from(JSON.stringify(message));
+
+    await new Promise<void>((resolve, reject) => {
+      channel.publish(
+        exchange,
+        routingKey,
+        messageBuffer,
+        { persistent: true, contentType: "application/json", ...options },
+        (error) =>
+          error
+            ? reject(
+                new Error(
+                  `RabbitMQ did not confirm message to ${exchange} (${routingKey})`,
+                  { cause: error },
+                ),
+              )
+            : resolve(),
+      );
+    });
+  }
+
   /**
    * RPC вызов с ожиданием ответа
    * @param queue - целевая очередь
@@ -214,70 +472,124 @@ export class RabbitMQService implements QueueService {
     correlationId: string,
     response: any,
   ): Promise<void> {
-    if (!this.channel) {
-      throw new Error("RabbitMQ channel not initialized");
-    }
-
+    const channel = this.getChannel();
     const messageBuffer = Buffer.from(JSON.stringify(response));
 
-    this.channel.sendToQueue(replyTo, messageBuffer, {
+    channel.sendToQueue(replyTo, messageBuffer, {
       correlationId,
     });
   }
 
-  async consume(
-    queue: string,
-    handler: (message: any, context?: MessageContext) => Promise<void>,
-  ): Promise<void> {
-    if (!this.channel) {
-      throw new Error("RabbitMQ channel not initialized");
+  /**
+   * Регистрирует consumer. Он запускается сразу, если соединение есть,
+   * и заново после каждого переподключения
+   */
+  async consume(queue: string, handler: MessageHandler): Promise<void> {
+    const consumer = { queue, handler };
+
+    this.consumers.push(consumer);
+
+    if (this.channel) {
+      await this.startConsumer(this.channel, consumer);
     }
+  }
 
-    await this.channel.consume(queue, async (msg) => {
-      if (msg) {
-        try {
-          const content = JSON.parse(msg.content.toString());
-
-          // Передаем контекст сообщения для возможности ответа
-          const context: MessageContext = {
-            replyTo: msg.properties.replyTo,
-            correlationId: msg.properties.correlationId,
-            timestamp: msg.properties.timestamp,
-            // Хелпер для отправки ответа
-            reply: async (response: any) => {
-              if (msg.properties.replyTo && msg.properties.correlationId) {
-                await this.sendRPCReply(
-                  msg.properties.replyTo,
-                  msg.properties.correlationId,
-                  response,
-                );
-              }
-            },
-          };
-
-          await handler(content, context);
-          this.channel!.ack(msg);
-        } catch (error) {
-          console.error("Error processing message:", error);
-          this.channel!.nack(msg, false, false);
-        }
+  private async startConsumer(
+    channel: ConfirmChannel,
+    { queue, handler }: ConsumerRegistration,
+  ): Promise<void> {
+    await channel.consume(queue, async (msg) => {
+      if (!msg) {
+        // брокер отменил consumer (например, очередь удалена)
+        console.warn(`RabbitMQ consumer of queue ${queue} was cancelled`);
+        return;
+      }
+
+      try {
+        const content = JSON.parse(msg.content.toString());
+
+        // Передаем контекст сообщения для возможности ответа
+        const context: MessageContext = {
+          replyTo: msg.properties.replyTo,
+          correlationId: msg.properties.correlationId,
+          timestamp: msg.properties.timestamp,
+          // Хелпер для отправки ответа
+          reply: async (response: any) => {
+            if (msg.properties.replyTo && msg.properties.correlationId) {
+              await this.sendRPCReply(
+                msg.properties.replyTo,
+                msg.properties.correlationId,
+                response,
+              );
+            }
+          },
+        };
+
+        await handler(content, context);
+        this.settle(channel, msg, "ack");
+      } catch (error) {
+        console.error("Error processing message:", error);
+        // без requeue: сообщение уходит в dead letter exchange очереди (если он настроен)
+        this.settle(channel, msg, "nack");
       }
     });
   }
 
-  async close(): Promise<void> {
-    // Отклоняем все pending RPC запросы
-    for (const [correlationId, request] of this.pendingRPCRequests) {
+  // сообщение подтверждается в канале, из которого получено. Если канал уже закрыт,
+  // брокер доставит сообщение повторно после переподключения
+  private settle(
+    channel: ConfirmChannel,
+    msg: ConsumeMessage,
+    action: "ack" | "nack",
+  ): void {
+    try {
+      if (action === "ack") {
+        channel.ack(msg);
+      } else {
+        channel.nack(msg, false, false);
+      }
+    } catch (error) {
+      console.warn(`Failed to ${action} RabbitMQ message:`, error);
+    }
+  }
+
+  private getChannel(): ConfirmChannel {
+    if (!this.channel) {
+      throw new Error(`RabbitMQ channel not available (${this._state})`);
+    }
+
+    return this.channel;
+  }
+
+  private rejectPendingRPCRequests(error: Error): void {
+    for (const request of this.pendingRPCRequests.values()) {
       clearTimeout(request.timeoutId);
-      request.reject(new Error("RabbitMQ connection closed"));
+      request.reject(error);
     }
     this.pendingRPCRequests.clear();
+  }
 
-    await this.channel?.close();
-    await this.connection?.close();
+  async close(): Promise<void> {
+    this.closing = true;
+    this._state = RabbitMQConnectionState.CLOSED;
+
+    if (this.reconnectDelay) {
+      clearTimeout(this.reconnectDelay.timer);
+      this.reconnectDelay.resolve();
+      this.reconnectDelay = null;
+    }
+
+    // Отклоняем все pending RPC запросы
+    this.rejectPendingRPCRequests(new Error("RabbitMQ connection closed"));
+
+    const connection = this.connection;
 
-    this.channel = null;
     this.connection = null;
+    this.channel = null;
     this.replyQueue = null;
+
+    await connection?.close().catch((error) => {
+      console.error("Failed to close RabbitMQ connection:", error);
+    });
   }
 }
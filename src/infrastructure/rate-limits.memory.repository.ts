@@ -0,0 +1,62 @@
+import type { RateLimitsRepository } from "../application/interfaces/rate-limits-repository.ts";
+
+interface Counter {
+  count: number;
+  expiresAt: number;
+}
+
+/**
+ * Счетчики в памяти процесса: лимиты действуют для каждой реплики сервиса отдельно
+ */
+export class RateLimitsMemoryRepository implements RateLimitsRepository {
+  private readonly counters = new Map<string, Counter>();
+
+  async increment(
+    key: string,
+    windowStart: Date,
+    cost: number,
+    limit: number,
+    expiresAt: Date,
+  ): Promise<number | null> {
+    const counterKey = this.toCounterKey(key, windowStart);
+    const counter = this.counters.get(counterKey) ?? {
+      count: 0,
+      expiresAt: expiresAt.getTime(),
+    };
+
+    if (counter.count + cost > limit) {
+      return null;
+    }
+
+    counter.count += cost;
+    this.counters.set(counterKey, counter);
+
+    return counter.count;
+  }
+
+  async decrement(key: string, windowStart: Date, cost: number): Promise<void> {
+    const counter = this.counters.get(this.toCounterKey(key, windowStart));
+
+    if (counter) {
+      counter.count = Math.max(counter.count - cost, 0);
+    }
+  }
+
+  async deleteExpired(): Promise<number> {
+    const now = Date.now();
+    let deleted = 0;
+
+    for (const [counterKey, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(counterKey);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  private toCounterKey(key: string, windowStart: Date): string {
+    return `${key}@${windowStart.getTime()}`;
+  }
+}
@@ -0,0 +1,44 @@
+import { BaseRepository } from "../libs/db-client.ts";
+import type { RateLimitsRepository } from "../application/interfaces/rate-limits-repository.ts";
+
+export class RateLimitsSqlRepository
+  extends BaseRepository
+  implements RateLimitsRepository
+{
+  async increment(
+    key: string,
+    windowStart: Date,
+    cost: number,
+    limit: number,
+    expiresAt: Date,
+  ): Promise<number | null> {
+    // при превышении лимита строка не обновляется и RETURNING ничего не возвращает
+    const result = await this.query<{ count: number }>(
+      `INSERT INTO "rate_limit_counters" (key, "window_start", count, "expires_at")
+       VALUES ($1, $2, $3, $5)
+       ON CONFLICT (key, "window_start") DO UPDATE SET
+         count = "rate_limit_counters".count + EXCLUDED.count
+       WHERE "rate_limit_counters".count + EXCLUDED.count <= $4
+       RETURNING count`,
+      [key, windowStart, cost, limit, expiresAt],
+    );
+
+    return result.rows[0]?.count ?? null;
+  }
+
+  async decrement(key: string, windowStart: Date, cost: number): Promise<void> {
+    await this.query(
+      `UPDATE "rate_limit_counters" SET count = GREATEST(count - $3, 0)
+       WHERE key = $1 AND "window_start" = $2`,
+      [key, windowStart, cost],
+    );
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await this.query(
+      `DELETE FROM "rate_limit_counters" WHERE "expires_at" <= NOW()`,
+    );
+
+    return result.rowCount ?? 0;
+  }
+}
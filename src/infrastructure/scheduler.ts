@@ -1,14 +1,45 @@
 // Cron job которая запускается при старте приложения и срабатывает раз в день
 import { CronJob } from "cron";
 import type { EmailCleanupJob } from "./jobs/email-cleanup.ts";
+import type { BounceMailboxJob } from "./jobs/bounce-mailbox.ts";
+import type { ScheduledEmailDispatcher } from "./jobs/scheduled-email-dispatcher.ts";
+import type { DeliveryRecoveryJob } from "./jobs/delivery-recovery.ts";
+import type { StorageOrphanSweeperJob } from "./jobs/storage-orphan-sweeper.ts";
+import type { IdempotencyService } from "../application/idempotency.service.ts";
+import type { RateLimitsService } from "../application/rate-limits.service.ts";
+import type { WebhooksService } from "../application/webhooks.service.ts";
+import { config } from "../config/env.ts";
 
 export class Scheduler {
   private readonly emailCleanupJob: EmailCleanupJob;
+  private readonly scheduledEmailDispatcher: ScheduledEmailDispatcher;
+  private readonly deliveryRecoveryJob: DeliveryRecoveryJob;
+  private readonly idempotencyService: IdempotencyService;
+  private readonly rateLimitsService: RateLimitsService;
+  private readonly webhooksService: WebhooksService;
+  private readonly storageOrphanSweeperJob: StorageOrphanSweeperJob | null;
+  private readonly bounceMailboxJob: BounceMailboxJob | null;
 
   private readonly tasks: CronJob[] = [];
 
-  constructor(emailCleanupJob: EmailCleanupJob) {
+  constructor(
+    emailCleanupJob: EmailCleanupJob,
+    scheduledEmailDispatcher: ScheduledEmailDispatcher,
+    deliveryRecoveryJob: DeliveryRecoveryJob,
+    idempotencyService: IdempotencyService,
+    rateLimitsService: RateLimitsService,
+    webhooksService: WebhooksService,
+    storageOrphanSweeperJob: StorageOrphanSweeperJob | null,
+    bounceMailboxJob: BounceMailboxJob | null = null,
+  ) {
     this.emailCleanupJob = emailCleanupJob;
+    this.scheduledEmailDispatcher = scheduledEmailDispatcher;
+    this.deliveryRecoveryJob = deliveryRecoveryJob;
+    this.idempotencyService = idempotencyService;
+    this.rateLimitsService = rateLimitsService;
+    this.webhooksService = webhooksService;
+    this.storageOrphanSweeperJob = storageOrphanSweeperJob;
+    this.bounceMailboxJob = bounceMailboxJob;
   }
 
   initializeCronJobs(): void {
@@ -25,6 +56,108 @@ export class Scheduler {
 
     this.tasks.push(emailCleanupJob);
 
+    // hand scheduled emails over to delivery (every 30 seconds by default)
+    const scheduledEmailJob = new CronJob(
+      config.scheduling.dispatchCron,
+      async () => {
+        await this.scheduledEmailDispatcher.dispatchDueEmails();
+      },
+      null,
+      true,
+    );
+
+    this.tasks.push(scheduledEmailJob);
+
+    // requeue emails stuck in PENDING after a crash (every minute by default)
+    const deliveryRecoveryJob = new CronJob(
+      config.delivery.recoveryCron,
+      async () => {
+        await this.deliveryRecoveryJob.recoverStuckDeliveries();
+      },
+      null,
+      true,
+    );
+
+    this.tasks.push(deliveryRecoveryJob);
+
+    // delete expired idempotency keys every hour
+    const idempotencyKeysJob = new CronJob(
+      "0 * * * *",
+      async () => {
+        try {
+          await this.idempotencyService.purgeExpired();
+        } catch (error) {
+          console.error("Failed to delete expired idempotency keys:", error);
+        }
+      },
+      null,
+      true,
+    );
+
+    this.tasks.push(idempotencyKeysJob);
+
+    // delete rate limit counters of past windows every hour
+    const rateLimitCountersJob = new CronJob(
+      "30 * * * *",
+      async () => {
+        try {
+          await this.rateLimitsService.purgeExpired();
+        } catch (error) {
+          console.error("Failed to delete expired rate limit counters:", error);
+        }
+      },
+      null,
+      true,
+    );
+
+    this.tasks.push(rateLimitCountersJob);
+
+    // delete old webhook delivery log entries every day at 3:00 AM
+    const webhookDeliveriesJob = new CronJob(
+      "0 3 * * *",
+      async () => {
+        try {
+          await this.webhooksService.purgeDeliveries(
+            config.webhooks.retentionDays,
+          );
+        } catch (error) {
+          console.error("Failed to delete old webhook deliveries:", error);
+        }
+      },
+      null,
+      true,
+    );
+
+    this.tasks.push(webhookDeliveriesJob);
+
+    // delete attachment files without references every day at 4:00 AM by default
+    if (this.storageOrphanSweeperJob) {
+      const storageOrphanSweeperJob = new CronJob(
+        config.storage.orphanSweepCron,
+        async () => {
+          await this.storageOrphanSweeperJob!.sweepOrphans();
+        },
+        null,
+        true,
+      );
+
+      this.tasks.push(storageOrphanSweeperJob);
+    }
+
+    // read bounce / complaint reports from maildir (every minute by default)
+    if (this.bounceMailboxJob) {
+      const bounceMailboxJob = new CronJob(
+        config.bounces.maildirCron,
+        async () => {
+          await this.bounceMailboxJob!.processMailbox();
+        },
+        null,
+        true,
+      );
+
+      this.tasks.push(bounceMailboxJob);
+    }
+
     // test cron job start every 10 seconds
     // const testCronJob = new CronJob(
     //   "*/10 * * * * *",
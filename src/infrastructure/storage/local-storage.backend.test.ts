@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { text } from "stream/consumers";
+import type { StorageBackend } from "../../application/interfaces/storage-backend.ts";
+import { StorageObjectNotFoundError } from "../../application/errors/storage-errors.ts";
+import { LocalStorageBackend } from "./local-storage.backend.ts";
+
+describe("LocalStorageBackend", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "storage-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should store objects under the storage directory", async () => {
+    const backend: StorageBackend = new LocalStorageBackend(dir);
+
+    await backend.put("a1.pdf", Buffer.from("%PDF"), "application/pdf");
+
+    expect(await readFile(path.join(dir, "a1.pdf"), "utf8")).toBe("%PDF");
+    expect((await backend.get("a1.pdf")).toString()).toBe("%PDF");
+    expect(await text(await backend.getStream("a1.pdf"))).toBe("%PDF");
+    expect(await backend.getSignedUrl("a1.pdf", 60)).toBeNull();
+
+    await backend.put("ab/ab12", Buffer.from("x"), "text/plain");
+
+    const objects = [];
+    for await (const object of backend.list()) {
+      objects.push(object.key);
+    }
+
+    expect(objects.sort()).toEqual(["a1.pdf", "ab/ab12"]);
+    expect((await backend.stat("ab/ab12"))?.lastModified).toBeInstanceOf(Date);
+    expect(await backend.stat("missing")).toBeNull();
+
+    await backend.delete("a1.pdf");
+    await backend.delete("a1.pdf");
+
+    await expect(backend.get("a1.pdf")).rejects.toBeInstanceOf(
+      StorageObjectNotFoundError,
+    );
+    await expect(backend.getStream("a1.pdf")).rejects.toBeInstanceOf(
+      StorageObjectNotFoundError,
+    );
+  });
+
+  it("should reject keys outside the storage directory", async () => {
+    const backend = new LocalStorageBackend(dir);
+
+    await expect(backend.get("../secret")).rejects.toThrow(
+      "Invalid storage key ../secret",
+    );
+  });
+});
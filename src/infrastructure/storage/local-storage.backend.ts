@@ -0,0 +1,154 @@
+import { randomUUID } from "crypto";
+import {
+  mkdir,
+  open,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  writeFile,
+} from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import type {
+  StorageBackend,
+  StorageObject,
+} from "../../application/interfaces/storage-backend.ts";
+import { StorageObjectNotFoundError } from "../../application/errors/storage-errors.ts";
+
+/**
+ * Хранилище на локальном диске. Подходит для одной реплики
+ * или общего тома, смонтированного во все реплики
+ */
+export class LocalStorageBackend implements StorageBackend {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+
+    // одинаковое содержимое пишется в тот же файл: запись через переименование,
+    // чтобы параллельное чтение не увидело файл наполовину перезаписанным
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+    try {
+      await writeFile(tempPath, content);
+      await rename(tempPath, filePath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new StorageObjectNotFoundError(key);
+      }
+
+      throw error;
+    }
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    try {
+      // файл открывается сразу, чтобы отсутствие объекта было ошибкой до начала ответа
+      const file = await open(this.resolve(key));
+
+      return file.createReadStream();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new StorageObjectNotFoundError(key);
+      }
+
+      throw error;
+    }
+  }
+
+  async stat(key: string): Promise<StorageObject | null> {
+    try {
+      const stats = await stat(this.resolve(key));
+
+      return { key, lastModified: stats.mtime };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  async *list(): AsyncIterable<StorageObject> {
+    yield* this.walk(this.dir);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error) {
+      // Если файл не существует (ENOENT), игнорируем ошибку
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  // файлы с диска отдаются только через API
+  async getSignedUrl(): Promise<string | null> {
+    return null;
+  }
+
+  private async *walk(dir: string): AsyncIterable<StorageObject> {
+    let entries;
+
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      // директория создается при первой записи
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        yield* this.walk(entryPath);
+      } else if (entry.isFile()) {
+        const key = path
+          .relative(this.dir, entryPath)
+          .split(path.sep)
+          .join("/");
+        const stats = await stat(entryPath).catch(() => null);
+
+        // файл мог быть удален во время обхода
+        if (stats) {
+          yield { key, lastModified: stats.mtime };
+        }
+      }
+    }
+  }
+
+  // ключ не должен выводить за пределы директории хранилища
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.dir, key);
+
+    if (!filePath.startsWith(`${this.dir}${path.sep}`)) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+
+    return filePath;
+  }
+}
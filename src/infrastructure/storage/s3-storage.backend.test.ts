@@ -0,0 +1,284 @@
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { StorageObjectNotFoundError } from "../../application/errors/storage-errors.ts";
+import {
+  presignUrl,
+  sha256Hex,
+  signRequest,
+  type SignatureScope,
+} from "../../libs/aws-signature.ts";
+import { S3StorageBackend } from "./s3-storage.backend.ts";
+
+const credentials = {
+  accessKeyId: "minioadmin",
+  secretAccessKey: "minio-secret",
+};
+
+// 20130524T000000Z -> Date
+const parseAmzDate = (value: string) =>
+  new Date(
+    value.replace(
+      /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+      "$1-$2-$3T$4:$5:$6Z",
+    ),
+  );
+
+/**
+ * Заменитель MinIO: объекты в памяти, path-style адреса, проверка подписи SigV4
+ */
+class FakeS3 {
+  readonly objects = new Map<string, { content: Buffer; type: string }>();
+  readonly scope: SignatureScope = {
+    credentials,
+    region: "us-east-1",
+    service: "s3",
+  };
+
+  isAuthorized(req: IncomingMessage, url: URL, body: Buffer): boolean {
+    const presignedSignature = url.searchParams.get("X-Amz-Signature");
+
+    if (presignedSignature) {
+      const unsigned = new URL(url.pathname, url);
+
+      return presignUrl(
+        {
+          method: req.method!,
+          url: unsigned,
+          expiresIn: Number(url.searchParams.get("X-Amz-Expires")),
+        },
+        {
+          ...this.scope,
+          date: parseAmzDate(url.searchParams.get("X-Amz-Date")!),
+        },
+      ).endsWith(`X-Amz-Signature=${presignedSignature}`);
+    }
+
+    const payloadHash = req.headers["x-amz-content-sha256"] as string;
+    const signedHeaders =
+      /SignedHeaders=([^,]+)/.exec(req.headers.authorization ?? "")?.[1] ?? "";
+
+    const headers: Record<string, string> = {};
+
+    for (const name of signedHeaders.split(";")) {
+      if (!["host", "x-amz-date", "x-amz-content-sha256"].includes(name)) {
+        headers[name] = req.headers[name] as string;
+      }
+    }
+
+    const expected = signRequest(
+      { method: req.method!, url, headers, payloadHash },
+      {
+        ...this.scope,
+        date: parseAmzDate(req.headers["x-amz-date"] as string),
+      },
+    );
+
+    return (
+      payloadHash === sha256Hex(body) &&
+      expected.authorization === req.headers.authorization
+    );
+  }
+}
+
+describe("S3StorageBackend", () => {
+  let server: Server;
+  let endpoint: string;
+  const s3 = new FakeS3();
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+
+      const body = Buffer.concat(chunks);
+      const url = new URL(req.url!, `http://${req.headers.host}`);
+
+      if (!s3.isAuthorized(req, url, body)) {
+        res.writeHead(403);
+        res.end("<Error><Code>SignatureDoesNotMatch</Code></Error>");
+        return;
+      }
+
+      const object = s3.objects.get(url.pathname);
+
+      // ListObjectsV2 по две записи на страницу
+      if (req.method === "GET" && url.searchParams.get("list-type") === "2") {
+        const bucket = url.pathname;
+        const keys = [...s3.objects.keys()]
+          .filter((path) => path.startsWith(bucket))
+          .map((path) => path.slice(bucket.length))
+          .filter((key) =>
+            key.startsWith(url.searchParams.get("prefix") ?? ""),
+          );
+        const start = Number(url.searchParams.get("continuation-token") ?? 0);
+        const page = keys.slice(start, start + 2);
+        const truncated = start + 2 < keys.length;
+
+        res.writeHead(200, { "Content-Type": "application/xml" });
+        res.end(
+          `<ListBucketResult><IsTruncated>${truncated}</IsTruncated>` +
+            page
+              .map(
+                (key) =>
+                  `<Contents><Key>${key}</Key><LastModified>2026-01-01T00:00:00.000Z</LastModified></Contents>`,
+              )
+              .join("") +
+            (truncated
+              ? `<NextContinuationToken>${start + 2}</NextContinuationToken>`
+              : "") +
+            "</ListBucketResult>",
+        );
+        return;
+      }
+
+      switch (req.method) {
+        case "PUT":
+          s3.objects.set(url.pathname, {
+            content: body,
+            type: req.headers["content-type"] ?? "",
+          });
+          res.writeHead(200);
+          res.end();
+          return;
+        case "GET":
+          if (!object) {
+            res.writeHead(404);
+            res.end("<Error><Code>NoSuchKey</Code></Error>");
+            return;
+          }
+
+          res.writeHead(200, { "Content-Type": object.type });
+          res.end(object.content);
+          return;
+        case "HEAD":
+          res.writeHead(object ? 200 : 404, {
+            "Last-Modified": "Thu, 01 Jan 2026 00:00:00 GMT",
+          });
+          res.end();
+          return;
+        case "DELETE":
+          s3.objects.delete(url.pathname);
+          res.writeHead(204);
+          res.end();
+          return;
+      }
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createBackend = (secretAccessKey = credentials.secretAccessKey) =>
+    new S3StorageBackend({
+      endpoint,
+      region: "us-east-1",
+      bucket: "attachments",
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey,
+      forcePathStyle: true,
+      prefix: "mail/",
+      timeout: 5000,
+    });
+
+  it("should put, read and delete signed objects", async () => {
+    const backend = createBackend();
+    const content = Buffer.from("%PDF-1.7 report");
+
+    await backend.put("a1.pdf", content, "application/pdf");
+
+    expect(s3.objects.get("/attachments/mail/a1.pdf")).toEqual({
+      content,
+      type: "application/pdf",
+    });
+    expect(await backend.get("a1.pdf")).toEqual(content);
+
+    await backend.delete("a1.pdf");
+    // повторное удаление не ошибка
+    await backend.delete("a1.pdf");
+
+    await expect(backend.get("a1.pdf")).rejects.toBeInstanceOf(
+      StorageObjectNotFoundError,
+    );
+  });
+
+  it("should issue presigned urls readable without credentials", async () => {
+    const backend = createBackend();
+
+    await backend.put("b2.txt", Buffer.from("hello"), "text/plain");
+
+    const url = await backend.getSignedUrl("b2.txt", 600);
+    const response = await fetch(url!);
+
+    expect(new URL(url!).searchParams.get("X-Amz-Expires")).toBe("600");
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("hello");
+  });
+
+  it("should list and stat objects under the prefix", async () => {
+    const backend = createBackend();
+
+    s3.objects.clear();
+    s3.objects.set("/attachments/other/x", {
+      content: Buffer.from(""),
+      type: "",
+    });
+
+    for (const key of ["ab/ab1", "ab/ab2", "cd/cd3"]) {
+      await backend.put(key, Buffer.from(key), "text/plain");
+    }
+
+    const objects = [];
+    for await (const object of backend.list()) {
+      objects.push(object);
+    }
+
+    expect(objects.map((object) => object.key)).toEqual([
+      "ab/ab1",
+      "ab/ab2",
+      "cd/cd3",
+    ]);
+    expect(objects[0].lastModified).toEqual(new Date("2026-01-01T00:00:00Z"));
+    expect(await backend.stat("cd/cd3")).toEqual({
+      key: "cd/cd3",
+      lastModified: new Date("2026-01-01T00:00:00Z"),
+    });
+    expect(await backend.stat("cd/missing")).toBeNull();
+
+    // без префикса bucket может быть общим с чужими данными
+    const unprefixed = new S3StorageBackend({
+      endpoint,
+      region: "us-east-1",
+      bucket: "attachments",
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+      forcePathStyle: true,
+      prefix: "",
+      timeout: 5000,
+    });
+
+    await expect(
+      unprefixed.list()[Symbol.asyncIterator]().next(),
+    ).rejects.toThrow("S3_PREFIX is required to list attachment objects");
+  });
+
+  it("should report S3 errors with the error code", async () => {
+    await expect(
+      createBackend("wrong-secret").put(
+        "c3.txt",
+        Buffer.from("x"),
+        "text/plain",
+      ),
+    ).rejects.toThrow("S3 PUT c3.txt failed: HTTP 403 SignatureDoesNotMatch");
+  });
+});
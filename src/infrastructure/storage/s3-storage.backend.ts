@@ -0,0 +1,253 @@
+import { Readable } from "stream";
+import type { ReadableStream } from "stream/web";
+import type {
+  StorageBackend,
+  StorageObject,
+} from "../../application/interfaces/storage-backend.ts";
+import { StorageObjectNotFoundError } from "../../application/errors/storage-errors.ts";
+import {
+  encodeRfc3986,
+  presignUrl,
+  sha256Hex,
+  signRequest,
+  type SignatureScope,
+} from "../../libs/aws-signature.ts";
+
+export interface S3StorageOptions {
+  // https://s3.eu-central-1.amazonaws.com, http://localhost:9000 (MinIO)
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // bucket в пути (endpoint/bucket/key) вместо поддомена, нужен для MinIO
+  forcePathStyle: boolean;
+  // префикс ключей объектов в bucket, например "attachments/"
+  prefix: string;
+  // таймаут запроса, мс
+  timeout: number;
+}
+
+/**
+ * Хранилище в S3-совместимом сервисе (AWS S3, MinIO, Yandex Object Storage).
+ * Запросы к REST API подписываются AWS Signature V4
+ */
+export class S3StorageBackend implements StorageBackend {
+  private readonly options: S3StorageOptions;
+
+  constructor(options: S3StorageOptions) {
+    this.options = options;
+  }
+
+  async put(key: string, content: Buffer, contentType: string): Promise<void> {
+    const response = await this.request("PUT", this.toObjectUrl(key), content, {
+      "Content-Type": contentType,
+    });
+
+    if (!response.ok) {
+      throw await toS3Error("PUT", key, response);
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request("GET", this.toObjectUrl(key));
+
+    if (response.status === 404) {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    if (!response.ok) {
+      throw await toS3Error("GET", key, response);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const response = await this.request("GET", this.toObjectUrl(key));
+
+    if (response.status === 404) {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    if (!response.ok || !response.body) {
+      throw await toS3Error("GET", key, response);
+    }
+
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  async stat(key: string): Promise<StorageObject | null> {
+    const response = await this.request("HEAD", this.toObjectUrl(key));
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw await toS3Error("HEAD", key, response);
+    }
+
+    return {
+      key,
+      lastModified: new Date(response.headers.get("last-modified") ?? 0),
+    };
+  }
+
+  // ListObjectsV2, до 1000 ключей на страницу. Без префикса в bucket могут быть чужие объекты
+  async *list(): AsyncIterable<StorageObject> {
+    if (!this.options.prefix) {
+      throw new Error("S3_PREFIX is required to list attachment objects");
+    }
+
+    let continuationToken: string | null = null;
+
+    do {
+      const url = this.toBucketUrl();
+      url.searchParams.set("list-type", "2");
+
+      if (this.options.prefix) {
+        url.searchParams.set("prefix", this.options.prefix);
+      }
+
+      if (continuationToken) {
+        url.searchParams.set("continuation-token", continuationToken);
+      }
+
+      const response = await this.request("GET", url);
+
+      if (!response.ok) {
+        throw await toS3Error("LIST", this.options.prefix, response);
+      }
+
+      const xml = await response.text();
+
+      for (const [, contents] of xml.matchAll(
+        /<Contents>([\s\S]*?)<\/Contents>/g,
+      )) {
+        const key = decodeXml(readXmlTag(contents, "Key") ?? "");
+
+        yield {
+          key: key.slice(this.options.prefix.length),
+          lastModified: new Date(readXmlTag(contents, "LastModified") ?? 0),
+        };
+      }
+
+      continuationToken =
+        readXmlTag(xml, "IsTruncated") === "true"
+          ? decodeXml(readXmlTag(xml, "NextContinuationToken") ?? "")
+          : null;
+    } while (continuationToken);
+  }
+
+  // S3 отвечает 204 и на удаление несуществующего объекта
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", this.toObjectUrl(key));
+
+    if (!response.ok && response.status !== 404) {
+      throw await toS3Error("DELETE", key, response);
+    }
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string | null> {
+    return presignUrl(
+      { method: "GET", url: this.toObjectUrl(key), expiresIn },
+      this.scope,
+    );
+  }
+
+  private async request(
+    method: string,
+    url: URL,
+    body?: Buffer,
+    headers: Record<string, string> = {},
+  ): Promise<Response> {
+    const signedHeaders = signRequest(
+      {
+        method,
+        url,
+        headers,
+        payloadHash: sha256Hex(body ?? ""),
+      },
+      this.scope,
+    );
+
+    // host выставляет fetch
+    delete signedHeaders.host;
+
+    return fetch(url, {
+      method,
+      headers: signedHeaders,
+      body: body && new Uint8Array(body),
+      signal: AbortSignal.timeout(this.options.timeout),
+    });
+  }
+
+  private toObjectUrl(key: string): URL {
+    const objectPath = `${this.options.prefix}${key}`
+      .split("/")
+      .map(encodeRfc3986)
+      .join("/");
+
+    return new URL(objectPath, this.toBucketUrl());
+  }
+
+  // адрес bucket со слешем в конце
+  private toBucketUrl(): URL {
+    const endpoint = new URL(this.options.endpoint);
+
+    if (this.options.forcePathStyle) {
+      return new URL(
+        `${endpoint.origin}/${encodeRfc3986(this.options.bucket)}/`,
+      );
+    }
+
+    return new URL(
+      `${endpoint.protocol}//${this.options.bucket}.${endpoint.host}/`,
+    );
+  }
+
+  private get scope(): SignatureScope {
+    return {
+      credentials: {
+        accessKeyId: this.options.accessKeyId,
+        secretAccessKey: this.options.secretAccessKey,
+      },
+      region: this.options.region,
+      service: "s3",
+    };
+  }
+}
+
+async function toS3Error(
+  method: string,
+  key: string,
+  response: Response,
+): Promise<Error> {
+  const text = await response.text().catch(() => "");
+  // в теле ошибки S3 - XML с <Code>NoSuchBucket</Code>
+  const code = /<Code>([^<]+)<\/Code>/.exec(text)?.[1];
+
+  return new Error(
+    `S3 ${method} ${key} failed: HTTP ${response.status}${code ? ` ${code}` : ""}`,
+  );
+}
+
+function readXmlTag(xml: string, tag: string): string | null {
+  return new RegExp(`<${tag}>([^<]*)</${tag}>`).exec(xml)?.[1] ?? null;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(value: string): string {
+  return value.replace(
+    /&(amp|lt|gt|quot|apos);/g,
+    (_, entity: string) => XML_ENTITIES[entity],
+  );
+}
@@ -0,0 +1,18 @@
+import type { StorageBackend } from "../../application/interfaces/storage-backend.ts";
+import { config } from "../../config/env.ts";
+import { LocalStorageBackend } from "./local-storage.backend.ts";
+import { S3StorageBackend } from "./s3-storage.backend.ts";
+
+export function createStorageBackend(
+  storage: typeof config.storage = config.storage,
+): StorageBackend {
+  if (storage.driver === "s3") {
+    if (!storage.s3.bucket) {
+      throw new Error("S3_BUCKET is required for STORAGE_DRIVER=s3");
+    }
+
+    return new S3StorageBackend(storage.s3);
+  }
+
+  return new LocalStorageBackend(storage.uploadDir);
+}
@@ -0,0 +1,64 @@
+import express, { Router } from "express";
+import { SuppressionsController } from "../presenters/suppressions.controller.ts";
+import { requireScope } from "../presenters/middleware/require-scope.middleware.ts";
+import { ApiScope } from "../domain/api-client.entity.ts";
+
+export class SuppressionRouter {
+  private _router: Router;
+  private suppressionsController: SuppressionsController;
+
+  constructor(suppressionsController: SuppressionsController) {
+    this.suppressionsController = suppressionsController;
+    this._router = Router();
+  }
+
+  get router() {
+    // список подавления управляется только администратором
+    this._router.use(requireScope(ApiScope.ADMIN));
+
+    this._router.post(
+      "/",
+      this.suppressionsController.createSuppression.bind(
+        this.suppressionsController,
+      ),
+    );
+
+    this._router.post(
+      "/import",
+      express.text({ type: ["text/csv", "text/plain"], limit: "10mb" }),
+      this.suppressionsController.importSuppressions.bind(
+        this.suppressionsController,
+      ),
+    );
+
+    this._router.get(
+      "/",
+      this.suppressionsController.getSuppressions.bind(
+        this.suppressionsController,
+      ),
+    );
+
+    this._router.get(
+      "/:id",
+      this.suppressionsController.getSuppression.bind(
+        this.suppressionsController,
+      ),
+    );
+
+    this._router.patch(
+      "/:id",
+      this.suppressionsController.updateSuppression.bind(
+        this.suppressionsController,
+      ),
+    );
+
+    this._router.delete(
+      "/:id",
+      this.suppressionsController.deleteSuppression.bind(
+        this.suppressionsController,
+      ),
+    );
+
+    return this._router;
+  }
+}
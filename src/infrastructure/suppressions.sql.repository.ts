@@ -0,0 +1,190 @@
+import { BaseRepository } from "../libs/db-client.ts";
+import type { SuppressionsRepository } from "../application/interfaces/suppressions-repository.ts";
+import type {
+  FindSuppressionsFilter,
+  SaveSuppressionData,
+  UpdateSuppressionData,
+} from "../application/types/save-suppression-data.ts";
+import type {
+  SuppressionEntity,
+  SuppressionReason,
+  SuppressionType,
+} from "../domain/suppression.entity.ts";
+
+interface SuppressionRow {
+  id: string;
+  type: SuppressionType;
+  value: string;
+  reason: SuppressionReason;
+  source: string;
+  expires_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class SuppressionsSqlRepository
+  extends BaseRepository
+  implements SuppressionsRepository
+{
+  async upsert(data: SaveSuppressionData): Promise<SuppressionEntity> {
+    const result = await this.query<SuppressionRow>(
+      `INSERT INTO "suppressions" (
+         type, value, reason, source, "expires_at", "created_at", "updated_at"
+       ) VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+       ON CONFLICT (type, value) DO UPDATE SET
+         reason = EXCLUDED.reason,
+         source = EXCLUDED.source,
+         "expires_at" = EXCLUDED."expires_at",
+         "updated_at" = NOW()
+       RETURNING *`,
+      [data.type, data.value, data.reason, data.source, data.expiresAt ?? null],
+    );
+
+    return this.mapRowToSuppression(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<SuppressionEntity | null> {
+    const result = await this.query<SuppressionRow>(
+      `SELECT * FROM "suppressions" WHERE id = $1`,
+      [id],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToSuppression(row) : null;
+  }
+
+  async findAll(filter: FindSuppressionsFilter): Promise<{
+    suppressions: SuppressionEntity[];
+    page: number;
+    limit: number;
+    total: number;
+  }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    const addParam = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (!filter.includeExpired) {
+      conditions.push(`("expires_at" IS NULL OR "expires_at" > NOW())`);
+    }
+
+    if (filter.type) {
+      conditions.push(`type = ${addParam(filter.type)}`);
+    }
+
+    if (filter.reason) {
+      conditions.push(`reason = ${addParam(filter.reason)}`);
+    }
+
+    if (filter.search) {
+      const escaped = filter.search.toLowerCase().replace(/[\\%_]/g, "\\$&");
+      conditions.push(`value LIKE ${addParam(`%${escaped}%`)}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const totalResult = await this.query<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM "suppressions" ${where}`,
+      values,
+    );
+
+    const total = parseInt(totalResult.rows[0]?.total ?? "0", 10);
+
+    const limitParam = addParam(filter.limit);
+    const offsetParam = addParam((filter.page - 1) * filter.limit);
+
+    const result = await this.query<SuppressionRow>(
+      `SELECT * FROM "suppressions"
+       ${where}
+       ORDER BY "created_at" DESC, id DESC
+       LIMIT ${limitParam} OFFSET ${offsetParam}`,
+      values,
+    );
+
+    return {
+      suppressions: result.rows.map((row) => this.mapRowToSuppression(row)),
+      page: filter.page,
+      limit: filter.limit,
+      total,
+    };
+  }
+
+  async update(data: UpdateSuppressionData): Promise<SuppressionEntity | null> {
+    const updateFields: string[] = ['"updated_at" = NOW()'];
+    const values: any[] = [];
+
+    let paramIndex = 1;
+
+    if (data.reason !== undefined) {
+      updateFields.push(`reason = $${paramIndex}`);
+      values.push(data.reason);
+      paramIndex++;
+    }
+
+    if (data.expiresAt !== undefined) {
+      updateFields.push(`"expires_at" = $${paramIndex}`);
+      values.push(data.expiresAt);
+      paramIndex++;
+    }
+
+    values.push(data.id);
+
+    const result = await this.query<SuppressionRow>(
+      `UPDATE "suppressions"
+       SET ${updateFields.join(", ")}
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values,
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToSuppression(row) : null;
+  }
+
+  async delete(id: string): Promise<SuppressionEntity | null> {
+    const result = await this.query<SuppressionRow>(
+      `DELETE FROM "suppressions" WHERE id = $1 RETURNING *`,
+      [id],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToSuppression(row) : null;
+  }
+
+  async findActiveMatches(
+    addresses: string[],
+    domains: string[],
+  ): Promise<SuppressionEntity[]> {
+    const result = await this.query<SuppressionRow>(
+      `SELECT * FROM "suppressions"
+       WHERE ("expires_at" IS NULL OR "expires_at" > NOW())
+         AND (
+           (type = 'address' AND value = ANY($1))
+           OR (type = 'domain' AND value = ANY($2))
+         )`,
+      [addresses, domains],
+    );
+
+    return result.rows.map((row) => this.mapRowToSuppression(row));
+  }
+
+  private mapRowToSuppression(row: SuppressionRow): SuppressionEntity {
+    return {
+      id: row.id,
+      type: row.type,
+      value: row.value,
+      reason: row.reason,
+      source: row.source,
+      expiresAt: row.expires_at || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { Router } from "express";
+import { TemplatesController } from "../presenters/templates.controller.ts";
+import { requireScope } from "../presenters/middleware/require-scope.middleware.ts";
+import { ApiScope } from "../domain/api-client.entity.ts";
+
+export class TemplateRouter {
+  private _router: Router;
+  private templatesController: TemplatesController;
+
+  constructor(templatesController: TemplatesController) {
+    this.templatesController = templatesController;
+    this._router = Router();
+  }
+
+  get router() {
+    this._router.post(
+      "/",
+      requireScope(ApiScope.SEND),
+      this.templatesController.createTemplate.bind(this.templatesController),
+    );
+
+    this._router.post(
+      "/preview",
+      requireScope(ApiScope.READ),
+      this.templatesController.previewTemplate.bind(this.templatesController),
+    );
+
+    this._router.post(
+      "/test-send",
+      requireScope(ApiScope.SEND),
+      this.templatesController.testSendTemplate.bind(this.templatesController),
+    );
+
+    this._router.get(
+      "/",
+      requireScope(ApiScope.READ),
+      this.templatesController.getTemplates.bind(this.templatesController),
+    );
+
+    this._router.get(
+      "/:id",
+      requireScope(ApiScope.READ),
+      this.templatesController.getTemplateDetails.bind(
+        this.templatesController,
+      ),
+    );
+
+    this._router.patch(
+      "/:id",
+      requireScope(ApiScope.SEND),
+      this.templatesController.updateTemplate.bind(this.templatesController),
+    );
+
+    this._router.delete(
+      "/:id",
+      requireScope(ApiScope.DELETE),
+      this.templatesController.deleteTemplate.bind(this.templatesController),
+    );
+
+    this._router.post(
+      "/:id/versions",
+      requireScope(ApiScope.SEND),
+      this.templatesController.createVersion.bind(this.templatesController),
+    );
+
+    this._router.get(
+      "/:id/versions/:version",
+      requireScope(ApiScope.READ),
+      this.templatesController.getVersion.bind(this.templatesController),
+    );
+
+    this._router.post(
+      "/:id/versions/:version/activate",
+      requireScope(ApiScope.SEND),
+      this.templatesController.activateVersion.bind(this.templatesController),
+    );
+
+    return this._router;
+  }
+}
@@ -0,0 +1,286 @@
+import { BaseRepository, type PoolClient } from "../libs/db-client.ts";
+import type { TemplatesRepository } from "../application/interfaces/templates-repository.ts";
+import type {
+  SaveTemplateData,
+  TemplateContentData,
+  UpdateTemplateData,
+} from "../application/types/save-template-data.ts";
+import type {
+  TemplateEntity,
+  TemplateVariable,
+  TemplateVersionEntity,
+} from "../domain/template.entity.ts";
+
+interface TemplateRow {
+  id: string;
+  name: string;
+  description: string | null;
+  active_version: number | null;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+}
+
+interface TemplateVersionRow {
+  id: string;
+  template_id: string;
+  version: number;
+  subject: string;
+  body: string;
+  html: string | null;
+  variables: TemplateVariable[];
+  created_at: Date;
+}
+
+export class TemplatesSqlRepository
+  extends BaseRepository
+  implements TemplatesRepository
+{
+  async save(
+    data: SaveTemplateData,
+  ): Promise<{ template: TemplateEntity; version: TemplateVersionEntity }> {
+    return await this.transaction(async (client: PoolClient) => {
+      const templateResult = await client.query<TemplateRow>(
+        `INSERT INTO "email_templates" (
+           name, description, "active_version", "created_at", "updated_at"
+         ) VALUES ($1, $2, 1, NOW(), NOW())
+         RETURNING *`,
+        [data.name, data.description ?? null],
+      );
+
+      const templateRow = templateResult.rows[0];
+
+      const versionRow = await this.insertVersion(
+        client,
+        templateRow.id,
+        1,
+        data.content,
+      );
+
+      return {
+        template: this.mapRowToTemplate(templateRow),
+        version: this.mapRowToVersion(versionRow),
+      };
+    });
+  }
+
+  async findById(id: string): Promise<TemplateEntity | null> {
+    const result = await this.query<TemplateRow>(
+      `SELECT * FROM "email_templates"
+       WHERE id = $1 AND "deleted_at" IS NULL`,
+      [id],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToTemplate(row) : null;
+  }
+
+  async findByName(name: string): Promise<TemplateEntity | null> {
+    const result = await this.query<TemplateRow>(
+      `SELECT * FROM "email_templates"
+       WHERE name = $1 AND "deleted_at" IS NULL`,
+      [name],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToTemplate(row) : null;
+  }
+
+  async findAll(): Promise<TemplateEntity[]> {
+    const result = await this.query<TemplateRow>(
+      `SELECT * FROM "email_templates"
+       WHERE "deleted_at" IS NULL
+       ORDER BY name`,
+    );
+
+    return result.rows.map((row) => this.mapRowToTemplate(row));
+  }
+
+  async update(data: UpdateTemplateData): Promise<TemplateEntity | null> {
+    const updateFields: string[] = ['"updated_at" = NOW()'];
+    const values: any[] = [];
+
+    let paramIndex = 1;
+
+    if (data.name !== undefined) {
+      updateFields.push(`name = $${paramIndex}`);
+      values.push(data.name);
+      paramIndex++;
+    }
+
+    if (data.description !== undefined) {
+      updateFields.push(`description = $${paramIndex}`);
+      values.push(data.description);
+      paramIndex++;
+    }
+
+    values.push(data.id);
+
+    const result = await this.query<TemplateRow>(
+      `UPDATE "email_templates"
+       SET ${updateFields.join(", ")}
+       WHERE id = $${paramIndex} AND "deleted_at" IS NULL
+       RETURNING *`,
+      values,
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToTemplate(row) : null;
+  }
+
+  async deleteSoft(id: string): Promise<TemplateEntity | null> {
+    const result = await this.query<TemplateRow>(
+      `UPDATE "email_templates" SET "deleted_at" = NOW(), "updated_at" = NOW()
+       WHERE id = $1 AND "deleted_at" IS NULL
+       RETURNING *`,
+      [id],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToTemplate(row) : null;
+  }
+
+  async addVersion(
+    templateId: string,
+    content: TemplateContentData,
+    activate: boolean,
+  ): Promise<TemplateVersionEntity> {
+    return await this.transaction(async (client: PoolClient) => {
+      // блокируем шаблон, чтобы параллельные запросы не получили одинаковый номер версии
+      const templateResult = await client.query<TemplateRow>(
+        `SELECT * FROM "email_templates"
+         WHERE id = $1 AND "deleted_at" IS NULL
+         FOR UPDATE`,
+        [templateId],
+      );
+
+      if (!templateResult.rows[0]) {
+        throw new Error(`Template with id ${templateId} not found`);
+      }
+
+      const lastVersionResult = await client.query<{ version: number | null }>(
+        `SELECT MAX(version) AS version FROM "email_template_versions"
+         WHERE "template_id" = $1`,
+        [templateId],
+      );
+
+      const nextVersion = (lastVersionResult.rows[0]?.version ?? 0) + 1;
+
+      const versionRow = await this.insertVersion(
+        client,
+        templateId,
+        nextVersion,
+        content,
+      );
+
+      await client.query(
+        `UPDATE "email_templates"
+         SET "active_version" = CASE WHEN $2 THEN $3 ELSE "active_version" END,
+             "updated_at" = NOW()
+         WHERE id = $1`,
+        [templateId, activate, nextVersion],
+      );
+
+      return this.mapRowToVersion(versionRow);
+    });
+  }
+
+  async findVersion(
+    templateId: string,
+    version: number,
+  ): Promise<TemplateVersionEntity | null> {
+    const result = await this.query<TemplateVersionRow>(
+      `SELECT * FROM "email_template_versions"
+       WHERE "template_id" = $1 AND version = $2`,
+      [templateId, version],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToVersion(row) : null;
+  }
+
+  async findVersions(templateId: string): Promise<TemplateVersionEntity[]> {
+    const result = await this.query<TemplateVersionRow>(
+      `SELECT * FROM "email_template_versions"
+       WHERE "template_id" = $1
+       ORDER BY version DESC`,
+      [templateId],
+    );
+
+    return result.rows.map((row) => this.mapRowToVersion(row));
+  }
+
+  async setActiveVersion(
+    templateId: string,
+    version: number,
+  ): Promise<TemplateEntity | null> {
+    const result = await this.query<TemplateRow>(
+      `UPDATE "email_templates" SET "active_version" = $2, "updated_at" = NOW()
+       WHERE id = $1 AND "deleted_at" IS NULL
+         AND EXISTS (
+           SELECT 1 FROM "email_template_versions"
+           WHERE "template_id" = $1 AND version = $2
+         )
+       RETURNING *`,
+      [templateId, version],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToTemplate(row) : null;
+  }
+
+  private async insertVersion(
+    client: PoolClient,
+    templateId: string,
+    version: number,
+    content: TemplateContentData,
+  ): Promise<TemplateVersionRow> {
+    const result = await client.query<TemplateVersionRow>(
+      `INSERT INTO "email_template_versions" (
+         "template_id", version, subject, body, html, variables, "created_at"
+       ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+       RETURNING *`,
+      [
+        templateId,
+        version,
+        content.subject,
+        content.body,
+        content.html ?? null,
+        JSON.stringify(content.variables),
+      ],
+    );
+
+    return result.rows[0];
+  }
+
+  private mapRowToTemplate(row: TemplateRow): TemplateEntity {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      activeVersion: row.active_version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deletedAt: row.deleted_at || null,
+    };
+  }
+
+  private mapRowToVersion(row: TemplateVersionRow): TemplateVersionEntity {
+    return {
+      id: row.id,
+      templateId: row.template_id,
+      version: row.version,
+      subject: row.subject,
+      body: row.body,
+      html: row.html || null,
+      variables: row.variables || [],
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { WebhooksController } from "../presenters/webhooks.controller.ts";
+import { requireScope } from "../presenters/middleware/require-scope.middleware.ts";
+import { ApiScope } from "../domain/api-client.entity.ts";
+
+export class WebhookRouter {
+  private _router: Router;
+  private webhooksController: WebhooksController;
+
+  constructor(webhooksController: WebhooksController) {
+    this.webhooksController = webhooksController;
+    this._router = Router();
+  }
+
+  get router() {
+    this._router.post(
+      "/",
+      requireScope(ApiScope.SEND),
+      this.webhooksController.createWebhook.bind(this.webhooksController),
+    );
+
+    this._router.get(
+      "/",
+      requireScope(ApiScope.READ),
+      this.webhooksController.getWebhooks.bind(this.webhooksController),
+    );
+
+    this._router.get(
+      "/:id",
+      requireScope(ApiScope.READ),
+      this.webhooksController.getWebhook.bind(this.webhooksController),
+    );
+
+    this._router.patch(
+      "/:id",
+      requireScope(ApiScope.SEND),
+      this.webhooksController.updateWebhook.bind(this.webhooksController),
+    );
+
+    this._router.delete(
+      "/:id",
+      requireScope(ApiScope.DELETE),
+      this.webhooksController.deleteWebhook.bind(this.webhooksController),
+    );
+
+    this._router.get(
+      "/:id/deliveries",
+      requireScope(ApiScope.READ),
+      this.webhooksController.getDeliveries.bind(this.webhooksController),
+    );
+
+    this._router.post(
+      "/:id/deliveries/replay",
+      requireScope(ApiScope.SEND),
+      this.webhooksController.replayDeliveries.bind(this.webhooksController),
+    );
+
+    return this._router;
+  }
+}
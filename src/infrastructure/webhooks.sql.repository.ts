@@ -0,0 +1,352 @@
+import { BaseRepository, type PoolClient } from "../libs/db-client.ts";
+import type { WebhooksRepository } from "../application/interfaces/webhooks-repository.ts";
+import type {
+  FindWebhookDeliveriesFilter,
+  RecordWebhookAttemptData,
+  SaveWebhookData,
+  UpdateWebhookData,
+} from "../application/types/save-webhook-data.ts";
+import type { EmailEvent, EmailEventType } from "../domain/email-event.ts";
+import {
+  WebhookDeliveryStatus,
+  type ClaimedWebhookDelivery,
+  type WebhookDeliveryAttempt,
+  type WebhookDeliveryEntity,
+  type WebhookEntity,
+} from "../domain/webhook.entity.ts";
+
+interface WebhookRow {
+  id: string;
+  client_id: string;
+  url: string;
+  events: EmailEventType[];
+  secret: string;
+  disabled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// элемент jsonb массива "attempts"
+interface WebhookAttemptJson {
+  at: string;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event: EmailEventType;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  attempts: WebhookAttemptJson[];
+  next_attempt_at: Date | null;
+  delivered_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class WebhooksSqlRepository
+  extends BaseRepository
+  implements WebhooksRepository
+{
+  async create(data: SaveWebhookData): Promise<WebhookEntity> {
+    const result = await this.query<WebhookRow>(
+      `INSERT INTO "webhooks" (
+         "client_id", url, events, secret, "created_at", "updated_at"
+       ) VALUES ($1, $2, $3, $4, NOW(), NOW())
+       RETURNING *`,
+      [data.clientId, data.url, data.events, data.secret],
+    );
+
+    return this.mapRowToWebhook(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<WebhookEntity | null> {
+    const result = await this.query<WebhookRow>(
+      `SELECT * FROM "webhooks" WHERE id = $1`,
+      [id],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToWebhook(row) : null;
+  }
+
+  async findAll(clientId?: string): Promise<WebhookEntity[]> {
+    const result = clientId
+      ? await this.query<WebhookRow>(
+          `SELECT * FROM "webhooks" WHERE "client_id" = $1 ORDER BY "created_at" DESC`,
+          [clientId],
+        )
+      : await this.query<WebhookRow>(
+          `SELECT * FROM "webhooks" ORDER BY "created_at" DESC`,
+        );
+
+    return result.rows.map((row) => this.mapRowToWebhook(row));
+  }
+
+  async update(data: UpdateWebhookData): Promise<WebhookEntity | null> {
+    const updateFields: string[] = ['"updated_at" = NOW()'];
+    const values: any[] = [];
+
+    let paramIndex = 1;
+
+    if (data.url !== undefined) {
+      updateFields.push(`url = $${paramIndex}`);
+      values.push(data.url);
+      paramIndex++;
+    }
+
+    if (data.events !== undefined) {
+      updateFields.push(`events = $${paramIndex}`);
+      values.push(data.events);
+      paramIndex++;
+    }
+
+    if (data.disabled !== undefined) {
+      updateFields.push(
+        data.disabled
+          ? `"disabled_at" = COALESCE("disabled_at", NOW())`
+          : `"disabled_at" = NULL`,
+      );
+    }
+
+    values.push(data.id);
+
+    const result = await this.query<WebhookRow>(
+      `UPDATE "webhooks"
+       SET ${updateFields.join(", ")}
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values,
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToWebhook(row) : null;
+  }
+
+  async delete(id: string): Promise<WebhookEntity | null> {
+    const result = await this.query<WebhookRow>(
+      `DELETE FROM "webhooks" WHERE id = $1 RETURNING *`,
+      [id],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToWebhook(row) : null;
+  }
+
+  async enqueueDeliveries(
+    clientId: string,
+    event: EmailEvent,
+    payload: unknown,
+  ): Promise<number> {
+    const result = await this.query(
+      `INSERT INTO "webhook_deliveries" (
+         "webhook_id", "event_id", event, payload, status,
+         "next_attempt_at", "created_at", "updated_at"
+       )
+       SELECT id, $3, $2, $4, $5, NOW(), NOW(), NOW()
+       FROM "webhooks"
+       WHERE "client_id" = $1 AND "disabled_at" IS NULL AND $2 = ANY(events)`,
+      [
+        clientId,
+        event.type,
+        event.id,
+        JSON.stringify(payload),
+        WebhookDeliveryStatus.PENDING,
+      ],
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  async findDeliveries(filter: FindWebhookDeliveriesFilter): Promise<{
+    deliveries: WebhookDeliveryEntity[];
+    page: number;
+    limit: number;
+    total: number;
+  }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    const addParam = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    conditions.push(`"webhook_id" = ${addParam(filter.webhookId)}`);
+
+    if (filter.status) {
+      conditions.push(`status = ${addParam(filter.status)}`);
+    }
+
+    const where = `WHERE ${conditions.join(" AND ")}`;
+
+    const totalResult = await this.query<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM "webhook_deliveries" ${where}`,
+      values,
+    );
+
+    const total = parseInt(totalResult.rows[0]?.total ?? "0", 10);
+
+    const limitParam = addParam(filter.limit);
+    const offsetParam = addParam((filter.page - 1) * filter.limit);
+
+    const result = await this.query<WebhookDeliveryRow>(
+      `SELECT * FROM "webhook_deliveries"
+       ${where}
+       ORDER BY "created_at" DESC, id DESC
+       LIMIT ${limitParam} OFFSET ${offsetParam}`,
+      values,
+    );
+
+    return {
+      deliveries: result.rows.map((row) => this.mapRowToDelivery(row)),
+      page: filter.page,
+      limit: filter.limit,
+      total,
+    };
+  }
+
+  async claimDueDeliveries(
+    limit: number,
+    lease: number,
+  ): Promise<ClaimedWebhookDelivery[]> {
+    return this.transaction(async (client: PoolClient) => {
+      const result = await client.query<
+        WebhookDeliveryRow & { url: string; secret: string }
+      >(
+        `UPDATE "webhook_deliveries" d
+         SET "next_attempt_at" = NOW() + $2 * INTERVAL '1 millisecond',
+             "updated_at" = NOW()
+         FROM "webhooks" w
+         WHERE w.id = d."webhook_id"
+           AND d.id IN (
+             SELECT d2.id FROM "webhook_deliveries" d2
+             JOIN "webhooks" w2 ON w2.id = d2."webhook_id"
+             WHERE d2.status = $3
+               AND d2."next_attempt_at" <= NOW()
+               AND w2."disabled_at" IS NULL
+             ORDER BY d2."next_attempt_at"
+             LIMIT $1
+             FOR UPDATE OF d2 SKIP LOCKED
+           )
+         RETURNING d.*, w.url, w.secret`,
+        [limit, lease, WebhookDeliveryStatus.PENDING],
+      );
+
+      return result.rows.map((row) => ({
+        delivery: this.mapRowToDelivery(row),
+        url: row.url,
+        secret: row.secret,
+      }));
+    });
+  }
+
+  async recordAttempt(
+    deliveryId: string,
+    data: RecordWebhookAttemptData,
+  ): Promise<WebhookDeliveryEntity | null> {
+    const attempt: WebhookAttemptJson = {
+      ...data.attempt,
+      at: data.attempt.at.toISOString(),
+    };
+
+    const result = await this.query<WebhookDeliveryRow>(
+      `UPDATE "webhook_deliveries"
+       SET status = $2,
+           "attempt_count" = "attempt_count" + 1,
+           attempts = attempts || $3::jsonb,
+           "next_attempt_at" = $4,
+           "delivered_at" = CASE WHEN $2 = $5 THEN $6::timestamptz ELSE "delivered_at" END,
+           "updated_at" = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        deliveryId,
+        data.status,
+        JSON.stringify([attempt]),
+        data.nextAttemptAt,
+        WebhookDeliveryStatus.DELIVERED,
+        data.attempt.at,
+      ],
+    );
+
+    const row = result.rows[0];
+
+    return row ? this.mapRowToDelivery(row) : null;
+  }
+
+  async replayDeliveries(
+    webhookId: string,
+    deliveryIds?: string[],
+  ): Promise<string[]> {
+    const statuses = deliveryIds
+      ? [WebhookDeliveryStatus.FAILED, WebhookDeliveryStatus.DELIVERED]
+      : [WebhookDeliveryStatus.FAILED];
+
+    const result = await this.query<{ id: string }>(
+      `UPDATE "webhook_deliveries"
+       SET status = $1, "attempt_count" = 0, "next_attempt_at" = NOW(), "updated_at" = NOW()
+       WHERE "webhook_id" = $2
+         AND status = ANY($3)
+         AND ($4::uuid[] IS NULL OR id = ANY($4::uuid[]))
+       RETURNING id`,
+      [WebhookDeliveryStatus.PENDING, webhookId, statuses, deliveryIds ?? null],
+    );
+
+    return result.rows.map((row) => row.id);
+  }
+
+  async deleteDeliveriesOlderThan(days: number): Promise<number> {
+    const result = await this.query(
+      `DELETE FROM "webhook_deliveries"
+       WHERE status <> $1
+         AND "created_at" < NOW() - $2 * INTERVAL '1 day'`,
+      [WebhookDeliveryStatus.PENDING, days],
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  // секрет наружу не отдается
+  private mapRowToWebhook(row: WebhookRow): WebhookEntity {
+    return {
+      id: row.id,
+      clientId: row.client_id,
+      url: row.url,
+      events: row.events,
+      disabledAt: row.disabled_at || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapRowToDelivery(row: WebhookDeliveryRow): WebhookDeliveryEntity {
+    return {
+      id: row.id,
+      webhookId: row.webhook_id,
+      eventId: row.event_id,
+      event: row.event,
+      payload: row.payload,
+      status: row.status,
+      attemptCount: row.attempt_count,
+      attempts: (row.attempts || []).map(
+        (attempt): WebhookDeliveryAttempt => ({
+          ...attempt,
+          at: new Date(attempt.at),
+        }),
+      ),
+      nextAttemptAt: row.next_attempt_at || null,
+      deliveredAt: row.delivered_at || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import { createHash, createHmac } from "crypto";
+
+// подпись AWS Signature Version 4 для S3-совместимых хранилищ (AWS S3, MinIO)
+const ALGORITHM = "AWS4-HMAC-SHA256";
+
+export const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface SignatureScope {
+  credentials: AwsCredentials;
+  region: string;
+  service: string;
+  date?: Date;
+}
+
+/**
+ * Подписывает запрос заголовком Authorization.
+ * Возвращает заголовки запроса вместе с host, x-amz-date и x-amz-content-sha256
+ */
+export function signRequest(
+  request: {
+    method: string;
+    url: URL;
+    headers?: Record<string, string>;
+    // hex SHA-256 тела запроса или UNSIGNED_PAYLOAD
+    payloadHash: string;
+  },
+  scope: SignatureScope,
+): Record<string, string> {
+  const amzDate = toAmzDate(scope.date ?? new Date());
+
+  const headers: Record<string, string> = {
+    host: request.url.host,
+    "x-amz-content-sha256": request.payloadHash,
+    "x-amz-date": amzDate,
+  };
+
+  for (const [name, value] of Object.entries(request.headers ?? {})) {
+    headers[name.toLowerCase()] = value.trim();
+  }
+
+  const signedHeaders = Object.keys(headers).sort();
+  const credentialScope = toCredentialScope(amzDate, scope);
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    toCanonicalQuery(request.url.searchParams),
+    signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(""),
+    signedHeaders.join(";"),
+    request.payloadHash,
+  ].join("\n");
+
+  const signature = sign(canonicalRequest, amzDate, credentialScope, scope);
+
+  headers.authorization =
+    `${ALGORITHM} Credential=${scope.credentials.accessKeyId}/${credentialScope}, ` +
+    `SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`;
+
+  return headers;
+}
+
+/**
+ * Ссылка с подписью в параметрах запроса (presigned URL), действует expiresIn секунд
+ */
+export function presignUrl(
+  request: { method: string; url: URL; expiresIn: number },
+  scope: SignatureScope,
+): string {
+  const amzDate = toAmzDate(scope.date ?? new Date());
+  const credentialScope = toCredentialScope(amzDate, scope);
+
+  const url = new URL(request.url);
+  url.searchParams.set("X-Amz-Algorithm", ALGORITHM);
+  url.searchParams.set(
+    "X-Amz-Credential",
+    `${scope.credentials.accessKeyId}/${credentialScope}`,
+  );
+  url.searchParams.set("X-Amz-Date", amzDate);
+  url.searchParams.set("X-Amz-Expires", String(request.expiresIn));
+  url.searchParams.set("X-Amz-SignedHeaders", "host");
+
+  const canonicalQuery = toCanonicalQuery(url.searchParams);
+
+  const canonicalRequest = [
+    request.method,
+    url.pathname,
+    canonicalQuery,
+    `host:${url.host}\n`,
+    "host",
+    UNSIGNED_PAYLOAD,
+  ].join("\n");
+
+  const signature = sign(canonicalRequest, amzDate, credentialScope, scope);
+
+  return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
+
+/**
+ * Кодирование по RFC 3986, как его ожидает SigV4: кодируется все, кроме A-Z a-z 0-9 - _ . ~
+ */
+export function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+export function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function sign(
+  canonicalRequest: string,
+  amzDate: string,
+  credentialScope: string,
+  scope: SignatureScope,
+): string {
+  const stringToSign = [
+    ALGORITHM,
+    amzDate,
+    credentialScope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  let key: Buffer = hmac(
+    `AWS4${scope.credentials.secretAccessKey}`,
+    amzDate.slice(0, 8),
+  );
+
+  for (const part of [scope.region, scope.service, "aws4_request"]) {
+    key = hmac(key, part);
+  }
+
+  return createHmac("sha256", key).update(stringToSign).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// 2013-05-24T00:00:00.000Z -> 20130524T000000Z
+function toAmzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function toCredentialScope(amzDate: string, scope: SignatureScope): string {
+  return `${amzDate.slice(0, 8)}/${scope.region}/${scope.service}/aws4_request`;
+}
+
+function toCanonicalQuery(params: URLSearchParams): string {
+  return [...params]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+}
@@ -0,0 +1,120 @@
+// Определение типа файла по сигнатуре (первым байтам содержимого), без сторонних библиотек
+
+// [тип, сигнатура в hex]
+const SIGNATURES: [string, string][] = [
+  ["application/pdf", "255044462d"], // %PDF-
+  ["image/png", "89504e470d0a1a0a"],
+  ["image/jpeg", "ffd8ff"],
+  ["image/gif", "47494638"], // GIF8
+  ["image/bmp", "424d"], // BM
+  ["image/tiff", "49492a00"],
+  ["image/tiff", "4d4d002a"],
+  // docx, xlsx, pptx, odt - тоже zip архивы
+  ["application/zip", "504b0304"],
+  ["application/gzip", "1f8b"],
+  ["application/x-7z-compressed", "377abcaf271c"],
+  ["application/vnd.rar", "526172211a07"], // Rar!
+  // doc, xls, ppt (OLE2)
+  ["application/x-ole-storage", "d0cf11e0a1b11ae1"],
+  ["application/rtf", "7b5c727466"], // {\rtf
+  ["application/x-msdownload", "4d5a"], // MZ
+  ["application/x-executable", "7f454c46"], // ELF
+];
+
+// RIFF контейнеры: тип в байтах 8-11
+const RIFF_TYPES: Record<string, string> = {
+  WEBP: "image/webp",
+  WAVE: "audio/wav",
+  "AVI ": "video/x-msvideo",
+};
+
+/**
+ * Тип содержимого по сигнатуре, null - сигнатура неизвестна
+ */
+export function sniffContentType(content: Buffer): string | null {
+  if (content.length >= 12 && content.toString("latin1", 0, 4) === "RIFF") {
+    return RIFF_TYPES[content.toString("latin1", 8, 12)] ?? null;
+  }
+
+  const match = SIGNATURES.find(([, signature]) =>
+    content
+      .subarray(0, signature.length / 2)
+      .equals(Buffer.from(signature, "hex")),
+  );
+
+  return match ? match[0] : null;
+}
+
+// расширение -> тип по сигнатуре. Расширения без сигнатуры (txt, csv, html) по содержимому не проверяются
+const EXTENSION_SIGNATURE_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".webp": "image/webp",
+  ".wav": "audio/wav",
+  ".avi": "video/x-msvideo",
+  ".zip": "application/zip",
+  ".docx": "application/zip",
+  ".xlsx": "application/zip",
+  ".pptx": "application/zip",
+  ".odt": "application/zip",
+  ".ods": "application/zip",
+  ".odp": "application/zip",
+  ".epub": "application/zip",
+  ".jar": "application/zip",
+  ".gz": "application/gzip",
+  ".tgz": "application/gzip",
+  ".7z": "application/x-7z-compressed",
+  ".rar": "application/vnd.rar",
+  ".doc": "application/x-ole-storage",
+  ".xls": "application/x-ole-storage",
+  ".ppt": "application/x-ole-storage",
+  ".msg": "application/x-ole-storage",
+  ".rtf": "application/rtf",
+  ".exe": "application/x-msdownload",
+  ".dll": "application/x-msdownload",
+};
+
+// zip и OLE2 - контейнеры офисных форматов, заявленный тип точнее определенного по сигнатуре
+const CONTAINER_TYPES: Record<string, RegExp> = {
+  "application/zip":
+    /zip|openxmlformats|opendocument|java-archive|epub|vnd\.ms-.*\.macroenabled/,
+  "application/x-ole-storage": /msword|vnd\.ms-|ole-storage/,
+};
+
+const CONTENT_TYPE_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "application/x-pdf": "application/pdf",
+  "application/x-gzip": "application/gzip",
+  "application/x-rar-compressed": "application/vnd.rar",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+};
+
+/**
+ * Тип по сигнатуре, которого следует ожидать для расширения (".pdf"), null - расширение не проверяется
+ */
+export function expectedSignatureType(extension: string): string | null {
+  return EXTENSION_SIGNATURE_TYPES[extension.toLowerCase()] ?? null;
+}
+
+/**
+ * Заявленный тип допустим для содержимого с типом detected (определен sniffContentType)
+ */
+export function isContentTypeCompatible(
+  declared: string,
+  detected: string,
+): boolean {
+  const normalized = CONTENT_TYPE_ALIASES[declared] ?? declared;
+
+  return (
+    normalized === detected ||
+    (CONTAINER_TYPES[detected]?.test(normalized) ?? false)
+  );
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { loadMigrations, resolveMigrationStatus } from "./migrator.ts";
+
+describe("loadMigrations", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "migrations-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should load sql files ordered by version", async () => {
+    await writeFile(path.join(dir, "010_add_index.sql"), "CREATE INDEX;");
+    await writeFile(path.join(dir, "002_create_emails.sql"), "CREATE TABLE;");
+    await writeFile(path.join(dir, "README.md"), "notes");
+
+    const migrations = await loadMigrations(dir);
+
+    expect(migrations.map((migration) => migration.filename)).toEqual([
+      "002_create_emails.sql",
+      "010_add_index.sql",
+    ]);
+    expect(migrations[0]).toMatchObject({
+      version: "002",
+      name: "create_emails",
+      sql: "CREATE TABLE;",
+    });
+    expect(migrations[0].checksum).toHaveLength(64);
+  });
+
+  it("should reject invalid names and duplicate versions", async () => {
+    await writeFile(path.join(dir, "create_emails.sql"), "");
+
+    await expect(loadMigrations(dir)).rejects.toThrow(
+      'Invalid migration filename "create_emails.sql"',
+    );
+
+    await rm(path.join(dir, "create_emails.sql"));
+    await writeFile(path.join(dir, "001_a.sql"), "");
+    await writeFile(path.join(dir, "1_b.sql"), "");
+
+    await expect(loadMigrations(dir)).rejects.toThrow(
+      "Duplicate migration version",
+    );
+  });
+});
+
+describe("resolveMigrationStatus", () => {
+  const migration = (version: string, checksum: string) => ({
+    version,
+    name: `migration_${version}`,
+    filename: `${version}_migration_${version}.sql`,
+    sql: "",
+    checksum,
+  });
+
+  it("should detect pending, changed and missing migrations", () => {
+    const appliedAt = new Date("2026-10-01T00:00:00Z");
+
+    const statuses = resolveMigrationStatus(
+      [migration("001", "a"), migration("002", "b"), migration("004", "d")],
+      [
+        { version: "001", name: "migration_001", checksum: "a", appliedAt },
+        { version: "002", name: "migration_002", checksum: "x", appliedAt },
+        { version: "003", name: "migration_003", checksum: "c", appliedAt },
+      ],
+    );
+
+    expect(statuses.map((status) => [status.version, status.state])).toEqual([
+      ["001", "applied"],
+      ["002", "changed"],
+      ["003", "missing"],
+      ["004", "pending"],
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+import { createHash } from "crypto";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import type { DatabasePool, PoolClient } from "./db-client.ts";
+
+// 001_create_emails.sql - версия 001, имя create_emails
+const MIGRATION_FILENAME = /^(\d+)_([\w-]+)\.sql$/;
+
+// общий ключ блокировки для всех реплик сервиса
+const MIGRATIONS_LOCK_KEY = "notification-service:migrations";
+
+export interface Migration {
+  version: string;
+  name: string;
+  filename: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  // changed - файл изменен после применения, missing - файла примененной миграции нет
+  state: "applied" | "pending" | "changed" | "missing";
+  appliedAt: Date | null;
+}
+
+/**
+ * Читает SQL миграции из директории в порядке версий
+ */
+export async function loadMigrations(dir: string): Promise<Migration[]> {
+  const filenames = (await readdir(dir)).filter((filename) =>
+    filename.endsWith(".sql"),
+  );
+
+  const migrations: Migration[] = [];
+
+  for (const filename of filenames) {
+    const match = MIGRATION_FILENAME.exec(filename);
+
+    if (!match) {
+      throw new Error(
+        `Invalid migration filename "${filename}", expected <version>_<name>.sql`,
+      );
+    }
+
+    const duplicate = migrations.find(
+      (migration) => Number(migration.version) === Number(match[1]),
+    );
+
+    if (duplicate) {
+      throw new Error(
+        `Duplicate migration version ${match[1]}: ${duplicate.filename}, ${filename}`,
+      );
+    }
+
+    const sql = await readFile(path.join(dir, filename), "utf8");
+
+    migrations.push({
+      version: match[1],
+      name: match[2],
+      filename,
+      sql,
+      checksum: createHash("sha256").update(sql).digest("hex"),
+    });
+  }
+
+  return migrations.sort((a, b) => Number(a.version) - Number(b.version));
+}
+
+/**
+ * Сопоставляет файлы миграций с историей применения
+ */
+export function resolveMigrationStatus(
+  migrations: Migration[],
+  applied: AppliedMigration[],
+): MigrationStatus[] {
+  const appliedByVersion = new Map(
+    applied.map((migration) => [migration.version, migration]),
+  );
+
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const record = appliedByVersion.get(migration.version);
+
+    if (!record) {
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: "pending",
+        appliedAt: null,
+      };
+    }
+
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: record.checksum === migration.checksum ? "applied" : "changed",
+      appliedAt: record.appliedAt,
+    };
+  });
+
+  const known = new Set(migrations.map((migration) => migration.version));
+
+  for (const record of applied) {
+    if (!known.has(record.version)) {
+      statuses.push({
+        version: record.version,
+        name: record.name,
+        state: "missing",
+        appliedAt: record.appliedAt,
+      });
+    }
+  }
+
+  return statuses.sort((a, b) => Number(a.version) - Number(b.version));
+}
+
+/**
+ * Применяет SQL миграции из директории, история хранится в таблице "schema_migrations".
+ * Advisory lock не дает нескольким репликам применять миграции одновременно
+ */
+export class Migrator {
+  private readonly db: DatabasePool;
+  private readonly dir: string;
+
+  constructor(db: DatabasePool, dir: string) {
+    this.db = db;
+    this.dir = path.resolve(dir);
+  }
+
+  /**
+   * Применяет ожидающие миграции, каждую в своей транзакции.
+   * Возвращает примененные миграции
+   */
+  async up(): Promise<Migration[]> {
+    const migrations = await loadMigrations(this.dir);
+
+    return this.withLock(async (client) => {
+      const statuses = resolveMigrationStatus(
+        migrations,
+        await this.findApplied(client),
+      );
+
+      // измененная уже примененная миграция - ошибка, ее нужно вернуть или добавить новую
+      const changed = statuses.filter((status) => status.state === "changed");
+
+      if (changed.length > 0) {
+        throw new Error(
+          `Applied migrations were modified: ${changed
+            .map((status) => `${status.version}_${status.name}`)
+            .join(", ")}`,
+        );
+      }
+
+      const pendingVersions = new Set(
+        statuses
+          .filter((status) => status.state === "pending")
+          .map((status) => status.version),
+      );
+
+      const pending = migrations.filter((migration) =>
+        pendingVersions.has(migration.version),
+      );
+
+      for (const migration of pending) {
+        await this.apply(client, migration);
+        console.log(`Migration applied: ${migration.filename}`);
+      }
+
+      return pending;
+    });
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = await loadMigrations(this.dir);
+
+    const client = await this.db.getClient();
+
+    try {
+      await this.ensureHistoryTable(client);
+
+      return resolveMigrationStatus(migrations, await this.findApplied(client));
+    } finally {
+      client.release();
+    }
+  }
+
+  private async apply(client: PoolClient, migration: Migration): Promise<void> {
+    try {
+      await client.query("BEGIN");
+      await client.query(migration.sql);
+      await client.query(
+        `INSERT INTO "schema_migrations" (version, name, checksum, "applied_at")
+         VALUES ($1, $2, $3, NOW())`,
+        [migration.version, migration.name, migration.checksum],
+      );
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+
+      throw new Error(
+        `Migration ${migration.filename} failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        { cause: error },
+      );
+    }
+  }
+
+  // блокировка сессионная, поэтому все запросы выполняются на одном соединении
+  private async withLock<T>(
+    callback: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await this.db.getClient();
+
+    try {
+      await client.query("SELECT pg_advisory_lock(hashtext($1))", [
+        MIGRATIONS_LOCK_KEY,
+      ]);
+
+      try {
+        await this.ensureHistoryTable(client);
+
+        return await callback(client);
+      } finally {
+        await client.query("SELECT pg_advisory_unlock(hashtext($1))", [
+          MIGRATIONS_LOCK_KEY,
+        ]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private async ensureHistoryTable(client: PoolClient): Promise<void> {
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS "schema_migrations" (
+         version text PRIMARY KEY,
+         name text NOT NULL,
+         checksum text NOT NULL,
+         "applied_at" timestamptz NOT NULL DEFAULT NOW()
+       )`,
+    );
+  }
+
+  private async findApplied(client: PoolClient): Promise<AppliedMigration[]> {
+    const result = await client.query<{
+      version: string;
+      name: string;
+      checksum: string;
+      applied_at: Date;
+    }>(`SELECT * FROM "schema_migrations" ORDER BY version`);
+
+    return result.rows.map((row) => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: row.applied_at,
+    }));
+  }
+}
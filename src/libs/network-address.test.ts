@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { findNonPublicAddress, isPublicAddress } from "./network-address.ts";
+
+describe("isPublicAddress", () => {
+  it("should reject loopback, private, link-local and ULA addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "fe80::1",
+      "fd00::1",
+      "::ffff:127.0.0.1",
+      "::ffff:a9fe:a9fe",
+      "not-an-ip",
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("should accept public addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700::1111"]) {
+      expect(isPublicAddress(address), address).toBe(true);
+    }
+  });
+});
+
+describe("findNonPublicAddress", () => {
+  it("should check ip literals and resolved hosts", async () => {
+    expect(await findNonPublicAddress("169.254.169.254")).toBe(
+      "169.254.169.254",
+    );
+    expect(await findNonPublicAddress("[::1]")).toBe("::1");
+    expect(await findNonPublicAddress("8.8.8.8")).toBeNull();
+    expect(await findNonPublicAddress("localhost")).toMatch(/^(127\.|::1)/);
+  });
+});
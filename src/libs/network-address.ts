@@ -0,0 +1,146 @@
+import { lookup } from "dns/promises";
+import net, { type LookupFunction } from "net";
+import { Agent, type Dispatcher } from "undici";
+
+// Адреса, недоступные из интернета: запросы к ним по url от клиента - SSRF
+// (loopback, частные сети, link-local с метаданными облака 169.254.169.254, ULA).
+// BlockList сверяет IPv4-mapped IPv6 (::ffff:127.0.0.1) с IPv4 подсетями
+const NON_PUBLIC = new net.BlockList();
+
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+
+  if (family === 0) {
+    return false;
+  }
+
+  return !NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// все адреса хоста, ошибки DNS пробрасываются
+export type ResolveHost = (hostname: string) => Promise<string[]>;
+
+export const resolveHost: ResolveHost = async (hostname) =>
+  (await lookup(hostname, { all: true })).map((entry) => entry.address);
+
+export class NonPublicAddressError extends Error {
+  readonly hostname: string;
+  readonly address: string;
+
+  constructor(hostname: string, address: string) {
+    super(`host ${hostname} resolves to non-public address ${address}`);
+    this.name = this.constructor.name;
+    this.hostname = hostname;
+    this.address = address;
+  }
+}
+
+/**
+ * Разрешает имя хоста (или IP адрес в url) и возвращает первый непубличный адрес,
+ * null - все адреса хоста публичные. Ошибки DNS пробрасываются
+ */
+export async function findNonPublicAddress(
+  hostname: string,
+  resolve: ResolveHost = resolveHost,
+): Promise<string | null> {
+  // IPv6 в url записывается в скобках: http://[::1]/
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = net.isIP(host) ? [host] : await resolve(host);
+
+  return addresses.find((address) => !isPublicAddress(address)) ?? null;
+}
+
+/**
+ * Ищет NonPublicAddressError в цепочке cause (fetch оборачивает ошибку соединения в TypeError)
+ */
+export function findNonPublicAddressError(
+  error: unknown,
+): NonPublicAddressError | null {
+  for (let current = error; current instanceof Error; ) {
+    if (current instanceof NonPublicAddressError) {
+      return current;
+    }
+
+    current = current.cause;
+  }
+
+  return null;
+}
+
+// Разрешение имени и подключение к хостам из интернета
+export interface PublicNetwork {
+  resolve: ResolveHost;
+  // dispatcher для fetch, подключается только к публичным адресам
+  dispatcher: Dispatcher;
+}
+
+/**
+ * Имя хоста разрешается при установке соединения, и подключение идет к тому же адресу,
+ * который прошел проверку: повторное разрешение (DNS rebinding) не подменит адрес после проверки.
+ * IP адрес в url соединение не разрешает, его проверяет findNonPublicAddress
+ */
+export function createPublicNetwork(
+  resolve: ResolveHost = resolveHost,
+): PublicNetwork {
+  const publicLookup: LookupFunction = (hostname, options, callback) => {
+    resolve(hostname)
+      .then((addresses) => {
+        const address = addresses.find((entry) => !isPublicAddress(entry));
+
+        if (address) {
+          throw new NonPublicAddressError(hostname, address);
+        }
+
+        if (addresses.length === 0) {
+          throw new Error(`host ${hostname} could not be resolved`);
+        }
+
+        const entries = addresses.map((entry) => ({
+          address: entry,
+          family: net.isIP(entry),
+        }));
+
+        if (options.all) {
+          callback(null, entries);
+        } else {
+          callback(null, entries[0].address, entries[0].family);
+        }
+      })
+      .catch((error: NodeJS.ErrnoException) => callback(error, "", 0));
+  };
+
+  return {
+    resolve,
+    dispatcher: new Agent({ connect: { lookup: publicLookup } }),
+  };
+}
+
+// общий для загрузки вложений и доставки вебхуков
+export const publicNetwork = createPublicNetwork();
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { isValidTimeZone, resolveDateTime } from "./timezone.ts";
+
+describe("isValidTimeZone", () => {
+  it("should accept IANA time zones", () => {
+    expect(isValidTimeZone("Europe/Moscow")).toBe(true);
+    expect(isValidTimeZone("America/New_York")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+  });
+
+  it("should reject unknown time zones", () => {
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
+
+describe("resolveDateTime", () => {
+  it("should keep explicit offsets", () => {
+    expect(
+      resolveDateTime("2026-10-20T09:00:00+03:00", "America/New_York"),
+    ).toEqual(new Date("2026-10-20T06:00:00Z"));
+    expect(resolveDateTime("2026-10-20T09:00:00Z")).toEqual(
+      new Date("2026-10-20T09:00:00Z"),
+    );
+  });
+
+  it("should treat local time as UTC by default", () => {
+    expect(resolveDateTime("2026-10-20T09:00")).toEqual(
+      new Date("2026-10-20T09:00:00Z"),
+    );
+  });
+
+  it("should convert local time in time zone", () => {
+    expect(resolveDateTime("2026-10-20T09:00:00", "Europe/Moscow")).toEqual(
+      new Date("2026-10-20T06:00:00Z"),
+    );
+    expect(resolveDateTime("2026-10-20T09:00:00.250", "Asia/Kolkata")).toEqual(
+      new Date("2026-10-20T03:30:00.250Z"),
+    );
+  });
+
+  it("should account for daylight saving time", () => {
+    // летнее время (EDT, UTC-4) и зимнее (EST, UTC-5)
+    expect(resolveDateTime("2026-07-01T09:00", "America/New_York")).toEqual(
+      new Date("2026-07-01T13:00:00Z"),
+    );
+    expect(resolveDateTime("2026-12-01T09:00", "America/New_York")).toEqual(
+      new Date("2026-12-01T14:00:00Z"),
+    );
+    // сразу после перехода на зимнее время (1 ноября 2026)
+    expect(resolveDateTime("2026-11-01T03:00", "America/New_York")).toEqual(
+      new Date("2026-11-01T08:00:00Z"),
+    );
+  });
+
+  it("should return invalid date for malformed input", () => {
+    expect(Number.isNaN(resolveDateTime("tomorrow 9am").getTime())).toBe(true);
+  });
+});
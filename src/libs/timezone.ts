@@ -0,0 +1,81 @@
+// Перевод локального времени в часовом поясе (IANA, например Europe/Moscow) в UTC через Intl,
+// без сторонних библиотек
+
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ISO дата-время в UTC. Если в value указано смещение (Z, +03:00), timeZone не используется,
+ * иначе value - локальное время в timeZone
+ */
+export function resolveDateTime(value: string, timeZone = "UTC"): Date {
+  if (OFFSET_PATTERN.test(value)) {
+    return new Date(value);
+  }
+
+  const match = LOCAL_DATE_TIME_PATTERN.exec(value);
+
+  if (!match) {
+    return new Date(NaN);
+  }
+
+  const [, year, month, day, hour, minute, second = "0", ms = "0"] = match;
+
+  const wallTime = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+    Number(ms.padEnd(3, "0")),
+  );
+
+  // смещение может отличаться до и после перехода на летнее время, уточняем по найденному моменту
+  let result = wallTime - getTimeZoneOffset(wallTime, timeZone);
+  const offset = getTimeZoneOffset(result, timeZone);
+
+  if (wallTime - offset !== result) {
+    result = wallTime - offset;
+  }
+
+  return new Date(result);
+}
+
+// смещение часового пояса относительно UTC в момент time, мс
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(time));
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+
+  return asUtc - Math.floor(time / 1000) * 1000;
+}
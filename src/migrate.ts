@@ -0,0 +1,48 @@
+// CLI миграций базы данных:
+//   node ./src/migrate.ts up      - применить ожидающие миграции
+//   node ./src/migrate.ts status  - показать состояние миграций
+
+import { config } from "./config/env.ts";
+import { createDatabaseConfig, DatabasePool } from "./libs/db-client.ts";
+import { Migrator } from "./libs/migrator.ts";
+
+const command = process.argv[2] ?? "up";
+
+if (command !== "up" && command !== "status") {
+  console.error(`Unknown command "${command}", expected "up" or "status"`);
+  process.exit(1);
+}
+
+const db = new DatabasePool(createDatabaseConfig());
+const migrator = new Migrator(db, config.migrations.dir);
+
+try {
+  if (command === "up") {
+    const applied = await migrator.up();
+
+    console.log(
+      applied.length > 0
+        ? `Applied ${applied.length} migrations`
+        : "Database is up to date",
+    );
+  } else {
+    const statuses = await migrator.status();
+
+    for (const status of statuses) {
+      console.log(
+        `${status.version}_${status.name}\t${status.state}\t${
+          status.appliedAt?.toISOString() ?? ""
+        }`,
+      );
+    }
+
+    if (statuses.some((status) => status.state === "changed")) {
+      process.exitCode = 1;
+    }
+  }
+} catch (error) {
+  console.error(error);
+  process.exitCode = 1;
+} finally {
+  await db.close();
+}
@@ -0,0 +1,159 @@
+import type { Request, Response, NextFunction } from "express";
+import type { ApiClientsService } from "../application/api-clients.service.ts";
+import {
+  CreateApiClientDtoSchema,
+  RotateApiKeyDtoSchema,
+  UpdateApiClientDtoSchema,
+} from "../contracts/api-client.dto.ts";
+import { NotFoundError } from "./errors/app-error.ts";
+
+export class ApiClientsController {
+  private readonly apiClientsService: ApiClientsService;
+
+  constructor(apiClientsService: ApiClientsService) {
+    this.apiClientsService = apiClientsService;
+  }
+
+  async createClient(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = CreateApiClientDtoSchema.parse(req.body);
+      const { client, key, apiKey } =
+        await this.apiClientsService.createClient(validated);
+
+      // ключ показывается только один раз
+      res.status(201).json({
+        data: { client, key, apiKey },
+        success: true,
+        message: "API client created successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getClients(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const clients = await this.apiClientsService.getClients();
+
+      res.json({
+        data: { items: clients, count: clients.length },
+        success: true,
+        message: "API clients found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getClient(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const result = await this.apiClientsService.getClient(req.params.id);
+
+      if (!result) {
+        throw new NotFoundError("API client");
+      }
+
+      res.json({
+        data: { ...result.client, keys: result.keys },
+        success: true,
+        message: "API client found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateClient(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = UpdateApiClientDtoSchema.parse(req.body);
+      const client = await this.apiClientsService.updateClient({
+        id: req.params.id,
+        ...validated,
+      });
+
+      if (!client) {
+        throw new NotFoundError("API client");
+      }
+
+      res.json({
+        data: client,
+        success: true,
+        message: "API client updated successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async rotateKey(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = RotateApiKeyDtoSchema.parse(req.body ?? {});
+      const { key, apiKey, previousExpiresAt } =
+        await this.apiClientsService.rotateKey(
+          req.params.id,
+          validated.overlapSeconds === undefined
+            ? undefined
+            : validated.overlapSeconds * 1000,
+        );
+
+      res.status(201).json({
+        data: { key, apiKey, previousExpiresAt },
+        success: true,
+        message: "API key rotated successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async revokeKey(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const key = await this.apiClientsService.revokeKey(
+        req.params.id,
+        req.params.keyId,
+      );
+
+      if (!key) {
+        throw new NotFoundError("API key");
+      }
+
+      res.json({
+        data: key,
+        success: true,
+        message: "API key revoked successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { Request, Response, NextFunction } from "express";
+import type { BouncesService } from "../application/bounces.service.ts";
+import { BounceWebhookDtoSchema } from "../contracts/bounce-webhook.dto.ts";
+
+export class BouncesController {
+  private readonly bouncesService: BouncesService;
+
+  constructor(bouncesService: BouncesService) {
+    this.bouncesService = bouncesService;
+  }
+
+  /**
+   * Принимает отчет о доставке или жалобу: сырое письмо в теле запроса
+   * (message/rfc822, multipart/report, text/plain) или JSON { message }
+   */
+  async receiveReport(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const raw =
+        typeof req.body === "string" && req.body.length > 0
+          ? req.body
+          : BounceWebhookDtoSchema.parse(req.body).message;
+
+      const result = await this.bouncesService.processReport(raw);
+
+      // 200 и для нераспознанных отчетов, чтобы отправитель не повторял запрос
+      res.json({
+        data: result,
+        success: true,
+        message: "Report processed",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
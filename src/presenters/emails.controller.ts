@@ -1,6 +1,28 @@
 import type { Request, Response, NextFunction } from "express";
-import type { EmailsService } from "../application/emails.service.ts";
-import { SendEmailDtoSchema } from "../contracts/send-email.dto.ts";
+import { pipeline } from "stream/promises";
+import type {
+  EmailsService,
+  SendEmailRequest,
+} from "../application/emails.service.ts";
+import type {
+  IdempotencyService,
+  IdempotentResponse,
+} from "../application/idempotency.service.ts";
+import type { RateLimitsService } from "../application/rate-limits.service.ts";
+import type { AttachmentsService } from "../application/attachments.service.ts";
+import type { AttachmentLinksService } from "../application/attachment-links.ts";
+import { StorageObjectNotFoundError } from "../application/errors/storage-errors.ts";
+import {
+  assertSenderAllowed,
+  canAccessEmail,
+} from "../application/api-clients.service.ts";
+import {
+  RescheduleEmailDtoSchema,
+  SendEmailDtoSchema,
+  SendModeSchema,
+  type SendMode,
+} from "../contracts/send-email.dto.ts";
+import { resolveDateTime } from "../libs/timezone.ts";
 import {
   BadRequestError,
   NotFoundError,
@@ -8,12 +30,29 @@ import {
 } from "../presenters/errors/app-error.ts";
 import { config } from "../config/env.ts";
 import { normalizeSendEmailDto } from "../contracts/normalize-dto.ts";
+import { ListEmailsQuerySchema } from "../contracts/list-emails.query.ts";
+import { EmailStatus } from "../domain/types.ts";
+import type { AuditContext } from "../application/types/audit-context.ts";
 
 export class EmailsController {
   private readonly emailService: EmailsService;
+  private readonly idempotencyService: IdempotencyService;
+  private readonly rateLimitsService: RateLimitsService;
+  private readonly attachmentsService: AttachmentsService;
+  private readonly attachmentLinksService: AttachmentLinksService;
 
-  constructor(emailService: EmailsService) {
+  constructor(
+    emailService: EmailsService,
+    idempotencyService: IdempotencyService,
+    rateLimitsService: RateLimitsService,
+    attachmentsService: AttachmentsService,
+    attachmentLinksService: AttachmentLinksService,
+  ) {
     this.emailService = emailService;
+    this.idempotencyService = idempotencyService;
+    this.rateLimitsService = rateLimitsService;
+    this.attachmentsService = attachmentsService;
+    this.attachmentLinksService = attachmentLinksService;
   }
 
   async sendEmail(
@@ -22,6 +61,9 @@ export class EmailsController {
     next: NextFunction,
   ): Promise<void> {
     try {
+      const mode = SendModeSchema.parse(
+        req.query.mode ?? config.delivery.defaultMode,
+      );
       const validated = SendEmailDtoSchema.parse(req.body);
       const normalized = normalizeSendEmailDto(validated);
 
@@ -29,37 +71,138 @@ export class EmailsController {
         throw new ValidationError("Invalid file format");
       }
 
-      const files = req.files as Express.Multer.File[] | undefined;
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const inputs = validated.attachments ?? [];
+
+      if (files.length + inputs.length > 30) {
+        throw new ValidationError("Maximum 30 attachments allowed");
+      }
+
+      if (normalized.sendAt && normalized.sendAt <= new Date()) {
+        throw new ValidationError("sendAt must be in the future");
+      }
 
-      const attachments =
-        files?.map((file) => ({
-          filename: file.filename,
+      const client = req.apiClient!;
+
+      assertSenderAllowed(client, normalized.from);
+
+      // файлы multipart запроса и base64 вложения проверяются и сохраняются в хранилище, url загружаются при отправке
+      const attachments = await this.attachmentsService.resolveInputs(
+        inputs,
+        files.map((file) => ({
           originalName: file.originalname,
           mimetype: file.mimetype,
-          size: file.size,
-          path: file.path,
-          url: null,
-        })) || [];
+          content: file.buffer,
+        })),
+      );
 
-      if (attachments.length > 30) {
-        throw new ValidationError("Maximum 30 attachments allowed");
-      }
+      try {
+        const request: SendEmailRequest = {
+          ...normalized,
+          apiClientId: client.id,
+          attachments,
+        };
+        const recipientsCount =
+          request.to.length +
+          (request.cc?.length ?? 0) +
+          (request.bcc?.length ?? 0);
 
-      const result = await this.emailService.sendEmail({
-        ...normalized,
-        attachments,
-      });
+        // повтор по Idempotency-Key не учитывается в лимите получателей
+        const send = async () => {
+          await this.rateLimitsService.consumeRecipients(
+            client,
+            recipientsCount,
+          );
+
+          return this.deliver(mode, request);
+        };
 
-      if (!result || result.status === "FAILED") {
-        throw new BadRequestError(result?.error || "Failed to send email");
+        const idempotencyKey = this.getIdempotencyKey(req);
+
+        if (!idempotencyKey) {
+          const response = await send();
+
+          res.status(response.status).json(response.body);
+          return;
+        }
+
+        // в hash попадают метаданные файлов и ключ хранилища (hash содержимого), а не само содержимое
+        const payload = {
+          mode,
+          ...normalized,
+          attachments: attachments.map((attachment) => ({
+            originalName: attachment.originalName,
+            mimetype: attachment.mimetype,
+            size: attachment.size,
+            url: attachment.url,
+            storageKey: attachment.storageKey,
+          })),
+        };
+
+        // ключи разных клиентов не пересекаются
+        const response = await this.idempotencyService.execute(
+          `${client.id ?? "shared"}:${idempotencyKey}`,
+          payload,
+          send,
+        );
+
+        if (response.replayed) {
+          // файлы повторного запроса не нужны, письмо уже создано первым запросом
+          await this.emailService.discardAttachments(attachments);
+          res.setHeader("Idempotent-Replayed", "true");
+        }
+
+        res.status(response.status).json(response.body);
+      } catch (error) {
+        // письмо не создано: загруженные файлы не нужны (файлы, на которые ссылаются письма, не удаляются)
+        await this.emailService.discardAttachments(attachments);
+        throw error;
       }
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getEmails(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const filter = ListEmailsQuerySchema.parse(req.query);
+      const result = await this.emailService.getEmails({
+        ...filter,
+        apiClientId: this.getOwnerFilter(req),
+      });
 
-      res.status(201).json({
+      res.json({
         data: {
-          id: result.id,
+          items: result.emails.map((email) => ({
+            id: email.id,
+            from: email.from,
+            status: email.status,
+            to: email.to,
+            cc: email.cc,
+            bcc: email.bcc,
+            displayName: email.displayName,
+            subject: email.subject,
+            attachmentsCount: email.attachments.length,
+            error: email.error,
+            attemptsCount: email.attempts.length,
+            nextAttemptAt: email.nextAttemptAt,
+            scheduledAt: email.scheduledAt,
+            sentAt: email.sentAt,
+            createdAt: email.createdAt,
+            updatedAt: email.updatedAt,
+            deletedAt: email.deletedAt,
+          })),
+          count: result.count,
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
         },
         success: true,
-        message: "Email sent successfully",
+        message: "Emails found successfully",
         error: null,
       });
     } catch (error) {
@@ -76,8 +219,8 @@ export class EmailsController {
       const { id } = req.params;
       const email = await this.emailService.getEmailDetails(id);
 
-      if (!email) {
-        throw new NotFoundError("Email not found");
+      if (!email || !canAccessEmail(req.apiClient!, email)) {
+        throw new NotFoundError("Email");
       }
 
       res.json({
@@ -88,8 +231,41 @@ export class EmailsController {
           to: email.to,
           displayName: email.displayName,
           subject: email.subject,
-          attachments: email.attachments,
+          templateId: email.templateId,
+          templateVersion: email.templateVersion,
+          // ссылки на скачивание вместо ключей хранилища
+          attachments: email.attachments.map((attachment) => {
+            const link = this.attachmentLinksService.create(
+              email.id,
+              attachment.id,
+            );
+
+            return {
+              id: attachment.id,
+              originalName: attachment.originalName,
+              mimetype: attachment.mimetype,
+              size: attachment.size,
+              url: attachment.url,
+              downloadUrl: `${this.getBaseUrl(req)}${link.path}`,
+              downloadUrlExpiresAt: link.expiresAt,
+              createdAt: attachment.createdAt,
+            };
+          }),
           error: email.error,
+          tag: email.tag,
+          apiClientId: email.apiClientId,
+          provider: email.provider,
+          messageId: email.messageId,
+          acceptedRecipients: email.acceptedRecipients,
+          rejectedRecipients: email.rejectedRecipients,
+          smtpResponse: email.smtpResponse,
+          sendDurationMs: email.sendDurationMs,
+          diagnosticCode: email.diagnosticCode,
+          suppressedRecipients: email.suppressedRecipients,
+          attempts: email.attempts,
+          nextAttemptAt: email.nextAttemptAt,
+          scheduledAt: email.scheduledAt,
+          timezone: email.timezone,
           sentAt: email.sentAt,
           createdAt: email.createdAt,
           updatedAt: email.updatedAt,
@@ -104,6 +280,74 @@ export class EmailsController {
     }
   }
 
+  // доступ по ключу клиента или по подписанной ссылке (verifyAttachmentLink)
+  async downloadAttachment(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id, attachmentId } = req.params as {
+        id: string;
+        attachmentId: string;
+      };
+      const email = await this.emailService.getEmailDetails(id);
+
+      if (
+        !email ||
+        (!res.locals.attachmentLink && !canAccessEmail(req.apiClient!, email))
+      ) {
+        throw new NotFoundError("Email");
+      }
+
+      const attachment = email.attachments.find(
+        (item) => item.id === attachmentId,
+      );
+
+      // файлы удаленного письма удалены из хранилища
+      if (!attachment || email.deletedAt) {
+        throw new NotFoundError("Attachment");
+      }
+
+      // вложение по url сервис не хранит
+      if (attachment.url) {
+        res.redirect(302, attachment.url);
+        return;
+      }
+
+      let content;
+
+      try {
+        content = await this.attachmentsService.openStored(attachment);
+      } catch (error) {
+        if (error instanceof StorageObjectNotFoundError) {
+          throw new NotFoundError("Attachment");
+        }
+
+        throw error;
+      }
+
+      res.attachment(attachment.originalName);
+      res.setHeader("Content-Type", attachment.mimetype);
+      res.setHeader("Content-Length", attachment.size);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, no-store");
+
+      try {
+        await pipeline(content, res);
+      } catch (error) {
+        // заголовки уже отправлены, ответ можно только оборвать
+        console.error(
+          `Failed to stream attachment ${attachment.id}:`,
+          (error as Error).message,
+        );
+        res.destroy();
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async deleteEmail(
     req: Request,
     res: Response,
@@ -111,10 +355,15 @@ export class EmailsController {
   ): Promise<void> {
     try {
       const { id } = req.params;
-      const deletedEmail = await this.emailService.deleteEmailSoft(id);
+      await this.assertEmailAccess(req, id);
+
+      const deletedEmail = await this.emailService.deleteEmailSoft(
+        id,
+        this.getAuditContext(req, res),
+      );
 
       if (!deletedEmail) {
-        throw new NotFoundError("Email not found");
+        throw new NotFoundError("Email");
       }
 
       res.json({
@@ -129,4 +378,298 @@ export class EmailsController {
       next(error);
     }
   }
+
+  async deleteEmailHard(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const deletedEmail = await this.emailService.deleteEmailHard(
+        id,
+        this.getAuditContext(req, res),
+      );
+
+      if (!deletedEmail) {
+        throw new NotFoundError("Email");
+      }
+
+      res.json({
+        data: {
+          id: deletedEmail.id,
+        },
+        success: true,
+        message: "Email permanently deleted",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async restoreEmail(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const restoredEmail = await this.emailService.restoreEmail(
+        id,
+        this.getAuditContext(req, res),
+      );
+
+      if (!restoredEmail) {
+        throw new NotFoundError("Deleted email");
+      }
+
+      res.json({
+        data: {
+          id: restoredEmail.id,
+          status: restoredEmail.status,
+        },
+        success: true,
+        message: "Email restored successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async cancelScheduledEmail(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      await this.assertEmailAccess(req, id);
+
+      const cancelledEmail = await this.emailService.cancelScheduledEmail(
+        id,
+        this.getAuditContext(req, res),
+      );
+
+      if (!cancelledEmail) {
+        throw new NotFoundError("Email");
+      }
+
+      res.json({
+        data: {
+          id: cancelledEmail.id,
+          status: cancelledEmail.status,
+        },
+        success: true,
+        message: "Scheduled email cancelled successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async rescheduleEmail(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      await this.assertEmailAccess(req, id);
+
+      const validated = RescheduleEmailDtoSchema.parse(req.body);
+      const sendAt = resolveDateTime(validated.sendAt, validated.timezone);
+
+      if (sendAt <= new Date()) {
+        throw new ValidationError("sendAt must be in the future");
+      }
+
+      const rescheduledEmail = await this.emailService.rescheduleEmail(
+        id,
+        sendAt,
+        validated.timezone ?? null,
+        this.getAuditContext(req, res),
+      );
+
+      if (!rescheduledEmail) {
+        throw new NotFoundError("Email");
+      }
+
+      res.json({
+        data: {
+          id: rescheduledEmail.id,
+          status: rescheduledEmail.status,
+          scheduledAt: rescheduledEmail.scheduledAt,
+          timezone: rescheduledEmail.timezone,
+        },
+        success: true,
+        message: "Email rescheduled successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Отправка / постановка в очередь / откладывание письма, ответ формируется здесь,
+   * чтобы его можно было сохранить для повторов по Idempotency-Key
+   */
+  private async deliver(
+    mode: SendMode,
+    request: SendEmailRequest,
+  ): Promise<IdempotentResponse> {
+    if (request.sendAt) {
+      const scheduled = await this.emailService.scheduleEmail({
+        ...request,
+        sendAt: request.sendAt,
+      });
+
+      return {
+        status: 202,
+        body: {
+          data: {
+            id: scheduled.id,
+            status: scheduled.status,
+            scheduledAt: scheduled.scheduledAt,
+            timezone: scheduled.timezone,
+          },
+          success: true,
+          message: "Email scheduled for delivery",
+          error: null,
+        },
+      };
+    }
+
+    if (mode === "async") {
+      const queued = await this.emailService.queueEmail(request);
+
+      return {
+        status: 202,
+        body: {
+          data: {
+            id: queued.id,
+            status: queued.status,
+          },
+          success: true,
+          message: "Email queued for delivery",
+          error: null,
+        },
+      };
+    }
+
+    const result = await this.emailService.sendEmail(request);
+
+    if (!result) {
+      throw new BadRequestError("Failed to send email");
+    }
+
+    // письмо сохранено, поэтому ошибка отправки тоже сохраняется как ответ
+    if (result.status === EmailStatus.DEAD_LETTER) {
+      const error = new BadRequestError(result.error || "Failed to send email");
+
+      return {
+        status: error.status,
+        body: { error: error.message, code: error.code },
+      };
+    }
+
+    // ограничение скорости домена или провайдеров, отправку выполнит воркер
+    if (result.status === EmailStatus.QUEUED) {
+      return {
+        status: 202,
+        body: {
+          data: {
+            id: result.id,
+            status: result.status,
+            nextAttemptAt: result.nextAttemptAt,
+          },
+          success: true,
+          message: "Email delivery throttled, queued for later",
+          error: null,
+        },
+      };
+    }
+
+    // временная ошибка, повторную отправку выполнит воркер
+    if (result.status === EmailStatus.FAILED) {
+      return {
+        status: 202,
+        body: {
+          data: {
+            id: result.id,
+            status: result.status,
+            nextAttemptAt: result.nextAttemptAt,
+          },
+          success: true,
+          message: "Email delivery failed, retry scheduled",
+          error: result.error,
+        },
+      };
+    }
+
+    return {
+      status: 201,
+      body: {
+        data: {
+          id: result.id,
+        },
+        success: true,
+        message: "Email sent successfully",
+        error: null,
+      },
+    };
+  }
+
+  // клиенты без прав admin видят в списке только свои письма
+  private getOwnerFilter(req: Request): string | undefined {
+    const client = req.apiClient!;
+
+    return canAccessEmail(client, { apiClientId: null })
+      ? undefined
+      : client.id!;
+  }
+
+  // чужое письмо для клиента выглядит как несуществующее
+  private async assertEmailAccess(
+    req: Request,
+    emailId: string,
+  ): Promise<void> {
+    const email = await this.emailService.getEmailDetails(emailId);
+
+    if (email && !canAccessEmail(req.apiClient!, email)) {
+      throw new NotFoundError("Email");
+    }
+  }
+
+  private getBaseUrl(req: Request): string {
+    return config.publicUrl || `${req.protocol}://${req.get("host")}`;
+  }
+
+  private getIdempotencyKey(req: Request): string | null {
+    const key = req.get("Idempotency-Key");
+
+    if (key === undefined) {
+      return null;
+    }
+
+    const trimmed = key.trim();
+
+    if (trimmed.length === 0 || trimmed.length > 255) {
+      throw new ValidationError(
+        "Idempotency-Key must be between 1 and 255 characters",
+      );
+    }
+
+    return trimmed;
+  }
+
+  private getAuditContext(req: Request, res: Response): AuditContext {
+    return {
+      actor: res.locals.actor ?? "unknown",
+      ip: req.ip ?? null,
+    };
+  }
 }
@@ -2,12 +2,20 @@ class AppError extends Error {
   public message: string;
   public status: number;
   public code?: string;
-  constructor(message: string, status?: number, code?: string) {
+  // структурированные подробности ошибки, возвращаются клиенту в поле details
+  public details?: unknown;
+  constructor(
+    message: string,
+    status?: number,
+    code?: string,
+    details?: unknown,
+  ) {
     super(message);
 
     this.message = message;
     this.status = status || 500;
     this.code = code;
+    this.details = details;
     this.name = this.constructor.name;
 
     Error.captureStackTrace(this, this.constructor);
@@ -15,8 +23,8 @@ class AppError extends Error {
 }
 
 class ValidationError extends AppError {
-  constructor(message: string) {
-    super(message, 400, "VALIDATION_ERROR");
+  constructor(message: string, details?: unknown) {
+    super(message, 400, "VALIDATION_ERROR", details);
   }
 }
 
@@ -44,6 +52,22 @@ class UnauthorizedError extends AppError {
   }
 }
 
+class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(message, 403, "FORBIDDEN");
+  }
+}
+
+class TooManyRequestsError extends AppError {
+  // секунды, возвращаются в заголовке Retry-After
+  public retryAfter: number;
+  constructor(message: string, retryAfter: number, details?: unknown) {
+    super(message, 429, "RATE_LIMIT_EXCEEDED", details);
+
+    this.retryAfter = retryAfter;
+  }
+}
+
 export {
   AppError,
   ValidationError,
@@ -51,4 +75,6 @@ export {
   ConflictError,
   BadRequestError,
   UnauthorizedError,
+  ForbiddenError,
+  TooManyRequestsError,
 };
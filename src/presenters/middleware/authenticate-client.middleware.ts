@@ -0,0 +1,54 @@
+import type { Request, Response, NextFunction } from "express";
+import type { ApiClientsService } from "../../application/api-clients.service.ts";
+import type { AuthenticatedClient } from "../../domain/api-client.entity.ts";
+import { UnauthorizedError } from "../errors/app-error.ts";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // клиент API, от имени которого выполняется запрос
+      apiClient?: AuthenticatedClient;
+    }
+  }
+}
+
+// Ключ передается в заголовке ssy или как Authorization: Bearer <key>
+export const authenticateClient =
+  (apiClientsService: ApiClientsService) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const apiKey = getApiKey(req);
+
+      if (!apiKey) {
+        throw new UnauthorizedError("API key required");
+      }
+
+      const client = await apiClientsService.authenticate(
+        apiKey,
+        req.get("ssy-admin"),
+      );
+
+      if (!client) {
+        throw new UnauthorizedError("Invalid API key");
+      }
+
+      req.apiClient = client;
+      res.locals.actor = client.id ? `client:${client.id}` : client.name;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+const getApiKey = (req: Request): string | null => {
+  const header = req.get("ssy");
+
+  if (header) {
+    return header;
+  }
+
+  const authorization = req.get("authorization");
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+
+  return match ? match[1].trim() : null;
+};
@@ -1,26 +1,160 @@
 import type { NextFunction, Request, Response } from "express";
-import type { AppError } from "../errors/app-error.ts";
+import { ZodError } from "zod";
+import {
+  AppError,
+  ConflictError,
+  ForbiddenError,
+  TooManyRequestsError,
+  ValidationError,
+} from "../errors/app-error.ts";
+import {
+  TemplateConflictError,
+  TemplateNotFoundError,
+  TemplateVariablesError,
+  TestRecipientNotAllowedError,
+} from "../../application/errors/template-errors.ts";
+import { RecipientsSuppressedError } from "../../application/errors/suppression-errors.ts";
+import {
+  AttachmentsRejectedError,
+  VirusScanUnavailableError,
+} from "../../application/errors/attachment-errors.ts";
+import { WebhookUrlNotAllowedError } from "../../application/errors/webhook-errors.ts";
+import {
+  ApiClientNotFoundError,
+  SenderNotAllowedError,
+} from "../../application/errors/api-client-errors.ts";
+import { RateLimitExceededError } from "../../application/errors/rate-limit-errors.ts";
+import { EmailNotScheduledError } from "../../application/errors/email-errors.ts";
+import {
+  IdempotencyKeyInProgressError,
+  IdempotencyKeyMismatchError,
+} from "../../application/errors/idempotency-errors.ts";
+import multer from "multer";
 import { config as dotenvConfig } from "dotenv";
 
 dotenvConfig();
 
+// Ошибки слоя application и zod не знают про HTTP, сопоставляем их с AppError здесь
+const toAppError = (err: Error): AppError | Error => {
+  if (err instanceof AppError) {
+    return err;
+  }
+
+  if (err instanceof ZodError) {
+    return new ValidationError(
+      "Validation failed",
+      err.issues.map((issue) => ({
+        path: issue.path.join("."),
+        code: issue.code,
+        message: issue.message,
+      })),
+    );
+  }
+
+  if (err instanceof TemplateNotFoundError) {
+    return new AppError(err.message, 404, "NOT_FOUND");
+  }
+
+  if (err instanceof TemplateVariablesError) {
+    return new ValidationError(err.message, err.issues);
+  }
+
+  if (err instanceof TemplateConflictError) {
+    return new ConflictError(err.message);
+  }
+
+  if (err instanceof TestRecipientNotAllowedError) {
+    return new ForbiddenError(err.message);
+  }
+
+  if (err instanceof ApiClientNotFoundError) {
+    return new AppError(err.message, 404, "NOT_FOUND");
+  }
+
+  if (err instanceof SenderNotAllowedError) {
+    return new ForbiddenError(err.message);
+  }
+
+  if (
+    err instanceof IdempotencyKeyMismatchError ||
+    err instanceof IdempotencyKeyInProgressError
+  ) {
+    return new ConflictError(err.message);
+  }
+
+  if (err instanceof EmailNotScheduledError) {
+    return new ConflictError(err.message);
+  }
+
+  if (err instanceof RateLimitExceededError) {
+    return new TooManyRequestsError(err.message, err.retryAfter, {
+      limit: err.limit,
+      retryAfter: err.retryAfter,
+    });
+  }
+
+  if (err instanceof RecipientsSuppressedError) {
+    return new AppError(
+      err.message,
+      422,
+      "RECIPIENTS_SUPPRESSED",
+      err.recipients,
+    );
+  }
+
+  if (err instanceof AttachmentsRejectedError) {
+    return new AppError(
+      err.message,
+      422,
+      "ATTACHMENTS_REJECTED",
+      err.attachments,
+    );
+  }
+
+  if (err instanceof WebhookUrlNotAllowedError) {
+    return new ValidationError(err.message);
+  }
+
+  if (err instanceof VirusScanUnavailableError) {
+    return new AppError(err.message, 503, "VIRUS_SCAN_UNAVAILABLE");
+  }
+
+  // multer: превышен размер файла или количество файлов
+  if (err instanceof multer.MulterError) {
+    return new ValidationError(err.message, {
+      code: err.code,
+      field: err.field,
+    });
+  }
+
+  return err;
+};
+
 export const errorHandler = (
-  err: AppError,
+  error: Error,
   req: Request,
   res: Response,
   next: NextFunction,
 ) => {
+  const err = toAppError(error) as AppError;
+
   console.error(err.stack);
 
   // Default error
   let status = err.status || 500;
   let message = err.message || "Internal Server Error";
 
+  if (err instanceof TooManyRequestsError) {
+    res.setHeader("Retry-After", String(err.retryAfter));
+  }
+
   res.status(status).json({
     error: message,
+    ...(err.code && { code: err.code }),
+    ...(err.details !== undefined && { details: err.details }),
     ...(process.env.NODE_ENV !== "production" && {
       stack: err.stack,
-      details: err.message,
+      ...(err.details === undefined && { details: err.message }),
     }),
   });
 };
@@ -0,0 +1,19 @@
+import type { Request, Response, NextFunction } from "express";
+import type { RateLimitsService } from "../../application/rate-limits.service.ts";
+import { UnauthorizedError } from "../errors/app-error.ts";
+
+// Используется после authenticateClient: лимит запросов клиента в минуту
+export const limitRequests =
+  (rateLimitsService: RateLimitsService) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiClient) {
+      return next(new UnauthorizedError("API key required"));
+    }
+
+    try {
+      await rateLimitsService.consumeRequest(req.apiClient);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -0,0 +1,18 @@
+import type { Request, Response, NextFunction } from "express";
+import { hasScope } from "../../application/api-clients.service.ts";
+import type { ApiScope } from "../../domain/api-client.entity.ts";
+import { ForbiddenError, UnauthorizedError } from "../errors/app-error.ts";
+
+// Используется после authenticateClient, admin включает все права
+export const requireScope =
+  (scope: ApiScope) => (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiClient) {
+      return next(new UnauthorizedError("API key required"));
+    }
+
+    if (!hasScope(req.apiClient, scope)) {
+      return next(new ForbiddenError(`Scope "${scope}" required`));
+    }
+
+    next();
+  };
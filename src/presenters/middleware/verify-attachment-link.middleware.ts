@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from "express";
+import type { AttachmentLinksService } from "../../application/attachment-links.ts";
+import { AttachmentLinkQuerySchema } from "../../contracts/attachment-link.query.ts";
+import { ForbiddenError } from "../errors/app-error.ts";
+
+// Подписанная ссылка на вложение заменяет ключ клиента. Запрос без подписи
+// передается следующему маршруту, который требует ключ
+export const verifyAttachmentLink =
+  (attachmentLinksService: AttachmentLinksService) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (req.query.signature === undefined) {
+      return next("route");
+    }
+
+    const query = AttachmentLinkQuerySchema.safeParse(req.query);
+    const { id, attachmentId } = req.params as {
+      id: string;
+      attachmentId: string;
+    };
+
+    if (
+      !query.success ||
+      !attachmentLinksService.verify(
+        id,
+        attachmentId,
+        query.data.expires,
+        query.data.signature.toLowerCase(),
+      )
+    ) {
+      return next(new ForbiddenError("Invalid or expired link"));
+    }
+
+    res.locals.attachmentLink = true;
+    res.locals.actor = "link";
+    next();
+  };
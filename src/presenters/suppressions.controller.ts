@@ -0,0 +1,181 @@
+import type { Request, Response, NextFunction } from "express";
+import type { SuppressionsService } from "../application/suppressions.service.ts";
+import {
+  CreateSuppressionDtoSchema,
+  ListSuppressionsQuerySchema,
+  UpdateSuppressionDtoSchema,
+} from "../contracts/suppression.dto.ts";
+import { NotFoundError, ValidationError } from "./errors/app-error.ts";
+
+export class SuppressionsController {
+  private readonly suppressionsService: SuppressionsService;
+
+  constructor(suppressionsService: SuppressionsService) {
+    this.suppressionsService = suppressionsService;
+  }
+
+  async createSuppression(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = CreateSuppressionDtoSchema.parse(req.body);
+
+      const suppression = await this.suppressionsService.addSuppression({
+        type: validated.address ? "address" : "domain",
+        value: (validated.address ?? validated.domain)!,
+        reason: validated.reason,
+        source: this.getSource(res),
+        expiresAt: validated.expiresAt ?? null,
+      });
+
+      res.status(201).json({
+        data: suppression,
+        success: true,
+        message: "Suppression created successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSuppressions(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const filter = ListSuppressionsQuerySchema.parse(req.query);
+      const result = await this.suppressionsService.getSuppressions(filter);
+
+      res.json({
+        data: {
+          items: result.suppressions,
+          count: result.suppressions.length,
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+        },
+        success: true,
+        message: "Suppressions found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSuppression(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const suppression = await this.suppressionsService.getSuppression(
+        req.params.id,
+      );
+
+      if (!suppression) {
+        throw new NotFoundError("Suppression");
+      }
+
+      res.json({
+        data: suppression,
+        success: true,
+        message: "Suppression found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateSuppression(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = UpdateSuppressionDtoSchema.parse(req.body);
+
+      const suppression = await this.suppressionsService.updateSuppression({
+        id: req.params.id,
+        reason: validated.reason,
+        expiresAt: validated.expiresAt,
+      });
+
+      if (!suppression) {
+        throw new NotFoundError("Suppression");
+      }
+
+      res.json({
+        data: suppression,
+        success: true,
+        message: "Suppression updated successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteSuppression(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const suppression = await this.suppressionsService.deleteSuppression(
+        req.params.id,
+      );
+
+      if (!suppression) {
+        throw new NotFoundError("Suppression");
+      }
+
+      res.json({
+        data: { id: suppression.id },
+        success: true,
+        message: "Suppression deleted successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Импорт из CSV (тело запроса text/csv), см. parseSuppressionCsv
+   */
+  async importSuppressions(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      if (typeof req.body !== "string" || req.body.trim().length === 0) {
+        throw new ValidationError("CSV body is required");
+      }
+
+      const result = await this.suppressionsService.importCsv(
+        req.body,
+        `import:${this.getSource(res)}`,
+      );
+
+      res.json({
+        data: result,
+        success: true,
+        message: "Suppressions imported",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private getSource(res: Response): string {
+    return typeof res.locals.actor === "string" ? res.locals.actor : "api";
+  }
+}
@@ -0,0 +1,307 @@
+import type { Request, Response, NextFunction } from "express";
+import type {
+  TemplateSource,
+  TemplatesService,
+} from "../application/templates.service.ts";
+import {
+  CreateTemplateDtoSchema,
+  CreateTemplateVersionDtoSchema,
+  PreviewTemplateDtoSchema,
+  TestSendTemplateDtoSchema,
+  type PreviewTemplateDto,
+  TemplateVersionParamSchema,
+  UpdateTemplateDtoSchema,
+} from "../contracts/template.dto.ts";
+import type {
+  TemplateEntity,
+  TemplateVersionEntity,
+} from "../domain/template.entity.ts";
+
+export class TemplatesController {
+  private readonly templatesService: TemplatesService;
+
+  constructor(templatesService: TemplatesService) {
+    this.templatesService = templatesService;
+  }
+
+  async createTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = CreateTemplateDtoSchema.parse(req.body);
+
+      const { template, version } = await this.templatesService.createTemplate({
+        name: validated.name,
+        description: validated.description,
+        content: {
+          subject: validated.subject,
+          body: validated.body,
+          html: validated.html,
+          variables: validated.variables,
+        },
+      });
+
+      res.status(201).json({
+        data: {
+          ...this.mapTemplate(template),
+          activeVersion: this.mapVersion(version),
+        },
+        success: true,
+        message: "Template created successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getTemplates(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const templates = await this.templatesService.getTemplates();
+
+      res.json({
+        data: templates.map((template) => this.mapTemplate(template)),
+        success: true,
+        message: "Templates found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getTemplateDetails(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const details = await this.templatesService.getTemplateDetails(id);
+
+      res.json({
+        data: {
+          ...this.mapTemplate(details.template),
+          activeVersion: details.activeVersion
+            ? this.mapVersion(details.activeVersion)
+            : null,
+          versions: details.versions.map((version) => ({
+            version: version.version,
+            createdAt: version.createdAt,
+          })),
+        },
+        success: true,
+        message: "Template found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const validated = UpdateTemplateDtoSchema.parse(req.body);
+
+      const template = await this.templatesService.updateTemplate({
+        id,
+        ...validated,
+      });
+
+      res.json({
+        data: this.mapTemplate(template),
+        success: true,
+        message: "Template updated successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const template = await this.templatesService.deleteTemplate(id);
+
+      res.json({
+        data: {
+          id: template.id,
+        },
+        success: true,
+        message: "Template deleted successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createVersion(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { activate, ...content } = CreateTemplateVersionDtoSchema.parse(
+        req.body,
+      );
+
+      const version = await this.templatesService.addVersion(
+        id,
+        content,
+        activate,
+      );
+
+      res.status(201).json({
+        data: this.mapVersion(version),
+        success: true,
+        message: "Template version created successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getVersion(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const version = TemplateVersionParamSchema.parse(req.params.version);
+
+      const found = await this.templatesService.getVersion(id, version);
+
+      res.json({
+        data: this.mapVersion(found),
+        success: true,
+        message: "Template version found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async activateVersion(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const version = TemplateVersionParamSchema.parse(req.params.version);
+
+      const template = await this.templatesService.activateVersion(id, version);
+
+      res.json({
+        data: this.mapTemplate(template),
+        success: true,
+        message: "Template version activated successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async previewTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = PreviewTemplateDtoSchema.parse(req.body);
+
+      const rendered = await this.templatesService.preview(
+        this.toTemplateSource(validated),
+        validated.variables,
+      );
+
+      res.json({
+        data: rendered,
+        success: true,
+        message: "Template rendered successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async testSendTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = TestSendTemplateDtoSchema.parse(req.body);
+
+      const result = await this.templatesService.sendTest(
+        this.toTemplateSource(validated),
+        validated.variables,
+        Array.isArray(validated.to) ? validated.to : [validated.to],
+      );
+
+      res.json({
+        data: result,
+        success: true,
+        message: "Test email sent successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private toTemplateSource(dto: PreviewTemplateDto): TemplateSource {
+    if (dto.template) {
+      return { content: dto.template };
+    }
+
+    return { templateId: dto.templateId!, version: dto.version };
+  }
+
+  private mapTemplate(template: TemplateEntity) {
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      activeVersion: template.activeVersion,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    };
+  }
+
+  private mapVersion(version: TemplateVersionEntity) {
+    return {
+      id: version.id,
+      templateId: version.templateId,
+      version: version.version,
+      subject: version.subject,
+      body: version.body,
+      html: version.html,
+      variables: version.variables,
+      createdAt: version.createdAt,
+    };
+  }
+}
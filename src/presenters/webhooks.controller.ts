@@ -0,0 +1,218 @@
+import type { Request, Response, NextFunction } from "express";
+import { canAccessEmail } from "../application/api-clients.service.ts";
+import type { WebhooksService } from "../application/webhooks.service.ts";
+import {
+  CreateWebhookDtoSchema,
+  ListWebhookDeliveriesQuerySchema,
+  ReplayWebhookDeliveriesDtoSchema,
+  UpdateWebhookDtoSchema,
+} from "../contracts/webhook.dto.ts";
+import type { WebhookEntity } from "../domain/webhook.entity.ts";
+import { ForbiddenError, NotFoundError } from "./errors/app-error.ts";
+
+export class WebhooksController {
+  private readonly webhooksService: WebhooksService;
+
+  constructor(webhooksService: WebhooksService) {
+    this.webhooksService = webhooksService;
+  }
+
+  async createWebhook(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const client = req.apiClient!;
+
+      // события привязаны к клиенту письма, у общего ключа клиента нет
+      if (!client.id) {
+        throw new ForbiddenError(
+          "Webhooks can be registered only with an API client key",
+        );
+      }
+
+      const validated = CreateWebhookDtoSchema.parse(req.body);
+      const { webhook, secret } = await this.webhooksService.createWebhook({
+        clientId: client.id,
+        ...validated,
+      });
+
+      // секрет показывается только один раз
+      res.status(201).json({
+        data: { ...webhook, secret },
+        success: true,
+        message: "Webhook created successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getWebhooks(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const client = req.apiClient!;
+      const webhooks = await this.webhooksService.getWebhooks(
+        canAccessEmail(client, { apiClientId: null }) ? undefined : client.id!,
+      );
+
+      res.json({
+        data: { items: webhooks, count: webhooks.length },
+        success: true,
+        message: "Webhooks found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getWebhook(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const webhook = await this.findAccessibleWebhook(req);
+
+      res.json({
+        data: webhook,
+        success: true,
+        message: "Webhook found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateWebhook(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = UpdateWebhookDtoSchema.parse(req.body);
+
+      await this.findAccessibleWebhook(req);
+
+      const webhook = await this.webhooksService.updateWebhook({
+        id: req.params.id,
+        ...validated,
+      });
+
+      if (!webhook) {
+        throw new NotFoundError("Webhook");
+      }
+
+      res.json({
+        data: webhook,
+        success: true,
+        message: "Webhook updated successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteWebhook(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      await this.findAccessibleWebhook(req);
+
+      const webhook = await this.webhooksService.deleteWebhook(req.params.id);
+
+      if (!webhook) {
+        throw new NotFoundError("Webhook");
+      }
+
+      res.json({
+        data: webhook,
+        success: true,
+        message: "Webhook deleted successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getDeliveries(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const query = ListWebhookDeliveriesQuerySchema.parse(req.query);
+      const webhook = await this.findAccessibleWebhook(req);
+
+      const result = await this.webhooksService.getDeliveries({
+        webhookId: webhook.id,
+        ...query,
+      });
+
+      res.json({
+        data: {
+          items: result.deliveries,
+          count: result.deliveries.length,
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+        },
+        success: true,
+        message: "Webhook deliveries found successfully",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async replayDeliveries(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const validated = ReplayWebhookDeliveriesDtoSchema.parse(req.body ?? {});
+      const webhook = await this.findAccessibleWebhook(req);
+
+      const ids = await this.webhooksService.replayDeliveries(
+        webhook.id,
+        validated.deliveryIds,
+      );
+
+      res.status(202).json({
+        data: { items: ids, count: ids.length },
+        success: true,
+        message: "Webhook deliveries queued for replay",
+        error: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // чужой вебхук для клиента выглядит как несуществующий
+  private async findAccessibleWebhook(req: Request): Promise<WebhookEntity> {
+    const webhook = await this.webhooksService.getWebhook(req.params.id);
+
+    if (
+      !webhook ||
+      !canAccessEmail(req.apiClient!, { apiClientId: webhook.clientId })
+    ) {
+      throw new NotFoundError("Webhook");
+    }
+
+    return webhook;
+  }
+}
@@ -7,18 +7,79 @@ import { createDatabaseConfig, DatabasePool } from "./libs/db-client.ts";
 
 import { EmailRouter } from "./infrastructure/email.routes.ts";
 import { EmailsSqlRepository } from "./infrastructure/emails.sql.repository.ts";
+import { AuditLogSqlRepository } from "./infrastructure/audit-log.sql.repository.ts";
+import { TemplatesSqlRepository } from "./infrastructure/templates.sql.repository.ts";
+import { TemplatesService } from "./application/templates.service.ts";
+import { TemplatesController } from "./presenters/templates.controller.ts";
+import { TemplateRouter } from "./infrastructure/template.routes.ts";
 import { NodemailerProvider } from "./infrastructure/nodemailer-provider.ts";
+import { createEmailProviders } from "./infrastructure/email-providers.factory.ts";
+import { ProviderRegistry } from "./application/provider-registry.ts";
+import {
+  loadDomainThrottles,
+  loadProvidersConfig,
+} from "./config/providers.config.ts";
 import { EmailsController } from "./presenters/emails.controller.ts";
 import { EmailsService } from "./application/emails.service.ts";
 import { Scheduler } from "./infrastructure/scheduler.ts";
 import { EmailCleanupJob } from "./infrastructure/jobs/email-cleanup.ts";
+import { EmailDeliveryWorker } from "./infrastructure/jobs/email-delivery-worker.ts";
+import { BounceMailboxJob } from "./infrastructure/jobs/bounce-mailbox.ts";
+import { ScheduledEmailDispatcher } from "./infrastructure/jobs/scheduled-email-dispatcher.ts";
+import { DeliveryRecoveryJob } from "./infrastructure/jobs/delivery-recovery.ts";
+import { StorageOrphanSweeperJob } from "./infrastructure/jobs/storage-orphan-sweeper.ts";
+import { IdempotencyKeysSqlRepository } from "./infrastructure/idempotency-keys.sql.repository.ts";
+import { IdempotencyService } from "./application/idempotency.service.ts";
+import { Migrator } from "./libs/migrator.ts";
+import { ApiClientsSqlRepository } from "./infrastructure/api-clients.sql.repository.ts";
+import { ApiClientsService } from "./application/api-clients.service.ts";
+import { ApiClientsController } from "./presenters/api-clients.controller.ts";
+import { ApiClientRouter } from "./infrastructure/api-client.routes.ts";
+import { authenticateClient } from "./presenters/middleware/authenticate-client.middleware.ts";
+import { limitRequests } from "./presenters/middleware/rate-limit.middleware.ts";
+import { RateLimitsSqlRepository } from "./infrastructure/rate-limits.sql.repository.ts";
+import { RateLimitsMemoryRepository } from "./infrastructure/rate-limits.memory.repository.ts";
+import { RateLimitsService } from "./application/rate-limits.service.ts";
+import { BouncesService } from "./application/bounces.service.ts";
+import { BouncesController } from "./presenters/bounces.controller.ts";
+import { BounceRouter } from "./infrastructure/bounce.routes.ts";
+import { SuppressionsSqlRepository } from "./infrastructure/suppressions.sql.repository.ts";
+import { SuppressionsService } from "./application/suppressions.service.ts";
+import { AttachmentsService } from "./application/attachments.service.ts";
+import { StorageService } from "./application/storage.service.ts";
+import { AttachmentsSqlRepository } from "./infrastructure/attachments.sql.repository.ts";
+import { createStorageBackend } from "./infrastructure/storage/storage-backend.factory.ts";
+import { HttpAttachmentFetcher } from "./infrastructure/http-attachment-fetcher.ts";
+import { ClamAvScanner } from "./infrastructure/clamav-scanner.ts";
+import { AttachmentLinksService } from "./application/attachment-links.ts";
+import { verifyAttachmentLink } from "./presenters/middleware/verify-attachment-link.middleware.ts";
+import { SuppressionsController } from "./presenters/suppressions.controller.ts";
+import { SuppressionRouter } from "./infrastructure/suppression.routes.ts";
+import { WebhooksSqlRepository } from "./infrastructure/webhooks.sql.repository.ts";
+import { EmailEventsOutboxSqlRepository } from "./infrastructure/email-events-outbox.sql.repository.ts";
+import { HttpWebhookSender } from "./infrastructure/http-webhook-sender.ts";
+import { WebhooksService } from "./application/webhooks.service.ts";
+import { WebhooksController } from "./presenters/webhooks.controller.ts";
+import { WebhookRouter } from "./infrastructure/webhook.routes.ts";
+import { WebhookDeliveryWorker } from "./infrastructure/jobs/webhook-delivery-worker.ts";
+import { EmailEventsOutboxRelay } from "./infrastructure/jobs/email-events-outbox-relay.ts";
+import { EmailEventsOutbox } from "./application/email-events-outbox.ts";
+import { EmailEventDestination } from "./domain/email-event.ts";
 
-import { RabbitMQService } from "./infrastructure/queue/rabbitmq.service.ts";
+import {
+  RabbitMQConnectionState,
+  RabbitMQService,
+} from "./infrastructure/queue/rabbitmq.service.ts";
 import { EmailConsumer } from "./infrastructure/queue/email-consumer.ts";
+import { RabbitMQEventsPublisher } from "./infrastructure/queue/rabbitmq-events-publisher.ts";
 
 let db: DatabasePool;
-let emailProvider: NodemailerProvider;
+let emailProvider: ProviderRegistry;
 let scheduler: Scheduler;
+let deliveryWorker: EmailDeliveryWorker | null = null;
+let webhookWorker: WebhookDeliveryWorker | null = null;
+let eventsOutboxRelay: EmailEventsOutboxRelay | null = null;
+let queueService: RabbitMQService;
 
 const app: Express = express();
 
@@ -36,40 +97,204 @@ try {
   // db
   db = new DatabasePool(createDatabaseConfig());
 
-  // health check
+  if (config.migrations.runOnStartup) {
+    const applied = await new Migrator(db, config.migrations.dir).up();
+    console.log(`Migrations applied on startup: ${applied.length}`);
+  }
+
+  // RabbitMQ (подключение ниже, после регистрации маршрутов)
+  queueService = new RabbitMQService();
+
+  // health check. Без соединения с RabbitMQ сервис работает (HTTP API, воркеры),
+  // но очередь и события недоступны - статус DEGRADED
   app.get("/api/v2/health", async (req, res) => {
+    const rabbitmqState = queueService.state;
+
     res.status(200).json({
-      status: "OK",
+      status:
+        rabbitmqState === RabbitMQConnectionState.CONNECTED ? "OK" : "DEGRADED",
       timestamp: new Date().toISOString(),
       service: "Email service",
+      rabbitmq: { state: rabbitmqState },
     });
   });
 
   // routes
 
   // dependencies
-  const emailsRepository = new EmailsSqlRepository(db);
+  // события статуса писем записываются в outbox в транзакции изменения письма
+  // для журнала вебхуков клиентов и exchange событий в RabbitMQ
+  const emailEventDestinations: EmailEventDestination[] = [
+    EmailEventDestination.WEBHOOKS,
+  ];
 
-  // Создает транспорт и подключается к почтовому сервису
-  emailProvider = new NodemailerProvider();
+  if (config.rabbitmq.eventsEnabled) {
+    emailEventDestinations.push(EmailEventDestination.BROKER);
+  }
 
-  emailProvider.transporterInstance.verify((err, success) => {
-    if (err) {
-      console.error("Nodemailer connection error:", err);
-    }
+  const emailEventsOutboxRepository = new EmailEventsOutboxSqlRepository(
+    db,
+    emailEventDestinations,
+  );
+  const emailsRepository = new EmailsSqlRepository(
+    db,
+    emailEventsOutboxRepository,
+  );
+  const auditLogRepository = new AuditLogSqlRepository(db);
+  const templatesRepository = new TemplatesSqlRepository(db);
+  const suppressionsRepository = new SuppressionsSqlRepository(db);
+  const idempotencyKeysRepository = new IdempotencyKeysSqlRepository(db);
+  const apiClientsRepository = new ApiClientsSqlRepository(db);
+  const webhooksRepository = new WebhooksSqlRepository(db);
+  const rateLimitsRepository =
+    config.rateLimits.store === "memory"
+      ? new RateLimitsMemoryRepository()
+      : new RateLimitsSqlRepository(db);
+
+  const rateLimitsService = new RateLimitsService(
+    rateLimitsRepository,
+    loadDomainThrottles(),
+  );
+
+  // вложения: локальный диск или S3-совместимое хранилище (STORAGE_DRIVER)
+  // одинаковые файлы хранятся один раз, объект удаляется вместе с последней ссылкой
+  const storageService = new StorageService(
+    createStorageBackend(),
+    new AttachmentsSqlRepository(db),
+  );
+  // проверка вложений при приеме и загрузка по url при отправке
+  const attachmentsService = new AttachmentsService(
+    storageService,
+    new HttpAttachmentFetcher(),
+    config.attachments.scanner === "clamav" ? new ClamAvScanner() : null,
+  );
+
+  // подписанные ссылки на скачивание вложений (ATTACHMENT_LINK_SECRET)
+  const attachmentLinksService = new AttachmentLinksService();
+
+  // Создает провайдеров отправки (SMTP транспорты подключаются к почтовым серверам)
+  const providersConfig = loadProvidersConfig();
+  emailProvider = new ProviderRegistry(
+    createEmailProviders(
+      providersConfig.providers,
+      attachmentsService,
+      storageService,
+    ),
+    providersConfig.routingRules,
+    rateLimitsService,
+  );
 
-    if (success) {
-      console.log(
-        "Nodemailer is ready to send emails on port",
-        config.smtp.port,
-      );
+  for (const { name, provider } of emailProvider.registeredProviders) {
+    if (!(provider instanceof NodemailerProvider)) {
+      continue;
     }
+
+    provider.transporterInstance.verify((err, success) => {
+      if (err) {
+        console.error(`Nodemailer connection error (${name}):`, err);
+      }
+
+      if (success) {
+        console.log(`Nodemailer provider ${name} is ready to send emails`);
+      }
+    });
+  }
+
+  const templatesService = new TemplatesService(
+    templatesRepository,
+    emailProvider,
+  );
+  const suppressionsService = new SuppressionsService(suppressionsRepository);
+  const idempotencyService = new IdempotencyService(idempotencyKeysRepository);
+  const apiClientsService = new ApiClientsService(apiClientsRepository);
+  const webhooksService = new WebhooksService(
+    webhooksRepository,
+    new HttpWebhookSender(),
+  );
+
+  // события из outbox передаются получателям с повторами, пока получатель их не примет
+  const emailEventsOutbox = new EmailEventsOutbox(emailEventsOutboxRepository, {
+    [EmailEventDestination.WEBHOOKS]: webhooksService,
+    ...(config.rabbitmq.eventsEnabled && {
+      [EmailEventDestination.BROKER]: new RabbitMQEventsPublisher(
+        queueService,
+        config.rabbitmq.eventsExchange,
+      ),
+    }),
   });
+  const emailsService = new EmailsService(
+    emailsRepository,
+    emailProvider,
+    auditLogRepository,
+    templatesService,
+    suppressionsService,
+    rateLimitsService,
+    storageService,
+  );
+  const bouncesService = new BouncesService(
+    emailsRepository,
+    suppressionsService,
+  );
+  const emailsController = new EmailsController(
+    emailsService,
+    idempotencyService,
+    rateLimitsService,
+    attachmentsService,
+    attachmentLinksService,
+  );
+  const templatesController = new TemplatesController(templatesService);
+  const bouncesController = new BouncesController(bouncesService);
+  const suppressionsController = new SuppressionsController(
+    suppressionsService,
+  );
+  const apiClientsController = new ApiClientsController(apiClientsService);
+  const webhooksController = new WebhooksController(webhooksService);
+
+  // все маршруты API, кроме health check, требуют ключ клиента
+  // и учитываются в лимите запросов клиента
+  const authenticate = [
+    authenticateClient(apiClientsService),
+    limitRequests(rateLimitsService),
+  ];
 
-  const emailsService = new EmailsService(emailsRepository, emailProvider);
-  const emailsController = new EmailsController(emailsService);
+  // подписанная ссылка на вложение работает без ключа клиента,
+  // запрос без подписи проходит дальше в маршрут с ключом
+  app.get(
+    "/api/v2/emails/:id/attachments/:attachmentId",
+    verifyAttachmentLink(attachmentLinksService),
+    emailsController.downloadAttachment.bind(emailsController),
+  );
 
-  app.use("/api/v2/emails", new EmailRouter(emailsController).router);
+  app.use(
+    "/api/v2/emails",
+    authenticate,
+    new EmailRouter(emailsController).router,
+  );
+  app.use(
+    "/api/v2/templates",
+    authenticate,
+    new TemplateRouter(templatesController).router,
+  );
+  app.use(
+    "/api/v2/bounces",
+    authenticate,
+    new BounceRouter(bouncesController).router,
+  );
+  app.use(
+    "/api/v2/suppressions",
+    authenticate,
+    new SuppressionRouter(suppressionsController).router,
+  );
+  app.use(
+    "/api/v2/clients",
+    authenticate,
+    new ApiClientRouter(apiClientsController).router,
+  );
+  app.use(
+    "/api/v2/webhooks",
+    authenticate,
+    new WebhookRouter(webhooksController).router,
+  );
 
   // 404 handler
   app.use((req, res) => {
@@ -81,35 +306,108 @@ try {
 
   app.use(errorHandler);
 
-  // RabbitMQ Consumer
-  const queueService = new RabbitMQService();
-  await queueService.connect();
+  // RabbitMQ Consumer. Подключение не блокирует запуск HTTP сервера:
+  // попытки повторяются в фоне, consumer запустится после подключения
+  queueService.connect().catch((error) => {
+    console.error("Failed to connect to RabbitMQ:", error);
+  });
 
-  const emailConsumer = new EmailConsumer(queueService, emailsService);
+  const emailConsumer = new EmailConsumer(
+    queueService,
+    emailsService,
+    idempotencyService,
+    attachmentsService,
+  );
   await emailConsumer.start();
 
+  // в bucket без префикса могут быть чужие объекты, уборщик там не запускается
+  const sweepStorage =
+    config.storage.driver !== "s3" || config.storage.s3.prefix !== "";
+
+  if (!sweepStorage) {
+    console.warn(
+      "S3_PREFIX is empty, orphaned attachment files will not be swept",
+    );
+  }
+
+  const storageOrphanSweeperJob = sweepStorage
+    ? new StorageOrphanSweeperJob(storageService)
+    : null;
+
   // Scheduler
   scheduler = new Scheduler(
     new EmailCleanupJob(emailsRepository, emailsService),
+    new ScheduledEmailDispatcher(emailsService, {
+      batchSize: config.scheduling.dispatchBatchSize,
+    }),
+    new DeliveryRecoveryJob(emailsService),
+    idempotencyService,
+    rateLimitsService,
+    webhooksService,
+    storageOrphanSweeperJob,
+    config.bounces.maildir
+      ? new BounceMailboxJob(bouncesService, config.bounces.maildir)
+      : null,
   );
   scheduler.initializeCronJobs();
+
+  // Воркер асинхронной отправки (письма в статусе QUEUED)
+  if (config.delivery.workerEnabled) {
+    deliveryWorker = new EmailDeliveryWorker(emailsService, {
+      pollInterval: config.delivery.pollInterval,
+      batchSize: config.delivery.batchSize,
+    });
+    deliveryWorker.start();
+  }
+
+  // Воркер доставки событий на вебхуки клиентов
+  if (config.webhooks.workerEnabled) {
+    webhookWorker = new WebhookDeliveryWorker(webhooksService, {
+      pollInterval: config.webhooks.pollInterval,
+      batchSize: config.webhooks.batchSize,
+    });
+    webhookWorker.start();
+  }
+
+  // Передача событий из outbox в журнал вебхуков и exchange событий RabbitMQ
+  eventsOutboxRelay = new EmailEventsOutboxRelay(emailEventsOutbox, {
+    pollInterval: config.eventsOutbox.pollInterval,
+    batchSize: config.eventsOutbox.batchSize,
+  });
+  eventsOutboxRelay.start();
 } catch (error) {
   console.error(error);
   throw error;
 }
 
+const closeEmailProviders = () => {
+  for (const { provider } of emailProvider?.registeredProviders ?? []) {
+    if (provider instanceof NodemailerProvider) {
+      provider.transporterInstance.close();
+    }
+  }
+};
+
 process.on("SIGTERM", async () => {
   console.log("SIGTERM received, closing database connection...");
+  await deliveryWorker?.stop();
+  await webhookWorker?.stop();
+  await eventsOutboxRelay?.stop();
+  await queueService?.close();
   await db.close();
-  emailProvider.transporterInstance.close();
+  closeEmailProviders();
   scheduler.stopAll();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
   console.log("SIGINT received, closing database connection...");
+  await deliveryWorker?.stop();
+  await webhookWorker?.stop();
+  await eventsOutboxRelay?.stop();
+  await queueService?.close();
   await db.close();
-  emailProvider.transporterInstance.close();
+  closeEmailProviders();
   scheduler.stopAll();
   process.exit(0);
 });